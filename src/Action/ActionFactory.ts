@@ -19,6 +19,14 @@ import ContributorAction, {ContributorActionJson} from "./ContributorAction";
 import {StructuredFilter} from "../Common/Infrastructure/Filters/FilterShapes";
 import {ModNoteAction, ModNoteActionJson} from "./ModNoteAction";
 import {SubmissionAction, SubmissionActionJson} from "./SubmissionAction";
+import UnbanAction, {UnbanActionJson} from "./UnbanAction";
+import MuteAction, {MuteActionJson} from "./MuteAction";
+import UnmuteAction, {UnmuteActionJson} from "./UnmuteAction";
+import WikiAction, {WikiActionJson} from "./WikiAction";
+import StateAction, {StateActionJson} from "./StateAction";
+import CrosspostAction, {CrosspostActionJson} from "./CrosspostAction";
+import ModmailDiscussionAction, {ModmailDiscussionActionJson} from "./ModmailDiscussionAction";
+import HttpAction, {HttpActionJson} from "./HttpAction";
 
 export function actionFactory
 (config: StructuredActionJson, runtimeOptions: ActionRuntimeOptions): Action {
@@ -53,6 +61,22 @@ export function actionFactory
             return new ContributorAction({...config as StructuredFilter<ContributorActionJson>, ...runtimeOptions})
         case 'modnote':
             return new ModNoteAction({...config as StructuredFilter<ModNoteActionJson>, ...runtimeOptions})
+        case 'unban':
+            return new UnbanAction({...config as StructuredFilter<UnbanActionJson>, ...runtimeOptions})
+        case 'mute':
+            return new MuteAction({...config as StructuredFilter<MuteActionJson>, ...runtimeOptions})
+        case 'unmute':
+            return new UnmuteAction({...config as StructuredFilter<UnmuteActionJson>, ...runtimeOptions})
+        case 'wiki':
+            return new WikiAction({...config as StructuredFilter<WikiActionJson>, ...runtimeOptions})
+        case 'state':
+            return new StateAction({...config as StructuredFilter<StateActionJson>, ...runtimeOptions})
+        case 'crosspost':
+            return new CrosspostAction({...config as StructuredFilter<CrosspostActionJson>, ...runtimeOptions})
+        case 'modmail':
+            return new ModmailDiscussionAction({...config as StructuredFilter<ModmailDiscussionActionJson>, ...runtimeOptions})
+        case 'http':
+            return new HttpAction({...config as StructuredFilter<HttpActionJson>, ...runtimeOptions})
         default:
             throw new Error('rule "kind" was not recognized.');
     }
@@ -7,12 +7,14 @@ import Comment from "snoowrap/dist/objects/Comment";
 import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
 import {runCheckOptions} from "../Subreddit/Manager";
 import {ActionTarget, ActionTypes} from "../Common/Infrastructure/Atomic";
-import {asComment, asSubmission} from "../util";
+import {asComment, asSubmission, removeUndefinedKeys} from "../util";
 import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {activityIsFiltered, activityIsRemoved} from "../Utils/SnoowrapUtils";
 
 export class ApproveAction extends Action {
 
     targets: ActionTarget[]
+    restore?: Required<ApproveRestoreOptions>
 
     getKind(): ActionTypes {
         return 'approve';
@@ -21,13 +23,30 @@ export class ApproveAction extends Action {
     constructor(options: ApproveOptions) {
         super(options);
         const {
-            targets = ['self']
+            targets = ['self'],
+            restore,
         } = options;
 
         this.targets = targets;
+        if (restore !== undefined && restore !== false) {
+            const {
+                ignoreReports = true,
+                restoreParents = true,
+                unlock = true,
+            } = restore === true ? {} : restore;
+            this.restore = {
+                ignoreReports,
+                restoreParents,
+                unlock
+            };
+        }
     }
 
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        if (this.restore !== undefined) {
+            return await this.processRestore(item, options);
+        }
+
         const dryRun = this.getRuntimeAwareDryrun(options);
         const touchedEntities = [];
 
@@ -84,13 +103,191 @@ export class ApproveAction extends Action {
         }
     }
 
+    /**
+     * Approve target(s) and run each restore step, recording the outcome of every step individually
+     *
+     * A failed step does not stop the remaining steps from running
+     * */
+    protected async processRestore(item: Comment | Submission, options: runCheckOptions): Promise<ActionProcessResult> {
+        const dryRun = this.getRuntimeAwareDryrun(options);
+        const touchedEntities: (Comment | Submission)[] = [];
+        const {ignoreReports, restoreParents, unlock} = this.restore as Required<ApproveRestoreOptions>;
+
+        const steps: ApproveRestoreStepResult[] = [];
+        const runStep = async (target: string, step: string, func: () => Promise<string | undefined>) => {
+            try {
+                const result = await func();
+                if (result !== undefined) {
+                    steps.push({target, step, success: true, result});
+                }
+            } catch (err: any) {
+                this.logger.warn(`[${target}] ${step} failed: ${err.message}`);
+                steps.push({target, step, success: false, result: err.message});
+            }
+        }
+
+        const realTargets = asSubmission(item) ? ['self'] : this.targets;
+
+        for (const target of realTargets) {
+            let targetItem: Comment | Submission = item;
+            let targetName = 'Item';
+            if (target !== 'self' && asComment(item)) {
+                targetName = 'Parent Submission';
+                try {
+                    // make sure we have an actual item and not just a plain object from cache
+                    // @ts-ignore
+                    targetItem = await this.client.getSubmission(item.link_id).fetch();
+                } catch (err: any) {
+                    steps.push({target: targetName, step: 'Approve', success: false, result: `Could not fetch parent Submission: ${err.message}`});
+                    continue;
+                }
+            }
+
+            const reportCount = targetItem.num_reports ?? 0;
+
+            await runStep(targetName, 'Approve', async () => {
+                // reddit only clears reports by approving so an already approved activity with reports is approved again
+                // @ts-ignore
+                if (targetItem.approved && reportCount === 0) {
+                    return 'Already approved';
+                }
+                if (!dryRun) {
+                    // @ts-ignore
+                    await targetItem.approve();
+                    // @ts-ignore
+                    targetItem.approved = true;
+                    touchedEntities.push(targetItem);
+                }
+                return reportCount === 0 ? 'Approved' : `Approved, clearing ${reportCount} report(s)`;
+            });
+
+            if (ignoreReports) {
+                await runStep(targetName, 'Ignore Reports', async () => {
+                    // @ts-ignore
+                    if (targetItem.ignore_reports === true) {
+                        return 'Already ignoring reports';
+                    }
+                    if (!dryRun) {
+                        // @ts-ignore
+                        await targetItem.ignoreReports();
+                        // @ts-ignore
+                        targetItem.ignore_reports = true;
+                    }
+                    return 'Ignoring reports';
+                });
+            }
+
+            if (unlock) {
+                await runStep(targetName, 'Unlock', async () => {
+                    // @ts-ignore
+                    if (!targetItem.locked) {
+                        return 'Not locked';
+                    }
+                    if (!dryRun) {
+                        // @ts-ignore
+                        await targetItem.unlock();
+                        // @ts-ignore
+                        targetItem.locked = false;
+                    }
+                    return 'Unlocked';
+                });
+            }
+
+            if (restoreParents && target === 'self' && asComment(targetItem)) {
+                await runStep(targetName, 'Restore Parents', async () => {
+                    const restored = await this.restoreParentComments(targetItem as Comment, dryRun, touchedEntities);
+                    return restored.length === 0 ? 'No removed parent Comments' : `Approved parent Comments ${restored.join(', ')}`;
+                });
+            }
+
+            if (!dryRun) {
+                await this.resources.resetCacheForItem(targetItem);
+            }
+        }
+
+        const result = steps.map(x => `[${x.target}] ${x.step}: ${x.success ? 'OK' : 'FAILED'} (${x.result})`).join(' | ');
+        const success = steps.every(x => x.success);
+        if (success) {
+            this.logger.verbose(result);
+        } else {
+            this.logger.warn(result);
+        }
+
+        return {
+            result,
+            dryRun,
+            success,
+            touchedEntities,
+            data: {
+                steps
+            }
+        }
+    }
+
+    /**
+     * Walk up the Comment chain, approving any removed or filtered parent Comments, until the Submission is reached
+     *
+     * @returns Fullnames of parent Comments that were (or would be, on dry run) approved
+     * */
+    protected async restoreParentComments(comment: Comment, dryRun: boolean, touchedEntities: (Comment | Submission)[]): Promise<string[]> {
+        const restored: string[] = [];
+        let parentId = comment.parent_id;
+        while (parentId.startsWith('t1_')) {
+            // @ts-ignore
+            const parent: Comment = await this.client.getComment(parentId).fetch();
+            if (activityIsRemoved(parent) || activityIsFiltered(parent)) {
+                if (!dryRun) {
+                    // @ts-ignore
+                    await parent.approve();
+                    touchedEntities.push(parent);
+                    await this.resources.resetCacheForItem(parent);
+                }
+                restored.push(parent.name);
+            }
+            parentId = parent.parent_id;
+        }
+        return restored;
+    }
+
     protected getSpecificPremise(): object {
         return {
-            targets: this.targets
+            targets: this.targets,
+            // only include when present so premises for existing approve actions are unchanged
+            ...removeUndefinedKeys({restore: this.restore})
         }
     }
 }
 
+export interface ApproveRestoreStepResult {
+    target: string
+    step: string
+    success: boolean
+    result: string
+}
+
+export interface ApproveRestoreOptions {
+    /**
+     * Ignore any future reports on the approved Activity
+     *
+     * @default true
+     * */
+    ignoreReports?: boolean
+
+    /**
+     * If the Activity is a Comment, approve any removed or filtered Comments in its parent chain (up to the Submission)
+     *
+     * @default true
+     * */
+    restoreParents?: boolean
+
+    /**
+     * Unlock the Activity if it is locked
+     *
+     * @default true
+     * */
+    unlock?: boolean
+}
+
 export interface ApproveOptions extends Omit<ApproveActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {}
 
 export interface ApproveActionConfig extends ActionConfig {
@@ -103,6 +300,17 @@ export interface ApproveActionConfig extends ActionConfig {
      * * parent => approve parent (submission) of activity being checked (comment)
      * */
     targets?: ActionTarget[]
+
+    /**
+     * Restore the Activity instead of only approving it
+     *
+     * Approves the target(s), which clears existing reports, and then (by default) ignores future reports, approves removed parent Comments, and unlocks. A target that is already approved but has reports is approved again. Each step's outcome is recorded individually in the Action result.
+     *
+     * If `true` all steps are run. Specify an object to disable individual steps.
+     *
+     * @examples [true]
+     * */
+    restore?: boolean | ApproveRestoreOptions
 }
 
 /**
@@ -5,9 +5,12 @@ import {renderContent} from "../Utils/SnoowrapUtils";
 import {ActionProcessResult, Footer, RuleResult} from "../Common/interfaces";
 import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
 import {runCheckOptions} from "../Subreddit/Manager";
-import {ActionTypes} from "../Common/Infrastructure/Atomic";
-import {truncateStringToLength} from "../util";
+import {ActionTypes, DurationVal} from "../Common/Infrastructure/Atomic";
+import {parseDurationValToDuration, truncateStringToLength} from "../util";
 import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {ModLogCriteria, ModNoteCriteria} from "../Common/Infrastructure/Filters/FilterCriteria";
+import {SimpleError} from "../Utils/Errors";
+import dayjs from "dayjs";
 
 const truncate = truncateStringToLength(100);
 const truncateLongMessage = truncateStringToLength(200);
@@ -26,6 +29,7 @@ export class BanAction extends Action {
     duration?: number;
     note?: string;
     footer?: false | string;
+    escalation?: BanEscalationConfig;
 
     constructor(options: BanActionOptions) {
         super(options);
@@ -35,7 +39,12 @@ export class BanAction extends Action {
             duration,
             note,
             footer,
+            escalation,
         } = options;
+        if(escalation !== undefined && (!Array.isArray(escalation.steps) || escalation.steps.length === 0)) {
+            throw new SimpleError(`Ban 'escalation' must have at least one step`);
+        }
+        this.escalation = escalation;
         this.footer = footer;
         this.message = message;
         this.reason = reason;
@@ -47,21 +56,60 @@ export class BanAction extends Action {
         return 'ban';
     }
 
+    /**
+     * Determine ban duration from the number of prior strikes (mod notes/actions matching escalation criteria) the Author has
+     * */
+    async resolveEscalation(item: Comment | Submission): Promise<BanEscalationResult> {
+        const {
+            steps,
+            // BAN type notes also include unbans
+            strikes = {type: 'BAN', action: '/^banuser$/i'},
+            window,
+        } = this.escalation as BanEscalationConfig;
+
+        const modNotes = await this.resources.getAuthorModNotesByActivityAuthor(item);
+        let [validNotes] = this.resources.filterAuthorModActions(modNotes, {...strikes, search: 'total'}, item);
+        if(window !== undefined) {
+            const cutoff = dayjs().subtract(parseDurationValToDuration(window));
+            validNotes = validNotes.filter(x => x.createdAt.isSameOrAfter(cutoff));
+        }
+        const priorStrikes = validNotes.length;
+        const stepIndex = Math.min(priorStrikes, steps.length - 1);
+        const stepVal = steps[stepIndex];
+        return {
+            step: stepIndex + 1,
+            totalSteps: steps.length,
+            priorStrikes,
+            duration: stepVal === 'permanent' ? undefined : stepVal,
+        };
+    }
+
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
         const dryRun = this.getRuntimeAwareDryrun(options);
-        const renderedBody = await this.renderContent(this.message, item, ruleResults, actionResults);
+
+        let duration = this.duration;
+        let escalation: BanEscalationResult | undefined;
+        if(this.escalation !== undefined) {
+            escalation = await this.resolveEscalation(item);
+            duration = escalation.duration;
+            this.logger.verbose(`Escalation step ${escalation.step} of ${escalation.totalSteps} from ${escalation.priorStrikes} prior strikes`);
+        }
+        const templateData = {...this.getTemplateData(options), escalation};
+
+        const renderedBody = this.message === undefined ? undefined : await this.resources.renderContent(this.message, item, ruleResults, actionResults, templateData);
         const renderedContent = renderedBody === undefined ? undefined : `${renderedBody}${await this.resources.renderFooter(item, this.footer)}`;
 
-        const renderedReason = truncateIfNotUndefined(await this.renderContent(this.reason, item, ruleResults, actionResults) as string);
-        const renderedNote = truncateIfNotUndefined(await this.renderContent(this.note, item, ruleResults, actionResults) as string);
+        const renderedReason = truncateIfNotUndefined(this.reason === undefined ? undefined : await this.resources.renderContent(this.reason, item, ruleResults, actionResults, templateData));
+        const renderedNote = truncateIfNotUndefined(this.note === undefined ? undefined : await this.resources.renderContent(this.note, item, ruleResults, actionResults, templateData));
 
         const touchedEntities = [];
         let banPieces = [];
         banPieces.push(`Message: ${renderedContent === undefined ? 'None' : `${renderedContent.length > 100 ? `\r\n${truncateLongMessage(renderedContent)}` : renderedContent}`}`);
         banPieces.push(`Reason:  ${renderedReason || 'None'}`);
         banPieces.push(`Note:    ${renderedNote || 'None'}`);
-        const durText = this.duration === undefined ? 'permanently' : `for ${this.duration} days`;
-        this.logger.info(`Banning ${item.author.name} ${durText}${this.reason !== undefined ? ` (${this.reason})` : ''}`);
+        const durText = duration === undefined ? 'permanently' : `for ${duration} days`;
+        const escalationText = escalation === undefined ? '' : ` [Escalation step ${escalation.step}/${escalation.totalSteps}, ${escalation.priorStrikes} prior strikes]`;
+        this.logger.info(`Banning ${item.author.name} ${durText}${this.reason !== undefined ? ` (${this.reason})` : ''}${escalationText}`);
         this.logger.verbose(`\r\n${banPieces.join('\r\n')}`);
         if (!dryRun) {
             // @ts-ignore
@@ -72,20 +120,24 @@ export class BanAction extends Action {
                 banMessage: renderedContent === undefined ? undefined : renderedContent,
                 banReason: renderedReason,
                 banNote: renderedNote,
-                duration: this.duration
+                duration
             });
             touchedEntities.push(bannedUser);
+            // reddit creates a ban mod note so cached notes are stale (and would undercount strikes for escalation)
+            await this.resources.resetAuthorModNotesCache(item.author);
+            await this.resources.resetCacheForItem(item.author);
         }
         return {
             dryRun,
             success: true,
-            result: `Banned ${item.author.name} ${durText}${renderedReason !== undefined ? ` (${renderedReason})` : ''}`,
+            result: `Banned ${item.author.name} ${durText}${renderedReason !== undefined ? ` (${renderedReason})` : ''}${escalationText}`,
             touchedEntities,
             data: {
                 message: renderedContent === undefined ? undefined : renderedContent,
                 reason: renderedReason,
                 note: renderedNote,
-                duration: durText
+                duration: durText,
+                escalation,
             }
         };
     }
@@ -96,7 +148,9 @@ export class BanAction extends Action {
             duration: this.duration,
             reason: this.reason,
             note: this.note,
-            footer: this.footer
+            footer: this.footer,
+            // only include when present so premises for existing ban actions are unchanged
+            ...(this.escalation !== undefined ? {escalation: this.escalation} : {})
         }
     }
 }
@@ -139,6 +193,56 @@ export interface BanActionConfig extends ActionConfig, Footer {
      * @examples ["Sock puppet for u/AnotherUser"]
      * */
     note?: string
+
+    /**
+     * Determine the ban duration from the number of prior "strikes" the Author has in this subreddit, instead of using a fixed `duration`
+     *
+     * If present `duration` is ignored.
+     * */
+    escalation?: BanEscalationConfig
+}
+
+export interface BanEscalationConfig {
+    /**
+     * Ban duration, in days, for each step of the ladder. Use `permanent` for a permanent ban.
+     *
+     * The step used is the Author's number of prior strikes + 1 -- an Author with no strikes gets the first step. If the Author has more strikes than there are steps the last step is used.
+     *
+     * @examples [[3, 14, "permanent"]]
+     * */
+    steps: (number | 'permanent')[]
+
+    /**
+     * Mod Notes/Mod Actions that count as a strike, using the same criteria as `modActions` in an Author Filter. `search` and `count` are ignored.
+     *
+     * Defaults to counting prior bans (not unbans): `{type: BAN, action: '/^banuser$/i'}`
+     *
+     * EX count mod notes labeled Abuse Warning: `{noteType: ABUSE_WARNING}`
+     * */
+    strikes?: Omit<ModNoteCriteria, 'search' | 'count'> | Omit<ModLogCriteria, 'search' | 'count'>
+
+    /**
+     * Only count strikes that occurred within this duration before now
+     *
+     * @examples ["6 months"]
+     * */
+    window?: DurationVal
+}
+
+/**
+ * The resolved escalation step for an Author. Available in templates for this Action as `escalation` IE `{{escalation.step}}`
+ * */
+export interface BanEscalationResult {
+    /**
+     * The step used, starting at 1
+     * */
+    step: number
+    totalSteps: number
+    priorStrikes: number
+    /**
+     * Ban duration in days, undefined if permanent
+     * */
+    duration?: number
 }
 
 export interface BanActionOptions extends Omit<BanActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {
@@ -38,7 +38,7 @@ export class CancelDispatchAction extends Action {
 
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
         // see note in DispatchAction about missing runtimeDryrun
-        const dryRun = this.dryRun;
+        const dryRun = this.dryRun || options.preview === true;
 
         const realTargets = isSubmission(item) ? this.targets.filter(x => x !== 'parent') : this.targets;
         if (this.targets.includes('parent') && isSubmission(item)) {
@@ -56,7 +56,7 @@ export class CommentAction extends Action {
 
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
         const dryRun = this.getRuntimeAwareDryrun(options);
-        const body =  await this.renderContent(this.content, item, ruleResults, actionResults) as string;
+        const body =  await this.renderContent(this.content, item, ruleResults, actionResults, options) as string;
 
         const footer = await this.resources.renderFooter(item, this.footer);
 
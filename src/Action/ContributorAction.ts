@@ -30,9 +30,26 @@ export class ContributorAction extends Action {
         const dryRun = this.getRuntimeAwareDryrun(options);
 
         const contributors = await this.resources.getSubredditContributors();
+        const isContributor = contributors.some(x => x.name === item.author.name);
 
-        if(this.actionType === 'add') {
-            if(contributors.some(x => x.name === item.author.name)) {
+        let actionType: 'add' | 'remove';
+        if(this.actionType === 'undo') {
+            const lastAction = await this.resources.getAuthorUndoState<'add' | 'remove'>('contributor', item.author.name);
+            if(lastAction === undefined) {
+                return {
+                    dryRun,
+                    success: false,
+                    result: 'No previous contributor Action recorded for Author, nothing to undo'
+                }
+            }
+            actionType = lastAction === 'add' ? 'remove' : 'add';
+            this.logger.verbose(`Undoing previous '${lastAction}' contributor Action`);
+        } else {
+            actionType = this.actionType;
+        }
+
+        if(actionType === 'add') {
+            if(isContributor) {
                 return {
                     dryRun,
                     success: false,
@@ -46,7 +63,7 @@ export class ContributorAction extends Action {
                 await this.resources.addUserToSubredditContributorsCache(item.author);
             }
         } else {
-            if(!contributors.some(x => x.name === item.author.name)) {
+            if(!isContributor) {
                 return {
                     dryRun,
                     success: false,
@@ -61,10 +78,19 @@ export class ContributorAction extends Action {
             }
         }
 
+        if(!dryRun) {
+            if(this.actionType === 'undo') {
+                await this.resources.clearAuthorUndoState('contributor', item.author.name);
+            } else {
+                await this.resources.setAuthorUndoState('contributor', item.author.name, actionType);
+            }
+        }
+
+        const result = actionType === 'add' ? 'Added Author to contributors' : 'Remove Author from contributors';
         return {
             dryRun,
             success: true,
-            result: this.actionType === 'add' ? 'Added Author to contributors' : 'Remove Author from contributors'
+            result: this.actionType === 'undo' ? `${result} (undo)` : result
         };
     }
 
@@ -78,6 +104,11 @@ export class ContributorAction extends Action {
 export interface ContributorOptions extends Omit<ContributorActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {}
 
 export interface ContributorActionConfig extends ActionConfig {
+    /**
+     * * `add` -> add the Author as an approved user (contributor)
+     * * `remove` -> remove the Author from approved users (contributors)
+     * * `undo` -> reverse the last `add` or `remove` this bot made for the Author
+     * */
     action: ContributorActionType
 }
 
@@ -90,4 +121,4 @@ export interface ContributorActionJson extends ContributorActionConfig, ActionJs
 
 export default ContributorAction;
 
-export type ContributorActionType = 'add' | 'remove';
+export type ContributorActionType = 'add' | 'remove' | 'undo';
@@ -0,0 +1,108 @@
+import {ActionJson, ActionOptions} from "./index";
+import {Comment, SubmitLinkOptions, SubmitSelfPostOptions} from "snoowrap";
+import Submission from "snoowrap/dist/objects/Submission";
+import {ActionTypes} from "../Common/Infrastructure/Atomic";
+import {asSubmission} from "../util";
+import {SimpleError} from "../Utils/Errors";
+import {
+    SubmissionAction,
+    SubmissionActionConfig,
+    SubmitCrosspostOptions,
+    SubmitGenericOptions,
+    SubmitType
+} from "./SubmissionAction";
+
+export class CrosspostAction extends SubmissionAction {
+    asLink: boolean;
+
+    constructor(options: CrosspostActionOptions) {
+        const {
+            title = '{{item.title}}',
+            asLink = false,
+            targets,
+            ...rest
+        } = options;
+        if (targets === undefined || (Array.isArray(targets) && targets.length === 0)) {
+            throw new SimpleError(`Crosspost action must specify at least one subreddit in 'targets'`);
+        }
+        super({
+            ...rest,
+            title,
+            targets,
+            // crossposts and links to the activity cannot have a body
+            url: undefined,
+            content: undefined,
+            footer: false,
+        });
+        this.asLink = asLink;
+    }
+
+    getKind(): ActionTypes {
+        return 'crosspost';
+    }
+
+    protected getSubmitOptions(item: Comment | Submission, genericOpts: SubmitGenericOptions, url?: string, renderedContent?: string): [SubmitType, SubmitLinkOptions | SubmitSelfPostOptions | SubmitCrosspostOptions] {
+        if (asSubmission(item) && !this.asLink) {
+            if (item.is_crosspostable !== false) {
+                return ['crosspost', {
+                    ...genericOpts,
+                    originalPost: item.name
+                }];
+            }
+            this.logger.verbose(`Submission cannot be crossposted (removed or crossposts are disabled), will submit as link instead`);
+        }
+        return ['link', {
+            ...genericOpts,
+            url: `https://reddit.com${item.permalink}`,
+        }];
+    }
+
+    protected getSpecificPremise(): object {
+        const premise = super.getSpecificPremise();
+        if (this.asLink) {
+            return {
+                ...premise,
+                asLink: this.asLink,
+            };
+        }
+        return premise;
+    }
+}
+
+export interface CrosspostActionConfig extends Omit<SubmissionActionConfig, 'content' | 'url' | 'footer' | 'title' | 'targets'> {
+    /**
+     * The title of the crosspost (or link Submission for a Comment). Can use Templating.
+     *
+     * @default "{{item.title}}"
+     * @examples ["[Removed] {{item.title}} by u/{{item.author}}"]
+     * */
+    title?: string
+
+    /**
+     * The subreddit(s) to crosspost to. EX mealtimevideos
+     *
+     * The bot must be able to submit to the subreddit and, for crossposts, the subreddit must allow crossposts.
+     * */
+    targets: string | string[]
+
+    /**
+     * Always submit a link to the Activity's permalink instead of crossposting a Submission
+     *
+     * Submissions that cannot be crossposted (IE removed) are always submitted as a link
+     *
+     * @default false
+     * */
+    asLink?: boolean
+}
+
+export interface CrosspostActionOptions extends CrosspostActionConfig, ActionOptions {
+}
+
+/**
+ * Crosspost the Submission to another subreddit. For a Comment a link Submission to the Comment's permalink is created.
+ * */
+export interface CrosspostActionJson extends CrosspostActionConfig, ActionJson {
+    kind: 'crosspost'
+}
+
+export default CrosspostAction;
@@ -44,7 +44,8 @@ export class DispatchAction extends Action {
         // ignore runtimeDryrun here because "real run" isn't causing any reddit api calls to happen
         // -- basically if bot is in dryrun this should still run since we want the "full effect" of the bot
         // BUT if the action explicitly sets 'dryRun: true' then do not dispatch as they probably don't want to it actually going (intention?)
-        const dryRun = this.dryRun;
+        // -- also never dispatch when previewing a config change since those activities would be processed by the live config
+        const dryRun = this.dryRun || options.preview === true;
 
         // For the dispatched activity we want to make sure that if dryrun is set then it inherits that
         // Example scenario:
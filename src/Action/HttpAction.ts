@@ -0,0 +1,382 @@
+import {ActionJson, ActionConfig, ActionOptions} from "./index";
+import Action from "./index";
+import {Comment, Submission} from "snoowrap";
+import got from "got";
+import dns, {LookupAddress} from "dns";
+import {get} from "lodash";
+import {ActionProcessResult, HttpCredentialsConfig} from "../Common/interfaces";
+import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
+import {runCheckOptions} from "../Subreddit/Manager";
+import {ActionTypes} from "../Common/Infrastructure/Atomic";
+import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {isNonPublicAddress, truncateStringToLength} from "../util";
+import {CMError, SimpleError} from "../Utils/Errors";
+
+const truncate = truncateStringToLength(100);
+
+/**
+ * DNS lookup that fails if the hostname resolves to any non-public address so requests (and redirects) cannot reach the network the bot runs in
+ * */
+const publicOnlyLookup = (hostname: string, options: any, callback: any) => {
+    if (typeof options === 'function') {
+        callback = options;
+        options = {};
+    }
+    dns.lookup(hostname, options, (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => {
+        if (err !== null) {
+            return callback(err);
+        }
+        const nonPublic = (Array.isArray(address) ? address.map(x => x.address) : [address]).find(x => isNonPublicAddress(x));
+        if (nonPublic !== undefined) {
+            return callback(new SimpleError(`${hostname} resolves to a private, loopback, or link-local address (${nonPublic})`));
+        }
+        callback(null, address, family);
+    });
+}
+
+/**
+ * Credentials with a urlPrefix can only be used for URLs with the same origin and a path at or under the prefix's path
+ * */
+const credentialsAllowUrl = (creds: HttpCredentialsConfig, url: URL): boolean => {
+    if (creds.urlPrefix === undefined) {
+        return true;
+    }
+    let prefix: URL;
+    try {
+        prefix = new URL(creds.urlPrefix);
+    } catch (err: any) {
+        throw new CMError(`HTTP credentials urlPrefix is not a valid URL: ${creds.urlPrefix}`, {cause: err});
+    }
+    if (url.origin !== prefix.origin) {
+        return false;
+    }
+    // compare whole path segments so a prefix of /api does not allow /apiv2
+    const prefixPath = prefix.pathname.endsWith('/') ? prefix.pathname : `${prefix.pathname}/`;
+    return url.pathname === prefix.pathname || url.pathname.startsWith(prefixPath);
+}
+
+export type HttpActionMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const defaultPayload = {
+    manager: '{{manager}}',
+    check: '{{check}}',
+    activity: {
+        id: '{{item.id}}',
+        kind: '{{item.kind}}',
+        subreddit: '{{item.subreddit}}',
+        author: '{{item.author}}',
+        permalink: '{{item.permalink}}',
+        title: '{{item.title}}',
+    },
+    ruleSummary: '{{ruleSummary}}',
+    actionSummary: '{{actionSummary}}',
+};
+
+export class HttpAction extends Action {
+
+    url: string;
+    method: HttpActionMethod;
+    format: 'json' | 'form';
+    headers: { [key: string]: string };
+    payload: { [key: string]: any };
+    credentials?: string;
+    timeout: number;
+    retries: number;
+    responseField?: string;
+
+    getKind(): ActionTypes {
+        return 'http';
+    }
+
+    constructor(options: HttpActionOptions) {
+        super(options);
+        const {
+            url,
+            method = 'POST',
+            format = 'json',
+            headers = {},
+            payload = defaultPayload,
+            credentials,
+            timeout = 10000,
+            retries = 0,
+            responseField,
+        } = options;
+        if (url === undefined || url.trim() === '') {
+            throw new SimpleError(`HTTP action must have a 'url'`);
+        }
+        if (!['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
+            throw new SimpleError(`HTTP action 'method' must be one of: GET, POST, PUT, PATCH, DELETE -- given: ${method}`);
+        }
+        if (!['json', 'form'].includes(format)) {
+            throw new SimpleError(`HTTP action 'format' must be one of: json, form -- given: ${format}`);
+        }
+        this.url = url;
+        this.method = method;
+        this.format = format;
+        this.headers = headers;
+        this.payload = payload;
+        this.credentials = credentials;
+        this.timeout = timeout;
+        this.retries = retries;
+        this.responseField = responseField;
+    }
+
+    async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        const dryRun = this.getRuntimeAwareDryrun(options);
+
+        if (!this.resources.httpAction.enable) {
+            throw new CMError(`HTTP Actions have not been enabled by the operator of this bot`);
+        }
+
+        const url = (await this.renderContent(this.url, item, ruleResults, actionResults, options) as string).trim();
+        let parsedUrl: URL;
+        try {
+            parsedUrl = new URL(url);
+        } catch (err: any) {
+            throw new CMError(`HTTP action url is not a valid URL: ${url}`, {cause: err});
+        }
+        this.validateUrl(parsedUrl);
+
+        const headers: { [key: string]: string } = {};
+        for (const [k, v] of Object.entries(this.headers)) {
+            headers[k] = await this.renderContent(v, item, ruleResults, actionResults, options) as string;
+        }
+
+        let creds: HttpCredentialsConfig | undefined;
+        if (this.credentials !== undefined) {
+            creds = this.resources.getThirdPartyCredentials('http')?.[this.credentials] as HttpCredentialsConfig | undefined;
+            if (creds === undefined) {
+                throw new CMError(`No HTTP credentials named '${this.credentials}' exist in bot credentials`);
+            }
+            if (!credentialsAllowUrl(creds, parsedUrl)) {
+                throw new CMError(`HTTP credentials '${this.credentials}' can only be used with URLs under ${creds.urlPrefix}`);
+            }
+            // credential headers are not templated so secrets cannot be leaked into the payload or url
+            Object.assign(headers, creds.headers ?? {});
+        }
+
+        const payload = await this.renderPayload(this.payload, item, ruleResults, actionResults, options);
+        const hasBody = !['GET', 'DELETE'].includes(this.method);
+
+        const summary = `${this.method} ${url}`;
+        this.logger.verbose(`${summary}${hasBody ? ` => ${truncate(JSON.stringify(payload))}` : ''}`);
+
+        if (dryRun) {
+            return {
+                dryRun,
+                success: true,
+                result: summary,
+                data: {
+                    url,
+                }
+            };
+        }
+
+        let response;
+        try {
+            response = await got(url, {
+                method: this.method,
+                headers,
+                json: hasBody && this.format === 'json' ? payload : undefined,
+                form: hasBody && this.format === 'form' ? payload : undefined,
+                timeout: this.timeout,
+                retry: {
+                    limit: this.retries,
+                    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+                },
+                throwHttpErrors: false,
+                lookup: this.resources.httpAction.allowPrivateAddresses ? undefined : publicOnlyLookup as any,
+                hooks: {
+                    beforeRedirect: [
+                        (redirectOptions) => {
+                            const redirectUrl = redirectOptions.url as URL;
+                            this.validateUrl(redirectUrl);
+                            // credential headers must not be sent anywhere the credentials could not be used directly
+                            if (creds !== undefined && (redirectUrl.origin !== parsedUrl.origin || !credentialsAllowUrl(creds, redirectUrl))) {
+                                throw new CMError(`HTTP credentials '${this.credentials}' cannot be sent to redirect ${redirectUrl}`);
+                            }
+                        }
+                    ]
+                }
+            });
+        } catch (err: any) {
+            throw new CMError(`HTTP request to ${url} failed`, {cause: err});
+        }
+
+        const status = response.statusCode;
+        const success = status >= 200 && status < 300;
+
+        let responseValue: any;
+        if (this.responseField !== undefined) {
+            try {
+                responseValue = get(JSON.parse(response.body), this.responseField);
+            } catch (err: any) {
+                this.logger.warn(`Could not parse response body as JSON to get '${this.responseField}': ${err.message}`);
+            }
+        }
+
+        const result = `${summary} => ${status}${responseValue !== undefined ? ` | ${this.responseField}: ${truncate(typeof responseValue === 'string' ? responseValue : JSON.stringify(responseValue))}` : ''}`;
+        if (success) {
+            this.logger.verbose(result);
+        } else {
+            this.logger.warn(result);
+        }
+
+        return {
+            dryRun,
+            success,
+            result,
+            data: {
+                url,
+                status,
+                response: responseValue,
+            }
+        };
+    }
+
+    /**
+     * Throws if the url cannot be requested based on the operator's HTTP Action settings
+     * */
+    protected validateUrl(url: URL) {
+        if (!['http:', 'https:'].includes(url.protocol)) {
+            throw new CMError(`HTTP action url must use http or https -- given: ${url.protocol}`);
+        }
+        const {allowedHosts, allowPrivateAddresses} = this.resources.httpAction;
+        const host = url.hostname.toLowerCase();
+        if (allowedHosts.length > 0 && !allowedHosts.some(x => host === x.toLowerCase() || host.endsWith(`.${x.toLowerCase()}`))) {
+            throw new CMError(`Host ${host} is not allowed for HTTP Actions by the operator of this bot`);
+        }
+        if (!allowPrivateAddresses && isNonPublicAddress(host)) {
+            throw new CMError(`HTTP Actions cannot send requests to private, loopback, or link-local addresses -- given: ${host}`);
+        }
+    }
+
+    /**
+     * Render all string values in the payload, recursively, as templates
+     * */
+    protected async renderPayload(val: any, item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<any> {
+        if (typeof val === 'string') {
+            return await this.renderContent(val, item, ruleResults, actionResults, options);
+        }
+        if (Array.isArray(val)) {
+            const rendered = [];
+            for (const x of val) {
+                rendered.push(await this.renderPayload(x, item, ruleResults, actionResults, options));
+            }
+            return rendered;
+        }
+        if (val !== null && typeof val === 'object') {
+            const rendered: { [key: string]: any } = {};
+            for (const [k, v] of Object.entries(val)) {
+                rendered[k] = await this.renderPayload(v, item, ruleResults, actionResults, options);
+            }
+            return rendered;
+        }
+        return val;
+    }
+
+    protected getSpecificPremise(): object {
+        return {
+            url: this.url,
+            method: this.method,
+            format: this.format,
+            headers: this.headers,
+            payload: this.payload,
+            credentials: this.credentials,
+            responseField: this.responseField,
+        }
+    }
+}
+
+export interface HttpActionConfig extends ActionConfig {
+    /**
+     * The URL to send the request to. Can use Templating.
+     *
+     * @examples ["https://example.com/api/reports"]
+     * */
+    url: string
+
+    /**
+     * HTTP method to use. A payload is not sent for `GET` or `DELETE`
+     *
+     * @default "POST"
+     * @examples ["POST"]
+     * */
+    method?: HttpActionMethod
+
+    /**
+     * How the payload is encoded
+     *
+     * * `json` -- sent as JSON (`application/json`)
+     * * `form` -- sent as a form (`application/x-www-form-urlencoded`)
+     *
+     * @default "json"
+     * */
+    format?: 'json' | 'form'
+
+    /**
+     * Headers to send with the request. Values can use Templating.
+     *
+     * Do not put secrets here, use `credentials` instead.
+     *
+     * @examples [{"X-Source": "ContextMod"}]
+     * */
+    headers?: { [key: string]: string }
+
+    /**
+     * The payload to send. All string values (including nested values) can use Templating.
+     *
+     * If not specified a payload containing the manager, check, activity (id, kind, subreddit, author, permalink, title), rule summary, and action summary is sent.
+     *
+     * @examples [{"author": "{{item.author}}", "link": "{{item.permalink}}", "rules": "{{ruleSummary}}"}]
+     * */
+    payload?: { [key: string]: any }
+
+    /**
+     * The name of HTTP credentials, defined by the operator in the bot's `credentials.http`, to use for this request
+     *
+     * Headers from the credentials are added to the request. Credentials are never available to templates.
+     *
+     * @examples ["myService"]
+     * */
+    credentials?: string
+
+    /**
+     * Number of milliseconds to wait for a response before the request fails
+     *
+     * @default 10000
+     * @examples [10000]
+     * */
+    timeout?: number
+
+    /**
+     * Number of times to retry the request if it fails due to a network error or a retryable status code (408, 413, 429, 500, 502, 503, 504, 521, 522, 524)
+     *
+     * @default 0
+     * @minimum 0
+     * @maximum 5
+     * @examples [2]
+     * */
+    retries?: number
+
+    /**
+     * A path to a value in the (JSON) response body, using dot notation, to make available to later Actions as `{{actions.[actionName].response}}`
+     *
+     * The response status code is always available as `{{actions.[actionName].status}}`
+     *
+     * @examples ["data.ticketId"]
+     * */
+    responseField?: string
+}
+
+export interface HttpActionOptions extends Omit<HttpActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {
+}
+
+/**
+ * Send a templated HTTP request to an external service
+ * */
+export interface HttpActionJson extends HttpActionConfig, ActionJson {
+    kind: 'http'
+}
+
+export default HttpAction;
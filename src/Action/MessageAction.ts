@@ -52,9 +52,9 @@ export class MessageAction extends Action {
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
         const dryRun = this.getRuntimeAwareDryrun(options);
 
-        const body = await this.renderContent(this.content, item, ruleResults, actionResults);
+        const body = await this.renderContent(this.content, item, ruleResults, actionResults, options);
         const titleTemplate = this.title ?? `Concerning your ${isSubmission(item) ? 'Submission' : 'Comment'}`;
-        const subject = await this.renderContent(titleTemplate, item, ruleResults, actionResults) as string;
+        const subject = await this.renderContent(titleTemplate, item, ruleResults, actionResults, options) as string;
 
         const footer = await this.resources.renderFooter(item, this.footer);
 
@@ -62,7 +62,7 @@ export class MessageAction extends Action {
 
         let recipient = item.author.name;
         if(this.to !== undefined) {
-            const renderedTo = await this.renderContent(this.to, item, ruleResults, actionResults) as string;
+            const renderedTo = await this.renderContent(this.to, item, ruleResults, actionResults, options) as string;
             // parse to value
             try {
                 const entityData = parseRedditEntity(renderedTo, 'user');
@@ -47,7 +47,7 @@ export class ModNoteAction extends Action {
 
         const modLabel = this.type !== undefined ? toModNoteLabel(this.type) : undefined;
 
-        const renderedContent = await this.renderContent(this.content, item, ruleResults, actionResults);
+        const renderedContent = await this.renderContent(this.content, item, ruleResults, actionResults, options);
         this.logger.verbose(`Note:\r\n(${this.type}) ${renderedContent}`);
 
         let noteCheckPassed: boolean = true;
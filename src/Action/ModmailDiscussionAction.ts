@@ -0,0 +1,207 @@
+import {ActionJson, ActionConfig, ActionOptions} from "./index";
+import Action from "./index";
+import {Comment, Submission} from "snoowrap";
+import {ActionProcessResult, RichContent} from "../Common/interfaces";
+import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
+import {runCheckOptions} from "../Subreddit/Manager";
+import {ActionTypes, DurationVal} from "../Common/Infrastructure/Atomic";
+import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {parseDurationValToDuration, truncateStringToLength} from "../util";
+import {CMError, isStatusError} from "../Utils/Errors";
+import objectHash from "object-hash";
+
+// reddit limits modmail subjects to 100 characters and bodies to 10,000 characters
+const truncateSubject = truncateStringToLength(100);
+const truncateBody = truncateStringToLength(10000);
+
+const defaultContent = `{{item.kind}} by u/{{item.author}} triggered Check **{{check}}**: {{item.permalink}}
+
+{{ruleSummary}}`;
+
+export class ModmailDiscussionAction extends Action {
+
+    content: string;
+    title: string;
+    append: boolean;
+    appendWindow: DurationVal;
+    highlight: boolean;
+    archive: boolean;
+
+    getKind(): ActionTypes {
+        return 'modmail';
+    }
+
+    constructor(options: ModmailDiscussionActionOptions) {
+        super(options);
+        const {
+            content = defaultContent,
+            title = 'CM: {{item.kind}} by u/{{item.author}}',
+            append = false,
+            appendWindow = '7 days',
+            highlight = false,
+            archive = false,
+        } = options;
+        this.content = content;
+        this.title = title;
+        this.append = append;
+        this.appendWindow = appendWindow;
+        this.highlight = highlight;
+        this.archive = archive;
+    }
+
+    async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        const dryRun = this.getRuntimeAwareDryrun(options);
+
+        const body = truncateBody(await this.renderContent(this.content, item, ruleResults, actionResults, options) as string);
+        const subject = truncateSubject(await this.renderContent(this.title, item, ruleResults, actionResults, options) as string);
+
+        let existingId: string | undefined;
+        if (this.append) {
+            existingId = await this.resources.getAuthorModmailThread(this.getThreadKey(), item.author.name);
+        }
+
+        let conversationId: string | undefined = existingId;
+        let appended = false;
+
+        if (!dryRun) {
+            let conversation;
+            if (existingId !== undefined) {
+                try {
+                    // @ts-ignore
+                    conversation = await this.client.getNewModmailConversation(existingId);
+                    // @ts-ignore
+                    await conversation.reply(body);
+                    appended = true;
+                } catch (err: any) {
+                    if (isStatusError(err) && err.statusCode === 404) {
+                        this.logger.warn(`Existing mod discussion ${existingId} for ${item.author.name} no longer exists, will create a new one`);
+                        conversation = undefined;
+                    } else {
+                        throw new CMError(`Could not append to existing mod discussion ${existingId}`, {cause: err});
+                    }
+                }
+            }
+            if (conversation === undefined) {
+                try {
+                    // @ts-ignore
+                    conversation = await this.client.createModmailDiscussion({
+                        body,
+                        subject,
+                        srName: this.resources.subreddit.display_name,
+                    });
+                } catch (err: any) {
+                    throw new CMError('Could not create mod discussion', {cause: err});
+                }
+            }
+            conversationId = conversation.id;
+            await this.resources.setAuthorModmailThread(this.getThreadKey(), item.author.name, conversationId as string, parseDurationValToDuration(this.appendWindow).asSeconds());
+
+            if (this.highlight) {
+                // @ts-ignore
+                await conversation.highlight();
+            }
+            if (this.archive) {
+                // @ts-ignore
+                await conversation.archive();
+            }
+        } else {
+            appended = existingId !== undefined;
+        }
+
+        const modifiers = [];
+        if (this.highlight) {
+            modifiers.push('Highlighted');
+        }
+        if (this.archive) {
+            modifiers.push('Archived');
+        }
+        const modifierStr = modifiers.length === 0 ? '' : ` == ${modifiers.join(' | ')} ==`;
+        const result = `${appended ? `Appended to mod discussion ${conversationId}` : `Created mod discussion '${subject}'${conversationId !== undefined ? ` (${conversationId})` : ''}`}${modifierStr} => ${truncateStringToLength(100)(body)}`;
+        this.logger.verbose(result);
+
+        return {
+            dryRun,
+            success: true,
+            result,
+            data: {
+                conversationId,
+                subject,
+                body,
+            }
+        };
+    }
+
+    /**
+     * Identifies this Action so it only appends to discussions it created
+     * */
+    protected getThreadKey(): string {
+        // name defaults to kind so premise is included to keep unnamed modmail Actions in a Check distinct
+        return `${this.checkName}-${this.name}-${objectHash.sha1(this.getPremise())}`;
+    }
+
+    protected getSpecificPremise(): object {
+        return {
+            content: this.content,
+            title: this.title,
+            append: this.append,
+            appendWindow: this.appendWindow,
+            highlight: this.highlight,
+            archive: this.archive,
+        }
+    }
+}
+
+export interface ModmailDiscussionActionConfig extends ActionConfig, RichContent {
+    /**
+     * The subject of the mod discussion. Can use Templating.
+     *
+     * If the length expands to more than 100 characters it will be truncated with "..."
+     *
+     * @default "CM: {{item.kind}} by u/{{item.author}}"
+     * @examples ["CM: {{item.kind}} by u/{{item.author}}"]
+     * */
+    title?: string
+
+    /**
+     * Append the content to the last mod discussion this Action created for the Author of the Activity, instead of creating a new discussion
+     *
+     * If there is no existing discussion for the Author (within `appendWindow`) a new one is created
+     *
+     * @default false
+     * */
+    append?: boolean
+
+    /**
+     * How long after a mod discussion is created, or last appended to, that it can be appended to
+     *
+     * @default "7 days"
+     * @examples ["7 days"]
+     * */
+    appendWindow?: DurationVal
+
+    /**
+     * Highlight the mod discussion after creating/appending
+     *
+     * @default false
+     * */
+    highlight?: boolean
+
+    /**
+     * Archive the mod discussion after creating/appending
+     *
+     * @default false
+     * */
+    archive?: boolean
+}
+
+export interface ModmailDiscussionActionOptions extends Omit<ModmailDiscussionActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {
+}
+
+/**
+ * Create an internal mod discussion in modmail, or append to an existing discussion for the Author of the Activity
+ * */
+export interface ModmailDiscussionActionJson extends ModmailDiscussionActionConfig, ActionJson {
+    kind: 'modmail'
+}
+
+export default ModmailDiscussionAction;
@@ -0,0 +1,63 @@
+import {ActionJson, ActionConfig, ActionOptions} from "./index";
+import Action from "./index";
+import {Comment, Submission} from "snoowrap";
+import {ActionProcessResult} from "../Common/interfaces";
+import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
+import {runCheckOptions} from "../Subreddit/Manager";
+import {ActionTypes} from "../Common/Infrastructure/Atomic";
+import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {getActivityAuthorName} from "../util";
+
+export class MuteAction extends Action {
+
+    getKind(): ActionTypes {
+        return 'mute';
+    }
+
+    async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        const dryRun = this.getRuntimeAwareDryrun(options);
+        const authorName = getActivityAuthorName(item.author);
+
+        // @ts-ignore
+        const muted = await this.resources.subreddit.getMutedUsers({name: authorName});
+        if(muted.some(x => x.name.toLowerCase() === authorName.toLowerCase())) {
+            return {
+                dryRun,
+                success: false,
+                result: 'Author is already muted, cannot mute them'
+            }
+        }
+
+        this.logger.info(`Muting ${authorName}`);
+        if(!dryRun) {
+            // @ts-ignore
+            await this.resources.subreddit.muteUser({name: authorName});
+        }
+
+        return {
+            dryRun,
+            success: true,
+            result: `Muted ${authorName}`
+        };
+    }
+
+    protected getSpecificPremise(): object {
+        return {};
+    }
+}
+
+export interface MuteOptions extends Omit<MuteActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {}
+
+export interface MuteActionConfig extends ActionConfig {
+}
+
+/**
+ * Mute the Author of the Activity this Check is run on from sending modmail to the subreddit
+ *
+ * The mute lasts for reddit's default mute length (3 days)
+ * */
+export interface MuteActionJson extends MuteActionConfig, ActionJson {
+    kind: 'mute'
+}
+
+export default MuteAction;
@@ -4,17 +4,24 @@ import Snoowrap, {Comment, Submission} from "snoowrap";
 import {activityIsRemoved} from "../Utils/SnoowrapUtils";
 import {ActionProcessResult, RuleResult} from "../Common/interfaces";
 import dayjs from "dayjs";
-import {isSubmission, truncateStringToLength} from "../util";
+import {isSubmission, removeUndefinedKeys, truncateStringToLength} from "../util";
 import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
 import {runCheckOptions} from "../Subreddit/Manager";
 import {ActionTypes} from "../Common/Infrastructure/Atomic";
 import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {
+    CMRemovalMessageType,
+    cmToRedditRemovalReason,
+    SubredditRemovalReason,
+    toCmRemovalMessageType
+} from "../Common/Infrastructure/Reddit";
 
 const truncate = truncateStringToLength(100);
 export class RemoveAction extends Action {
     spam: boolean;
     note?: string;
-    reasonId?: string;
+    reason?: string;
+    message?: RemovalMessageOptions;
 
     getKind(): ActionTypes {
         return 'remove';
@@ -26,10 +33,22 @@ export class RemoveAction extends Action {
             spam = false,
             note,
             reasonId,
+            reason = reasonId,
+            message,
         } = options;
         this.spam = spam;
         this.note = note;
-        this.reasonId = reasonId;
+        this.reason = reason;
+        if(message !== undefined) {
+            const {
+                type = 'comment',
+                ...rest
+            } = typeof message === 'string' ? {content: message} : message;
+            this.message = {
+                type: toCmRemovalMessageType(type),
+                ...rest
+            };
+        }
     }
 
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
@@ -45,24 +64,21 @@ export class RemoveAction extends Action {
             removeSummary.push('Marked as SPAM');
             this.logger.verbose('Marking as spam on removal');
         }
-        const renderedNote = await this.renderContent(this.note, item, ruleResults, actionResults);
-        let foundReasonId: string | undefined;
-        let foundReason: string | undefined;
-
-        if(this.reasonId !== undefined) {
-            const reason = await this.resources.getSubredditRemovalReasonById(this.reasonId);
-            if(reason === undefined) {
-                const reasonWarn = [`Could not find any Removal Reason with the ID ${this.reasonId}!`];
+        const renderedNote = await this.renderContent(this.note, item, ruleResults, actionResults, options);
+        let foundReason: SubredditRemovalReason | undefined;
+
+        if(this.reason !== undefined) {
+            foundReason = await this.resources.getSubredditRemovalReasonByIdOrTitle(this.reason);
+            if(foundReason === undefined) {
+                const reasonWarn = [`Could not find any Removal Reason with the ID or title '${this.reason}'!`];
                 if(renderedNote === undefined) {
                     reasonWarn.push('Cannot add any Removal Reason because note is also empty!');
                 } else {
                     reasonWarn.push('Will add Removal Reason but only with note.');
                 }
-                this.logger.warn(reasonWarn.join(''));
+                this.logger.warn(reasonWarn.join(' '));
             } else {
-                foundReason = truncate(reason.title);
-                foundReasonId = reason.id;
-                removeSummary.push(`Reason: ${truncate(foundReason)} (${foundReasonId})`);
+                removeSummary.push(`Reason: ${truncate(foundReason.title)} (${foundReason.id})`);
             }
         }
 
@@ -70,6 +86,23 @@ export class RemoveAction extends Action {
             removeSummary.push(`Note: ${truncate(renderedNote)}`);
         }
 
+        let renderedMessage: string | undefined;
+        let renderedTitle: string | undefined;
+        if(this.message !== undefined) {
+            const {
+                content = foundReason?.message,
+                title,
+                type,
+            } = this.message;
+            if(content === undefined) {
+                this.logger.warn('Cannot send removal message because no content was specified and no Removal Reason was found to use as content.');
+            } else {
+                renderedMessage = await this.renderContent(content, item, ruleResults, actionResults, options);
+                renderedTitle = await this.renderContent(title ?? foundReason?.title, item, ruleResults, actionResults, options);
+                removeSummary.push(`Message (${type}): ${truncate(renderedMessage as string)}`);
+            }
+        }
+
         this.logger.verbose(removeSummary.join(' | '));
 
         if (!dryRun) {
@@ -82,14 +115,23 @@ export class RemoveAction extends Action {
                 item.removed = true;
             }
 
-            if(foundReasonId !== undefined || renderedNote !== undefined) {
-                await this.client.addRemovalReason(item, renderedNote, foundReasonId);
+            if(foundReason !== undefined || renderedNote !== undefined) {
+                await this.client.addRemovalReason(item, renderedNote, foundReason?.id);
                 item.mod_reason_by = this.resources.botAccount as string;
                 if(renderedNote !== undefined) {
                     item.removal_reason = renderedNote;
                 }
                 if(foundReason !== undefined) {
-                    item.mod_reason_title = foundReason;
+                    item.mod_reason_title = truncate(foundReason.title);
+                }
+            }
+
+            if(this.message !== undefined && renderedMessage !== undefined) {
+                const {type, lock = false} = this.message;
+                // @ts-ignore
+                const reply = await this.client.addRemovalMessage(item, renderedMessage, cmToRedditRemovalReason(type), {lock, title: renderedTitle});
+                if(type === 'comment' || type === 'commentModTeam') {
+                    touchedEntities.push(reply);
                 }
             }
 
@@ -101,14 +143,18 @@ export class RemoveAction extends Action {
             dryRun,
             success: true,
             touchedEntities,
-            result: removeSummary.join(' | ')
+            result: removeSummary.join(' | '),
+            removalReason: foundReason !== undefined ? {id: foundReason.id, title: foundReason.title} : undefined
         }
     }
 
     protected getSpecificPremise(): object {
-        return {
-            spam: this.spam
-        }
+        // only include reason/message when present so premises for existing remove actions are unchanged
+        return removeUndefinedKeys({
+            spam: this.spam,
+            reason: this.reason,
+            message: this.message,
+        }) as object;
     }
 }
 
@@ -132,6 +178,66 @@ export interface RemoveActionConfig extends ActionConfig {
      * More info on Removal Reasons: https://mods.reddithelp.com/hc/en-us/articles/360010094892-Removal-Reasons
      * */
     reasonId?: string
+
+    /**
+     * (Optional) The ID or title of the Removal Reason to use
+     *
+     * If the value does not match the ID of any Removal Reason then it is matched against Removal Reason titles (case-insensitive)
+     *
+     * If both `reason` and `reasonId` are present `reason` is used
+     *
+     * @examples ["Rule 1 - Be Civil"]
+     * */
+    reason?: string
+
+    /**
+     * (Optional) Send a removal message to the Author the same way reddit does when removing with a Removal Reason
+     *
+     * If a string is given it is used as the `content` of a public comment reply.
+     *
+     * If `content` is not specified the message of the Removal Reason found with `reason` is used.
+     * */
+    message?: string | RemovalMessageConfig
+}
+
+export interface RemovalMessageConfig {
+    /**
+     * How the removal message is delivered
+     *
+     * * `comment` -> reply to the Activity with a comment as the bot account
+     * * `commentModTeam` -> reply to the Activity with a comment as the subreddit (u/subreddit-ModTeam)
+     * * `modmail` -> send a modmail to the Author as the bot account
+     * * `modmailSubreddit` -> send a modmail to the Author as the subreddit
+     *
+     * @default "comment"
+     * @examples ["comment"]
+     * */
+    type?: 'comment' | 'commentModTeam' | 'modmail' | 'modmailSubreddit'
+
+    /**
+     * The message to send. Can use Templating.
+     *
+     * If not specified the message of the Removal Reason is used.
+     * */
+    content?: string
+
+    /**
+     * The subject of the message when using a modmail `type`. Can use Templating.
+     *
+     * If not specified the title of the Removal Reason is used.
+     * */
+    title?: string
+
+    /**
+     * Lock the reply comment when using a comment `type`
+     *
+     * @default false
+     * */
+    lock?: boolean
+}
+
+interface RemovalMessageOptions extends Omit<RemovalMessageConfig, 'type'> {
+    type: CMRemovalMessageType
 }
 
 /**
@@ -28,7 +28,7 @@ export class ReportAction extends Action {
 
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
         const dryRun = this.getRuntimeAwareDryrun(options);
-        const renderedContent = (await this.renderContent(this.content, item, ruleResults, actionResults) as string);
+        const renderedContent = (await this.renderContent(this.content, item, ruleResults, actionResults, options) as string);
         this.logger.verbose(`Contents:\r\n${renderedContent}`);
         const truncatedContent = reportTrunc(renderedContent);
         const touchedEntities = [];
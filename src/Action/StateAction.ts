@@ -0,0 +1,296 @@
+import {ActionJson, ActionConfig, ActionOptions} from "./index";
+import Action from "./index";
+import Submission from "snoowrap/dist/objects/Submission";
+import Comment from "snoowrap/dist/objects/Comment";
+import {ActionProcessResult} from "../Common/interfaces";
+import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
+import {runCheckOptions} from "../Subreddit/Manager";
+import {ActionTarget, ActionTypes} from "../Common/Infrastructure/Atomic";
+import {asComment, asSubmission, removeUndefinedKeys} from "../util";
+import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {SimpleError} from "../Utils/Errors";
+
+export type SuggestedSort = 'confidence' | 'top' | 'new' | 'controversial' | 'old' | 'random' | 'qa' | 'live' | 'blank';
+const suggestedSorts = ['confidence', 'top', 'new', 'controversial', 'old', 'random', 'qa', 'live', 'blank'];
+
+export class StateAction extends Action {
+
+    targets: ActionTarget[];
+    sticky?: boolean;
+    distinguish?: boolean;
+    nsfw?: boolean;
+    spoiler?: boolean;
+    contestMode?: boolean;
+    suggestedSort?: SuggestedSort;
+    ignoreReports?: boolean;
+
+    getKind(): ActionTypes {
+        return 'state';
+    }
+
+    constructor(options: StateActionOptions) {
+        super(options);
+        const {
+            targets = ['self'],
+            sticky,
+            distinguish,
+            nsfw,
+            spoiler,
+            contestMode,
+            suggestedSort,
+            ignoreReports,
+        } = options;
+
+        if (suggestedSort !== undefined && !suggestedSorts.includes(suggestedSort)) {
+            throw new SimpleError(`'suggestedSort' must be one of: ${suggestedSorts.join(', ')} -- given: ${suggestedSort}`);
+        }
+        if ([sticky, distinguish, nsfw, spoiler, contestMode, suggestedSort, ignoreReports].every(x => x === undefined)) {
+            throw new SimpleError(`State action must specify at least one state to change`);
+        }
+
+        this.targets = targets;
+        this.sticky = sticky;
+        this.distinguish = distinguish;
+        this.nsfw = nsfw;
+        this.spoiler = spoiler;
+        this.contestMode = contestMode;
+        this.suggestedSort = suggestedSort;
+        this.ignoreReports = ignoreReports;
+    }
+
+    async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        const dryRun = this.getRuntimeAwareDryrun(options);
+        const touchedEntities = [];
+
+        const realTargets = asSubmission(item) ? ['self'] : this.targets;
+
+        const msg: string[] = [];
+
+        for (const target of realTargets) {
+            let targetItem = item;
+            if (target !== 'self' && asComment(item)) {
+                // make sure we have an actual item and not just a plain object from cache
+                // @ts-ignore
+                targetItem = await this.client.getSubmission(item.link_id).fetch();
+            }
+            const targetName = target === 'self' ? 'Item' : 'Parent Submission';
+            const changes = this.getChanges(targetItem);
+
+            if (changes.length === 0) {
+                msg.push(`${targetName} already has requested state`);
+                continue;
+            }
+            msg.push(`${targetName} => ${changes.map(x => x.description).join(', ')}`);
+
+            if (!dryRun) {
+                for (const change of changes) {
+                    await change.apply();
+                }
+                await this.resources.resetCacheForItem(targetItem);
+                touchedEntities.push(targetItem);
+            }
+        }
+
+        const result = msg.join(' | ');
+        this.logger.verbose(result);
+
+        return {
+            result,
+            dryRun,
+            success: true,
+            touchedEntities
+        }
+    }
+
+    /**
+     * Determine which requested state changes are applicable to, and would change, the Activity
+     * */
+    protected getChanges(item: Comment | Submission): { description: string, apply: () => Promise<any> }[] {
+        const changes: { description: string, apply: () => Promise<any> }[] = [];
+        const isSub = asSubmission(item);
+
+        if (this.distinguish !== undefined || (this.sticky !== undefined && !isSub)) {
+            // comments can only be stickied by distinguishing
+            const wantDistinguish = this.distinguish ?? (this.sticky === true ? true : item.distinguished === 'moderator');
+            const wantSticky = !isSub && this.sticky !== undefined ? this.sticky && wantDistinguish : (!isSub && item.stickied);
+            const isDistinguished = item.distinguished === 'moderator';
+            if (wantDistinguish !== isDistinguished || (!isSub && wantSticky !== item.stickied)) {
+                changes.push({
+                    description: wantDistinguish ? `Distinguish${wantSticky ? ' and Sticky' : ''}` : 'Undistinguish',
+                    apply: async () => {
+                        if (wantDistinguish) {
+                            // @ts-ignore
+                            await item.distinguish({status: true, sticky: isSub ? false : wantSticky});
+                            item.distinguished = 'moderator';
+                            if (!isSub) {
+                                item.stickied = wantSticky;
+                            }
+                        } else {
+                            // @ts-ignore
+                            await item.undistinguish();
+                            item.distinguished = null;
+                            if (!isSub) {
+                                item.stickied = false;
+                            }
+                        }
+                    }
+                });
+            }
+        }
+
+        if (isSub) {
+            const sub = item as Submission;
+            if (this.sticky !== undefined && this.sticky !== sub.stickied) {
+                changes.push({
+                    description: this.sticky ? 'Sticky' : 'Unsticky',
+                    apply: async () => {
+                        // @ts-ignore
+                        await (this.sticky ? sub.sticky() : sub.unsticky());
+                        sub.stickied = this.sticky as boolean;
+                    }
+                });
+            }
+            if (this.nsfw !== undefined && this.nsfw !== sub.over_18) {
+                changes.push({
+                    description: this.nsfw ? 'Mark NSFW' : 'Unmark NSFW',
+                    apply: async () => {
+                        // @ts-ignore
+                        await (this.nsfw ? sub.markNsfw() : sub.unmarkNsfw());
+                        sub.over_18 = this.nsfw as boolean;
+                    }
+                });
+            }
+            if (this.spoiler !== undefined && this.spoiler !== sub.spoiler) {
+                changes.push({
+                    description: this.spoiler ? 'Mark Spoiler' : 'Unmark Spoiler',
+                    apply: async () => {
+                        // @ts-ignore
+                        await (this.spoiler ? sub.markSpoiler() : sub.unmarkSpoiler());
+                        sub.spoiler = this.spoiler as boolean;
+                    }
+                });
+            }
+            if (this.contestMode !== undefined && this.contestMode !== sub.contest_mode) {
+                changes.push({
+                    description: this.contestMode ? 'Enable Contest Mode' : 'Disable Contest Mode',
+                    apply: async () => {
+                        // @ts-ignore
+                        await (this.contestMode ? sub.enableContestMode() : sub.disableContestMode());
+                        sub.contest_mode = this.contestMode as boolean;
+                    }
+                });
+            }
+            const currentSort = sub.suggested_sort ?? 'blank';
+            if (this.suggestedSort !== undefined && this.suggestedSort !== currentSort) {
+                changes.push({
+                    description: `Suggested Sort ${this.suggestedSort}`,
+                    apply: async () => {
+                        // @ts-ignore
+                        await sub.setSuggestedSort(this.suggestedSort as SuggestedSort);
+                        // @ts-ignore
+                        sub.suggested_sort = this.suggestedSort === 'blank' ? null : this.suggestedSort;
+                    }
+                });
+            }
+        } else if ([this.nsfw, this.spoiler, this.contestMode, this.suggestedSort].some(x => x !== undefined)) {
+            this.logger.debug('nsfw, spoiler, contestMode, and suggestedSort only apply to Submissions and will be ignored for Comment');
+        }
+
+        // @ts-ignore
+        const reportsIgnored = item.ignore_reports === true;
+        if (this.ignoreReports !== undefined && this.ignoreReports !== reportsIgnored) {
+            changes.push({
+                description: this.ignoreReports ? 'Ignore Reports' : 'Unignore Reports',
+                apply: async () => {
+                    // @ts-ignore
+                    await (this.ignoreReports ? item.ignoreReports() : item.unignoreReports());
+                    // @ts-ignore
+                    item.ignore_reports = this.ignoreReports;
+                }
+            });
+        }
+
+        return changes;
+    }
+
+    protected getSpecificPremise(): object {
+        return removeUndefinedKeys({
+            targets: this.targets,
+            sticky: this.sticky,
+            distinguish: this.distinguish,
+            nsfw: this.nsfw,
+            spoiler: this.spoiler,
+            contestMode: this.contestMode,
+            suggestedSort: this.suggestedSort,
+            ignoreReports: this.ignoreReports,
+        }) as object;
+    }
+}
+
+export interface StateActionOptions extends Omit<StateActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {
+}
+
+/**
+ * Change the moderation state of an Activity. Only the properties specified are changed.
+ * */
+export interface StateActionConfig extends ActionConfig {
+    /**
+     * Specify which Activities to change
+     *
+     * This setting is only applicable if the Activity being acted on is a **comment**. On a **submission** the setting does nothing
+     *
+     * * self => change activity being checked (comment)
+     * * parent => change parent (submission) of activity being checked (comment)
+     *
+     * @default ["self"]
+     * */
+    targets?: ActionTarget[]
+
+    /**
+     * Sticky or unsticky the Activity
+     *
+     * A Comment can only be stickied if it is top-level. Stickying a Comment also distinguishes it.
+     * */
+    sticky?: boolean
+
+    /**
+     * Distinguish (as moderator) or undistinguish the Activity
+     * */
+    distinguish?: boolean
+
+    /**
+     * Mark or unmark the Submission as NSFW
+     * */
+    nsfw?: boolean
+
+    /**
+     * Mark or unmark the Submission as a spoiler
+     * */
+    spoiler?: boolean
+
+    /**
+     * Enable or disable contest mode on the Submission
+     * */
+    contestMode?: boolean
+
+    /**
+     * Set the suggested comment sort for the Submission. Use `blank` to remove the suggested sort.
+     *
+     * @examples ["new"]
+     * */
+    suggestedSort?: SuggestedSort
+
+    /**
+     * Ignore or unignore future reports on the Activity
+     * */
+    ignoreReports?: boolean
+}
+
+/**
+ * Change sticky, distinguish, NSFW, spoiler, contest mode, suggested sort, or ignore reports state of the Activity
+ * */
+export interface StateActionJson extends StateActionConfig, ActionJson {
+    kind: 'state'
+}
+
+export default StateAction;
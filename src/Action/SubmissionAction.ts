@@ -71,14 +71,14 @@ export class SubmissionAction extends Action {
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
         const dryRun = this.getRuntimeAwareDryrun(options);
 
-        const title = await this.renderContent(this.title, item, ruleResults, actionResults) as string;
+        const title = await this.renderContent(this.title, item, ruleResults, actionResults, options) as string;
         this.logger.verbose(`Title: ${title}`);
 
-        const url = await this.renderContent(this.url, item, ruleResults, actionResults);
+        const url = await this.renderContent(this.url, item, ruleResults, actionResults, options);
 
         this.logger.verbose(`URL: ${url !== undefined ? url : '[No URL]'}`);
 
-        const body = await this.renderContent(this.content, item, ruleResults, actionResults);
+        const body = await this.renderContent(this.content, item, ruleResults, actionResults, options);
 
         let renderedContent: string | undefined = undefined;
         if(body !== undefined) {
@@ -128,8 +128,6 @@ export class SubmissionAction extends Action {
             let modifiers = [];
             let post: Submission | undefined;
             if (!dryRun) {
-                let opts: SubmitLinkOptions | SubmitSelfPostOptions;
-                let type: 'self' | 'link';
                 const genericOpts = {
                     title,
                     subredditName: target.display_name,
@@ -138,23 +136,7 @@ export class SubmissionAction extends Action {
                     flairId: this.flairId,
                     flairText: this.flairText,
                 };
-                if(url !== undefined) {
-                    type = 'link';
-                    opts = {
-                        ...genericOpts,
-                        url,
-                    };
-                    if(renderedContent !== undefined) {
-                        // @ts-ignore
-                        linkOpts.text = renderedContent;
-                    }
-                } else {
-                    type = 'self';
-                    opts = {
-                        ...genericOpts,
-                        text: renderedContent,
-                    }
-                }
+                const [type, opts] = this.getSubmitOptions(item, genericOpts, url, renderedContent);
                 // @ts-ignore
                 post = await this.tryPost(type, target, opts);
                 await this.resources.setRecentSelf(post as Submission);
@@ -213,8 +195,29 @@ export class SubmissionAction extends Action {
         };
     }
 
+    /**
+     * Determine the type of Submission to create and the options used to submit it
+     * */
+    protected getSubmitOptions(item: Comment | Submission, genericOpts: SubmitGenericOptions, url?: string, renderedContent?: string): [SubmitType, SubmitLinkOptions | SubmitSelfPostOptions | SubmitCrosspostOptions] {
+        if (url !== undefined) {
+            const opts: SubmitLinkOptions = {
+                ...genericOpts,
+                url,
+            };
+            if (renderedContent !== undefined) {
+                // @ts-ignore
+                opts.text = renderedContent;
+            }
+            return ['link', opts];
+        }
+        return ['self', {
+            ...genericOpts,
+            text: renderedContent,
+        }];
+    }
+
     // @ts-ignore
-    protected async tryPost(type: 'self' | 'link', target: Subreddit, data: SubmitLinkOptions | SubmitSelfPostOptions, maxAttempts = 2): Promise<Submission> {
+    protected async tryPost(type: SubmitType, target: Subreddit, data: SubmitLinkOptions | SubmitSelfPostOptions | SubmitCrosspostOptions, maxAttempts = 2): Promise<Submission> {
         let post: Submission | undefined;
         let error: any;
         for (let i = 0; i <= maxAttempts; i++) {
@@ -222,6 +225,9 @@ export class SubmissionAction extends Action {
                 if (type === 'self') {
                     // @ts-ignore
                     post = await target.submitSelfpost(data as SubmitSelfPostOptions);
+                } else if (type === 'crosspost') {
+                    // @ts-ignore
+                    post = await target.submitCrosspost(data as SubmitCrosspostOptions);
                 } else {
                     // @ts-ignore
                     post = await target.submitLink(data as SubmitLinkOptions);
@@ -262,6 +268,24 @@ export class SubmissionAction extends Action {
     }
 }
 
+export type SubmitType = 'self' | 'link' | 'crosspost';
+
+export interface SubmitGenericOptions {
+    title: string
+    subredditName: string
+    nsfw?: boolean
+    spoiler?: boolean
+    flairId?: string
+    flairText?: string
+}
+
+export interface SubmitCrosspostOptions extends SubmitGenericOptions {
+    /**
+     * Fullname of the Submission being crossposted
+     * */
+    originalPost: string
+}
+
 export interface SubmissionActionConfig extends RichContent, Footer {
     /**
      * Lock the Submission after creation?
@@ -30,10 +30,10 @@ export class FlairAction extends Action {
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
         const dryRun = this.getRuntimeAwareDryrun(options);
         let flairParts = [];
-        const renderedText = this.text === '' ? '' : await this.renderContent(this.text, item, ruleResults, actionResults) as string;
+        const renderedText = this.text === '' ? '' : await this.renderContent(this.text, item, ruleResults, actionResults, options) as string;
         flairParts.push(`Text: ${renderedText === '' ? '(None)' : renderedText}`);
 
-        const renderedCss = this.css === '' ? '' : await this.renderContent(this.css, item, ruleResults, actionResults) as string;
+        const renderedCss = this.css === '' ? '' : await this.renderContent(this.css, item, ruleResults, actionResults, options) as string;
         flairParts.push(`CSS: ${renderedCss === '' ? '(None)' : renderedCss}`);
 
         flairParts.push(`Template: ${this.flair_template_id === '' ? '(None)' : this.flair_template_id}`);
@@ -0,0 +1,61 @@
+import {ActionJson, ActionConfig, ActionOptions} from "./index";
+import Action from "./index";
+import {Comment, Submission} from "snoowrap";
+import {ActionProcessResult} from "../Common/interfaces";
+import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
+import {runCheckOptions} from "../Subreddit/Manager";
+import {ActionTypes} from "../Common/Infrastructure/Atomic";
+import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {getActivityAuthorName} from "../util";
+
+export class UnbanAction extends Action {
+
+    getKind(): ActionTypes {
+        return 'unban';
+    }
+
+    async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        const dryRun = this.getRuntimeAwareDryrun(options);
+        const authorName = getActivityAuthorName(item.author);
+
+        // @ts-ignore
+        const banned = await this.resources.subreddit.getBannedUsers({name: authorName});
+        if(!banned.some(x => x.name.toLowerCase() === authorName.toLowerCase())) {
+            return {
+                dryRun,
+                success: false,
+                result: 'Author is not banned, cannot unban them'
+            }
+        }
+
+        this.logger.info(`Unbanning ${authorName}`);
+        if(!dryRun) {
+            // @ts-ignore
+            await this.resources.subreddit.unbanUser({name: authorName});
+        }
+
+        return {
+            dryRun,
+            success: true,
+            result: `Unbanned ${authorName}`
+        };
+    }
+
+    protected getSpecificPremise(): object {
+        return {};
+    }
+}
+
+export interface UnbanOptions extends Omit<UnbanActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {}
+
+export interface UnbanActionConfig extends ActionConfig {
+}
+
+/**
+ * Unban the Author of the Activity this Check is run on
+ * */
+export interface UnbanActionJson extends UnbanActionConfig, ActionJson {
+    kind: 'unban'
+}
+
+export default UnbanAction;
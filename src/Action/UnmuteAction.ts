@@ -0,0 +1,61 @@
+import {ActionJson, ActionConfig, ActionOptions} from "./index";
+import Action from "./index";
+import {Comment, Submission} from "snoowrap";
+import {ActionProcessResult} from "../Common/interfaces";
+import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
+import {runCheckOptions} from "../Subreddit/Manager";
+import {ActionTypes} from "../Common/Infrastructure/Atomic";
+import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {getActivityAuthorName} from "../util";
+
+export class UnmuteAction extends Action {
+
+    getKind(): ActionTypes {
+        return 'unmute';
+    }
+
+    async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        const dryRun = this.getRuntimeAwareDryrun(options);
+        const authorName = getActivityAuthorName(item.author);
+
+        // @ts-ignore
+        const muted = await this.resources.subreddit.getMutedUsers({name: authorName});
+        if(!muted.some(x => x.name.toLowerCase() === authorName.toLowerCase())) {
+            return {
+                dryRun,
+                success: false,
+                result: 'Author is not muted, cannot unmute them'
+            }
+        }
+
+        this.logger.info(`Unmuting ${authorName}`);
+        if(!dryRun) {
+            // @ts-ignore
+            await this.resources.subreddit.unmuteUser({name: authorName});
+        }
+
+        return {
+            dryRun,
+            success: true,
+            result: `Unmuted ${authorName}`
+        };
+    }
+
+    protected getSpecificPremise(): object {
+        return {};
+    }
+}
+
+export interface UnmuteOptions extends Omit<UnmuteActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {}
+
+export interface UnmuteActionConfig extends ActionConfig {
+}
+
+/**
+ * Unmute the Author of the Activity this Check is run on so they can send modmail to the subreddit
+ * */
+export interface UnmuteActionJson extends UnmuteActionConfig, ActionJson {
+    kind: 'unmute'
+}
+
+export default UnmuteAction;
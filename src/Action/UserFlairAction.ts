@@ -10,10 +10,13 @@ export class UserFlairAction extends Action {
   text?: string;
   css?: string;
   flair_template_id?: string;
+  undo: boolean;
 
   constructor(options: UserFlairActionOptions) {
     super(options);
 
+    this.undo = options.undo ?? false;
+
     this.text = options.text === null || options.text === '' ? undefined : options.text;
     this.css = options.css === null || options.css === '' ? undefined : options.css;
     this.flair_template_id = options.flair_template_id === null || options.flair_template_id === '' ? undefined : options.flair_template_id;
@@ -26,21 +29,49 @@ export class UserFlairAction extends Action {
   async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
     const dryRun = this.getRuntimeAwareDryrun(options);
     let flairParts = [];
+    let templateId: string | undefined = undefined;
     let renderedText: string | undefined = undefined;
     let renderedCss: string | undefined = undefined;
 
-    if (this.flair_template_id !== undefined) {
+    if (this.undo) {
+      const previous = await this.resources.getAuthorUndoState<UserFlairState>('userflair', item.author.name);
+      if (previous === undefined) {
+        return {
+          dryRun,
+          success: false,
+          result: 'No previous user flair recorded for Author, nothing to undo',
+        }
+      }
+      flairParts.push('Restore previous flair');
+      templateId = previous.flair_template_id ?? undefined;
+      renderedText = previous.text ?? undefined;
+      renderedCss = previous.css ?? undefined;
+      if (templateId !== undefined) {
+        flairParts.push(`Flair template ID: ${templateId}`);
+      } else {
+        if (renderedText !== undefined) {
+          flairParts.push(`Text: ${renderedText}`);
+        }
+        if (renderedCss !== undefined) {
+          flairParts.push(`CSS: ${renderedCss}`);
+        }
+        if (renderedText === undefined && renderedCss === undefined) {
+          flairParts.push('Unflair user');
+        }
+      }
+    } else if (this.flair_template_id !== undefined) {
+      templateId = this.flair_template_id;
       flairParts.push(`Flair template ID: ${this.flair_template_id}`)
       if(this.text !== undefined || this.css !== undefined) {
         this.logger.warn('Text/CSS properties will be ignored since a flair template is specified');
       }
     } else {
       if (this.text !== undefined) {
-        renderedText = await this.renderContent(this.text, item, ruleResults, actionResults) as string;
+        renderedText = await this.renderContent(this.text, item, ruleResults, actionResults, options) as string;
         flairParts.push(`Text: ${renderedText}`);
       }
       if (this.css !== undefined) {
-        renderedCss = await this.renderContent(this.css, item, ruleResults, actionResults) as string;
+        renderedCss = await this.renderContent(this.css, item, ruleResults, actionResults, options) as string;
         flairParts.push(`CSS: ${renderedCss}`);
       }
     }
@@ -49,15 +80,20 @@ export class UserFlairAction extends Action {
     this.logger.verbose(flairSummary);
 
     if (!dryRun) {
-      if (this.flair_template_id !== undefined) {
+      const previousFlair: UserFlairState = {
+        text: item.author_flair_text ?? null,
+        css: item.author_flair_css_class ?? null,
+        flair_template_id: item.author_flair_template_id ?? null,
+      };
+      if (templateId !== undefined) {
         try {
           // @ts-ignore
           await this.client.assignUserFlairByTemplateId({
             subredditName: item.subreddit.display_name,
-            flairTemplateId: this.flair_template_id,
+            flairTemplateId: templateId,
             username: item.author.name,
           });
-          item.author_flair_template_id = this.flair_template_id
+          item.author_flair_template_id = templateId
         } catch (err: any) {
           this.logger.error('Either the flair template ID is incorrect or you do not have permission to access it.');
           throw err;
@@ -78,6 +114,11 @@ export class UserFlairAction extends Action {
         item.author_flair_text = renderedText ?? null;
         item.author_flair_css_class = renderedCss ?? null;
       }
+      if (this.undo) {
+        await this.resources.clearAuthorUndoState('userflair', item.author.name);
+      } else {
+        await this.resources.setAuthorUndoState('userflair', item.author.name, previousFlair);
+      }
       await this.resources.resetCacheForItem(item);
       if(typeof item.author !== 'string') {
           await this.resources.resetCacheForItem(item.author);
@@ -95,7 +136,9 @@ export class UserFlairAction extends Action {
     return {
       text: this.text,
       css: this.css,
-      flair_template_id: this.flair_template_id
+      flair_template_id: this.flair_template_id,
+      // only include when present so premises for existing userflair actions are unchanged
+      ...(this.undo ? {undo: this.undo} : {})
     }
   }
 }
@@ -120,6 +163,21 @@ export interface UserFlairActionConfig extends ActionConfig {
    * **Note:** If this template is used text/css are ignored
    * */
   flair_template_id?: string;
+
+  /**
+   * Restore the flair the Author had before this bot last changed it. If `true` all other properties are ignored.
+   *
+   * The previous flair is stored in the bot's cache so it is only available if the cache has persisted since the flair was changed.
+   *
+   * @default false
+   * */
+  undo?: boolean
+}
+
+interface UserFlairState {
+  text: string | null
+  css: string | null
+  flair_template_id: string | null
 }
 
 export interface UserFlairActionOptions extends Omit<UserFlairActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {
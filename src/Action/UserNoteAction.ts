@@ -44,7 +44,7 @@ export class UserNoteAction extends Action {
 
     async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
         const dryRun = this.getRuntimeAwareDryrun(options);
-        const renderedContent = (await this.renderContent(this.content, item, ruleResults, actionResults) as string);
+        const renderedContent = (await this.renderContent(this.content, item, ruleResults, actionResults, options) as string);
         this.logger.verbose(`Note:\r\n(${this.type}) ${renderedContent}`);
 
         let noteCheckPassed: boolean = true;
@@ -0,0 +1,246 @@
+import {ActionJson, ActionConfig, ActionOptions} from "./index";
+import Action from "./index";
+import {Comment, Submission} from "snoowrap";
+import {ActionProcessResult} from "../Common/interfaces";
+import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
+import {runCheckOptions} from "../Subreddit/Manager";
+import {ActionTypes} from "../Common/Infrastructure/Atomic";
+import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {generateFullWikiUrl, sleep, truncateStringToLength} from "../util";
+import {CMError, isScopeError, isStatusError, SimpleError} from "../Utils/Errors";
+
+const truncate = truncateStringToLength(100);
+// reddit limits wiki edit reasons to 256 characters
+const truncateReason = truncateStringToLength(256);
+
+export class WikiAction extends Action {
+
+    page: string;
+    content: string;
+    mode: WikiEditMode;
+    marker?: string;
+    separator: string;
+    reason: string;
+    retries: number;
+
+    getKind(): ActionTypes {
+        return 'wiki';
+    }
+
+    constructor(options: WikiActionOptions) {
+        super(options);
+        const {
+            page,
+            content,
+            mode = 'append',
+            marker,
+            separator = '\n\n',
+            reason = 'ContextMod {{manager}} {{check}} wiki action',
+            retries = 3,
+        } = options;
+        if (page === undefined || page.trim() === '') {
+            throw new SimpleError(`Wiki action must have a 'page'`);
+        }
+        if (!['append', 'prepend', 'replace'].includes(mode)) {
+            throw new SimpleError(`Wiki action 'mode' must be one of: append, prepend, replace -- given: ${mode}`);
+        }
+        this.page = page;
+        this.content = content;
+        this.mode = mode;
+        this.marker = marker;
+        this.separator = separator;
+        this.reason = reason;
+        this.retries = retries;
+    }
+
+    async process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        const dryRun = this.getRuntimeAwareDryrun(options);
+
+        const page = (await this.renderContent(this.page, item, ruleResults, actionResults, options) as string).trim().replace(/^\/|\/$/g, '');
+        const block = await this.renderContent(this.content, item, ruleResults, actionResults, options) as string;
+        const reason = truncateReason(await this.renderContent(this.reason, item, ruleResults, actionResults, options) as string);
+        const pageUrl = generateFullWikiUrl(this.resources.subreddit, page);
+
+        const summary = `${this.mode === 'replace' && this.marker !== undefined ? `Replace '${this.marker}' block` : `${this.mode.charAt(0).toUpperCase()}${this.mode.slice(1)}`} on ${pageUrl}: ${truncate(block)}`;
+        this.logger.verbose(summary);
+
+        if (!dryRun) {
+            let attempt = 0;
+            while (true) {
+                attempt++;
+                const [existing, revision] = await this.getCurrentPage(page);
+                // @ts-ignore
+                const wiki = this.resources.subreddit.getWikiPage(page);
+                // snoowrap typings misspell previousRevision
+                const editOptions: any = {
+                    text: this.applyBlock(existing, block),
+                    reason,
+                    previousRevision: revision
+                };
+                try {
+                    // @ts-ignore
+                    await wiki.edit(editOptions);
+                    break;
+                } catch (err: any) {
+                    if (isStatusError(err) && err.statusCode === 409 && attempt <= this.retries) {
+                        this.logger.warn(`Wiki page ${pageUrl} was edited by someone else before the edit could be saved, will retry (${attempt}/${this.retries})`);
+                        await sleep(1000 * attempt);
+                        continue;
+                    }
+                    if (isScopeError(err)) {
+                        throw new CMError(`Could not edit wiki page ${pageUrl} because the bot does not have 'wikiedit' oauth permission`, {cause: err});
+                    }
+                    throw new CMError(`Could not edit wiki page ${pageUrl}`, {cause: err});
+                }
+            }
+        }
+
+        return {
+            dryRun,
+            success: true,
+            result: summary,
+            data: {
+                page,
+                content: block,
+            }
+        };
+    }
+
+    /**
+     * Get the current content and revision ID for a wiki page, bypassing cache. Page is considered empty if it does not exist
+     * */
+    protected async getCurrentPage(page: string): Promise<[string, string | undefined]> {
+        try {
+            // @ts-ignore
+            const wikiPage = await this.resources.subreddit.getWikiPage(page).fetch();
+            return [wikiPage.content_md, wikiPage.revision_id];
+        } catch (err: any) {
+            if (isStatusError(err) && err.statusCode === 404) {
+                return ['', undefined];
+            }
+            throw new CMError(`Could not read wiki page ${generateFullWikiUrl(this.resources.subreddit, page)}`, {cause: err});
+        }
+    }
+
+    applyBlock(existing: string, block: string): string {
+        switch (this.mode) {
+            case 'append':
+                return existing.trim() === '' ? block : `${existing}${this.separator}${block}`;
+            case 'prepend':
+                return existing.trim() === '' ? block : `${block}${this.separator}${existing}`;
+            case 'replace':
+                if (this.marker === undefined) {
+                    return block;
+                }
+                const start = `[](#${this.marker}-start)`;
+                const end = `[](#${this.marker}-end)`;
+                const wrapped = `${start}\n${block}\n${end}`;
+                const startIndex = existing.indexOf(start);
+                const endIndex = existing.indexOf(end, startIndex);
+                if (startIndex === -1 || endIndex === -1) {
+                    // block does not exist yet, add it to the end of the page
+                    return existing.trim() === '' ? wrapped : `${existing}${this.separator}${wrapped}`;
+                }
+                return `${existing.slice(0, startIndex)}${wrapped}${existing.slice(endIndex + end.length)}`;
+        }
+    }
+
+    protected getSpecificPremise(): object {
+        return {
+            page: this.page,
+            content: this.content,
+            mode: this.mode,
+            marker: this.marker,
+            separator: this.separator,
+            reason: this.reason,
+        }
+    }
+}
+
+/**
+ * * `append` -> add content to the end of the page
+ * * `prepend` -> add content to the start of the page
+ * * `replace` -> replace the whole page with content, or only the block identified by `marker`
+ * */
+export type WikiEditMode = 'append' | 'prepend' | 'replace';
+
+export interface WikiActionConfig extends ActionConfig {
+    /**
+     * The name of the wiki page to edit, in the subreddit being processed. Can use Templating.
+     *
+     * If the page does not exist it is created.
+     *
+     * @examples ["banlog", "reports/weekly"]
+     * */
+    page: string
+
+    /**
+     * The content to add to the page. Can use Templating.
+     *
+     * If value starts with `wiki:` then the proceeding value will be used to get a wiki page
+     *
+     * @examples ["* {{item.author}} banned on {{item.permalink}}"]
+     * */
+    content: string
+
+    /**
+     * How the content is added to the page
+     *
+     * * `append` -> add content to the end of the page
+     * * `prepend` -> add content to the start of the page
+     * * `replace` -> replace the whole page with content, or only the block identified by `marker`
+     *
+     * @default "append"
+     * @examples ["append"]
+     * */
+    mode?: WikiEditMode
+
+    /**
+     * When using `replace` mode, only replace the block between the markers `[](#marker-start)` and `[](#marker-end)` instead of the whole page
+     *
+     * The markers are invisible when the page is rendered. If the block does not exist it is added to the end of the page.
+     *
+     * @pattern ^[a-zA-Z0-9_-]+$
+     * @examples ["weeklyReport"]
+     * */
+    marker?: string
+
+    /**
+     * Text placed between existing page content and new content when using `append` or `prepend`
+     *
+     * @default "\n\n"
+     * */
+    separator?: string
+
+    /**
+     * The reason shown in the page's revision history. Can use Templating.
+     *
+     * If the length expands to more than 256 characters it will be truncated with "..."
+     *
+     * @default "ContextMod {{manager}} {{check}} wiki action"
+     * @examples ["Added ban to ban log"]
+     * */
+    reason?: string
+
+    /**
+     * Number of times to retry the edit if the page was edited by someone else at the same time (edit conflict)
+     *
+     * @default 3
+     * @minimum 0
+     * @maximum 10
+     * @examples [3]
+     * */
+    retries?: number
+}
+
+export interface WikiActionOptions extends Omit<WikiActionConfig, 'authorIs' | 'itemIs'>, ActionOptions {
+}
+
+/**
+ * Append, prepend, or replace content on a wiki page in the subreddit
+ * */
+export interface WikiActionJson extends WikiActionConfig, ActionJson {
+    kind: 'wiki'
+}
+
+export default WikiAction;
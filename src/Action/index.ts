@@ -4,7 +4,7 @@ import {
     ActionProcessResult,
     ObjectPremise
 } from "../Common/interfaces";
-import {mergeArr} from "../util";
+import {asComment, mergeArr, parseDurationValToDuration} from "../util";
 import LoggedError from "../Utils/LoggedError";
 import {ExtendedSnoowrap} from '../Utils/SnoowrapClients';
 import {ErrorWithCause} from "pony-cause";
@@ -17,10 +17,14 @@ import { RuleResultEntity } from "../Common/Entities/RuleResultEntity";
 import { RunnableBase } from "../Common/RunnableBase";
 import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
 import {FindOptionsWhere} from "typeorm/find-options/FindOptionsWhere";
-import {ActionTypes} from "../Common/Infrastructure/Atomic";
+import {ActionTypes, DurationVal} from "../Common/Infrastructure/Atomic";
 import {RunnableBaseJson, RunnableBaseOptions, StructuredRunnableBase} from "../Common/Infrastructure/Runnable";
 import { SubredditResources } from "../Subreddit/SubredditResources";
 import {SnoowrapActivity} from "../Common/Infrastructure/Reddit";
+import {Duration} from "dayjs/plugin/duration";
+import dayjs from "dayjs";
+import {SimpleError} from "../Utils/Errors";
+import objectHash from "object-hash";
 
 export abstract class Action extends RunnableBase {
     name?: string;
@@ -33,6 +37,7 @@ export abstract class Action extends RunnableBase {
     actionPremiseEntity: ActionPremise | null = null;
     checkName: string;
     subredditName: string;
+    throttle?: ActionThrottle;
 
     constructor(options: ActionOptions) {
         super(options);
@@ -45,6 +50,8 @@ export abstract class Action extends RunnableBase {
             dryRun = false,
             emitter,
             checkName,
+            throttle,
+            once,
         } = options;
 
         this.name = name;
@@ -55,6 +62,31 @@ export abstract class Action extends RunnableBase {
         this.managerEmitter = emitter;
         this.checkName = checkName;
         this.subredditName = subredditName;
+
+        if (throttle !== undefined && once !== undefined) {
+            throw new SimpleError(`Action cannot use both 'throttle' and 'once'`);
+        }
+        if (once !== undefined) {
+            this.throttle = {
+                per: once,
+                limit: 1,
+                window: dayjs.duration(1, 'year'),
+            };
+        } else if (throttle !== undefined) {
+            const {
+                per = 'author',
+                limit = 1,
+                window = '24 hours'
+            } = throttle;
+            this.throttle = {
+                per,
+                limit,
+                window: parseDurationValToDuration(window),
+            };
+        }
+        if (this.throttle !== undefined && !['author', 'activity', 'submission'].includes(this.throttle.per)) {
+            throw new SimpleError(`Action throttle 'per' must be one of: author, activity, submission -- given: ${this.throttle.per}`);
+        }
     }
 
     abstract getKind(): ActionTypes;
@@ -75,7 +107,12 @@ export abstract class Action extends RunnableBase {
         };
     }
 
-    async initialize() {
+    /**
+     * Find or create the premise entity for this Action
+     *
+     * @param persist If false a new premise is not saved, IE when previewing a config that has not been saved
+     * */
+    async initialize(persist: boolean = true) {
         if (this.actionPremiseEntity === null) {
             const prem = this.getPremise();
             const kind = await this.resources.database.getRepository(ActionType).findOne({where: {name: this.getKind()}});
@@ -111,7 +148,7 @@ export abstract class Action extends RunnableBase {
                     where: searchCriteria
                 });
                 if (this.actionPremiseEntity === null) {
-                    this.actionPremiseEntity = await actionPremiseRepo.save(candidatePremise);
+                    this.actionPremiseEntity = persist ? await actionPremiseRepo.save(candidatePremise) : candidatePremise;
                 }
             } catch (err) {
                 const f = err;
@@ -155,12 +192,28 @@ export abstract class Action extends RunnableBase {
                 actRes.runReason = runReason;
                 return actRes;
             }
+            if (this.throttle !== undefined) {
+                const throttleReason = await this.getThrottledReason(item);
+                if (throttleReason !== undefined) {
+                    this.logger.verbose(throttleReason);
+                    actRes.run = false;
+                    actRes.runReason = throttleReason;
+                    return actRes;
+                }
+            }
             const results = await this.process(item, ruleResults, actionResults, options);
+            if (this.throttle !== undefined && results.success && !results.dryRun) {
+                await this.recordThrottledRun(item);
+            }
             actRes.success = results.success;
             actRes.dryRun = results.dryRun;
             actRes.result = results.result;
             actRes.data = results.data;
             actRes.touchedEntities = results.touchedEntities ?? [];
+            if(results.removalReason !== undefined) {
+                actRes.removalReasonId = results.removalReason.id;
+                actRes.removalReason = results.removalReason.title;
+            }
 
             return actRes;
         } catch (err: any) {
@@ -174,6 +227,45 @@ export abstract class Action extends RunnableBase {
         }
     }
 
+    protected getThrottleIdentifier(item: Comment | Submission): string {
+        switch ((this.throttle as ActionThrottle).per) {
+            case 'author':
+                return item.author.name;
+            case 'activity':
+                return item.name;
+            case 'submission':
+                return asComment(item) ? item.link_id : item.name;
+        }
+    }
+
+    protected getThrottleKey(item: Comment | Submission): string {
+        // name defaults to kind so premise is included to keep unnamed Actions of the same kind in a Check distinct
+        return `${this.checkName}-${this.name}-${objectHash.sha1(this.getPremise())}-${(this.throttle as ActionThrottle).per}-${this.getThrottleIdentifier(item)}`;
+    }
+
+    /**
+     * Returns a reason the Action should not be run if it has already run the maximum number of times, within the throttle window, for the Activity's throttle identifier
+     * */
+    protected async getThrottledReason(item: Comment | Submission): Promise<string | undefined> {
+        const {per, limit, window} = this.throttle as ActionThrottle;
+        const cutoff = dayjs().subtract(window).unix();
+        const history = (await this.resources.getActionThrottleHistory(this.getThrottleKey(item))).filter(x => x >= cutoff);
+        if (history.length >= limit) {
+            const lastRun = dayjs.unix(history[history.length - 1]);
+            return `Throttled: already run ${history.length} time(s) for ${per} ${this.getThrottleIdentifier(item)} within ${window.humanize()} (last run ${lastRun.fromNow()}), Action not run`;
+        }
+        return undefined;
+    }
+
+    protected async recordThrottledRun(item: Comment | Submission) {
+        const {window} = this.throttle as ActionThrottle;
+        const key = this.getThrottleKey(item);
+        const cutoff = dayjs().subtract(window).unix();
+        const history = (await this.resources.getActionThrottleHistory(key)).filter(x => x >= cutoff);
+        history.push(dayjs().unix());
+        await this.resources.setActionThrottleHistory(key, history, Math.ceil(window.asSeconds()));
+    }
+
     abstract process(item: Comment | Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult>;
 
     getRuntimeAwareDryrun(options: runCheckOptions): boolean {
@@ -181,11 +273,20 @@ export abstract class Action extends RunnableBase {
         return runtimeDryrun || this.dryRun;
     }
 
-    async renderContent(template: string | undefined, item: SnoowrapActivity, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[]): Promise<string | undefined> {
+    async renderContent(template: string | undefined, item: SnoowrapActivity, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options?: runCheckOptions): Promise<string | undefined> {
         if(template === undefined) {
             return undefined;
         }
-        return await this.resources.renderContent(template, item, ruleResults, actionResults, {manager: this.subredditName, check: this.checkName});
+        return await this.resources.renderContent(template, item, ruleResults, actionResults, this.getTemplateData(options));
+    }
+
+    getTemplateData(options?: runCheckOptions): { [key: string]: any } {
+        const data: { [key: string]: any } = {manager: this.subredditName, check: this.checkName};
+        if (options?.checkScore !== undefined) {
+            data.score = options.checkScore.score;
+            data.scoreContributions = options.checkScore.contributions;
+        }
+        return data;
     }
 }
 
@@ -226,6 +327,68 @@ export interface ActionConfig extends RunnableBaseJson {
      * @examples [true]
      * */
     enable?: boolean
+
+    /**
+     * Limit how many times this Action can run for the same Author, Activity, or Submission within a time period
+     *
+     * When the limit is reached the Action is skipped and the reason is recorded in the Action's result
+     * */
+    throttle?: ActionThrottleConfig
+
+    /**
+     * Only run this Action once for the same Author, Activity, or Submission
+     *
+     * Shorthand for `throttle` with a `limit` of 1 and a `window` of 1 year. Cannot be used with `throttle`
+     *
+     * @examples ["submission"]
+     * */
+    once?: ActionThrottleScope
+}
+
+/**
+ * What an Action throttle is tracked against
+ *
+ * * `author` -- the Author of the Activity being processed
+ * * `activity` -- the Activity being processed
+ * * `submission` -- the Submission being processed, or the parent Submission of the Comment being processed
+ * */
+export type ActionThrottleScope = 'author' | 'activity' | 'submission';
+
+export interface ActionThrottleConfig {
+    /**
+     * What the throttle is tracked against
+     *
+     * * `author` -- the Author of the Activity being processed
+     * * `activity` -- the Activity being processed
+     * * `submission` -- the Submission being processed, or the parent Submission of the Comment being processed
+     *
+     * @default "author"
+     * @examples ["author"]
+     * */
+    per?: ActionThrottleScope
+
+    /**
+     * The maximum number of times the Action can run, for `per`, within `window`
+     *
+     * @default 1
+     * @minimum 1
+     * @examples [1]
+     * */
+    limit?: number
+
+    /**
+     * The time period runs are counted within
+     *
+     * @default "24 hours"
+     * @examples ["24 hours"]
+     * */
+    window?: DurationVal
+}
+
+export interface ActionThrottle {
+    per: ActionThrottleScope
+    limit: number
+    window: Duration
 }
 
 export interface ActionJson extends ActionConfig {
@@ -90,9 +90,7 @@ export class App {
 
     async onTerminate(reason = 'The application was shutdown') {
         for(const b of this.bots) {
-            for(const m of b.subManagers) {
-                await m.notificationManager.handle('runStateChanged', 'Application Shutdown', reason);
-            }
+            await b.onTerminate(reason);
             //await b.notificationManager.handle('runStateChanged', 'Application Shutdown', reason);
         }
     }
@@ -3,6 +3,7 @@ import Snoowrap from "snoowrap";
 import {Cache} from "cache-manager";
 import {
     BotInstanceConfig,
+    HttpActionOperatorConfig,
     StrongCache,
     StrongTTLConfig,
     ThirdPartyCredentialsJsonConfig,
@@ -35,6 +36,7 @@ export class BotResourcesManager {
     cacheHash: string;
     ttlDefaults: StrongTTLConfig
     defaultThirdPartyCredentials: ThirdPartyCredentialsJsonConfig;
+    httpAction: HttpActionOperatorConfig;
     logger: Logger;
     botAccount?: string;
     defaultDatabase: DataSource
@@ -68,12 +70,14 @@ export class BotResourcesManager {
                 retention
             } = {},
             caching,
+            httpAction,
         } = config;
         caching.provider.prefix = buildCachePrefix([caching.provider.prefix, 'SHARED']);
         const {...relevantCacheSettings} = caching;
         this.cacheHash = objectHash.sha1(relevantCacheSettings);
         this.defaultCacheConfig = caching;
         this.defaultThirdPartyCredentials = thirdParty;
+        this.httpAction = httpAction;
         this.defaultDatabase = database;
         this.ttlDefaults = toStrongTTLConfig({
             authorTTL,
@@ -118,6 +122,7 @@ export class BotResourcesManager {
             cacheSettingsHash: hash,
             ttl: this.ttlDefaults,
             thirdPartyCredentials: credentials ?? this.defaultThirdPartyCredentials,
+            httpAction: this.httpAction,
             prefix: this.defaultCacheConfig.provider.prefix,
             database: this.defaultDatabase,
             botName: this.botName,
@@ -115,6 +115,7 @@ class Bot implements BotInstanceFunctions {
     depletedInSecs: number = 0;
 
     error: any;
+    terminated: boolean = false;
     emitter: EventEmitter = new EventEmitter();
 
     cacheManager: BotResourcesManager;
@@ -350,8 +351,14 @@ class Bot implements BotInstanceFunctions {
     }
 
     async onTerminate(reason = 'The application was shutdown') {
+        if(this.terminated) {
+            return;
+        }
+        this.terminated = true;
         for(const m of this.subManagers) {
             await m.notificationManager.handle('runStateChanged', 'Application Shutdown', reason);
+            // send any pending digests (including the shutdown notice) before the process exits
+            await m.notificationManager.destroy();
         }
     }
 
@@ -998,6 +1005,7 @@ class Bot implements BotInstanceFunctions {
             if(expiredGuests.length > 0) {
                 m.managerEntity.removeGuestById(expiredGuests.map(x => x.id));
                 m.logger.info(`Removed expired Guest Mods: ${expiredGuests.map(x => x.author.name).join(', ')}`);
+                m.notificationManager.handle('guestAccessExpired', 'Guest Access Expired', `Access expired and was removed for Guest Mods: ${expiredGuests.map(x => x.author.name).join(', ')}`, 'system');
                 await this.managerRepo.save(m.managerEntity);
             }
         }
@@ -1156,14 +1164,16 @@ class Bot implements BotInstanceFunctions {
                     for (const m of offenders) {
                         m.delayBy = 1.5;
                         m.logger.info(`SLOW MODE (Currently ~${formatNumber(m.eventsRollingAvg + m.rulesUniqueRollingAvg)}req/sec)`, {leaf: 'Api Nanny'});
-                        m.notificationManager.handle('runStateChanged', 'Soft Limit Triggered', `Soft Limit of ${this.softLimit} hit (API Remaining: ${this.client.ratelimitRemaining}). Subreddit queue processing will be slowed to 1.5 seconds per.`, 'system', 'warn');
+                        // also sent to runStateChanged subscribers (where soft limit notices were sent before rateLimitLow existed) but only once per notifier
+                        m.notificationManager.handle(['rateLimitLow', 'runStateChanged'], 'Soft Limit Triggered', `Soft Limit of ${this.softLimit} hit (API Remaining: ${this.client.ratelimitRemaining}). Subreddit queue processing will be slowed to 1.5 seconds per.`, 'system', 'warn');
                     }
                 } else {
                     this.logger.info(`Couldn't detect specific offenders, slowing all...`, {leaf: 'Api Nanny'});
                     for (const m of this.subManagers) {
                         m.delayBy = 1.5;
                         m.logger.info(`SLOW MODE (Currently ~${formatNumber(m.eventsRollingAvg + m.rulesUniqueRollingAvg)}req/sec)`, {leaf: 'Api Nanny'});
-                        m.notificationManager.handle('runStateChanged', 'Soft Limit Triggered', `Soft Limit of ${this.softLimit} hit (API Remaining: ${this.client.ratelimitRemaining}). Subreddit queue processing will be slowed to 1.5 seconds per.`, 'system', 'warn');
+                        // also sent to runStateChanged subscribers (where soft limit notices were sent before rateLimitLow existed) but only once per notifier
+                        m.notificationManager.handle(['rateLimitLow', 'runStateChanged'], 'Soft Limit Triggered', `Soft Limit of ${this.softLimit} hit (API Remaining: ${this.client.ratelimitRemaining}). Subreddit queue processing will be slowed to 1.5 seconds per.`, 'system', 'warn');
                     }
                 }
                 this.nannyMode = 'soft';
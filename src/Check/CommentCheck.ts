@@ -36,6 +36,8 @@ export class CommentCheck extends Check {
                 return undefined;
             }
             partialResult.triggered = res.triggered;
+            partialResult.score = res.score;
+            partialResult.scoreContributions = res.scoreContributions;
 
             if(res instanceof CheckResultEntity) {
                 partialResult.ruleResults = res.ruleResults;
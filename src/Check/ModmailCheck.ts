@@ -0,0 +1,430 @@
+import {Logger} from "winston";
+import EventEmitter from "events";
+import {ModmailConversation} from "snoowrap/dist/objects";
+import {ModmailMessage} from "snoowrap/dist/objects/ModmailConversation";
+import {ExtendedSnoowrap} from "../Utils/SnoowrapClients";
+import {SubredditResources} from "../Subreddit/SubredditResources";
+import {ModmailCheckConfigData} from "./index";
+import {ModmailState} from "../Common/Infrastructure/Filters/FilterCriteria";
+import {comparisonTextOp, parseGenericValueComparison} from "../Common/Infrastructure/Comparisons";
+import {FAIL, mergeArr, PASS, testMaybeStringRegex, truncateStringToLength} from "../util";
+import {renderContent} from "../Utils/SnoowrapUtils";
+import {CMError} from "../Utils/Errors";
+import {NotificationEventPayload} from "../Common/interfaces";
+import {checkAuthorFilter} from "../Subreddit/SubredditResources";
+import {AuthorCriteria} from "../Common/Infrastructure/Filters/FilterCriteria";
+import {AuthorOptions, FilterResult, MinimalOrFullFilter} from "../Common/Infrastructure/Filters/FilterShapes";
+import {buildFilter} from "../util";
+import {CheckEntity} from "../Common/Entities/CheckEntity";
+import {RunEntity} from "../Common/Entities/RunEntity";
+import {Comment, RedditUser} from "snoowrap/dist/objects";
+
+const checkLogName = truncateStringToLength(25);
+
+export type ModmailStateActionType = 'archive' | 'unarchive' | 'highlight' | 'unhighlight' | 'mute' | 'unmute';
+
+/**
+ * Reply to the modmail Conversation being checked
+ *
+ * @examples [{"kind": "reply", "content": "Thanks for your message u/{{modmail.participant}}! A moderator will get back to you soon."}]
+ * */
+export interface ModmailReplyActionJson {
+    kind: 'reply'
+    /**
+     * The Content to reply with. Supports mustache templating with these properties:
+     *
+     * * `{{modmail.id}}` -- id of the Conversation
+     * * `{{modmail.subject}}` -- subject of the Conversation
+     * * `{{modmail.participant}}` -- username of the (non-moderator) participant
+     * * `{{modmail.body}}` -- body of the most recent message
+     * * `{{modmail.permalink}}` -- link to the Conversation
+     *
+     * @examples ["Thanks for your message u/{{modmail.participant}}! A moderator will get back to you soon."]
+     * */
+    content: string
+    /**
+     * Reply as a private moderator note that is only visible to moderators
+     *
+     * @default false
+     * */
+    internal?: boolean
+    /**
+     * Hide the bot's username so the reply appears to come from the subreddit
+     *
+     * @default true
+     * */
+    asSubreddit?: boolean
+}
+
+/**
+ * Change the state of the modmail Conversation being checked
+ *
+ * **Note:** `mute` and `unmute` apply to the (non-moderator) participant of the Conversation
+ *
+ * @examples [{"kind": "archive"}]
+ * */
+export interface ModmailStateActionJson {
+    kind: ModmailStateActionType
+}
+
+export type ModmailActionJson = ModmailReplyActionJson | ModmailStateActionJson;
+
+export interface ModmailActionResult {
+    kind: ModmailReplyActionJson['kind'] | ModmailStateActionType
+    dryRun: boolean
+    success: boolean
+    result?: string
+    error?: string
+}
+
+export interface ModmailCheckResult {
+    name: string
+    triggered: boolean
+    reason?: string
+    authorIs?: FilterResult<AuthorCriteria>
+    actionResults: ModmailActionResult[]
+}
+
+export interface ModmailCheckOptions extends Omit<ModmailCheckConfigData, 'kind' | 'authorIs'> {
+    authorIs?: MinimalOrFullFilter<AuthorCriteria>
+    logger: Logger
+    subredditName: string
+    resources: SubredditResources
+    client: ExtendedSnoowrap
+    emitter: EventEmitter
+}
+
+export const asModmailReplyAction = (val: ModmailActionJson): val is ModmailReplyActionJson => {
+    return val.kind === 'reply';
+}
+
+export const getLatestModmailMessage = (conversation: ModmailConversation): ModmailMessage | undefined => {
+    const messages = [...(conversation.messages ?? [])];
+    if (messages.length === 0) {
+        return undefined;
+    }
+    messages.sort((a, z) => new Date(a.date).getTime() - new Date(z.date).getTime());
+    return messages[messages.length - 1];
+}
+
+export class ModmailCheck {
+    name: string;
+    description?: string;
+    enabled: boolean;
+    dryRun?: boolean;
+    notifyOnTrigger: boolean;
+    modmailIs: ModmailState[];
+    authorIs: AuthorOptions;
+    actions: ModmailActionJson[];
+    logger: Logger;
+    subredditName: string;
+    resources: SubredditResources;
+    client: ExtendedSnoowrap;
+    emitter: EventEmitter;
+    runEntity!: RunEntity;
+    checkEntity?: CheckEntity;
+
+    constructor(options: ModmailCheckOptions) {
+        const {
+            name,
+            description,
+            enable = true,
+            dryRun,
+            notifyOnTrigger = false,
+            modmailIs = [],
+            authorIs = [],
+            actions = [],
+            subredditName,
+            resources,
+            client,
+            emitter,
+        } = options;
+
+        this.name = name;
+        this.description = description;
+        this.enabled = enable;
+        this.dryRun = dryRun;
+        this.notifyOnTrigger = notifyOnTrigger;
+        this.modmailIs = modmailIs;
+        this.authorIs = buildFilter(authorIs);
+        this.actions = actions;
+        this.subredditName = subredditName;
+        this.resources = resources;
+        this.client = client;
+        this.emitter = emitter;
+        this.logger = options.logger.child({labels: [`CHK ${checkLogName(name)}`]}, mergeArr);
+
+        this.logger.info(`=${this.enabled ? 'Enabled' : 'Disabled'}= MODMAIL${this.notifyOnTrigger ? ' ||Notify on Trigger|| ' : ''} => Modmail Criteria: ${this.modmailIs.length} | Author Filter: ${this.hasAuthorFilter() ? 'Yes' : 'No'} | Actions: ${this.actions.length}${this.description !== undefined ? ` => ${this.description}` : ''}`);
+        if (this.modmailIs.length === 0 && !this.hasAuthorFilter()) {
+            this.logger.warn('No modmail criteria or author filter found -- this check will ALWAYS PASS!');
+        }
+        for (const a of this.actions) {
+            this.logger.verbose(`(Action) => ${a.kind}`);
+        }
+    }
+
+    /**
+     * Find or create the entity for this Check
+     *
+     * @param persist If false a new entity is not saved, IE when previewing a config that has not been saved
+     * */
+    async initialize(persist: boolean = true) {
+        if (this.checkEntity === undefined) {
+            const checkRepo = this.resources.database.getRepository(CheckEntity);
+            const ce = await checkRepo.findOne({
+                where: {
+                    name: this.name,
+                    run: {
+                        name: this.runEntity.name,
+                    },
+                    manager: {
+                        id: this.resources.managerEntity.id,
+                    }
+                }, relations: {
+                    manager: true,
+                    run: true
+                }
+            });
+            if (ce !== null) {
+                this.checkEntity = ce;
+            } else {
+                const candidateCheck = new CheckEntity({
+                    name: this.name,
+                    type: 'modmail',
+                    run: this.runEntity,
+                    manager: this.resources.managerEntity
+                });
+                this.checkEntity = persist ? await checkRepo.save(candidateCheck) : candidateCheck;
+            }
+        }
+    }
+
+    hasAuthorFilter(): boolean {
+        return (this.authorIs.include ?? []).length > 0 || (this.authorIs.exclude ?? []).length > 0;
+    }
+
+    async handle(conversation: ModmailConversation, options: { dryRun?: boolean } = {}): Promise<ModmailCheckResult> {
+        const checkResult: ModmailCheckResult = {
+            name: this.name,
+            triggered: false,
+            actionResults: [],
+        };
+
+        if (!this.enabled) {
+            this.logger.info('Not running because it is not enabled');
+            checkResult.reason = 'Not enabled';
+            return checkResult;
+        }
+
+        try {
+            const [passed, reason] = this.testModmailState(conversation);
+            checkResult.reason = reason;
+            if (!passed) {
+                this.logger.verbose(`${FAIL} => ${reason}`);
+                return checkResult;
+            }
+
+            if (this.hasAuthorFilter()) {
+                const participant = conversation.participant?.name;
+                if (participant === undefined) {
+                    checkResult.reason = 'Conversation has no participant to test Author Filter against';
+                    this.logger.verbose(`${FAIL} => ${checkResult.reason}`);
+                    return checkResult;
+                }
+                const [authorPassed, , authorResults] = await checkAuthorFilter(this.getParticipantActivity(participant), this.authorIs, this.resources, this.logger);
+                checkResult.authorIs = authorResults;
+                if (!authorPassed) {
+                    checkResult.reason = 'Participant did not pass Author Filter';
+                    this.logger.verbose(`${FAIL} => ${checkResult.reason}`);
+                    return checkResult;
+                }
+            }
+
+            this.logger.info(`${PASS} => ${checkResult.reason}`);
+            checkResult.triggered = true;
+
+            const dryRun = options.dryRun || this.dryRun || false;
+            checkResult.actionResults = await this.runActions(conversation, dryRun);
+
+            if (this.notifyOnTrigger && checkResult.actionResults.length > 0) {
+                const ar = checkResult.actionResults.filter(x => x.success).map(x => x.kind).join(', ');
+                const notifPayload: NotificationEventPayload = {
+                    type: 'eventActioned',
+                    title: 'Check Triggered',
+                    body: `Check "${this.name}" was triggered on modmail Conversation "${conversation.subject}" (${conversation.id}) with the following actions run: ${ar}`,
+                    context: {
+                        check: this.name,
+                        author: conversation.participant?.name,
+                    }
+                }
+                this.emitter.emit('notify', notifPayload)
+            }
+
+            return checkResult;
+        } finally {
+            this.resources.updateHistoricalStats({
+                checksTriggeredTotal: checkResult.triggered ? 1 : 0,
+                checksRunTotal: 1,
+                actionsRunTotal: checkResult.actionResults.length,
+            });
+        }
+    }
+
+    /**
+     * Author criteria are tested against an Activity so this stands in for an Activity authored by the participant
+     *
+     * Only the author and subreddit are available -- criteria that use other Activity properties (flair) will not pass
+     * */
+    protected getParticipantActivity(participant: string): Comment {
+        return {
+            author: new RedditUser({name: participant}, this.client, false),
+            subreddit: this.resources.subreddit,
+        } as unknown as Comment;
+    }
+
+    /**
+     * Conversation passes if it matches ANY of the criteria in modmailIs. All properties in a criteria must match for the criteria to pass.
+     * */
+    testModmailState(conversation: ModmailConversation): [boolean, string] {
+        if (this.modmailIs.length === 0) {
+            return [true, 'No modmail criteria to test'];
+        }
+        const latest = getLatestModmailMessage(conversation);
+        for (const [index, crit] of this.modmailIs.entries()) {
+            const failed: string[] = [];
+            for (const [k, v] of Object.entries(crit)) {
+                if (v === undefined) {
+                    continue;
+                }
+                let passed: boolean;
+                switch (k as keyof ModmailState) {
+                    case 'archived':
+                        passed = (conversation.state === 2) === v;
+                        break;
+                    case 'highlighted':
+                        passed = conversation.isHighlighted === v;
+                        break;
+                    case 'isInternal':
+                        passed = conversation.isInternal === v;
+                        break;
+                    case 'isAuto':
+                        passed = conversation.isAuto === v;
+                        break;
+                    case 'participantIsAuthor':
+                        const participantName = conversation.participant?.name;
+                        const isAuthor = latest !== undefined && participantName !== undefined && latest.author.name.toLowerCase() === participantName.toLowerCase();
+                        passed = isAuthor === v;
+                        break;
+                    case 'subject':
+                        passed = this.testRegex(v as string, conversation.subject, k);
+                        break;
+                    case 'body':
+                        passed = latest !== undefined && this.testRegex(v as string, latest.bodyMarkdown ?? latest.body, k);
+                        break;
+                    case 'messages':
+                        const msgCompare = parseGenericValueComparison(v as string);
+                        passed = comparisonTextOp(conversation.numMessages, msgCompare.operator, msgCompare.value);
+                        break;
+                    default:
+                        this.logger.warn(`Unknown modmail criteria property '${k}' will be ignored`);
+                        passed = true;
+                }
+                if (!passed) {
+                    failed.push(k);
+                }
+            }
+            if (failed.length === 0) {
+                return [true, `Modmail Criteria #${index + 1} passed`];
+            }
+            this.logger.debug(`Modmail Criteria #${index + 1} failed on: ${failed.join(', ')}`);
+        }
+        return [false, 'No modmail criteria passed'];
+    }
+
+    protected testRegex(test: string, subject: string, property: string): boolean {
+        try {
+            const [passed] = testMaybeStringRegex(test, subject);
+            return passed;
+        } catch (err: any) {
+            this.logger.warn(new CMError(`Could not test modmail criteria '${property}' because the value was not a valid regular expression`, {cause: err}));
+            return false;
+        }
+    }
+
+    async runActions(conversation: ModmailConversation, dryRun: boolean): Promise<ModmailActionResult[]> {
+        const results: ModmailActionResult[] = [];
+        this.logger.debug(`${dryRun ? 'DRYRUN - ' : ''}Running Actions`);
+        for (const a of this.actions) {
+            const res: ModmailActionResult = {
+                kind: a.kind,
+                dryRun,
+                success: false,
+            };
+            try {
+                if (asModmailReplyAction(a)) {
+                    const {
+                        content,
+                        internal = false,
+                        asSubreddit = true,
+                    } = a;
+                    const latest = getLatestModmailMessage(conversation);
+                    const body = await renderContent(content, {
+                        check: this.name,
+                        manager: this.subredditName,
+                        modmail: {
+                            id: conversation.id,
+                            subject: conversation.subject,
+                            participant: conversation.participant?.name,
+                            body: latest?.bodyMarkdown ?? latest?.body,
+                            permalink: `https://mod.reddit.com/mail/all/${conversation.id}`,
+                        }
+                    });
+                    this.logger.verbose(`${dryRun ? 'DRYRUN - ' : ''}Reply${internal ? ' (Private Mod Note)' : ''} Preview => ${truncateStringToLength(100)(body)}`);
+                    if (!dryRun) {
+                        // @ts-ignore
+                        await conversation.reply(body, asSubreddit, internal);
+                    }
+                    res.result = truncateStringToLength(200)(body);
+                } else {
+                    this.logger.verbose(`${dryRun ? 'DRYRUN - ' : ''}${a.kind.toUpperCase()} Conversation`);
+                    if (!dryRun) {
+                        switch (a.kind) {
+                            case 'archive':
+                                // @ts-ignore
+                                await conversation.archive();
+                                break;
+                            case 'unarchive':
+                                // @ts-ignore
+                                await conversation.unarchive();
+                                break;
+                            case 'highlight':
+                                // @ts-ignore
+                                await conversation.highlight();
+                                break;
+                            case 'unhighlight':
+                                // @ts-ignore
+                                await conversation.unhighlight();
+                                break;
+                            case 'mute':
+                                // @ts-ignore
+                                await conversation.mute();
+                                break;
+                            case 'unmute':
+                                // @ts-ignore
+                                await conversation.unmute();
+                                break;
+                        }
+                    }
+                }
+                res.success = true;
+            } catch (err: any) {
+                const actionError = new CMError(`Modmail action '${a.kind}' failed`, {cause: err});
+                this.logger.warn(actionError);
+                res.error = err.message;
+            }
+            results.push(res);
+        }
+        this.logger.info(`${dryRun ? 'DRYRUN - ' : ''}Ran Actions: ${results.map(x => `${x.kind}${x.success ? '' : ' (FAILED)'}`).join(' | ')}`);
+        return results;
+    }
+}
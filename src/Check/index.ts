@@ -9,6 +9,7 @@ import {
     asPostBehaviorOptionConfig,
     createAjvFactory,
     FAIL,
+    getActivityAuthorName,
     isRuleSetResult,
     mergeArr,
     PASS,
@@ -24,6 +25,7 @@ import {
     PostBehavior,
     PostBehaviorOptionConfigStrong,
     PostBehaviorStrong,
+    RuleScoreContribution,
     RuleSetResult
 } from "../Common/interfaces";
 import * as RuleSchema from '../Schema/Rule.json';
@@ -44,9 +46,22 @@ import {RunnableBase} from "../Common/RunnableBase";
 import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
 import {RuleSetResultEntity} from "../Common/Entities/RuleSetResultEntity";
 import {CheckToRuleResultEntity} from "../Common/Entities/RunnableAssociation/CheckToRuleResultEntity";
-import {JoinOperands, PostBehaviorType, RecordOutputType, recordOutputTypes} from "../Common/Infrastructure/Atomic";
-import {CommentState, SubmissionState,} from "../Common/Infrastructure/Filters/FilterCriteria";
+import {
+    ActionTypes,
+    PostBehaviorType,
+    RecordOutputType,
+    recordOutputTypes,
+    RunnableCondition
+} from "../Common/Infrastructure/Atomic";
+import {
+    GenericComparison,
+    isScoreCondition,
+    parseScoreCondition,
+    testScoreCondition
+} from "../Common/Infrastructure/Comparisons";
+import {AuthorCriteria, CommentState, ModmailState, SubmissionState,} from "../Common/Infrastructure/Filters/FilterCriteria";
 import {ActivityType} from "../Common/Infrastructure/Reddit";
+import {MinimalOrFullFilter, MinimalOrFullFilterJson} from "../Common/Infrastructure/Filters/FilterShapes";
 import {
     RunnableBaseJson,
     RunnableBaseOptions,
@@ -66,12 +81,15 @@ import {
     StructuredActionObjectJson
 } from "../Common/Infrastructure/ActionShapes";
 import {IncludesData} from "../Common/Infrastructure/Includes";
+import {ModmailActionJson} from "./ModmailCheck";
 
 const checkLogName = truncateStringToLength(25);
 
 interface RuleResults {
     triggered: boolean
     results: (RuleSetResult | RuleResultEntity)[]
+    score?: number
+    scoreContributions?: RuleScoreContribution[]
 }
 
 export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTrigger' | 'postFail'>, PostBehaviorStrong {
@@ -79,7 +97,8 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
     description?: string;
     name: string;
     enabled: boolean;
-    condition: JoinOperands;
+    condition: RunnableCondition;
+    scoreCondition?: GenericComparison;
     rules: Array<RuleSet | Rule> = [];
     logger: Logger;
     cacheUserResult: Required<UserResultCacheOptions>;
@@ -125,7 +144,12 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
         this.name = name;
         this.description = description;
         this.notifyOnTrigger = notifyOnTrigger;
-        this.condition = condition;
+        if (isScoreCondition(condition)) {
+            this.scoreCondition = parseScoreCondition(condition);
+            this.condition = `score ${this.scoreCondition.displayText}`;
+        } else {
+            this.condition = condition;
+        }
 
         if(asPostBehaviorOptionConfig(postTrigger)) {
             const {
@@ -279,7 +303,12 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
     async setCacheResult(item: Submission | Comment, result: CheckResultEntity): Promise<void> {
     }
 
-    async initialize() {
+    /**
+     * Find or create the entity for this Check
+     *
+     * @param persist If false a new entity is not saved, IE when previewing a config that has not been saved
+     * */
+    async initialize(persist: boolean = true) {
         if (this.checkEntity === undefined) {
             const checkRepo = this.resources.database.getRepository(CheckEntity);
             const ce = await checkRepo.findOne({
@@ -299,12 +328,13 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
             if (ce !== null) {
                 this.checkEntity = ce;
             } else {
-                this.checkEntity = await checkRepo.save(new CheckEntity({
+                const candidateCheck = new CheckEntity({
                     name: this.name,
                     type: this.checkType,
                     run: this.runEntity,
                     manager: this.resources.managerEntity
-                }));
+                });
+                this.checkEntity = persist ? await checkRepo.save(candidateCheck) : candidateCheck;
             }
         }
     }
@@ -350,7 +380,10 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
             let cacheResult: CheckResultEntity | undefined;
 
             try {
-                cacheResult = await this.getCacheResult(activity, checkResult);
+                // a preview runs Checks from a config that is not live so it must not use (or store) results cached by the live config
+                if (options.preview !== true) {
+                    cacheResult = await this.getCacheResult(activity, checkResult);
+                }
             } catch (err) {
                 this.logger.warn(new ErrorWithCause('Error occurred while trying to retrieve check cache result. Will ignore and run full check', {cause: err}));
             }
@@ -374,14 +407,20 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
 
                         const {
                             triggered: checkTriggered,
-                            results
+                            results,
+                            score,
+                            scoreContributions
                         } = runResults;
 
                         checkResult.triggered = checkTriggered;
+                        checkResult.score = score;
+                        checkResult.scoreContributions = scoreContributions;
                         triggered = checkTriggered;
                         //let index = 1;
                         checkResult.results = results;
-                        await this.setCacheResult(activity, checkResult);
+                        if (options.preview !== true) {
+                            await this.setCacheResult(activity, checkResult);
+                        }
                         currentResults = results.map(x => isRuleSetResult(x) ? x.results : x).flat();
                     } catch (err: any) {
                         checkResult.error = `Running rules failed due to uncaught exception: ${err.message}`;
@@ -408,7 +447,11 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
                 checkSum.postBehavior = this.postTrigger.behavior;
 
                 try {
-                    checkResult.actionResults = await this.runActions(activity, currentResults.filter(x => x.triggered), options);
+                    const actionOptions = checkResult.score === undefined ? options : {
+                        ...options,
+                        checkScore: {score: checkResult.score, contributions: checkResult.scoreContributions ?? []}
+                    };
+                    checkResult.actionResults = await this.runActions(activity, currentResults.filter(x => x.triggered), actionOptions);
                 } catch (err: any) {
                     checkResult.error = `Running actions failed due to uncaught exception: ${err.message}`;
                     checkSum.error = checkResult.error;
@@ -425,13 +468,19 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
 
                     this.emitter.emit('error', err);
                 } finally {
-                    if (this.notifyOnTrigger && checkResult.actionResults !== undefined && checkResult.actionResults.length > 0) {
-                        const ar = checkResult.actionResults.filter(x => x.success).map(x => x.premise.getFriendlyIdentifier()).join(', ');
+                    if (this.notifyOnTrigger && options.preview !== true && checkResult.actionResults !== undefined && checkResult.actionResults.length > 0) {
+                        const successfulActions = checkResult.actionResults.filter(x => x.success);
+                        const ar = successfulActions.map(x => x.premise.getFriendlyIdentifier()).join(', ');
                         const [peek, _] = await itemContentPeek(activity);
                         const notifPayload: NotificationEventPayload = {
                             type: 'eventActioned',
                             title: 'Check Triggered',
-                            body: `Check "${this.name}" was triggered on Event: \n\n ${peek} \n\n with the following actions run: ${ar}`
+                            body: `Check "${this.name}" was triggered on Event: \n\n ${peek} \n\n with the following actions run: ${ar}`,
+                            context: {
+                                check: this.name,
+                                actions: successfulActions.map(x => x.premise.kind.name as ActionTypes),
+                                author: getActivityAuthorName(activity.author)
+                            }
                         }
                         this.emitter.emit('notify', notifPayload)
                     }
@@ -471,15 +520,18 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
             }
             throw new CheckProcessingError(`[CHK ${this.name}] An uncaught exception occurred while processing Check`, {cause: err}, checkResult);
         } finally {
-            this.resources.updateHistoricalStats({
-                checksTriggeredTotal: checkResult.triggered ? 1 : 0,
-                checksRunTotal: 1,
-                checksFromCacheTotal: checkResult.fromCache ? 1 : 0,
-                actionsRunTotal: checkResult.actionResults !== undefined ? checkResult.actionResults.length : undefined,
-                rulesRunTotal: currentResults.length,
-                rulesTriggeredTotal: currentResults.filter(x => x.triggered).length,
-                rulesCachedTotal: currentResults.length - (new Set(currentResults.map(x => x.id))).size
-            })
+            // previewed Checks were not actually run
+            if (options.preview !== true) {
+                this.resources.updateHistoricalStats({
+                    checksTriggeredTotal: checkResult.triggered ? 1 : 0,
+                    checksRunTotal: 1,
+                    checksFromCacheTotal: checkResult.fromCache ? 1 : 0,
+                    actionsRunTotal: checkResult.actionResults !== undefined ? checkResult.actionResults.length : undefined,
+                    rulesRunTotal: currentResults.length,
+                    rulesTriggeredTotal: currentResults.filter(x => x.triggered).length,
+                    rulesCachedTotal: currentResults.length - (new Set(currentResults.map(x => x.id))).size
+                })
+            }
         }
     }
 
@@ -504,6 +556,10 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
                 };
             }
 
+            if (this.scoreCondition !== undefined) {
+                return await this.runScoredRules(item, existingResults, options);
+            }
+
             let runOne = false;
             let index = 0;
             for (const r of this.rules) {
@@ -564,6 +620,53 @@ export abstract class Check extends RunnableBase implements Omit<ICheck, 'postTr
         }
     }
 
+    /**
+     * Run all Rules/RuleSets, regardless of outcome, and sum the weights of triggered results to test against the score condition
+     * */
+    protected async runScoredRules(item: Submission | Comment, existingResults: RuleResultEntity[] = [], options: runCheckOptions): Promise<RuleResults> {
+        let allRuleResults: RuleResultEntity[] = [];
+        const allResults: (RuleSetResult | RuleResultEntity)[] = [];
+        const contributions: RuleScoreContribution[] = [];
+        let ruleSetIndex = 0;
+        for (const r of this.rules) {
+            const combinedResults = [...existingResults, ...allRuleResults];
+            const existingIds = combinedResults.map(x => x.id);
+            const [passed, results] = await r.run(item, combinedResults, options);
+            let name: string;
+            if (isRuleSetResult(results)) {
+                ruleSetIndex++;
+                name = `Rule Set ${ruleSetIndex}`;
+                allRuleResults = allRuleResults.concat(results.results.filter(x => !existingIds.includes(x.id)));
+            } else {
+                name = (r as Rule).getRuleUniqueName();
+                if (!existingIds.includes((results as RuleResultEntity).id)) {
+                    allRuleResults.push(results);
+                }
+            }
+            allResults.push(results);
+            contributions.push({
+                name,
+                weight: r.weight,
+                triggered: passed,
+                contribution: passed === true ? r.weight : 0
+            });
+        }
+        const [triggered, score] = testScoreCondition(contributions, this.scoreCondition as GenericComparison);
+        if (!contributions.some(x => x.triggered !== null)) {
+            this.logger.verbose(`${FAIL} => All Rules skipped because of Author checks or itemIs tests`);
+        } else if (triggered) {
+            this.logger.info(`${PASS} => Rules: ${resultsSummary(allResults, this.condition)} = ${score} [${this.condition}]`);
+        } else {
+            this.logger.verbose(`${FAIL} => Rules: ${resultsSummary(allResults, this.condition)} = ${score} [${this.condition}]`);
+        }
+        return {
+            triggered,
+            results: allResults,
+            score,
+            scoreContributions: contributions,
+        };
+    }
+
     async runActions(item: Submission | Comment, ruleResults: RuleResultEntity[], options: runCheckOptions): Promise<ActionResultEntity[]> {
         const runActions: ActionResultEntity[] = [];
         try {
@@ -676,6 +779,39 @@ export interface CommentCheckConfigData extends CheckConfigData, TypedRunnableBa
 }
 
 
+/**
+ * A Check that runs against modmail Conversations retrieved from the `modmail` polling source
+ *
+ * If the Conversation matches `modmailIs` then all `actions` are run. A triggered modmail Check stops any remaining modmail Checks in the Run from running.
+ * */
+export interface ModmailCheckConfigData extends Pick<ICheck, 'name' | 'description' | 'dryRun' | 'enable'> {
+    kind: 'modmail'
+    /**
+     * A list of criteria to test the Conversation against. The Conversation passes if it matches ANY of the criteria.
+     *
+     * **If `modmailIs` is an empty array or not present then `actions` are performed immediately.**
+     * */
+    modmailIs?: ModmailState[]
+    /**
+     * If present then these Author criteria are checked against the (non-moderator) participant of the Conversation after `modmailIs` passes. If criteria fails then the Check will fail.
+     *
+     * Criteria that depend on an Activity, like flair, cannot be tested for a Conversation and will not pass. The Check fails if the Conversation has no participant.
+     * */
+    authorIs?: MinimalOrFullFilterJson<AuthorCriteria>
+    /**
+     * The actions to run on the Conversation after the check is triggered. ALL actions will run in the order they are listed
+     *
+     * @examples [[{"kind": "reply", "content": "Thanks for your message! A moderator will get back to you soon."}, {"kind": "archive"}]]
+     * */
+    actions?: ModmailActionJson[]
+    /**
+     * If notifications are configured and this is `true` then an `eventActioned` event will be sent when this check is triggered.
+     *
+     * @default false
+     * */
+    notifyOnTrigger?: boolean,
+}
+
 /*
 * Can contain actions/rules as:
 *  - full objects
@@ -755,10 +891,18 @@ export const asStructuredSubmissionCheckJson = (val: any): val is SubmissionChec
     return val.kind === 'submission';
 }
 
-export type ActivityCheckConfigValue = string | IncludesData | SubmissionCheckConfigData | CommentCheckConfigData;
+export interface ModmailCheckConfigObject extends Omit<ModmailCheckConfigData, 'authorIs'> {
+    authorIs?: MinimalOrFullFilter<AuthorCriteria>
+}
+
+export const asModmailCheckJson = (val: any): val is ModmailCheckConfigData => {
+    return val !== null && typeof val === 'object' && val.kind === 'modmail';
+}
+
+export type ActivityCheckConfigValue = string | IncludesData | SubmissionCheckConfigData | CommentCheckConfigData | ModmailCheckConfigData;
 
 export type ActivityCheckConfigData = Exclude<ActivityCheckConfigValue, IncludesData>;
 
-export type ActivityCheckConfigHydratedData = SubmissionCheckConfigHydratedData | CommentCheckConfigHydratedData;
+export type ActivityCheckConfigHydratedData = SubmissionCheckConfigHydratedData | CommentCheckConfigHydratedData | ModmailCheckConfigData;
 
-export type ActivityCheckObject = SubmissionCheckConfigObject | CommentCheckConfigObject;
+export type ActivityCheckObject = SubmissionCheckConfigObject | CommentCheckConfigObject | ModmailCheckConfigObject;
@@ -21,6 +21,8 @@ export interface ActionResultEntityOptions {
     success: boolean
     touchedEntities?: (Comment | Submission)[]
     dryRun: boolean
+    removalReasonId?: string
+    removalReason?: string
 }
 
 @Entity({name: 'ActionResult'})
@@ -41,6 +43,18 @@ export class ActionResultEntity extends TimeAwareRandomBaseEntity {
     @Column("text", {nullable: true})
     result?: string
 
+    /**
+     * ID of the subreddit Removal Reason used by the Action, if any
+     * */
+    @Column("varchar", {length: 50, nullable: true})
+    removalReasonId?: string
+
+    /**
+     * Title of the subreddit Removal Reason used by the Action, if any
+     * */
+    @Column("varchar", {length: 200, nullable: true})
+    removalReason?: string
+
     @OneToOne(() => ActivityStateFilterResult, {nullable: true, cascade: ['insert'], eager: true})
     @JoinColumn({name: 'itemIs'})
     _itemIs?: ActivityStateFilterResult
@@ -99,6 +113,8 @@ export class ActionResultEntity extends TimeAwareRandomBaseEntity {
             this.runReason = data.runReason;
             this.success = data.success;
             this.dryRun = data.dryRun;
+            this.removalReasonId = data.removalReasonId;
+            this.removalReason = data.removalReason;
             this.itemIs = data.itemIs ? new ActivityStateFilterResult(data.itemIs) : undefined;
             this.authorIs = data.authorIs ? new AuthorFilterResult(data.authorIs) : undefined;
             this.premise = data.premise;
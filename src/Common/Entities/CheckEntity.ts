@@ -4,9 +4,11 @@ import {RunEntity} from "./RunEntity";
 import {ManagerEntity} from "./ManagerEntity";
 import {ActivityType} from "../Infrastructure/Reddit";
 
+export type CheckType = ActivityType | 'modmail';
+
 export interface CheckEntityOptions {
     name: string
-    type: ActivityType
+    type: CheckType
     run: RunEntity
     manager: ManagerEntity
 }
@@ -18,7 +20,7 @@ export class CheckEntity {
     name!: string;
 
     @Column("varchar", {length: 20})
-    type!: ActivityType
+    type!: CheckType
 
     @OneToMany(type => CheckResultEntity, obj => obj.run, {cascade: ['insert']})
     results!: CheckResultEntity[]
@@ -15,6 +15,7 @@ import {RunResultEntity} from "./RunResultEntity";
 import {RuleResultEntity} from "./RuleResultEntity";
 import {ActionResultEntity} from "./ActionResultEntity";
 import {
+    RuleScoreContribution,
     RuleSetResult
 } from "../interfaces";
 import {RandomIdBaseEntity} from "./Base/RandomIdBaseEntity";
@@ -23,7 +24,7 @@ import {RuleSetResultEntity} from "./RuleSetResultEntity";
 import {CheckToRuleResultEntity} from "./RunnableAssociation/CheckToRuleResultEntity";
 import {CheckToRuleSetResultEntity} from "./RunnableAssociation/CheckToRuleSetResultEntity";
 import {isRuleSetResult} from "../../util";
-import {JoinOperands, RecordOutputType} from "../Infrastructure/Atomic";
+import {RecordOutputType, RunnableCondition} from "../Infrastructure/Atomic";
 import {AuthorCriteria, TypedActivityState} from "../Infrastructure/Filters/FilterCriteria";
 import {FilterResult, FilterResult as IFilterResult} from "../Infrastructure/Filters/FilterShapes";
 
@@ -35,7 +36,9 @@ export interface CheckResultEntityOptions {
     ruleResults?: (RuleResultEntity | RuleSetResultEntity)[]
     actionResults?: ActionResultEntity[]
     error?: string
-    condition: JoinOperands
+    condition: RunnableCondition
+    score?: number
+    scoreContributions?: RuleScoreContribution[]
     check: CheckEntity
     run: RunResultEntity
     postBehavior: string;
@@ -58,7 +61,13 @@ export class CheckResultEntity extends TimeAwareRandomBaseEntity {
     fromCache?: boolean;
 
     @Column("varchar", {length: 20})
-    condition!: JoinOperands
+    condition!: RunnableCondition
+
+    @Column("float", {nullable: true})
+    score?: number
+
+    @Column("simple-json", {nullable: true})
+    scoreContributions?: RuleScoreContribution[]
 
     @Column("text", {nullable: true})
     error?: string;
@@ -178,6 +187,8 @@ export class CheckResultEntity extends TimeAwareRandomBaseEntity {
             this.triggered = data.triggered;
             this.fromCache = data.fromCache;
             this.condition = data.condition;
+            this.score = data.score;
+            this.scoreContributions = data.scoreContributions;
             this.error = data.error;
             this.itemIs = data.itemIs ? new ActivityStateFilterResult(data.itemIs) : undefined;
             this.authorIs = data.authorIs ? new AuthorFilterResult(data.authorIs) : undefined;
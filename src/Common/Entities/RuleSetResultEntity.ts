@@ -16,14 +16,17 @@ import {RandomIdBaseEntity} from "./Base/RandomIdBaseEntity";
 import {TimeAwareRandomBaseEntity} from "./Base/TimeAwareRandomBaseEntity";
 import {RuleResultEntity} from "./RuleResultEntity";
 import {RuleSetToRuleResultEntity} from "./RunnableAssociation/RuleSetToRuleResultEntity";
-import {JoinOperands} from "../Infrastructure/Atomic";
+import {RunnableCondition} from "../Infrastructure/Atomic";
 import {AuthorCriteria, TypedActivityState} from "../Infrastructure/Filters/FilterCriteria";
 import {FilterResult, FilterResult as IFilterResult} from "../Infrastructure/Filters/FilterShapes";
+import {RuleScoreContribution} from "../interfaces";
 
 export interface RuleSetResultEntityOptions {
     triggered: boolean
-    condition: JoinOperands
+    condition: RunnableCondition
     results: RuleResultEntity[]
+    score?: number
+    scoreContributions?: RuleScoreContribution[]
     //checkResult: CheckResultEntity
 }
 
@@ -34,7 +37,13 @@ export class RuleSetResultEntity extends TimeAwareRandomBaseEntity {
     triggered!: boolean;
 
     @Column("varchar", {length: 20})
-    condition!: JoinOperands
+    condition!: RunnableCondition
+
+    @Column("float", {nullable: true})
+    score?: number
+
+    @Column("simple-json", {nullable: true})
+    scoreContributions?: RuleScoreContribution[]
 
     @OneToMany(type => RuleSetToRuleResultEntity, obj => obj.runnable, {cascade: ['insert'], eager: true})
     _ruleResults!: RuleSetToRuleResultEntity[]
@@ -61,6 +70,8 @@ export class RuleSetResultEntity extends TimeAwareRandomBaseEntity {
         if (data !== undefined) {
             this.triggered = data.triggered;
             this.condition = data.condition;
+            this.score = data.score;
+            this.scoreContributions = data.scoreContributions;
             this._ruleResults = data.results.map((x, index) => new RuleSetToRuleResultEntity({
                 result: x,
                 runnable: this,
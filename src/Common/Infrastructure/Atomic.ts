@@ -110,17 +110,30 @@ export interface DurationObject {
 }
 
 export type JoinOperands = 'OR' | 'AND';
-export type PollOn = 'unmoderated' | 'modqueue' | 'newSub' | 'newComm';
+/**
+ * A comparison of the summed `weight` of all triggered Rules/RuleSets against a number
+ *
+ * EX `score >= 3` => triggered if the weights of all triggered Rules add up to 3 or more
+ * */
+export type ScoreCondition = string;
+export type RunnableCondition = JoinOperands | ScoreCondition;
+export type PollOn = 'unmoderated' | 'modqueue' | 'newSub' | 'newComm' | 'modmail' | 'modlog' | 'edited';
 export const POLLING_UNMODERATED: PollOn = 'unmoderated';
 export const POLLING_MODQUEUE: PollOn = 'modqueue';
 export const POLLING_SUBMISSIONS: PollOn = 'newSub';
 export const POLLING_COMMENTS: PollOn = 'newComm';
-export const pollOnTypes: PollOn[] = [POLLING_UNMODERATED, POLLING_MODQUEUE, POLLING_SUBMISSIONS, POLLING_COMMENTS];
+export const POLLING_MODMAIL: PollOn = 'modmail';
+export const POLLING_MODLOG: PollOn = 'modlog';
+export const POLLING_EDITED: PollOn = 'edited';
+export const pollOnTypes: PollOn[] = [POLLING_UNMODERATED, POLLING_MODQUEUE, POLLING_SUBMISSIONS, POLLING_COMMENTS, POLLING_MODMAIL, POLLING_MODLOG, POLLING_EDITED];
 export const pollOnTypeMapping: Map<string, PollOn> = new Map([
     ['unmoderated', POLLING_UNMODERATED],
     ['modqueue', POLLING_MODQUEUE],
     ['newsub', POLLING_SUBMISSIONS],
     ['newcomm', POLLING_COMMENTS],
+    ['modmail', POLLING_MODMAIL],
+    ['modlog', POLLING_MODLOG],
+    ['edited', POLLING_EDITED],
     // be nice if user mispelled
     ['newcom', POLLING_COMMENTS]
 ]);
@@ -131,8 +144,30 @@ export type RunState = 'running' | 'paused' | 'stopped';
  * Available cache providers
  * */
 export type CacheProvider = 'memory' | 'redis' | 'none';
-export type NotificationProvider = 'discord';
-export type NotificationEventType = 'runStateChanged' | 'pollingError' | 'eventActioned' | 'configUpdated'
+export type NotificationProvider = 'discord' | 'webhook' | 'slack' | 'matrix';
+/**
+ * Events that can trigger a notification
+ *
+ * * runStateChanged => bot, queue or event polling was started, paused, or stopped
+ * * pollingError => an error occurred while polling for new activities
+ * * eventActioned => a Check with `notifyOnTrigger: true` was triggered and ran actions
+ * * configUpdated => subreddit configuration was updated
+ * * configParseError => subreddit configuration could not be read or parsed after a wiki edit
+ * * wikiPermissionLost => the bot can no longer read the subreddit's configuration wiki page
+ * * rateLimitLow => the bot's reddit API usage has hit the soft limit and processing has been slowed
+ * * dispatchedActivityStale => a dispatched activity was dropped because it was not processed within its tardy tolerance
+ * * guestAccessExpired => a guest moderator's access expired and was removed
+ * */
+export type NotificationEventType =
+    'runStateChanged'
+    | 'pollingError'
+    | 'eventActioned'
+    | 'configUpdated'
+    | 'configParseError'
+    | 'wikiPermissionLost'
+    | 'rateLimitLow'
+    | 'dispatchedActivityStale'
+    | 'guestAccessExpired';
 
 export interface ModeratorNameCriteria {
     behavior?: 'include' | 'exclude'
@@ -187,13 +222,15 @@ export const SOURCE_DISPATCH = 'dispatch';
 export type SourceDispatchStr = 'dispatch';
 export const SOURCE_USER = 'user';
 export type SourceUserStr = 'user';
+export const SOURCE_SCHEDULE = 'schedule';
+export type SourceScheduleStr = 'schedule';
 
 export type DispatchSourceValue = SourceDispatchStr | `dispatch:${string}`;
-export type NonDispatchActivitySourceValue = SourcePollStr | `poll:${PollOn}` | SourceUserStr | `user:${string}`;
-export type ActivitySourceTypes = SourcePollStr | SourceDispatchStr | SourceUserStr; // TODO
+export type NonDispatchActivitySourceValue = SourcePollStr | `poll:${PollOn}` | SourceUserStr | `user:${string}` | SourceScheduleStr | `schedule:${string}`;
+export type ActivitySourceTypes = SourcePollStr | SourceDispatchStr | SourceUserStr | SourceScheduleStr; // TODO
 // https://github.com/YousefED/typescript-json-schema/issues/426
 // https://github.com/YousefED/typescript-json-schema/issues/425
-// @pattern ^(((poll|dispatch)(:\w+)?)|user)$
+// @pattern ^(((poll|dispatch|schedule)(:\w+)?)|user)$
 // @type string
 /**
  * Where an Activity was retrieved from
@@ -205,6 +242,8 @@ export type ActivitySourceTypes = SourcePollStr | SourceDispatchStr | SourceUser
  * * `dispatch` => activity is from Dispatch Action
  * * `dispatch:[identifier]` => activity is from Dispatch Action with specific identifier
  * * `user` => activity was from user input (web dashboard)
+ * * `schedule` => activity is from a Schedule
+ * * `schedule:[name]` => activity is from a Schedule with specific name
  *
  *
  * */
@@ -231,7 +270,15 @@ export type ActionTypes =
     | 'dispatch'
     | 'cancelDispatch'
     | 'contributor'
-    | 'modnote';
+    | 'modnote'
+    | 'unban'
+    | 'mute'
+    | 'unmute'
+    | 'wiki'
+    | 'state'
+    | 'crosspost'
+    | 'modmail'
+    | 'http';
 
 /**
  * Test the calculated VADER sentiment (compound) score for an Activity using this comparison. Can be either a numerical or natural language
@@ -293,7 +340,9 @@ export type ModActionType =
     'NOTE' |
     'REMOVAL' |
     'SPAM' |
-    'APPROVAL';
+    'APPROVAL' |
+    'BAN' |
+    'MUTE';
 
 export type UserNoteType =
     'gooduser' |
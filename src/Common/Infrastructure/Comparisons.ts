@@ -5,6 +5,7 @@ import dayjs, {Dayjs, OpUnitType} from "dayjs";
 import {CMError, SimpleError} from "../../Utils/Errors";
 import {escapeRegex, parseDuration, parseDurationFromString, parseStringToRegex} from "../../util";
 import {ReportType} from "./Reddit";
+import {RuleScoreContribution} from "../interfaces";
 
 export interface DurationComparison {
     operator: StringOperator,
@@ -107,6 +108,24 @@ export const parseGenericValueComparison = (val: string, options?: {
         durationText,
     }
 }
+const SCORE_CONDITION = /^\s*score\s*(?<opStr>>|>=|<|<=)\s*(?<value>-?\d+(?:\.\d+)?)\s*$/i
+export const isScoreCondition = (val: string): boolean => {
+    return SCORE_CONDITION.test(val);
+}
+export const parseScoreCondition = (val: string): GenericComparison => {
+    return parseGenericValueComparison(val, {reg: SCORE_CONDITION});
+}
+/**
+ * Sum the contributions of weighted Rule/RuleSet results and test the sum against a score condition
+ *
+ * The condition cannot pass if all Rules were skipped
+ * */
+export const testScoreCondition = (contributions: RuleScoreContribution[], condition: GenericComparison): [boolean, number] => {
+    // round to avoid floating point noise from fractional weights
+    const score = Math.round(contributions.reduce((acc, x) => acc + x.contribution, 0) * 10000) / 10000;
+    const runOne = contributions.some(x => x.triggered !== null);
+    return [runOne && comparisonTextOp(score, condition.operator, condition.value), score];
+}
 const GENERIC_VALUE_PERCENT_COMPARISON = /^\s*(?<opStr>>|>=|<|<=)\s*(?<value>(?:\d+)(?:(?:(?:.|,)\d+)+)?)\s*(?<percent>%)?(?<extra>.*)$/
 const GENERIC_VALUE_PERCENT_COMPARISON_URL = 'https://regexr.com/6valr';
 export const parseGenericValueOrPercentComparison = (val: string, options?: {requireDuration: boolean}): GenericComparison => {
@@ -0,0 +1,163 @@
+import {ActivityType} from "./Reddit";
+import {DurationVal} from "./Atomic";
+
+/**
+ * An Activity used in a config test
+ * */
+export interface ConfigTestActivityData {
+    /**
+     * Title of a Submission
+     *
+     * @default Test Submission
+     * */
+    title?: string
+    /**
+     * Text of a Comment or of a self-post Submission
+     * */
+    body?: string
+    /**
+     * Link for a Submission. If not specified the Submission is a self-post
+     * */
+    url?: string
+    /**
+     * Link flair text for a Submission
+     * */
+    flair?: string
+    /**
+     * @default 1
+     * */
+    score?: number
+    /**
+     * Number of reports on the Activity
+     *
+     * @default 0
+     * */
+    reports?: number
+    /**
+     * @default false
+     * */
+    removed?: boolean
+    /**
+     * @default false
+     * */
+    approved?: boolean
+    /**
+     * @default false
+     * */
+    spam?: boolean
+    /**
+     * @default false
+     * */
+    locked?: boolean
+    /**
+     * @default false
+     * */
+    nsfw?: boolean
+    /**
+     * Any additional properties for the Activity, in the same shape returned by the reddit API, IE `{"stickied": true, "distinguished": "moderator"}`
+     *
+     * These are applied last and override any values above.
+     * */
+    data?: { [key: string]: any }
+}
+
+export interface ConfigTestActivity extends ConfigTestActivityData {
+    /**
+     * Whether the Activity is a Submission or a Comment
+     * */
+    kind: ActivityType
+}
+
+export interface ConfigTestAuthor {
+    /**
+     * Username of the Author
+     *
+     * If not specified a unique name is generated for each test
+     * */
+    name?: string
+    /**
+     * How old the Author's account is
+     *
+     * @default 1 year
+     * */
+    age?: DurationVal
+    /**
+     * @default 1
+     * */
+    linkKarma?: number
+    /**
+     * @default 1
+     * */
+    commentKarma?: number
+    /**
+     * Whether the Author has a verified email
+     *
+     * @default true
+     * */
+    verified?: boolean
+    /**
+     * Author flair text in the subreddit
+     * */
+    flair?: string
+    /**
+     * Author flair css class in the subreddit
+     * */
+    flairCssClass?: string
+    /**
+     * Whether the Author is a moderator of the subreddit
+     *
+     * @default false
+     * */
+    isMod?: boolean
+    /**
+     * Any additional properties for the Author, in the same shape returned by the reddit API for `/user/<name>/about`
+     * */
+    data?: { [key: string]: any }
+}
+
+/**
+ * The expected outcome of running a test Activity through the config
+ *
+ * Only the properties specified are checked. Lists of names must match exactly -- use an empty list to expect that nothing is triggered/run.
+ * */
+export interface ConfigTestExpectation {
+    /**
+     * Whether any Run should be triggered
+     * */
+    triggered?: boolean
+    /**
+     * Names of the Runs that should be triggered
+     * */
+    runs?: string[]
+    /**
+     * Names of the Checks that should be triggered
+     * */
+    checks?: string[]
+    /**
+     * Actions that should be run, by name or kind IE `remove` or `myRemoveAction`
+     * */
+    actions?: string[]
+}
+
+export interface ConfigTestJson {
+    /**
+     * A friendly name for the test, displayed in results
+     * */
+    name?: string
+    /**
+     * The Activity to run through the config
+     * */
+    activity: ConfigTestActivity
+    /**
+     * The Author of the Activity
+     * */
+    author?: ConfigTestAuthor
+    /**
+     * Other Activities made by the Author, newest first, used by Rules that check Author history
+     * */
+    history?: ConfigTestActivity[]
+    /**
+     * The expected outcome of running the Activity through the config
+     * */
+    expect: ConfigTestExpectation
+}
@@ -469,6 +469,10 @@ export interface ActivityState {
     spam?: boolean
     stickied?: boolean
     distinguished?: boolean
+    /**
+     * Has the Activity been edited by its author?
+     * */
+    edited?: boolean
     /**
      * * true/false => test whether Activity is approved or not
      * * string or list of strings => test which moderator approved this Activity
@@ -548,10 +552,12 @@ export interface ActivityState {
      *
      * * `poll` => activity was retrieved from polling a queue (unmoderated, modqueue, etc...)
      * * `poll:[pollSource]` => activity was retrieved from specific polling source IE `poll:unmoderated` activity comes from unmoderated queue
-     *   * valid sources: unmoderated modqueue newComm newSub
+     *   * valid sources: unmoderated modqueue newComm newSub modlog edited
      * * `dispatch` => activity is from Dispatch Action
      * * `dispatch:[identifier]` => activity is from Dispatch Action with specific identifier
      * * `user` => activity was from user input (web dashboard)
+     * * `schedule` => activity is from a Schedule
+     * * `schedule:[name]` => activity is from a Schedule with specific name
      *
      * */
     source?: string | string[]
@@ -582,6 +588,49 @@ export interface ActivityState {
      * * If string or list of strings then color is matched, case-insensitive, without #. String may also be a regular expression enclosed in forward slashes.
      * */
     authorFlairBackgroundColor?: boolean | string | string[]
+
+    /**
+     * Test the moderator action that caused this Activity to be processed
+     *
+     * Only applies to Activities retrieved from the `modlog` polling source. Activities from any other source will fail this test.
+     * */
+    modLog?: ModLogEntryCriteria
+}
+
+/**
+ * Criteria to test a subreddit moderation log entry against. All defined properties must match for the criteria to pass.
+ *
+ * @examples [{"action": "removelink", "moderator": "aModName", "details": "/spam/i"}]
+ * */
+export interface ModLogEntryCriteria {
+    /**
+     * The mod log action type(s) to match, case-insensitive
+     *
+     * EX `removelink` `removecomment` `approvelink` `spamcomment` `banuser`
+     * */
+    action?: string | string[]
+    /**
+     * The name(s) of the moderator(s) who performed the action
+     *
+     * * `automod` => AutoModerator
+     * */
+    moderator?: ModeratorNames | ModeratorNames[]
+    /**
+     * Text or regular expression to match against the `details` of the action. For removals this is usually the removal reason.
+     * */
+    details?: string | string[]
+    /**
+     * Text or regular expression to match against the `description` of the action
+     * */
+    description?: string | string[]
+    /**
+     * The type of Activity the action targeted
+     * */
+    targetType?: ActivityType
+    /**
+     * The name(s) of the author of the Activity the action targeted
+     * */
+    targetAuthor?: string | string[]
 }
 
 /**
@@ -686,5 +735,40 @@ export interface CommentState extends ActivityState {
 }
 
 export type TypedActivityState = SubmissionState | CommentState;
+
+/**
+ * Different attributes a modmail Conversation can be in. Only include a property if you want to check it.
+ * @examples [{"archived": false, "participantIsAuthor": true}]
+ * */
+export interface ModmailState {
+    archived?: boolean
+    highlighted?: boolean
+    /**
+     * Was the most recent message in the Conversation written by the (non-moderator) participant?
+     * */
+    participantIsAuthor?: boolean
+    /**
+     * Is the Conversation a mod discussion (only visible to moderators)?
+     * */
+    isInternal?: boolean
+    /**
+     * Was the Conversation created automatically by reddit (ban notifications, automated messages, etc...)?
+     * */
+    isAuto?: boolean
+    /**
+     * A valid regular expression to match against the subject of the Conversation
+     * */
+    subject?: string
+    /**
+     * A valid regular expression to match against the body of the most recent message in the Conversation
+     * */
+    body?: string
+    /**
+     * Compare the number of messages in the Conversation
+     *
+     * EX `> 3` => more than 3 messages
+     * */
+    messages?: CompareValue
+}
 export type TypedActivityStates = TypedActivityState[];
 export type RequiredAuthorCrit = Required<AuthorCriteria>;
@@ -0,0 +1,27 @@
+import {MigrationInterface, QueryRunner, Table, TableColumn} from "typeorm"
+
+export class removalReason1664821347215 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const table = await queryRunner.getTable('ActionResult') as Table;
+
+        await queryRunner.addColumns(table, [
+            new TableColumn({
+                name: 'removalReasonId',
+                type: 'varchar',
+                length: '50',
+                isNullable: true
+            }),
+            new TableColumn({
+                name: 'removalReason',
+                type: 'varchar',
+                length: '200',
+                isNullable: true
+            }),
+        ]);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+    }
+
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from "typeorm"
+import {ActionType} from "../../../Entities/ActionType";
+
+export class reverseActions1664907614302 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.manager.getRepository(ActionType).save([
+            new ActionType('unban'),
+            new ActionType('mute'),
+            new ActionType('unmute'),
+        ]);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+    }
+
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm"
+import {ActionType} from "../../../Entities/ActionType";
+
+export class wikiAction1665083729114 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.manager.getRepository(ActionType).save([
+            new ActionType('wiki'),
+        ]);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+    }
+
+}
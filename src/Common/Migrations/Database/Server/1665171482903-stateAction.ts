@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm"
+import {ActionType} from "../../../Entities/ActionType";
+
+export class stateAction1665171482903 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.manager.getRepository(ActionType).save([
+            new ActionType('state'),
+        ]);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+    }
+
+}
@@ -0,0 +1,27 @@
+import {MigrationInterface, QueryRunner, Table, TableColumn} from "typeorm"
+
+export class weightedScore1665514106488 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        for (const tableName of ['RuleSetResult', 'CheckResult']) {
+            const table = await queryRunner.getTable(tableName) as Table;
+
+            await queryRunner.addColumns(table, [
+                new TableColumn({
+                    name: 'score',
+                    type: 'float',
+                    isNullable: true
+                }),
+                new TableColumn({
+                    name: 'scoreContributions',
+                    type: 'text',
+                    isNullable: true
+                }),
+            ]);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+    }
+
+}
@@ -2,6 +2,7 @@ import {
     ActivityDispatch,
     CacheConfig,
     Footer,
+    HttpActionOperatorConfig,
     StrongTTLConfig,
     ThirdPartyCredentialsJsonConfig,
     TTLConfig
@@ -15,6 +16,7 @@ import {ManagerEntity} from "../Entities/ManagerEntity";
 import {Bot} from "../Entities/Bot";
 import {EventRetentionPolicyRange, StatisticFrequencyOption} from "../Infrastructure/Atomic";
 import {CMCache} from "../Cache";
+import EventEmitter from "events";
 
 export interface SubredditResourceOptions extends Footer {
     ttl: StrongTTLConfig
@@ -27,6 +29,7 @@ export interface SubredditResourceOptions extends Footer {
     client: ExtendedSnoowrap;
     prefix?: string;
     thirdPartyCredentials: ThirdPartyCredentialsJsonConfig
+    httpAction: HttpActionOperatorConfig
     delayedItems?: ActivityDispatch[]
     botAccount?: string
     botName: string
@@ -35,6 +38,7 @@ export interface SubredditResourceOptions extends Footer {
     statFrequency: StatisticFrequencyOption
     retention?: EventRetentionPolicyRange
     footer?: false | string
+    emitter?: EventEmitter
 }
 
 export interface SubredditResourceConfig extends Footer {
@@ -47,4 +51,5 @@ export interface SubredditResourceConfig extends Footer {
     botEntity: Bot
     statFrequency: StatisticFrequencyOption
     retention?: EventRetentionPolicyRange
+    emitter?: EventEmitter
 }
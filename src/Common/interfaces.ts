@@ -16,11 +16,11 @@ import {
     TypedActivityState
 } from "./Infrastructure/Filters/FilterCriteria";
 import {
+    ActionTypes,
     ActivitySourceTypes,
     CacheProvider,
     DurationVal,
     EventRetentionPolicyRange,
-    JoinOperands,
     NonDispatchActivitySourceValue,
     NotificationEventType,
     NotificationProvider,
@@ -29,6 +29,8 @@ import {
     PostBehaviorType,
     RecordOutputOption,
     RecordOutputType,
+    RelativeDateTimeMatch,
+    RunnableCondition,
     SearchFacetType,
     StatisticFrequencyOption,
     StringOperator
@@ -291,10 +293,31 @@ export interface JoinCondition {
      *
      * If `AND` then **all** `Rule` objects must be triggered to result in success.
      *
+     * If a score comparison (EX `score >= 3`) then **all** `Rule` objects are run and the `weight` of each triggered `Rule` is summed. The sum is compared to the value to determine success.
+     *
      * @default "AND"
-     * @examples ["AND"]
+     * @pattern ^(AND|OR|\s*score\s*(>|>=|<|<=)\s*-?\d+(\.\d+)?\s*)$
+     * @examples ["AND", "score >= 3"]
      * */
-    condition?: JoinOperands,
+    condition?: RunnableCondition,
+}
+
+export interface RuleScoreContribution {
+    /**
+     * Unique name of the Rule, or `Rule Set [index]`
+     * */
+    name: string
+    weight: number
+    triggered: boolean | null
+    /**
+     * The amount added to the score, `weight` if triggered else 0
+     * */
+    contribution: number
+}
+
+export interface CheckScoreData {
+    score: number
+    contributions: RuleScoreContribution[]
 }
 
 export interface PollingOptionsStrong extends PollingOptions {
@@ -371,10 +394,112 @@ export interface PollingOptions extends PollingDefaults {
      * * they are not initially filtered by Automoderator or
      * * after they have been manually approved from modqueue
      *
+     * ### modmail
+     *
+     * Get new or updated modmail Conversations for the subreddit
+     *
+     * Conversations are only processed by Checks with `kind: modmail`. A Conversation is considered "new" whenever a new message is added to it.
+     *
+     * Requires the bot to have the `mail` moderator permission.
+     *
+     * ### modlog
+     *
+     * Get new entries from the subreddit's moderation log
+     *
+     * When a moderator performs an action on a `Submission` or `Comment` that Activity is processed by Checks. Use the `modLog` property in `itemIs` criteria to test the moderator action that caused the Activity to be processed.
+     *
+     * Actions performed by the bot itself are ignored.
+     *
+     * ### edited
+     *
+     * Get `Submissions` and `Comments` that were recently edited
+     *
+     * Only Activities that the bot has already processed recently are re-processed, and only if their content has changed. The content before the edit is available in templates as `{{item.previousBody}}`.
+     *
+     * Requires caching `selfTTL` to not be `false` -- if it is, edited Activities are never re-processed.
+     *
+     * Use this if you want the bot to catch Activities that are edited to add rule-breaking content after they have been approved.
+     *
      * */
     pollOn: PollOn
 }
 
+export type ScheduleListing = 'hot' | 'new' | 'top' | 'rising' | 'stickied' | 'modqueue' | 'unmoderated';
+
+/**
+ * Run Checks on a schedule against Activities from a subreddit listing
+ *
+ * Activities from a Schedule have the source `schedule:[name]` so Checks can use the `source` property in `itemIs` to only run for (or never run for) a Schedule
+ *
+ * @examples [{"name": "lockOldMegathreads", "on": "0 * * * *", "listing": "stickied"}]
+ * */
+export interface ScheduleOptions {
+    /**
+     * A unique name for this Schedule, used as the identifier for the Activity source IE `schedule:myName`
+     *
+     * @examples ["weeklyThread"]
+     * */
+    name: string
+
+    /**
+     * When to run this Schedule
+     *
+     * May be either:
+     *
+     * * day of the week (monday, tuesday, etc...) => runs once on that day
+     * * cron expression IE `0 9 * * 1` => runs every minute the expression matches
+     *
+     * See https://crontab.guru/ for generating expressions. All times are UTC.
+     *
+     * If an array is given the Schedule runs when any expression matches.
+     *
+     * @examples ["0 9 * * 1"]
+     * */
+    on: RelativeDateTimeMatch | RelativeDateTimeMatch[]
+
+    /**
+     * The listing to get Activities from
+     *
+     * * `hot` `new` `top` `rising` => Submissions from the subreddit's listing
+     * * `stickied` => Submissions currently stickied in the subreddit
+     * * `modqueue` => Activities in the modqueue
+     * * `unmoderated` => Activities that have not been approved/removed
+     *
+     * @examples ["top"]
+     * */
+    listing: ScheduleListing
+
+    /**
+     * The time range to use for the `top` listing
+     *
+     * @default "day"
+     * @examples ["day"]
+     * */
+    time?: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all'
+
+    /**
+     * The maximum number of Activities to get from the listing
+     *
+     * @default 25
+     * @minimum 1
+     * @maximum 100
+     * @examples [25]
+     * */
+    limit?: number
+
+    /**
+     * Only run Checks with these names
+     *
+     * If not specified all Checks are run (Checks can still filter Activities using `source`)
+     * */
+    checks?: string[]
+
+    /**
+     * Start processing at a specific Run or Check using the same syntax as `goto` IE `myRun` or `myRun.myCheck`
+     * */
+    goto?: string
+}
+
 export interface TTLConfig {
     /**
      * Amount of time, in seconds, author activity history (Comments/Submission) should be cached
@@ -461,6 +586,8 @@ export interface TTLConfig {
      *
      * This value should be at least as long as the longest polling interval for modqueue/newComm
      *
+     * The content of processed Activities is also cached (for 24 hours) so the `edited` polling source can detect changes. If this is `false` no content is cached and **edited Activities will never be re-processed.**
+     *
      * * If `0` or `true` will cache indefinitely (not recommended)
      * * If `false` will not cache
      *
@@ -539,6 +666,9 @@ export interface ManagerOptions {
      * * `modqueue`
      * * `newSub`
      * * `newComm`
+     * * `modmail`
+     * * `modlog`
+     * * `edited`
      *
      * with the rest of the `PollingOptions` properties as defaults
      *
@@ -554,6 +684,13 @@ export interface ManagerOptions {
      * */
     polling?: (string | PollingOptions)[]
 
+    /**
+     * Run Checks on a schedule, instead of when new Activities are polled, against Activities from a subreddit listing
+     *
+     * Schedules are only run while the bot is polling for events (running)
+     * */
+    schedules?: ScheduleOptions[]
+
     queue?: {
         /**
          * The maximum number of events that can be processed simultaneously.
@@ -832,22 +969,147 @@ export interface NotificationEventPayload  {
     body?: string
     causedBy?: string
     logLevel?: string
+    context?: NotificationEventContext
+}
+
+/**
+ * Details about where an event originated, used to filter events
+ * */
+export interface NotificationEventContext {
+    check?: string
+    actions?: ActionTypes[]
+    author?: string
 }
 
 export interface NotificationProviderConfig {
     name: string
     type: NotificationProvider
+    /**
+     * The number of times CM should retry sending a notification if the provider returns an error
+     *
+     * Retries use exponential backoff starting at 2 seconds. If all retries fail the notification is dropped and an error is logged.
+     *
+     * @default 2
+     * @examples [2]
+     * */
+    retries?: number
+    /**
+     * If specified, events are collected and sent as one summary message at the end of the digest window instead of one message per event
+     * */
+    digest?: NotificationDigestConfig
+}
+
+export interface NotificationDigestConfig {
+    /**
+     * How long to collect events for before sending the digest
+     *
+     * The window starts when the first event is received after the previous digest was sent.
+     *
+     * @examples ["1 hour", "1 day"]
+     * */
+    window: DurationVal
+    /**
+     * Event types that should still be sent immediately rather than included in the digest
+     *
+     * @examples [["runStateChanged", "configParseError"]]
+     * */
+    sendImmediately?: NotificationEventType[]
 }
 
 export interface DiscordProviderConfig extends NotificationProviderConfig {
+    type: 'discord'
+    /**
+     * The Discord webhook URL
+     * */
+    url: string
+}
+
+export interface WebhookProviderConfig extends NotificationProviderConfig {
+    type: 'webhook'
+    /**
+     * The URL to send the notification to
+     * */
+    url: string
+    /**
+     * HTTP method used to send the notification
+     *
+     * @default POST
+     * */
+    method?: 'POST' | 'PUT' | 'PATCH'
+    /**
+     * Additional headers to send with the request, EX for authorization
+     *
+     * @examples [{"Authorization": "Bearer myToken"}]
+     * */
+    headers?: {
+        [key: string]: string
+    }
+    /**
+     * A [mustache](https://mustache.github.io/) template that will be rendered and sent as the JSON body of the request
+     *
+     * Available variables are `title`, `body`, `footer`, `logLevel`, and `botName`. Values are escaped so they are safe to use inside JSON strings.
+     *
+     * If not specified CM sends an object containing all of the above variables.
+     *
+     * @examples ["{\"text\": \"{{title}} -- {{body}}\"}"]
+     * */
+    body?: string
+}
+
+export interface SlackProviderConfig extends NotificationProviderConfig {
+    type: 'slack'
+    /**
+     * The Slack [incoming webhook](https://api.slack.com/messaging/webhooks) URL
+     * */
     url: string
 }
 
-export type NotificationProviders = DiscordProviderConfig;
+export interface MatrixProviderConfig extends NotificationProviderConfig {
+    type: 'matrix'
+    /**
+     * The base URL of the homeserver the bot account is on
+     *
+     * @examples ["https://matrix.org"]
+     * */
+    homeserver: string
+    /**
+     * The internal ID of the room to send notifications to (not the room alias)
+     *
+     * @examples ["!aBcDeFgHiJkLmNoP:matrix.org"]
+     * */
+    roomId: string
+    /**
+     * Access token for the account that will send notifications. The account must already be joined to the room.
+     * */
+    accessToken: string
+}
+
+export type NotificationProviders = DiscordProviderConfig | WebhookProviderConfig | SlackProviderConfig | MatrixProviderConfig;
 
 export interface NotificationEventConfig {
     types: NotificationEventType[]
     providers: string[]
+    /**
+     * Only send events that match these filters
+     *
+     * Filters only apply to events that have the filtered property. EX `checks` only applies to `eventActioned` events -- other event types in `types` are always sent.
+     * */
+    filter?: NotificationEventFilter
+}
+
+export interface NotificationEventFilter {
+    /**
+     * Only send events triggered by Checks with one of these names (case-insensitive)
+     *
+     * @examples [["spamCheck", "repost"]]
+     * */
+    checks?: string[]
+    /**
+     * Only send events where at least one Action of these kinds was successfully run
+     *
+     * @examples [["remove", "ban"]]
+     * */
+    actions?: ActionTypes[]
 }
 
 export interface NotificationContent {
@@ -855,13 +1117,15 @@ export interface NotificationContent {
     title: string
     body?: string
     footer?: string
+    type?: NotificationEventType
+    context?: NotificationEventContext
 }
 
 export type NotificationEvents = (NotificationEventType[] | NotificationEventConfig)[];
 
 export interface NotificationConfig {
     /**
-     * A list of notification providers (Discord, etc..) to configure. Each object in the list is one provider. Multiple of the same provider can be provided but must have different names
+     * A list of notification providers (Discord, Slack, Matrix, generic webhook) to configure. Each object in the list is one provider. Multiple of the same provider can be provided but must have different names
      * */
     providers: NotificationProviders[],
     events: NotificationEvents
@@ -870,7 +1134,8 @@ export interface NotificationConfig {
 export interface Notifier {
     name: string
     type: string;
-    handle: Function
+    handle: (val: NotificationContent) => Promise<void>
+    destroy: () => Promise<void>
 }
 
 export interface ManagerStateChangeOption {
@@ -1109,6 +1374,13 @@ export interface BotInstanceJsonConfig {
      * */
     snoowrap?: SnoowrapOptions
 
+    /**
+     * Control if, and where, HTTP Actions in subreddit configs can send requests
+     *
+     * Overrides any defaults provided at top-level operator config.
+     * */
+    httpAction?: HttpActionOperatorJsonConfig
+
     /**
      * Define the default behavior for all filter criteria on all checks in all subreddits
      *
@@ -1404,6 +1676,11 @@ export interface OperatorJsonConfig {
      * */
     snoowrap?: SnoowrapOptions
 
+    /**
+     * Set default HTTP Action settings for all bots that don't specify their own
+     * */
+    httpAction?: HttpActionOperatorJsonConfig
+
     /**
      * Set defaults for the frequency time series stats are collected
      * */
@@ -1597,9 +1874,59 @@ export interface ThirdPartyCredentialsJsonConfig {
     mhs?: {
         apiKey: string
     }
+    /**
+     * Named credentials that can be used by HTTP Actions in subreddit configs
+     *
+     * @examples [{"myService": {"headers": {"Authorization": "Bearer mySecretToken"}, "urlPrefix": "https://example.com/api/"}}]
+     * */
+    http?: {
+        [name: string]: HttpCredentialsConfig
+    }
     [key: string]: any
 }
 
+export interface HttpCredentialsConfig {
+    /**
+     * Headers added to the request, IE `Authorization`
+     * */
+    headers?: { [key: string]: string }
+    /**
+     * If specified, the credentials can only be used with URLs that have the same origin (scheme, host, and port) as this value and a path at or under its path (IE `https://example.com/api` allows `/api/reports` but not `/apiv2`)
+     *
+     * @examples ["https://example.com/api/"]
+     * */
+    urlPrefix?: string
+}
+
+export interface HttpActionOperatorJsonConfig {
+    /**
+     * Allow subreddits to use HTTP Actions. When not enabled any HTTP Action fails without sending a request.
+     *
+     * @default false
+     * */
+    enable?: boolean
+    /**
+     * If specified, HTTP Actions can only send requests to these hosts or their subdomains
+     *
+     * @examples [["example.com"]]
+     * */
+    allowedHosts?: string[]
+    /**
+     * Allow requests to private, loopback, and link-local addresses IE `localhost`, `192.168.0.1`, or cloud metadata services
+     *
+     * These are refused by default so subreddit configs cannot reach services on the network the bot runs in.
+     *
+     * @default false
+     * */
+    allowPrivateAddresses?: boolean
+}
+
+export interface HttpActionOperatorConfig extends HttpActionOperatorJsonConfig {
+    enable: boolean
+    allowedHosts: string[]
+    allowPrivateAddresses: boolean
+}
+
 export interface BotCredentialsJsonConfig extends ThirdPartyCredentialsJsonConfig {
     reddit: RedditCredentials
 }
@@ -1613,6 +1940,7 @@ export interface BotInstanceConfig extends BotInstanceJsonConfig {
     database: DataSource
     snoowrap: SnoowrapOptions
     databaseStatisticsDefaults: DatabaseStatisticsOperatorConfig
+    httpAction: HttpActionOperatorConfig
     opInflux?: InfluxClient,
     subreddits: {
         names?: string[],
@@ -1743,6 +2071,13 @@ export interface ActionProcessResult {
     result?: string
     touchedEntities?: (Submission | Comment | RedditUser | string)[]
     data?: any
+    /**
+     * The subreddit Removal Reason used by the Action, if any
+     * */
+    removalReason?: {
+        id: string
+        title: string
+    }
 }
 
 export interface EventActivity {
@@ -1786,8 +2121,10 @@ export type FormattedRuleResult = RuleResult & {
 
 export interface RuleSetResult {
     results: RuleResultEntity[],
-    condition: 'OR' | 'AND',
+    condition: RunnableCondition,
     triggered: boolean
+    score?: number
+    scoreContributions?: RuleScoreContribution[]
 }
 
 export interface CheckResult {
@@ -1805,7 +2142,7 @@ export interface CheckSummary extends CheckResult {
     postBehavior: string
     error?: string
     actionResults: ActionResult[]
-    condition: 'AND' | 'OR'
+    condition: RunnableCondition
 }
 
 export interface RunResult {
@@ -1902,6 +2239,57 @@ export interface TextTransformOptions {
     transformationsActivity?: SearchAndReplaceRegExp[]
 }
 
+/**
+ * A user banned from the subreddit, either found in the subreddit's ban list or from a Ban Action run by CM
+ * */
+export interface BannedUserRecord {
+    name: string
+    /**
+     * Unix timestamp (seconds) of when the user was banned
+     * */
+    bannedAt: number
+    note?: string
+    source: 'banList' | 'history'
+}
+
+/**
+ * The most recent Remove or Approve decision made by a ContextMod Action on an Activity
+ * */
+export interface ModerationDecisionRecord {
+    id: string
+    type: ActivityType
+    /**
+     * Content stored for the Activity -- Submission title or Comment body
+     * */
+    content: string
+    decision: 'removed' | 'approved'
+    /**
+     * Unix timestamp (seconds) of when the Action was run
+     * */
+    decidedAt: number
+}
+
+/**
+ * An Activity stored in the rolling index used by the Coordinated Content Rule
+ * */
+export interface CoordinatedContentIndexEntry {
+    id: string
+    author: string
+    kind: 'submission' | 'comment'
+    text: string
+    permalink: string
+    createdAt: number
+}
+
+/**
+ * The outcome of a Brigade Rule for a Submission's thread
+ * */
+export interface BrigadeThreadResult {
+    triggered: boolean
+    result: string
+    data?: object
+}
+
 export interface TextMatchOptions {
     /**
      * The percentage, as a whole number, of a repost title/comment that must match the title/comment being checked in order to consider both a match
@@ -18,12 +18,24 @@ import {RepostRuleJSONConfig} from "../Rule/RepostRule";
 import {DispatchActionJson} from "../Action/DispatchAction";
 import {CancelDispatchActionJson} from "../Action/CancelDispatchAction";
 import {ContributorActionJson} from "../Action/ContributorAction";
+import {UnbanActionJson} from "../Action/UnbanAction";
+import {MuteActionJson} from "../Action/MuteAction";
+import {UnmuteActionJson} from "../Action/UnmuteAction";
+import {WikiActionJson} from "../Action/WikiAction";
+import {StateActionJson} from "../Action/StateAction";
+import {CrosspostActionJson} from "../Action/CrosspostAction";
+import {ModmailDiscussionActionJson} from "../Action/ModmailDiscussionAction";
+import {HttpActionJson} from "../Action/HttpAction";
 import {SentimentRuleJSONConfig} from "../Rule/SentimentRule";
 import {MHSRuleJSONConfig} from "../Rule/MHSRule";
+import {CoordinatedContentRuleJSONConfig} from "../Rule/CoordinatedContentRule";
+import {BanEvasionRuleJSONConfig} from "../Rule/BanEvasionRule";
+import {BrigadeRuleJSONConfig} from "../Rule/BrigadeRule";
+import {TextClassifierRuleJSONConfig} from "../Rule/TextClassifierRule";
 import {ModNoteActionJson} from "../Action/ModNoteAction";
 import {IncludesData} from "./Infrastructure/Includes";
 import { SubmissionActionJson } from "../Action/SubmissionAction";
 
-export type RuleObjectJsonTypes = RecentActivityRuleJSONConfig | RepeatActivityJSONConfig | AuthorRuleJSONConfig | AttributionJSONConfig | HistoryJSONConfig | RegexRuleJSONConfig | RepostRuleJSONConfig | SentimentRuleJSONConfig | MHSRuleJSONConfig
+export type RuleObjectJsonTypes = RecentActivityRuleJSONConfig | RepeatActivityJSONConfig | AuthorRuleJSONConfig | AttributionJSONConfig | HistoryJSONConfig | RegexRuleJSONConfig | RepostRuleJSONConfig | SentimentRuleJSONConfig | MHSRuleJSONConfig | CoordinatedContentRuleJSONConfig | BanEvasionRuleJSONConfig | BrigadeRuleJSONConfig | TextClassifierRuleJSONConfig
 
-export type ActionJson = CommentActionJson | SubmissionActionJson | FlairActionJson | ReportActionJson | LockActionJson | RemoveActionJson | ApproveActionJson | BanActionJson | UserNoteActionJson | MessageActionJson | UserFlairActionJson | DispatchActionJson | CancelDispatchActionJson | ContributorActionJson | ModNoteActionJson | string | IncludesData;
+export type ActionJson = CommentActionJson | SubmissionActionJson | FlairActionJson | ReportActionJson | LockActionJson | RemoveActionJson | ApproveActionJson | BanActionJson | UserNoteActionJson | MessageActionJson | UserFlairActionJson | DispatchActionJson | CancelDispatchActionJson | ContributorActionJson | ModNoteActionJson | UnbanActionJson | MuteActionJson | UnmuteActionJson | WikiActionJson | StateActionJson | CrosspostActionJson | ModmailDiscussionActionJson | HttpActionJson | string | IncludesData;
@@ -8,7 +8,8 @@ import {
     overwriteMerge,
     parseBool, parseExternalUrl, parseUrlContext, parseWikiContext, randomId,
     readConfigFile,
-    removeUndefinedKeys, resolvePathFromEnvWithRelative, toPollOn, toStrongSharingACLConfig
+    removeUndefinedKeys, resolvePathFromEnvWithRelative, toPollOn, toStrongSharingACLConfig,
+    isDayOfWeekRelativeDateTime
 } from "./util";
 
 import Ajv, {Schema} from 'ajv';
@@ -22,6 +23,8 @@ import LoggedError from "./Utils/LoggedError";
 import {
     ActivityCheckConfigData,
     ActivityCheckConfigHydratedData,
+    ActivityCheckObject,
+    asModmailCheckJson,
     CheckConfigHydratedData,
     CheckConfigObject
 } from "./Check";
@@ -41,7 +44,8 @@ import {
     BotCredentialsJsonConfig,
     BotCredentialsConfig,
     OperatorFileConfig,
-    PostBehavior, SharingACLConfig
+    PostBehavior, SharingACLConfig,
+    ScheduleOptions
 } from "./Common/interfaces";
 import {isRuleSetJSON, RuleSetConfigData, RuleSetConfigHydratedData, RuleSetConfigObject} from "./Rule/RuleSet";
 import deepEqual from "fast-deep-equal";
@@ -276,7 +280,7 @@ export class ConfigBuilder {
 
                 const {checks, ...rest} = preValidatedRun;
 
-                const hydratedChecks: CheckConfigHydratedData[] = [];
+                const hydratedChecks: ActivityCheckConfigHydratedData[] = [];
                 let checkIndex = 1;
                 for (const c of preValidatedRun.checks) {
                     let hydratedCheckDataArr: ActivityCheckConfigHydratedData[];
@@ -306,6 +310,13 @@ export class ConfigBuilder {
 
                         const preValidatedCheck = hydratedCheckData as ActivityCheckConfigHydratedData;
 
+                        if (asModmailCheckJson(preValidatedCheck)) {
+                            // modmail checks do not have rules or activity actions so there is nothing to hydrate
+                            hydratedChecks.push(preValidatedCheck);
+                            checkIndex++;
+                            continue;
+                        }
+
                         const {rules, actions, ...rest} = preValidatedCheck;
                         const hydratedCheckConfigData: CheckConfigHydratedData = rest;
 
@@ -395,6 +406,9 @@ export class ConfigBuilder {
 
         for(const r of realRuns) {
             for (const c of r.checks) {
+                if (asModmailCheckJson(c)) {
+                    continue;
+                }
                 const {rules = [], actions = []} = c;
                 namedRules = extractNamedRules(rules, namedRules);
                 namedActions = extractNamedActions(actions, namedActions);
@@ -417,8 +431,13 @@ export class ConfigBuilder {
 
             const configFilterDefaultsFromRun = filterCriteriaDefaultsFromRun === undefined ? undefined : buildDefaultFilterCriteriaFromJson(filterCriteriaDefaultsFromRun, namedAuthorFilters, namedItemFilters);
 
-            const structuredChecks: CheckConfigObject[] = [];
+            const structuredChecks: ActivityCheckObject[] = [];
             for (const c of r.checks) {
+                if (asModmailCheckJson(c)) {
+                    // filter criteria defaults are for Activities so only the check's own authorIs is used
+                    structuredChecks.push({...c, authorIs: namedFilters(c).authorIs});
+                    continue;
+                }
                 const {rules = [], actions = [], authorIs = {}, itemIs = []} = c;
                 const strongRules = insertNamedRules(rules, namedRules, namedAuthorFilters, namedItemFilters);
                 const strongActions = insertNamedActions(actions, namedActions, namedAuthorFilters, namedItemFilters);
@@ -481,6 +500,35 @@ export const buildPollingOptions = (values: (string | PollingOptions)[]): Pollin
     return opts;
 }
 
+export const buildScheduleOptions = (values: ScheduleOptions[]): ScheduleOptions[] => {
+    const names: string[] = [];
+    return values.map((x) => {
+        const {
+            name,
+            on,
+            time = 'day',
+            limit = 25,
+            ...rest
+        } = x;
+        if (names.includes(normalizeName(name))) {
+            throw new SimpleError(`Schedule names must be unique. Duplicate name detected: ${name}`);
+        }
+        names.push(normalizeName(name));
+        const expressions = Array.isArray(on) ? on : [on];
+        for (const expr of expressions) {
+            // throws if expression is not valid
+            isDayOfWeekRelativeDateTime(expr);
+        }
+        return {
+            name,
+            on: expressions,
+            time,
+            limit,
+            ...rest
+        };
+    });
+}
+
 export const buildDefaultFilterCriteriaFromJson = (val: FilterCriteriaDefaultsJson, namedAuthorFilters: Map<string, NamedCriteria<AuthorCriteria>>, namedItemFilters: Map<string, NamedCriteria<TypedActivityState>>): FilterCriteriaDefaults => {
     const {
         itemIs,
@@ -592,6 +640,9 @@ export const extractNamedFilters = (config: SubredditConfigHydratedData, namedAu
 
         for(const c of r.checks) {
              parseAuthorIs(c.authorIs);
+             if(asModmailCheckJson(c)) {
+                 continue;
+             }
              parseItemIs(c.itemIs);
 
              for(const ru of c.rules ?? []) {
@@ -1218,6 +1269,7 @@ export const buildOperatorConfigWithDefaults = async (data: OperatorJsonConfig):
             operators,
         } = {},
         snoowrap: snoowrapOp = {},
+        httpAction: httpActionOp = {},
         api: {
             port: apiPort = 8095,
             secret: apiSecret = randomId(),
@@ -1347,6 +1399,7 @@ export const buildOperatorConfigWithDefaults = async (data: OperatorJsonConfig):
         logging: loggingOptions,
         caching: cache,
         snoowrap: snoowrapOp,
+        httpAction: httpActionOp,
         databaseStatisticsDefaults: {
             frequency,
             minFrequency
@@ -1402,6 +1455,7 @@ export const buildOperatorConfigWithDefaults = async (data: OperatorJsonConfig):
 export const buildBotConfig = (data: BotInstanceJsonConfig, opConfig: OperatorConfig): BotInstanceConfig => {
     const {
         snoowrap: snoowrapOp,
+        httpAction: httpActionOp = {},
         caching: {
             provider: defaultProvider,
         } = {},
@@ -1433,6 +1487,11 @@ export const buildBotConfig = (data: BotInstanceJsonConfig, opConfig: OperatorCo
             hardLimit = 50
         } = {},
         snoowrap = snoowrapOp,
+        httpAction: {
+            enable: httpEnable = false,
+            allowedHosts = [],
+            allowPrivateAddresses = false,
+        } = httpActionOp,
         databaseStatisticsDefaults = {},
         databaseConfig: {
             retention,
@@ -1554,6 +1613,11 @@ export const buildBotConfig = (data: BotInstanceJsonConfig, opConfig: OperatorCo
         postCheckBehaviorDefaults,
         database,
         databaseStatisticsDefaults: botLevelStatDefaults,
+        httpAction: {
+            enable: httpEnable,
+            allowedHosts,
+            allowPrivateAddresses,
+        },
         databaseConfig: {
           retention: retention ?? retentionFromOp
         },
@@ -0,0 +1,113 @@
+import {Logger} from "winston";
+import dayjs from "dayjs";
+import {Duration} from "dayjs/plugin/duration";
+import {NotificationContent, NotificationProviderConfig, Notifier} from "../Common/interfaces";
+import {formatNumber, mergeArr, parseDurationValToDuration, sleep} from "../util";
+import {CMError} from "../Utils/Errors";
+import {NotificationEventType} from "../Common/Infrastructure/Atomic";
+import {buildDigestContent, DigestEntry} from "./NotificationDigest";
+
+abstract class AbstractNotifier implements Notifier {
+    name: string
+    botName: string
+    label: string
+    abstract type: string;
+    retries: number;
+    logger: Logger;
+    digest?: {
+        window: Duration
+        sendImmediately: NotificationEventType[]
+    }
+    protected digestEntries: DigestEntry[] = [];
+    protected digestTimeout?: NodeJS.Timeout;
+
+    protected constructor(config: NotificationProviderConfig, botName: string, label: string, logger: Logger) {
+        const {
+            name,
+            retries = 2,
+            digest,
+        } = config;
+        this.name = name;
+        this.botName = botName;
+        this.label = label;
+        this.retries = retries;
+        this.logger = logger.child({labels: [`Notifier ${name}`]}, mergeArr);
+
+        if (digest !== undefined) {
+            const {
+                window,
+                sendImmediately = [],
+            } = digest;
+            this.digest = {
+                window: parseDurationValToDuration(window),
+                sendImmediately,
+            };
+        }
+    }
+
+    async handle(val: NotificationContent): Promise<void> {
+        if (this.digest !== undefined && (val.type === undefined || !this.digest.sendImmediately.includes(val.type))) {
+            this.digestEntries.push({content: val, receivedAt: dayjs()});
+            if (this.digestTimeout === undefined) {
+                this.digestTimeout = setTimeout(() => this.flushDigest(), this.digest.window.asMilliseconds());
+                // a pending digest should not keep the process alive -- it is flushed on shutdown instead
+                this.digestTimeout.unref();
+            }
+            return;
+        }
+        await this.sendWithRetry(val);
+    }
+
+    /**
+     * Send all events collected since the last digest as one summary notification
+     * */
+    async flushDigest(): Promise<void> {
+        if (this.digestTimeout !== undefined) {
+            clearTimeout(this.digestTimeout);
+            this.digestTimeout = undefined;
+        }
+        if (this.digest === undefined || this.digestEntries.length === 0) {
+            return;
+        }
+        const entries = this.digestEntries;
+        this.digestEntries = [];
+        this.logger.verbose(`Sending digest of ${entries.length} events`);
+        await this.sendWithRetry(buildDigestContent(entries, this.label, this.digest.window));
+    }
+
+    /**
+     * Send any pending digest immediately so events are not lost when this notifier is replaced
+     * */
+    async destroy(): Promise<void> {
+        await this.flushDigest();
+    }
+
+    /**
+     * Send the notification, retrying with exponential backoff if the provider returns an error
+     *
+     * Never throws -- if all retries are exhausted the failure is logged and the notification is dropped
+     * */
+    protected async sendWithRetry(val: NotificationContent): Promise<void> {
+        let attempt = 0;
+        while (true) {
+            attempt++;
+            try {
+                await this.send(val);
+                return;
+            } catch (err: any) {
+                const msg = `Failed to send notification "${val.title}" (${attempt}/${this.retries + 1})`;
+                if (attempt > this.retries) {
+                    this.logger.error(new CMError(`${msg}. Exceeded max retries, notification will not be sent.`, {cause: err}));
+                    return;
+                }
+                const ms = Math.pow(2, attempt) * 1000;
+                this.logger.warn(new CMError(`${msg}. Will wait ${formatNumber(ms / 1000)} seconds before retrying.`, {cause: err}));
+                await sleep(ms);
+            }
+        }
+    }
+
+    protected abstract send(val: NotificationContent): Promise<void>;
+}
+
+export default AbstractNotifier;
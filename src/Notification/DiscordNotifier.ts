@@ -1,47 +1,55 @@
-import webhook from 'webhook-discord';
-import {NotificationContent} from "../Common/interfaces";
-
-class DiscordNotifier {
-    name: string
-    botName: string
+import got from "got";
+import {Logger} from "winston";
+import {DiscordProviderConfig, NotificationContent} from "../Common/interfaces";
+import AbstractNotifier from "./AbstractNotifier";
+import {truncateStringToLength} from "../util";
+
+// https://discord.com/developers/docs/resources/channel#embed-object-embed-limits
+const truncateTitle = truncateStringToLength(256);
+const truncateDescription = truncateStringToLength(4096);
+const truncateFooter = truncateStringToLength(2048);
+
+class DiscordNotifier extends AbstractNotifier {
     type: string = 'Discord';
     url: string;
 
-    constructor(name: string, botName: string, url: string) {
-        this.name = name;
-        this.url = url;
-        this.botName = botName;
+    constructor(config: DiscordProviderConfig, botName: string, label: string, logger: Logger) {
+        super(config, botName, label, logger);
+        this.url = config.url;
     }
 
-    async handle(val: NotificationContent) {
-        const h = new webhook.Webhook(this.url);
-
-        const hook = new webhook.MessageBuilder();
-
+    protected async send(val: NotificationContent) {
         const {logLevel, title, footer, body = ''} = val;
 
-        hook.setName(this.botName === 'ContextMod' ? 'ContextMod' : `(ContextMod) ${this.botName}`)
-            .setTitle(title)
-            .setDescription(body)
-
-        if (footer !== undefined) {
-            // @ts-ignore
-            hook.setFooter(footer, false);
-        }
-
+        let color: number;
         switch (logLevel) {
             case 'error':
-                hook.setColor("##ff0000");
+                color = 0xff0000;
                 break;
             case 'warn':
-                hook.setColor("#ffe900");
+                color = 0xffe900;
                 break;
             default:
-                hook.setColor("#00fffa");
+                color = 0x00fffa;
                 break;
         }
 
-        await h.send(hook);
+        // non-2xx responses (including rate limiting) throw so they are retried by AbstractNotifier
+        await got.post(this.url, {
+            json: {
+                username: this.botName === 'ContextMod' ? 'ContextMod' : `(ContextMod) ${this.botName}`,
+                embeds: [
+                    {
+                        title: truncateTitle(title),
+                        description: body === '' ? undefined : truncateDescription(body),
+                        color,
+                        footer: footer === undefined ? undefined : {text: truncateFooter(footer)},
+                    }
+                ]
+            },
+            timeout: 10000,
+            retry: {limit: 0},
+        });
     }
 }
 
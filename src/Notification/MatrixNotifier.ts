@@ -0,0 +1,48 @@
+import got from "got";
+import {Logger} from "winston";
+import {nanoid} from "nanoid";
+import he from "he";
+import {MatrixProviderConfig, NotificationContent} from "../Common/interfaces";
+import AbstractNotifier from "./AbstractNotifier";
+
+class MatrixNotifier extends AbstractNotifier {
+    type: string = 'Matrix';
+    homeserver: string;
+    roomId: string;
+    accessToken: string;
+
+    constructor(config: MatrixProviderConfig, botName: string, label: string, logger: Logger) {
+        super(config, botName, label, logger);
+        this.homeserver = config.homeserver.replace(/\/+$/, '');
+        this.roomId = config.roomId;
+        this.accessToken = config.accessToken;
+    }
+
+    protected async send(val: NotificationContent) {
+        const {title, footer, body = ''} = val;
+
+        const plain = [title, body, footer].filter(x => x !== undefined && x !== '').join('\n\n');
+        const html = [`<strong>${he.encode(title)}</strong>`, he.encode(body), footer !== undefined ? `<em>${he.encode(footer)}</em>` : undefined]
+            .filter(x => x !== undefined && x !== '')
+            .join('<br/><br/>')
+            .replace(/\n/g, '<br/>');
+
+        // matrix requires a client-generated transaction id that is unique per message sent
+        const txnId = nanoid(16);
+        await got.put(`${this.homeserver}/_matrix/client/v3/rooms/${encodeURIComponent(this.roomId)}/send/m.room.message/${txnId}`, {
+            headers: {
+                Authorization: `Bearer ${this.accessToken}`
+            },
+            json: {
+                msgtype: 'm.notice',
+                body: plain,
+                format: 'org.matrix.custom.html',
+                formatted_body: html,
+            },
+            timeout: 10000,
+            retry: {limit: 0},
+        });
+    }
+}
+
+export default MatrixNotifier;
@@ -0,0 +1,94 @@
+import {capitalize} from "lodash";
+import {Dayjs} from "dayjs";
+import {Duration} from "dayjs/plugin/duration";
+import {NotificationContent} from "../Common/interfaces";
+import {dayjsDTFormat} from "../Common/defaults";
+
+export interface DigestEntry {
+    content: NotificationContent
+    receivedAt: Dayjs
+}
+
+const logLevelPriority = ['info', 'warn', 'error'];
+
+const countsToList = (counts: Map<string, number>) => Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) => `${name} (${count})`)
+    .join(', ');
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+// keep multi-line bodies inside their list item
+const indentBody = (body: string) => body.trim().split('\n').join('\n    ');
+
+/**
+ * Build one summary notification from all events collected during a digest window
+ *
+ * Actioned events are grouped by Check with a count of the Actions run and the Authors actioned. All other events are grouped by title with each distinct body listed under its title.
+ * */
+export const buildDigestContent = (entries: DigestEntry[], label: string, window: Duration): NotificationContent => {
+    const checks = new Map<string, { total: number, actions: Map<string, number>, authors: Map<string, number> }>();
+    const others = new Map<string, { total: number, bodies: Map<string, number> }>();
+    let logLevel = 'info';
+
+    for (const {content} of entries) {
+        if (content.logLevel !== undefined && logLevelPriority.indexOf(content.logLevel) > logLevelPriority.indexOf(logLevel)) {
+            logLevel = content.logLevel;
+        }
+        const {type, context: {check, actions = [], author} = {}} = content;
+        if (type === 'eventActioned' && check !== undefined) {
+            const checkGroup = checks.get(check) ?? {total: 0, actions: new Map(), authors: new Map()};
+            checkGroup.total++;
+            for (const a of actions) {
+                increment(checkGroup.actions, capitalize(a));
+            }
+            if (author !== undefined) {
+                increment(checkGroup.authors, `u/${author}`);
+            }
+            checks.set(check, checkGroup);
+        } else {
+            const otherGroup = others.get(content.title) ?? {total: 0, bodies: new Map()};
+            otherGroup.total++;
+            if (content.body !== undefined && content.body.trim() !== '') {
+                increment(otherGroup.bodies, content.body);
+            }
+            others.set(content.title, otherGroup);
+        }
+    }
+
+    const body: string[] = [];
+    if (checks.size > 0) {
+        body.push('**Checks Triggered**');
+        for (const [name, group] of Array.from(checks.entries()).sort((a, b) => b[1].total - a[1].total)) {
+            body.push(`* "${name}" (${group.total})`);
+            if (group.actions.size > 0) {
+                body.push(`  * Actions: ${countsToList(group.actions)}`);
+            }
+            if (group.authors.size > 0) {
+                body.push(`  * Authors: ${countsToList(group.authors)}`);
+            }
+        }
+    }
+    if (others.size > 0) {
+        if (body.length > 0) {
+            body.push('');
+        }
+        body.push('**Other Events**');
+        for (const [title, group] of others.entries()) {
+            body.push(`* ${title}${group.total > 1 ? ` (${group.total})` : ''}`);
+            for (const [otherBody, count] of group.bodies.entries()) {
+                body.push(`  * ${indentBody(otherBody)}${count > 1 ? ` (${count})` : ''}`);
+            }
+        }
+    }
+
+    const first = entries[0].receivedAt;
+    const last = entries[entries.length - 1].receivedAt;
+
+    return {
+        title: `Notification Digest for ${label} (${entries.length} Events)`,
+        body: body.join('\n'),
+        footer: `* Digest window of ${window.humanize()} -- events received between ${first.format(dayjsDTFormat)} and ${last.format(dayjsDTFormat)}`,
+        logLevel,
+    };
+}
@@ -1,10 +1,16 @@
 import {
     NotificationConfig,
     NotificationEventConfig,
+    NotificationEventContext,
+    NotificationEventFilter,
     NotificationEvents,
+    NotificationProviderConfig,
     Notifier
 } from "../Common/interfaces";
 import DiscordNotifier from "./DiscordNotifier";
+import WebhookNotifier from "./WebhookNotifier";
+import SlackNotifier from "./SlackNotifier";
+import MatrixNotifier from "./MatrixNotifier";
 import {Logger} from "winston";
 import {mergeArr} from "../util";
 import Subreddit from "snoowrap/dist/objects/Subreddit";
@@ -27,10 +33,19 @@ class NotificationManager {
             for (const p of providers) {
                 switch (p.type) {
                     case 'discord':
-                        this.notifiers.push(new DiscordNotifier(p.name, botName, p.url));
+                        this.notifiers.push(new DiscordNotifier(p, botName, displayName, this.logger));
+                        break;
+                    case 'webhook':
+                        this.notifiers.push(new WebhookNotifier(p, botName, displayName, this.logger));
+                        break;
+                    case 'slack':
+                        this.notifiers.push(new SlackNotifier(p, botName, displayName, this.logger));
+                        break;
+                    case 'matrix':
+                        this.notifiers.push(new MatrixNotifier(p, botName, displayName, this.logger));
                         break;
                     default:
-                        this.logger.warn(`Notification provider type of ${p.type} not recognized.`);
+                        this.logger.warn(`Notification provider type of ${(p as NotificationProviderConfig).type} not recognized.`);
                         break;
                 }
             }
@@ -64,19 +79,27 @@ class NotificationManager {
         }
     }
 
-    async handle(name: NotificationEventType, title: string, body?: string, causedBy?: string, logLevel?: string) {
+    /**
+     * Send a notification to all notifiers subscribed to the event
+     *
+     * @param name Event type. If an array the notification is sent to notifiers subscribed to any of the types, but only once per notifier, and the first type is used as the type of the notification
+     * */
+    async handle(name: NotificationEventType | NotificationEventType[], title: string, body?: string, causedBy?: string, logLevel?: string, context?: NotificationEventContext) {
 
         if (this.notifiers.length === 0 || this.events.length === 0) {
             return;
         }
 
+        const names = Array.isArray(name) ? name : [name];
+        const [eventType] = names;
+
         let notifiers: Notifier[] = [];
         for (const e of this.events) {
             // array of event NotificationEventType
             if (Array.isArray(e)) {
                 const ev = e as NotificationEventType[];
                 for (const v of ev) {
-                    if (v === name) {
+                    if (names.includes(v)) {
                         // if we find the event here then we want to sent the event to all configured notifiers
                         notifiers = notifiers.concat(this.notifiers);
                     }
@@ -84,8 +107,8 @@ class NotificationManager {
             } else {
                 // e is a NotificationEventConfig
                 const ev = e as NotificationEventConfig;
-                const hasEvent = ev.types.some(x => x === name);
-                if (hasEvent) {
+                const hasEvent = ev.types.some(x => names.includes(x));
+                if (hasEvent && (ev.filter === undefined || eventPassesFilter(ev.filter, context))) {
                     const p = ev.providers.map(y => y.toLowerCase());
                     const validNotifiers = this.notifiers.filter(x => p.includes(x.name.toLowerCase()));
                     notifiers = notifiers.concat(validNotifiers);
@@ -100,23 +123,47 @@ class NotificationManager {
             return acc;
         }, []);
 
-        let footer = [];
+        let footer: string[] = [];
         if (causedBy !== undefined) {
             footer.push(`* Performed by "${causedBy}"`);
         }
-        footer.push(`* Notification triggered by "${name}"`);
+        footer.push(`* Notification triggered by "${eventType}"`);
+
+        this.logger.info(`Sending notification for ${eventType} to providers: ${notifiers.map(x => `${x.name} (${x.type})`).join(', ')}`);
 
-        this.logger.info(`Sending notification for ${name} to providers: ${notifiers.map(x => `${x.name} (${x.type})`).join(', ')}`);
+        // notifiers handle their own retries and failures so one unavailable provider does not hold up the rest
+        await Promise.all(notifiers.map(n => n.handle({
+            title: `${title} (${this.name})`,
+            body: body || '',
+            footer: footer.length > 0 ? footer.join('\n') : undefined,
+            logLevel,
+            type: eventType,
+            context,
+        })));
+    }
 
-        for (const n of notifiers) {
-            await n.handle({
-                title: `${title} (${this.name})`,
-                body: body || '',
-                footer: footer.length > 0 ? footer.join('\n') : undefined,
-                logLevel
-            });
+    async destroy() {
+        await Promise.all(this.notifiers.map(x => x.destroy()));
+    }
+}
+
+/**
+ * Test event context against filter. Filter properties the event has no context for are ignored.
+ * */
+export const eventPassesFilter = (filter: NotificationEventFilter, context: NotificationEventContext = {}): boolean => {
+    const {checks, actions} = filter;
+    if (checks !== undefined && context.check !== undefined) {
+        const checkName = context.check.toLowerCase();
+        if (!checks.some(x => x.toLowerCase() === checkName)) {
+            return false;
+        }
+    }
+    if (actions !== undefined && context.actions !== undefined) {
+        if (!actions.some(x => context.actions?.includes(x))) {
+            return false;
         }
     }
+    return true;
 }
 
 export default NotificationManager;
@@ -0,0 +1,51 @@
+import got from "got";
+import {Logger} from "winston";
+import {NotificationContent, SlackProviderConfig} from "../Common/interfaces";
+import AbstractNotifier from "./AbstractNotifier";
+
+class SlackNotifier extends AbstractNotifier {
+    type: string = 'Slack';
+    url: string;
+
+    constructor(config: SlackProviderConfig, botName: string, label: string, logger: Logger) {
+        super(config, botName, label, logger);
+        this.url = config.url;
+    }
+
+    protected async send(val: NotificationContent) {
+        const {logLevel, title, footer, body = ''} = val;
+
+        let color: string;
+        switch (logLevel) {
+            case 'error':
+                color = '#ff0000';
+                break;
+            case 'warn':
+                color = '#ffe900';
+                break;
+            default:
+                color = '#00fffa';
+                break;
+        }
+
+        await got.post(this.url, {
+            json: {
+                username: this.botName === 'ContextMod' ? 'ContextMod' : `(ContextMod) ${this.botName}`,
+                // fallback for clients that cannot display attachments
+                text: title,
+                attachments: [
+                    {
+                        color,
+                        title,
+                        text: body,
+                        footer,
+                    }
+                ]
+            },
+            timeout: 10000,
+            retry: {limit: 0},
+        });
+    }
+}
+
+export default SlackNotifier;
@@ -0,0 +1,66 @@
+import got from "got";
+import Mustache from "mustache";
+import {Logger} from "winston";
+import {NotificationContent, WebhookProviderConfig} from "../Common/interfaces";
+import AbstractNotifier from "./AbstractNotifier";
+
+// escape values so they can be safely interpolated into a JSON string in the body template
+const jsonEscape = (val: any) => JSON.stringify(String(val)).slice(1, -1);
+
+class WebhookNotifier extends AbstractNotifier {
+    type: string = 'Webhook';
+    url: string;
+    method: 'POST' | 'PUT' | 'PATCH';
+    headers: { [key: string]: string };
+    body?: string;
+
+    constructor(config: WebhookProviderConfig, botName: string, label: string, logger: Logger) {
+        super(config, botName, label, logger);
+        const {
+            url,
+            method = 'POST',
+            headers = {},
+            body,
+        } = config;
+        this.url = url;
+        this.method = method;
+        this.headers = headers;
+        this.body = body;
+    }
+
+    protected async send(val: NotificationContent) {
+        const {logLevel = 'info', title, footer = '', body = ''} = val;
+        const view = {
+            title,
+            body,
+            footer,
+            logLevel,
+            botName: this.botName,
+        };
+
+        let payload: string;
+        if (this.body === undefined) {
+            payload = JSON.stringify(view);
+        } else {
+            payload = Mustache.render(this.body, view, {}, {escape: jsonEscape});
+            try {
+                JSON.parse(payload);
+            } catch (e: any) {
+                this.logger.warn(`Rendered body template is not valid JSON, will send anyway: ${e.message}`);
+            }
+        }
+
+        await got(this.url, {
+            method: this.method,
+            headers: {
+                'Content-Type': 'application/json',
+                ...this.headers,
+            },
+            body: payload,
+            timeout: 10000,
+            retry: {limit: 0},
+        });
+    }
+}
+
+export default WebhookNotifier;
@@ -0,0 +1,269 @@
+import dayjs from "dayjs";
+import {parseFromJsonOrYamlToObject} from "../Common/Config/ConfigUtil";
+import {
+    ConfigTestActivity,
+    ConfigTestExpectation,
+    ConfigTestJson
+} from "../Common/Infrastructure/ConfigTests";
+import {CMError} from "../Utils/Errors";
+import {normalizeName, parseDurationValToDuration, parseSubredditName} from "../util";
+import {ReplayActivityResult, ReplayFixtures, ReplayOptions, runReplay} from "./index";
+
+export interface ConfigTestOptions extends Omit<ReplayOptions, 'checkNames'> {
+    /**
+     * Name of the Subreddit test Activities are made in
+     *
+     * @default ConfigTests
+     * */
+    subreddit?: string
+}
+
+export interface ConfigTestResult {
+    name: string
+    passed: boolean
+    /**
+     * Reasons the outcome did not match what the test expected
+     * */
+    failures: string[]
+    result: ReplayActivityResult
+}
+
+const buildActivityData = (activity: ConfigTestActivity, id: string, author: string, subreddit: string, createdAt: number, linkId?: string): { [key: string]: any } => {
+    const {
+        kind,
+        title = 'Test Submission',
+        body = '',
+        url,
+        flair = null,
+        score = 1,
+        reports = 0,
+        removed = false,
+        approved = false,
+        spam = false,
+        locked = false,
+        nsfw = false,
+        data = {},
+    } = activity;
+
+    const base = {
+        id,
+        author,
+        subreddit,
+        subreddit_name_prefixed: `r/${subreddit}`,
+        created_utc: createdAt,
+        score,
+        ups: score,
+        num_reports: reports,
+        user_reports: [],
+        mod_reports: [],
+        removed,
+        approved,
+        spam,
+        locked,
+        over_18: nsfw,
+        removed_by_category: removed ? 'moderator' : null,
+        banned_by: removed ? 'ConfigTest' : null,
+        distinguished: null,
+        stickied: false,
+        edited: false,
+    };
+
+    if (kind === 'submission') {
+        const permalink = `/r/${subreddit}/comments/${id}/`;
+        return {
+            ...base,
+            name: `t3_${id}`,
+            title,
+            selftext: body,
+            is_self: url === undefined,
+            url: url ?? `https://www.reddit.com${permalink}`,
+            domain: url === undefined ? `self.${subreddit}` : new URL(url).hostname.replace(/^www\./, ''),
+            permalink,
+            link_flair_text: flair,
+            num_comments: 0,
+            ...data,
+        };
+    }
+    const parentId = linkId ?? `t3_${id}p`;
+    return {
+        ...base,
+        name: `t1_${id}`,
+        body,
+        link_id: parentId,
+        parent_id: parentId,
+        permalink: `/r/${subreddit}/comments/${parentId.split('_')[1]}/_/${id}/`,
+        ...data,
+    };
+}
+
+/**
+ * Build replay fixtures for all tests in a config
+ *
+ * Each test gets its own Author (unless a name is given) and Activity IDs so that tests do not affect each other's Author history
+ * */
+export const buildConfigTestFixtures = (tests: ConfigTestJson[], subreddit: string): ReplayFixtures => {
+    const now = dayjs().unix();
+    const botName = 'ContextModReplay';
+    const activities: { [key: string]: any }[] = [];
+    const history: { [key: string]: any }[] = [];
+    // the bot's own profile is fetched when the Manager is built
+    const authors: { [key: string]: any }[] = [{
+        name: botName,
+        id: botName.toLowerCase(),
+        created_utc: now,
+        link_karma: 0,
+        comment_karma: 0,
+        total_karma: 0,
+        has_verified_email: true,
+        is_suspended: false,
+    }];
+    const moderators: string[] = [botName];
+
+    tests.forEach((test, index) => {
+        const testId = `cmtest${index + 1}`;
+        const {
+            name: authorName = `ConfigTest${index + 1}Author`,
+            age = '1 year',
+            linkKarma = 1,
+            commentKarma = 1,
+            verified = true,
+            flair = null,
+            flairCssClass = null,
+            isMod = false,
+            data: authorData = {},
+        } = test.author ?? {};
+
+        if (test.activity === undefined || !['submission', 'comment'].includes(test.activity.kind)) {
+            throw new CMError(`Test ${test.name ?? index + 1} must have an 'activity' with a 'kind' of either 'submission' or 'comment'`);
+        }
+
+        if (!authors.some(x => x.name.toLowerCase() === authorName.toLowerCase())) {
+            authors.push({
+                name: authorName,
+                id: authorName.toLowerCase(),
+                created_utc: dayjs().subtract(parseDurationValToDuration(age)).unix(),
+                link_karma: linkKarma,
+                comment_karma: commentKarma,
+                total_karma: linkKarma + commentKarma,
+                has_verified_email: verified,
+                is_suspended: false,
+                ...authorData,
+            });
+        }
+        if (isMod) {
+            moderators.push(authorName);
+        }
+
+        const activity = buildActivityData(test.activity, testId, authorName, subreddit, now);
+        activity.author_flair_text = flair;
+        activity.author_flair_css_class = flairCssClass;
+        activities.push(activity);
+
+        const testHistory = test.history ?? [];
+        if (test.activity.kind === 'comment' || testHistory.some(x => x.kind === 'comment')) {
+            // comments need a parent submission to exist
+            history.push(buildActivityData({kind: 'submission'}, `${testId}p`, `ConfigTest${index + 1}Submitter`, subreddit, now - 60));
+        }
+
+        testHistory.forEach((x, hIndex) => {
+            history.push(buildActivityData(x, `${testId}h${hIndex + 1}`, authorName, subreddit, now - ((hIndex + 1) * 60), x.kind === 'comment' ? `t3_${testId}p` : undefined));
+        });
+    });
+
+    return {
+        subreddit,
+        botName,
+        activities,
+        history,
+        authors,
+        moderators,
+    };
+}
+
+const namesMatch = (expected: string[], actual: string[], matches: (expected: string, actual: string) => boolean = (e, a) => normalizeName(e) === normalizeName(a)) => {
+    return expected.every(e => actual.some(a => matches(e, a))) && actual.every(a => expected.some(e => matches(e, a)));
+}
+
+const formatList = (list: string[]) => list.length === 0 ? 'None' : list.join(', ');
+
+export const evaluateConfigTest = (expect: ConfigTestExpectation = {}, result: ReplayActivityResult): string[] => {
+    const failures: string[] = [];
+
+    if (!result.processed) {
+        failures.push('Activity was not processed');
+        return failures;
+    }
+
+    const errors = result.runs.map(x => [x.error, ...x.checks.map(y => y.error)]).flat().filter(x => x !== undefined && x !== 'Not enabled');
+    for (const err of errors) {
+        failures.push(`Error while processing: ${err}`);
+    }
+
+    const {
+        triggered,
+        runs,
+        checks,
+        actions,
+    } = expect;
+
+    if (triggered !== undefined && triggered !== result.triggered) {
+        failures.push(`Expected Activity to ${triggered ? 'be triggered' : 'NOT be triggered'}`);
+    }
+
+    const triggeredRuns = result.runs.filter(x => x.triggered).map(x => x.name);
+    if (runs !== undefined && !namesMatch(runs, triggeredRuns)) {
+        failures.push(`Expected triggered Runs: ${formatList(runs)} | Actual: ${formatList(triggeredRuns)}`);
+    }
+
+    const triggeredChecks = result.runs.map(x => x.checks.filter(y => y.triggered).map(y => y.name)).flat();
+    if (checks !== undefined && !namesMatch(checks, triggeredChecks)) {
+        failures.push(`Expected triggered Checks: ${formatList(checks)} | Actual: ${formatList(triggeredChecks)}`);
+    }
+
+    const actionsRun = result.runs.map(x => x.checks.map(y => y.actions.filter(z => z.run))).flat(2);
+    if (actions !== undefined && !namesMatch(actions, actionsRun.map(x => x.name), (e, a) => {
+        const action = actionsRun.find(x => x.name === a);
+        const normalExpected = normalizeName(e);
+        // friendly name is either "Kind" or "Kind - name"
+        return [action?.kind ?? '', a, a.split(' - ').slice(1).join(' - ')].some(x => normalizeName(x) === normalExpected);
+    })) {
+        failures.push(`Expected Actions: ${formatList(actions)} | Actual: ${formatList(actionsRun.map(x => x.name))}`);
+    }
+
+    return failures;
+}
+
+/**
+ * Run all tests from the `tests` section of a subreddit config against that config
+ *
+ * Tests are run with a replay client so no requests are made to reddit and all Actions are run with dry run.
+ * */
+export const runConfigTests = async (subredditConfig: string, options: ConfigTestOptions = {}): Promise<ConfigTestResult[]> => {
+    const {
+        subreddit = 'ConfigTests',
+        ...rest
+    } = options;
+
+    const [format, configObj, jsonErr, yamlErr] = parseFromJsonOrYamlToObject(subredditConfig);
+    if (configObj === undefined) {
+        throw new CMError('Could not parse config as JSON or YAML', {cause: format === 'json' ? jsonErr : yamlErr});
+    }
+    const {tests = []} = configObj.toJS() as { tests?: ConfigTestJson[] };
+    if (!Array.isArray(tests) || tests.length === 0) {
+        throw new CMError(`Config does not contain any 'tests'`);
+    }
+
+    const fixtures = buildConfigTestFixtures(tests, parseSubredditName(subreddit));
+    const results = await runReplay(fixtures, subredditConfig, rest);
+
+    return tests.map((test, index) => {
+        const result = results[index];
+        const failures = evaluateConfigTest(test.expect, result);
+        return {
+            name: test.name ?? `Test ${index + 1}`,
+            passed: failures.length === 0,
+            failures,
+            result,
+        };
+    });
+}
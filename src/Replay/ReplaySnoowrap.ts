@@ -0,0 +1,248 @@
+import {Comment, Submission} from "snoowrap/dist/objects";
+import {ExtendedSnoowrap} from "../Utils/SnoowrapClients";
+import {CMError} from "../Utils/Errors";
+import {parseRedditFullname} from "../util";
+import dayjs from "dayjs";
+
+/**
+ * A reddit "Thing" in the same shape returned by the reddit API IE {"kind": "t3", "data": {...}}
+ * */
+export interface RawRedditThing {
+    kind: string
+    data: { [key: string]: any }
+}
+
+export interface ReplaySnoowrapOptions {
+    botName: string
+    subreddit: { [key: string]: any }
+    activities: RawRedditThing[]
+    authors: { [key: string]: any }[]
+    wiki: Record<string, string>
+    moderators: string[]
+}
+
+const listing = (children: any[]) => ({
+    kind: 'Listing',
+    data: {
+        children,
+        after: null,
+        before: null,
+    }
+});
+
+/**
+ * A snoowrap client that never contacts reddit
+ *
+ * All GET requests are answered from fixture data so Activities can be run through a Manager offline. Any request that would modify data on reddit fails.
+ * */
+export class ReplaySnoowrap extends ExtendedSnoowrap {
+
+    replay: ReplaySnoowrapOptions;
+
+    constructor(options: ReplaySnoowrapOptions) {
+        super({userAgent: 'web:contextBot:replay', accessToken: 'replay'});
+        this.replay = options;
+        this.ratelimitRemaining = 600;
+        this.ratelimitExpiration = dayjs().add(10, 'minutes').valueOf();
+        this.config({warnings: false, maxRetryAttempts: 1});
+    }
+
+    /**
+     * Build a snoowrap Submission or Comment from fixture data
+     * */
+    populateActivity(thing: RawRedditThing): Submission | Comment {
+        // @ts-ignore
+        return this._populate(thing);
+    }
+
+    async rawRequest(options: any): Promise<any> {
+        const method = (options.method ?? 'get').toUpperCase();
+        const [path, query = ''] = (options.uri as string).replace(/^\/|\/$/g, '').split('?');
+        const qs: { [key: string]: any } = {};
+        new URLSearchParams(query).forEach((v, k) => {
+            qs[k] = v;
+        });
+        Object.assign(qs, options.qs ?? {});
+        const href = `https://oauth.reddit.com/${path}`;
+
+        if (method !== 'GET') {
+            throw new CMError(`Replay cannot send ${method} ${path} to reddit. All Actions should be run with dryRun during replay.`);
+        }
+
+        const body = this.getFixtureResponse(path, qs);
+        if (body === undefined) {
+            throw this.createNotFoundError(method, href);
+        }
+        return {
+            statusCode: 200,
+            headers: {},
+            body,
+            request: {
+                method,
+                uri: {href}
+            }
+        };
+    }
+
+    protected getFixtureResponse(path: string, qs: { [key: string]: any }): any {
+        const {
+            botName,
+            subreddit,
+            authors,
+            wiki,
+            moderators,
+        } = this.replay;
+        const subName = (subreddit.display_name as string).toLowerCase();
+        const parts = path.split('/');
+
+        const botData = {name: botName, id: 'replay', created_utc: dayjs().subtract(1, 'year').unix(), link_karma: 0, comment_karma: 0};
+
+        if (path === 'api/v1/me') {
+            return botData;
+        }
+        if (path === 'subreddits/mine/moderator') {
+            return listing([{kind: 't5', data: subreddit}]);
+        }
+        if (path === 'api/info') {
+            if (qs.id !== undefined) {
+                const ids = (qs.id as string).split(',');
+                return listing(this.replay.activities.filter(x => ids.includes(x.data.name)));
+            }
+            if (qs.sr_name !== undefined) {
+                const names = (qs.sr_name as string).toLowerCase().split(',');
+                return listing(names.includes(subName) ? [{kind: 't5', data: subreddit}] : []);
+            }
+            return listing([]);
+        }
+        if (path === 'api/mod/notes') {
+            return {mod_notes: [], start_cursor: null, end_cursor: null, has_next_page: false};
+        }
+        if (parts[0] === 'comments' && parts[1] !== undefined) {
+            const submission = this.replay.activities.find(x => x.kind === 't3' && x.data.name === `t3_${parts[1]}`);
+            if (submission === undefined) {
+                return undefined;
+            }
+            const comments = this.replay.activities.filter(x => x.kind === 't1' && x.data.link_id === submission.data.name);
+            return [listing([submission]), listing(comments)];
+        }
+        if (parts[0] === 'r' && parts[1] !== undefined && parts[1].toLowerCase() === subName) {
+            if (parts[2] === 'about' && parts[3] === undefined) {
+                return {kind: 't5', data: subreddit};
+            }
+            if (parts[2] === 'about' && parts[3] === 'moderators') {
+                return {
+                    kind: 'UserList',
+                    data: {
+                        children: moderators.map(x => ({name: x, id: `t2_${x}`, mod_permissions: ['all']}))
+                    }
+                };
+            }
+            if (parts[2] === 'wiki' && parts.length > 3) {
+                const page = parts.slice(3).join('/');
+                const content = wiki[page];
+                if (content === undefined) {
+                    return undefined;
+                }
+                return {
+                    kind: 'wikipage',
+                    data: {
+                        content_md: content,
+                        may_revise: true,
+                        revision_date: dayjs().unix(),
+                        revision_by: {kind: 't2', data: {name: botName}},
+                    }
+                };
+            }
+            return undefined;
+        }
+        if (parts[0] === 'user' && parts[1] !== undefined) {
+            const name = parts[1].toLowerCase();
+            if (parts[2] === 'about') {
+                const author = authors.find(x => (x.name as string).toLowerCase() === name);
+                if (author === undefined) {
+                    // getMe().fetch() requests the bot's own profile so it does not need to be listed in fixture authors
+                    return name === botName.toLowerCase() ? {kind: 't2', data: botData} : undefined;
+                }
+                return {kind: 't2', data: author};
+            }
+            let kinds: string[];
+            switch (parts[2]) {
+                case 'overview':
+                    kinds = ['t1', 't3'];
+                    break;
+                case 'submitted':
+                    kinds = ['t3'];
+                    break;
+                case 'comments':
+                    kinds = ['t1'];
+                    break;
+                default:
+                    return undefined;
+            }
+            const history = this.replay.activities
+                .filter(x => kinds.includes(x.kind) && typeof x.data.author === 'string' && x.data.author.toLowerCase() === name)
+                .sort((a, z) => z.data.created_utc - a.data.created_utc);
+            return listing(history);
+        }
+        return undefined;
+    }
+
+    protected createNotFoundError(method: string, href: string) {
+        const err: any = new Error(`404 - Replay fixtures do not contain data for ${method} ${href}`);
+        err.name = 'StatusCodeError';
+        err.statusCode = 404;
+        err.response = {
+            statusCode: 404,
+            headers: {},
+            body: {message: 'Not Found', error: 404},
+            request: {
+                method,
+                uri: {href}
+            }
+        };
+        return err;
+    }
+}
+
+/**
+ * Normalize fixture data for a Submission or Comment into a reddit Thing
+ *
+ * Fixtures may either be full Things ({"kind": "t3", "data": {...}}) or only the data for a Thing, as long as it includes `name` (fullname IE t3_abc123)
+ * */
+export const normalizeActivityFixture = (val: any, subredditName: string): RawRedditThing => {
+    let thing: RawRedditThing;
+    if (val !== null && typeof val === 'object' && typeof val.kind === 'string' && val.data !== undefined) {
+        thing = {kind: val.kind, data: {...val.data}};
+    } else if (val !== null && typeof val === 'object' && typeof val.name === 'string') {
+        const {type} = parseRedditFullname(val.name) ?? {};
+        if (type !== 'submission' && type !== 'comment') {
+            throw new CMError(`Activity fixture '${val.name}' must have a fullname for a Submission (t3_) or Comment (t1_)`);
+        }
+        thing = {kind: type === 'submission' ? 't3' : 't1', data: {...val}};
+    } else {
+        throw new CMError(`Activity fixtures must be a reddit Thing ({kind, data}) or have a 'name' property with the fullname of the Activity`);
+    }
+    if (thing.kind !== 't1' && thing.kind !== 't3') {
+        throw new CMError(`Activity fixture kind must be 't1' (Comment) or 't3' (Submission), found '${thing.kind}'`);
+    }
+    if (thing.data.name === undefined && thing.data.id !== undefined) {
+        thing.data.name = `${thing.kind}_${thing.data.id}`;
+    }
+    if (thing.data.id === undefined && thing.data.name !== undefined) {
+        thing.data.id = (thing.data.name as string).split('_')[1];
+    }
+    if (thing.data.subreddit === undefined) {
+        thing.data.subreddit = subredditName;
+        thing.data.subreddit_name_prefixed = `r/${subredditName}`;
+    }
+    if (thing.kind === 't1' && thing.data.replies === undefined) {
+        thing.data.replies = '';
+    }
+    if (thing.data.permalink === undefined) {
+        // recorded Events require a permalink
+        thing.data.permalink = thing.kind === 't3'
+            ? `/r/${thing.data.subreddit}/comments/${thing.data.id}/`
+            : `/r/${thing.data.subreddit}/comments/${(thing.data.link_id as string | undefined)?.split('_')[1] ?? '_'}/_/${thing.data.id}/`;
+    }
+    return thing;
+}
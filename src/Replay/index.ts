@@ -0,0 +1,313 @@
+import dayjs from "dayjs";
+import {nanoid} from "nanoid";
+import Bot from "../Bot";
+import {buildOperatorConfigWithDefaults} from "../ConfigBuilder";
+import {parseFromJsonOrYamlToObject} from "../Common/Config/ConfigUtil";
+import {OperatorJsonConfig} from "../Common/interfaces";
+import {RunResultEntity} from "../Common/Entities/RunResultEntity";
+import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
+import {RuleSetResultEntity} from "../Common/Entities/RuleSetResultEntity";
+import {RulePremise} from "../Common/Entities/RulePremise";
+import {ActionPremise} from "../Common/Entities/ActionPremise";
+import {CMError} from "../Utils/Errors";
+import {LogLevel} from "../Common/Infrastructure/Logging";
+import {MigrationService} from "../Common/MigrationService";
+import {getLogger} from "../Utils/loggerFactory";
+import {parseSubredditName, readConfigFile} from "../util";
+import {normalizeActivityFixture, ReplaySnoowrap} from "./ReplaySnoowrap";
+
+/**
+ * Serialized reddit data used to run a subreddit config offline
+ *
+ * All Activity and Author data should be in the same shape as the reddit API returns it (the `data` of a Thing)
+ * */
+export interface ReplayFixtures {
+    /**
+     * Name of the Subreddit the Activities are replayed in, or the `about` data for the Subreddit
+     * */
+    subreddit: string | { display_name: string, [key: string]: any }
+    /**
+     * Submissions and Comments to run through the config, in the order they should be processed
+     *
+     * Each fixture may be a full Thing (`{"kind": "t3", "data": {...}}`) or only its data, if the data includes `name` (fullname)
+     * */
+    activities: object[]
+    /**
+     * Additional Submissions and Comments that are NOT run through the config but are used as Author history, parent Submissions, etc.
+     * */
+    history?: object[]
+    /**
+     * `about` data for Authors of Activities. Authors that are not included cannot be used with Author criteria.
+     * */
+    authors?: object[]
+    /**
+     * Wiki page contents, by page name, for the Subreddit IE `usernotes`
+     * */
+    wiki?: Record<string, string>
+    /**
+     * Names of moderators of the Subreddit
+     *
+     * @default [botName]
+     * */
+    moderators?: string[]
+    /**
+     * Username of the bot account
+     *
+     * @default ContextModReplay
+     * */
+    botName?: string
+}
+
+export interface ReplayOptions {
+    /**
+     * Only run Checks with these names
+     * */
+    checkNames?: string[]
+    logLevel?: LogLevel
+}
+
+export interface ReplayRuleResult {
+    name: string
+    triggered?: boolean | null
+    result?: string
+}
+
+export interface ReplayRuleSetResult {
+    condition: string
+    triggered: boolean
+    results: ReplayRuleResult[]
+}
+
+export interface ReplayActionResult {
+    name: string
+    kind: string
+    run: boolean
+    dryRun: boolean
+    success: boolean
+    result?: string
+    runReason?: string
+}
+
+export interface ReplayCheckResult {
+    name: string
+    triggered: boolean
+    fromCache?: boolean
+    error?: string
+    rules: (ReplayRuleResult | ReplayRuleSetResult)[]
+    actions: ReplayActionResult[]
+}
+
+export interface ReplayRunResult {
+    name: string
+    triggered: boolean
+    reason?: string
+    error?: string
+    checks: ReplayCheckResult[]
+}
+
+export interface ReplayActivityResult {
+    id: string
+    kind: 'submission' | 'comment'
+    author: string
+    /**
+     * False if the Activity was not processed IE it was deleted or the Manager skipped it
+     * */
+    processed: boolean
+    triggered: boolean
+    runs: ReplayRunResult[]
+}
+
+export const parseReplayFixtures = (content: string): ReplayFixtures => {
+    const [format, doc, jsonErr, yamlErr] = parseFromJsonOrYamlToObject(content);
+    if (doc === undefined) {
+        throw new CMError(`Could not parse replay fixtures as JSON or YAML`, {cause: format === 'json' ? jsonErr : yamlErr});
+    }
+    const fixtures = doc.toJS() as ReplayFixtures;
+    if (fixtures.subreddit === undefined) {
+        throw new CMError(`Replay fixtures must include 'subreddit'`);
+    }
+    if (!Array.isArray(fixtures.activities) || fixtures.activities.length === 0) {
+        throw new CMError(`Replay fixtures must include at least one Activity in 'activities'`);
+    }
+    return fixtures;
+}
+
+export const loadReplayFixtures = async (path: string): Promise<ReplayFixtures> => {
+    const [content] = await readConfigFile(path);
+    return parseReplayFixtures(content as string);
+}
+
+const formatRuleResult = (result: RuleResultEntity): ReplayRuleResult => ({
+    name: RulePremise.getFriendlyIdentifier(result.premise),
+    triggered: result.triggered,
+    result: result.result,
+});
+
+export const formatReplayRunResults = (runResults: RunResultEntity[]): ReplayRunResult[] => {
+    return runResults.map(x => ({
+        name: x.run.name,
+        triggered: x.triggered,
+        reason: x.reason,
+        error: x.error,
+        checks: x.checkResults.map(y => ({
+            name: y.check.name,
+            triggered: y.triggered,
+            fromCache: y.fromCache,
+            error: y.error,
+            rules: y.results.map(z => {
+                if (z instanceof RuleSetResultEntity) {
+                    return {
+                        condition: z.condition,
+                        triggered: z.triggered,
+                        results: z.results.map(formatRuleResult)
+                    };
+                }
+                return formatRuleResult(z);
+            }),
+            actions: (y.actionResults ?? []).map(z => ({
+                name: ActionPremise.getFriendlyIdentifier(z.premise),
+                kind: z.premise.kind.name,
+                run: z.run,
+                dryRun: z.dryRun,
+                success: z.success,
+                result: z.result,
+                runReason: z.runReason,
+            }))
+        }))
+    }));
+}
+
+/**
+ * Run recorded Activities through a subreddit config without contacting reddit
+ *
+ * A Bot and Manager are built normally, using an in-memory database, but with a snoowrap client that only returns data from the fixtures. All Actions are forced to run with dryRun.
+ * */
+export const runReplay = async (fixtures: ReplayFixtures, subredditConfig: string, options: ReplayOptions = {}): Promise<ReplayActivityResult[]> => {
+    const {
+        checkNames = [],
+        logLevel = 'warn',
+    } = options;
+
+    const {
+        botName = 'ContextModReplay',
+        history = [],
+        authors = [],
+        wiki = {},
+        moderators = [botName],
+    } = fixtures;
+
+    const subredditData = typeof fixtures.subreddit === 'string' ? {display_name: parseSubredditName(fixtures.subreddit)} : fixtures.subreddit;
+    const subredditName = subredditData.display_name;
+    const subreddit = {
+        id: 'replay',
+        name: 't5_replay',
+        display_name_prefixed: `r/${subredditName}`,
+        subreddit_type: 'public',
+        over18: false,
+        user_is_moderator: true,
+        ...subredditData,
+    };
+
+    const activities = fixtures.activities.map(x => normalizeActivityFixture(x, subredditName));
+    const historyActivities = history.map(x => normalizeActivityFixture(x, subredditName));
+
+    const opJson: OperatorJsonConfig = {
+        databaseConfig: {
+            connection: {
+                type: 'sqljs',
+                location: ':memory:'
+            }
+        },
+        logging: {
+            level: logLevel,
+            file: {
+                dirname: false
+            }
+        },
+        bots: [
+            {
+                name: botName,
+                credentials: {
+                    reddit: {
+                        clientId: 'replay',
+                        clientSecret: 'replay',
+                        accessToken: 'replay',
+                        refreshToken: 'replay'
+                    }
+                },
+                subreddits: {
+                    names: [subredditName],
+                    dryRun: true,
+                },
+                // all Actions are dry run so HTTP Actions never send a request
+                httpAction: {
+                    enable: true,
+                },
+            }
+        ]
+    };
+    const config = await buildOperatorConfigWithDefaults(opJson);
+    // an App is not used so replay can also run inside a long-running process (web client) without registering process listeners
+    const logger = getLogger(config.logging);
+    const migrationService = new MigrationService({
+        type: 'app',
+        logger,
+        database: config.database,
+        options: config.databaseConfig.migrations
+    });
+    await migrationService.initDatabase();
+
+    const botConfig = config.bots[0];
+    const bot = new Bot(botConfig, logger);
+    bot.client = new ReplaySnoowrap({
+        botName,
+        subreddit,
+        activities: activities.concat(historyActivities),
+        authors,
+        wiki: {
+            ...wiki,
+            [botConfig.subreddits.wikiConfig ?? 'botconfig/contextbot']: subredditConfig,
+        },
+        moderators,
+    });
+
+    try {
+        await bot.buildManagers([subredditName]);
+        const manager = bot.subManagers[0];
+        if (manager === undefined || !manager.validConfigLoaded) {
+            throw new CMError(`Could not load subreddit config for replay. Check logs for validation errors.`);
+        }
+
+        const results: ReplayActivityResult[] = [];
+        for (const thing of activities) {
+            const activity = (bot.client as ReplaySnoowrap).populateActivity(thing);
+            const runResults = await manager.handleActivity(activity, {
+                checkNames,
+                source: 'user:replay',
+                dryRun: true,
+                force: true,
+                disableDispatchDelays: true,
+                activitySource: {
+                    id: nanoid(16),
+                    type: 'user',
+                    identifier: 'replay',
+                    queuedAt: dayjs(),
+                }
+            });
+            results.push({
+                id: thing.data.name,
+                kind: thing.kind === 't3' ? 'submission' : 'comment',
+                author: thing.data.author,
+                processed: runResults !== undefined,
+                triggered: (runResults ?? []).some(x => x.triggered),
+                runs: formatReplayRunResults(runResults ?? []),
+            });
+        }
+        return results;
+    } finally {
+        for (const m of bot.subManagers) {
+            await m.destroy('system');
+        }
+        await config.database.destroy();
+    }
+}
@@ -0,0 +1,413 @@
+import {Rule, RuleJSONConfig, RuleOptions} from "./index";
+import {Comment, RedditUser} from "snoowrap";
+import Submission from "snoowrap/dist/objects/Submission";
+import dayjs from "dayjs";
+import {Duration} from "dayjs/plugin/duration";
+import {
+    asSubmission,
+    formatNumber,
+    getActivityAuthorName,
+    parseDurationValToDuration,
+    triggeredIndicator,
+    windowConfigToWindowCriteria
+} from "../util";
+import {BannedUserRecord, RuleResult} from "../Common/interfaces";
+import {comparisonTextOp, GenericComparison, parseGenericValueComparison} from "../Common/Infrastructure/Comparisons";
+import {DurationVal} from "../Common/Infrastructure/Atomic";
+import {ActivityWindowConfig, ActivityWindowCriteria} from "../Common/Infrastructure/ActivityWindow";
+import {SnoowrapActivity} from "../Common/Infrastructure/Reddit";
+import {getAttributionIdentifier} from "../Utils/SnoowrapUtils";
+import levenSimilarity from "../Utils/StringMatching/levenSimilarity";
+import calculateCosineSimilarity from "../Utils/StringMatching/CosineSimilarity";
+import {SimpleError} from "../Utils/Errors";
+
+type BanSource = 'banList' | 'history';
+
+interface ActivityFootprint {
+    domains: string[]
+    subreddits: string[]
+}
+
+interface BanEvasionMatch {
+    name: string
+    bannedAt: string
+    source: BanSource
+    confidence: number
+    scores: {
+        username: number
+        accountAge: number
+        domains?: number
+        subreddits?: number
+    }
+    sharedDomains: string[]
+    sharedSubreddits: string[]
+}
+
+/**
+ * Split a username into words (camelCase, numbers, and separators) so similar names with rearranged parts can be compared by term
+ * */
+const usernameTerms = (name: string): string => name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/(\d+)/g, ' $1 ')
+    .replace(/[_-]+/g, ' ')
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ');
+
+export const usernameSimilarity = (nameA: string, nameB: string): number => {
+    const [, leven] = levenSimilarity(nameA.toLowerCase(), nameB.toLowerCase());
+    const cosine = calculateCosineSimilarity(usernameTerms(nameA), usernameTerms(nameB)) * 100;
+    return Math.max(0, (leven + (Number.isNaN(cosine) ? 0 : cosine)) / 2);
+}
+
+/**
+ * Percentage of the smaller set that is also found in the larger set
+ *
+ * Score is undefined if either set is empty since there is nothing to compare
+ * */
+const overlapPercent = (a: string[], b: string[]): [number | undefined, string[]] => {
+    if (a.length === 0 || b.length === 0) {
+        return [undefined, []];
+    }
+    const shared = a.filter(x => b.includes(x));
+    return [(shared.length / Math.min(a.length, b.length)) * 100, shared];
+}
+
+export class BanEvasionRule extends Rule {
+    sources: BanSource[];
+    maxBannedUsers: number;
+    banWindow?: Duration;
+    confidence: GenericComparison;
+    weights: Required<BanEvasionWeights>;
+    accountAgeWindow: Duration;
+    window: ActivityWindowCriteria;
+    maxHistoryComparisons: number;
+
+    ogConfig: BanEvasionConfig;
+
+    constructor(options: BanEvasionRuleOptions) {
+        super(options);
+        const {
+            sources = ['banList', 'history'],
+            maxBannedUsers = 100,
+            banWindow,
+            confidence = '>= 70',
+            weights = {},
+            accountAgeWindow = '30 days',
+            window = 100,
+            maxHistoryComparisons = 5,
+        } = options;
+
+        if (sources.length === 0) {
+            throw new SimpleError(`Ban Evasion rule must have at least one source of banned users in 'sources'`);
+        }
+
+        this.ogConfig = {
+            sources,
+            maxBannedUsers,
+            banWindow,
+            confidence,
+            weights,
+            accountAgeWindow,
+            window,
+            maxHistoryComparisons,
+        };
+
+        const {
+            username = 40,
+            accountAge = 20,
+            domains = 20,
+            subreddits = 20,
+        } = weights;
+
+        if ([username, accountAge, domains, subreddits].every(x => x <= 0)) {
+            throw new SimpleError(`Ban Evasion rule must have at least one weight greater than 0`);
+        }
+
+        this.sources = sources;
+        this.maxBannedUsers = maxBannedUsers;
+        this.banWindow = banWindow !== undefined ? parseDurationValToDuration(banWindow) : undefined;
+        this.confidence = parseGenericValueComparison(confidence);
+        this.weights = {username, accountAge, domains, subreddits};
+        this.accountAgeWindow = parseDurationValToDuration(accountAgeWindow);
+        this.window = windowConfigToWindowCriteria(window);
+        this.maxHistoryComparisons = maxHistoryComparisons;
+    }
+
+    getKind(): string {
+        return 'banEvasion';
+    }
+
+    getSpecificPremise(): object {
+        return this.ogConfig;
+    }
+
+    protected async getBannedUsers(): Promise<BannedUserRecord[]> {
+        let records: BannedUserRecord[] = [];
+        if (this.sources.includes('banList')) {
+            records = records.concat(await this.resources.getSubredditBannedUsers(this.maxBannedUsers));
+        }
+        if (this.sources.includes('history')) {
+            records = records.concat(await this.resources.getBanActionHistory(this.maxBannedUsers));
+        }
+        if (this.banWindow !== undefined) {
+            const cutoff = dayjs().subtract(this.banWindow).unix();
+            records = records.filter(x => x.bannedAt >= cutoff);
+        }
+        // a user may be in both sources or banned multiple times, only use the most recent ban
+        const byName = new Map<string, BannedUserRecord>();
+        for (const r of records) {
+            const existing = byName.get(r.name.toLowerCase());
+            if (existing === undefined || existing.bannedAt < r.bannedAt) {
+                byName.set(r.name.toLowerCase(), r);
+            }
+        }
+        return Array.from(byName.values());
+    }
+
+    protected getFootprint(activities: SnoowrapActivity[]): ActivityFootprint {
+        const domains = new Set<string>();
+        const subreddits = new Set<string>();
+        const currentSubreddit = this.resources.subreddit.display_name.toLowerCase();
+        for (const a of activities) {
+            const subName = a.subreddit.display_name.toLowerCase();
+            // every author being compared has activity in the current subreddit so it tells us nothing
+            if (subName !== currentSubreddit) {
+                subreddits.add(subName);
+            }
+            if (asSubmission(a) && !a.is_self && !['i.redd.it', 'v.redd.it', 'reddit.com'].includes(a.domain)) {
+                domains.add(getAttributionIdentifier(a as Submission).domain.toLowerCase());
+            }
+        }
+        return {domains: Array.from(domains), subreddits: Array.from(subreddits)};
+    }
+
+    protected async getBannedUserFootprint(name: string): Promise<ActivityFootprint | undefined> {
+        try {
+            const activities = await this.resources.getAuthorActivities(this.client.getUser(name), this.window);
+            return this.getFootprint(activities);
+        } catch (err: any) {
+            // banned users are often suspended or deleted
+            this.logger.debug(`Could not get history for banned user ${name}: ${err.message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Weighted average of the scores that could be calculated
+     *
+     * History scores are not available when either user has no history to compare so they are left out, rather than scored 0, so that fresh accounts can still reach a high confidence
+     * */
+    getConfidence(scores: BanEvasionMatch['scores']): number {
+        const {username, accountAge, domains, subreddits} = scores;
+        const available = ([
+            [username, this.weights.username],
+            [accountAge, this.weights.accountAge],
+            [domains, this.weights.domains],
+            [subreddits, this.weights.subreddits],
+        ] as [number | undefined, number][]).filter((x): x is [number, number] => x[0] !== undefined);
+        const totalWeight = available.reduce((acc, [, weight]) => acc + weight, 0);
+        if (totalWeight <= 0) {
+            return 0;
+        }
+        return available.reduce((acc, [score, weight]) => acc + (score * weight), 0) / totalWeight;
+    }
+
+    protected async process(item: Submission | Comment): Promise<[boolean, RuleResult]> {
+        const authorName = getActivityAuthorName(item.author);
+
+        const bannedUsers = (await this.getBannedUsers()).filter(x => x.name.toLowerCase() !== authorName.toLowerCase());
+        if (bannedUsers.length === 0) {
+            const result = `${triggeredIndicator(false)} No banned users found to compare Author against`;
+            this.logger.verbose(result);
+            return Promise.resolve([false, this.getResult(false, {result})]);
+        }
+
+        const author = await this.resources.getAuthor(item.author) as RedditUser;
+        const authorCreated = author.created_utc;
+
+        let candidates: BanEvasionMatch[] = bannedUsers.map((x) => {
+            const createdAfterBan = authorCreated >= x.bannedAt;
+            const withinAgeWindow = authorCreated <= dayjs.unix(x.bannedAt).add(this.accountAgeWindow).unix();
+            const scores = {
+                username: usernameSimilarity(authorName, x.name),
+                accountAge: createdAfterBan && withinAgeWindow ? 100 : 0,
+            };
+            return {
+                name: x.name,
+                bannedAt: dayjs.unix(x.bannedAt).utc().format(),
+                source: x.source,
+                confidence: this.getConfidence(scores),
+                scores,
+                sharedDomains: [],
+                sharedSubreddits: [],
+            };
+        });
+
+        candidates.sort((a, z) => z.confidence - a.confidence);
+
+        if (this.maxHistoryComparisons > 0 && (this.weights.domains > 0 || this.weights.subreddits > 0)) {
+            // comparing history is expensive so only do it for the most likely candidates
+            const authorFootprint = this.getFootprint(await this.resources.getAuthorActivities(item.author, this.window));
+            for (const candidate of candidates.slice(0, this.maxHistoryComparisons)) {
+                const bannedFootprint = await this.getBannedUserFootprint(candidate.name);
+                if (bannedFootprint === undefined) {
+                    continue;
+                }
+                const [domainScore, sharedDomains] = overlapPercent(authorFootprint.domains, bannedFootprint.domains);
+                const [subredditScore, sharedSubreddits] = overlapPercent(authorFootprint.subreddits, bannedFootprint.subreddits);
+                candidate.scores.domains = domainScore;
+                candidate.scores.subreddits = subredditScore;
+                candidate.sharedDomains = sharedDomains;
+                candidate.sharedSubreddits = sharedSubreddits;
+                candidate.confidence = this.getConfidence(candidate.scores);
+            }
+            candidates.sort((a, z) => z.confidence - a.confidence);
+        }
+
+        const {operator, value} = this.confidence;
+        const matches = candidates.filter(x => comparisonTextOp(x.confidence, operator, value));
+        const triggered = matches.length > 0;
+        const highest = candidates[0];
+
+        const result = `${triggeredIndicator(triggered)} ${matches.length} of ${candidates.length} banned users matched confidence ${this.confidence.displayText} -- Highest: ${highest.name} (${formatNumber(highest.confidence)}%)`;
+        this.logger.verbose(result);
+
+        return Promise.resolve([triggered, this.getResult(triggered, {
+            result,
+            data: {
+                confidenceThreshold: this.confidence.displayText,
+                highestConfidence: formatNumber(highest.confidence),
+                matchCount: matches.length,
+                matchedUsers: matches.map(x => x.name).join(', '),
+                matches: matches.map(x => ({...x, confidence: formatNumber(x.confidence)})),
+                matchesMarkdown: matches.map(x => `u/${x.name} (${formatNumber(x.confidence)}%) banned ${x.bannedAt}`).join('\n'),
+            }
+        })]);
+    }
+}
+
+interface BanEvasionWeights {
+    /**
+     * How much username similarity contributes to confidence
+     *
+     * @default 40
+     * */
+    username?: number
+    /**
+     * How much the Author's account being created shortly after a user was banned contributes to confidence
+     *
+     * @default 20
+     * */
+    accountAge?: number
+    /**
+     * How much link domains shared between the Author's and banned user's Submission histories contributes to confidence
+     *
+     * @default 20
+     * */
+    domains?: number
+    /**
+     * How much activity in the same (other) subreddits, from the Author's and banned user's histories, contributes to confidence
+     *
+     * @default 20
+     * */
+    subreddits?: number
+}
+
+interface BanEvasionConfig {
+    /**
+     * Where to get banned users from
+     *
+     * * `banList` -- the subreddit's ban list
+     * * `history` -- Authors banned by a Ban Action run by ContextMod
+     *
+     * @default ["banList", "history"]
+     * */
+    sources?: BanSource[]
+
+    /**
+     * The maximum number of the most recently banned users to get from each source
+     *
+     * @default 100
+     * @examples [100]
+     * */
+    maxBannedUsers?: number
+
+    /**
+     * Only compare against users banned within this duration
+     *
+     * @examples ["6 months"]
+     * */
+    banWindow?: DurationVal
+
+    /**
+     * A string containing a comparison operator and a value to compare against the confidence (0 to 100) that the Author is a banned user
+     *
+     * The syntax is `(< OR > OR <= OR >=) <number>`
+     *
+     * @pattern ^\s*(>|>=|<|<=)\s*(\d+(\.\d+)?)\s*$
+     * @default ">= 70"
+     * @examples [">= 70"]
+     * */
+    confidence?: string
+
+    /**
+     * How much each type of similarity contributes to the confidence score. Set a weight to 0 to ignore it.
+     *
+     * Confidence is the weighted average of each similarity score (0 to 100)
+     * */
+    weights?: BanEvasionWeights
+
+    /**
+     * The Author's account is considered suspicious if it was created after a user was banned and within this duration of the ban
+     *
+     * @default "30 days"
+     * @examples ["30 days"]
+     * */
+    accountAgeWindow?: DurationVal
+
+    /**
+     * The range of Activities from the Author's and banned users' history to compare for shared domains and subreddits
+     *
+     * @default 100
+     * */
+    window?: ActivityWindowConfig
+
+    /**
+     * The maximum number of banned users, most likely matches first, to compare histories with
+     *
+     * Comparing history requires fetching the banned user's history so keep this low to reduce API usage
+     *
+     * @default 5
+     * @examples [5]
+     * */
+    maxHistoryComparisons?: number
+}
+
+export interface BanEvasionRuleOptions extends BanEvasionConfig, RuleOptions {
+}
+
+/**
+ * Checks if the Author may be evading a ban by comparing them to recently banned users
+ *
+ * Compares username similarity, account age relative to ban date, shared link domains, and overlapping subreddit activity to produce a confidence score
+ *
+ * Available data for [Action templating](https://github.com/FoxxMD/context-mod#action-templating):
+ *
+ * ```
+ * confidenceThreshold => The confidence threshold you configured for this Rule to trigger
+ * highestConfidence   => The highest confidence of any banned user
+ * matchCount          => Number of banned users that matched the confidence threshold
+ * matchedUsers        => Comma-separated list of matched banned users
+ * matchesMarkdown     => Markdown list of matched banned users with confidence and ban date
+ * ```
+ * */
+export interface BanEvasionRuleJSONConfig extends BanEvasionConfig, RuleJSONConfig {
+    /**
+     * @examples ["banEvasion"]
+     * @default banEvasion
+     * */
+    kind: 'banEvasion'
+}
+
+export default BanEvasionRule;
@@ -0,0 +1,324 @@
+import {Rule, RuleJSONConfig, RuleOptions} from "./index";
+import {Comment} from "snoowrap";
+import Submission from "snoowrap/dist/objects/Submission";
+import dayjs from "dayjs";
+import {Duration} from "dayjs/plugin/duration";
+import {
+    asSubmission,
+    formatNumber,
+    getActivityAuthorName,
+    parseDurationValToDuration,
+    parseSubredditName,
+    triggeredIndicator,
+    windowConfigToWindowCriteria
+} from "../util";
+import {BrigadeThreadResult, RuleResult} from "../Common/interfaces";
+import {
+    comparisonTextOp,
+    GenericComparison,
+    parseGenericValueOrPercentComparison
+} from "../Common/Infrastructure/Comparisons";
+import {DurationVal} from "../Common/Infrastructure/Atomic";
+import {ActivityWindowConfig, ActivityWindowCriteria} from "../Common/Infrastructure/ActivityWindow";
+import {SnoowrapActivity} from "../Common/Infrastructure/Reddit";
+import objectHash from "object-hash";
+
+interface SourceSubreddit {
+    subreddit: string
+    authors: string[]
+}
+
+export class BrigadeRule extends Rule {
+    window: Duration;
+    minCommenters: number;
+    maxCommenters: number;
+    newCommenters: GenericComparison;
+    sourceThreshold: GenericComparison;
+    history: ActivityWindowCriteria;
+    sourceWindow: Duration;
+    excludeSubreddits: string[];
+
+    ogConfig: BrigadeConfig;
+
+    constructor(options: BrigadeRuleOptions) {
+        super(options);
+        const {
+            window = '1 hour',
+            minCommenters = 5,
+            maxCommenters = 25,
+            newCommenters = '>= 50%',
+            sourceThreshold = '>= 30%',
+            history = 100,
+            sourceWindow = '1 day',
+            excludeSubreddits = [],
+        } = options;
+
+        this.ogConfig = {
+            window,
+            minCommenters,
+            maxCommenters,
+            newCommenters,
+            sourceThreshold,
+            history,
+            sourceWindow,
+            excludeSubreddits,
+        };
+
+        this.window = parseDurationValToDuration(window);
+        this.minCommenters = minCommenters;
+        this.maxCommenters = maxCommenters;
+        this.newCommenters = parseGenericValueOrPercentComparison(newCommenters);
+        this.sourceThreshold = parseGenericValueOrPercentComparison(sourceThreshold);
+        this.history = windowConfigToWindowCriteria(history);
+        this.sourceWindow = parseDurationValToDuration(sourceWindow);
+        this.excludeSubreddits = excludeSubreddits.map(x => parseSubredditName(x).toLowerCase());
+    }
+
+    getKind(): string {
+        return 'brigade';
+    }
+
+    getSpecificPremise(): object {
+        return this.ogConfig;
+    }
+
+    protected testComparison(comparison: GenericComparison, count: number, total: number): boolean {
+        const {operator, value, isPercent} = comparison;
+        if (isPercent) {
+            return comparisonTextOp(total === 0 ? 0 : count / total, operator, value / 100);
+        }
+        return comparisonTextOp(count, operator, value);
+    }
+
+    /**
+     * Get the distinct Authors, most recent first, who commented in the thread within the window
+     * */
+    protected async getRecentCommenters(submissionId: string): Promise<string[]> {
+        const cutoff = dayjs().subtract(this.window).unix();
+        const comments = await this.resources.client.getNewSubmissionComments(submissionId);
+        const recent = comments
+            // OP and deleted accounts are never brigaders
+            .filter(x => x.created_utc >= cutoff && !x.is_submitter && getActivityAuthorName(x.author) !== '[deleted]')
+            .sort((a, z) => z.created_utc - a.created_utc);
+        return Array.from(new Set(recent.map(x => getActivityAuthorName(x.author))));
+    }
+
+    protected async getCommenterHistory(name: string): Promise<SnoowrapActivity[] | undefined> {
+        try {
+            return await this.resources.getAuthorActivities(this.client.getUser(name), this.history);
+        } catch (err: any) {
+            // suspended or shadowbanned accounts have no accessible history
+            this.logger.debug(`Could not get history for ${name}: ${err.message}`);
+            return undefined;
+        }
+    }
+
+    protected async process(item: Submission | Comment): Promise<[boolean, RuleResult]> {
+        const submissionId = asSubmission(item) ? item.name : item.link_id;
+        // rules in the same subreddit with the same config share results
+        const resultKey = objectHash.sha1(this.ogConfig);
+
+        const cached = await this.resources.getBrigadeThreadResult(resultKey, submissionId);
+        if (cached !== undefined) {
+            this.logger.verbose(`${cached.result} (cached)`);
+            return [cached.triggered, this.getResult(cached.triggered, {result: cached.result, data: cached.data})];
+        }
+
+        const threadResult = await this.evaluateThread(submissionId);
+        this.logger.verbose(threadResult.result);
+        if (threadResult.data !== undefined) {
+            // checking commenter history is expensive so the thread is only re-evaluated once the window has passed
+            // -- results below minimum commenters are not cached since they are cheap and the thread may still be growing
+            await this.resources.setBrigadeThreadResult(resultKey, submissionId, threadResult, Math.ceil(this.window.asSeconds()));
+        }
+        return [threadResult.triggered, this.getResult(threadResult.triggered, {result: threadResult.result, data: threadResult.data})];
+    }
+
+    protected async evaluateThread(submissionId: string): Promise<BrigadeThreadResult> {
+        const currentSubreddit = this.resources.subreddit.display_name.toLowerCase();
+        const humanWindow = this.window.humanize();
+
+        const commenters = (await this.getRecentCommenters(submissionId)).slice(0, this.maxCommenters);
+
+        if (commenters.length < this.minCommenters) {
+            return {
+                triggered: false,
+                result: `${triggeredIndicator(false)} ${commenters.length} commenters within ${humanWindow} is less than minimum (${this.minCommenters})`
+            };
+        }
+
+        const sourceCutoff = dayjs().subtract(this.sourceWindow).unix();
+        const newCommenters: string[] = [];
+        const sources = new Map<string, SourceSubreddit>();
+        let checkedCount = 0;
+
+        for (const name of commenters) {
+            const activities = await this.getCommenterHistory(name);
+            if (activities === undefined) {
+                continue;
+            }
+            checkedCount++;
+
+            const hasSubHistory = activities.some((a) => {
+                if (a.subreddit.display_name.toLowerCase() !== currentSubreddit) {
+                    return false;
+                }
+                // activities in the thread being checked are not "prior" history
+                return asSubmission(a) ? a.name !== submissionId : a.link_id !== submissionId;
+            });
+            if (hasSubHistory) {
+                continue;
+            }
+            newCommenters.push(name);
+
+            const recentSubreddits = new Set(activities
+                .filter(x => x.created_utc >= sourceCutoff)
+                .map(x => x.subreddit.display_name)
+                .filter(x => x.toLowerCase() !== currentSubreddit && !this.excludeSubreddits.includes(x.toLowerCase())));
+            for (const sub of recentSubreddits) {
+                const source = sources.get(sub.toLowerCase()) ?? {subreddit: sub, authors: []};
+                source.authors.push(name);
+                sources.set(sub.toLowerCase(), source);
+            }
+        }
+
+        const rankedSources = Array.from(sources.values()).sort((a, z) => z.authors.length - a.authors.length);
+        const topSource = rankedSources[0];
+        const sourceCount = topSource === undefined ? 0 : topSource.authors.length;
+
+        const newPercent = checkedCount === 0 ? 0 : (newCommenters.length / checkedCount) * 100;
+        const sourcePercent = newCommenters.length === 0 ? 0 : (sourceCount / newCommenters.length) * 100;
+
+        const newTriggered = checkedCount >= this.minCommenters && this.testComparison(this.newCommenters, newCommenters.length, checkedCount);
+        const sourceTriggered = topSource !== undefined && this.testComparison(this.sourceThreshold, sourceCount, newCommenters.length);
+        const triggered = newTriggered && sourceTriggered;
+
+        const sourceText = topSource === undefined ? 'no common recent subreddit' : `${sourceCount} (${formatNumber(sourcePercent)}%) recently active in r/${topSource.subreddit} (${this.sourceThreshold.displayText})`;
+        const result = `${triggeredIndicator(triggered)} ${newCommenters.length} of ${checkedCount} commenters (${formatNumber(newPercent)}%) within ${humanWindow} have no history in r/${this.resources.subreddit.display_name} (${this.newCommenters.displayText}) -- ${sourceText}`;
+
+        return {
+            triggered,
+            result,
+            data: {
+                window: humanWindow,
+                commenterCount: checkedCount,
+                newCommenterCount: newCommenters.length,
+                newCommenterPercent: formatNumber(newPercent),
+                newCommenters: newCommenters.join(', '),
+                source: topSource?.subreddit,
+                sourceCount,
+                sourcePercent: formatNumber(sourcePercent),
+                sourcesMarkdown: rankedSources.slice(0, 5).map(x => `r/${x.subreddit} (${x.authors.length} commenters)`).join('\n'),
+            }
+        };
+    }
+}
+
+interface BrigadeConfig {
+    /**
+     * How far back, from now, to look for Comments in the Submission's thread
+     *
+     * @default "1 hour"
+     * @examples ["1 hour"]
+     * */
+    window?: DurationVal
+
+    /**
+     * The minimum number of distinct commenters within `window` required for the Rule to be evaluated
+     *
+     * @default 5
+     * @examples [5]
+     * */
+    minCommenters?: number
+
+    /**
+     * The maximum number of distinct commenters, most recent first, whose history is checked
+     *
+     * Each commenter's history must be fetched so keep this low to reduce API usage
+     *
+     * @default 25
+     * @examples [25]
+     * */
+    maxCommenters?: number
+
+    /**
+     * A string containing a comparison operator and a value to compare against the number of commenters with **no prior history** in your subreddit
+     *
+     * The syntax is `(< OR > OR <= OR >=) <number>[percent sign]`
+     *
+     * * EX `>= 50%` => at least half of recent commenters have never been active in your subreddit (outside of this thread)
+     * * EX `> 10` => more than 10 recent commenters have never been active in your subreddit
+     *
+     * @pattern ^\s*(>|>=|<|<=)\s*(\d+)\s*(%?)(.*)$
+     * @default ">= 50%"
+     * @examples [">= 50%"]
+     * */
+    newCommenters?: string
+
+    /**
+     * A string containing a comparison operator and a value to compare against the number of **new commenters** that were recently active in the same (other) subreddit
+     *
+     * The syntax is `(< OR > OR <= OR >=) <number>[percent sign]`
+     *
+     * * EX `>= 30%` => at least 30% of new commenters were recently active in the same subreddit
+     *
+     * @pattern ^\s*(>|>=|<|<=)\s*(\d+)\s*(%?)(.*)$
+     * @default ">= 30%"
+     * @examples [">= 30%"]
+     * */
+    sourceThreshold?: string
+
+    /**
+     * The range of each commenter's history to check for prior activity in your subreddit
+     *
+     * @default 100
+     * */
+    history?: ActivityWindowConfig
+
+    /**
+     * Only Activities from a commenter's history within this duration are used to find a common source subreddit
+     *
+     * @default "1 day"
+     * @examples ["1 day"]
+     * */
+    sourceWindow?: DurationVal
+
+    /**
+     * Subreddits that should never be considered a source, EX very large subreddits many users are active in
+     *
+     * @examples [["AskReddit"]]
+     * */
+    excludeSubreddits?: string[]
+}
+
+export interface BrigadeRuleOptions extends BrigadeConfig, RuleOptions {
+}
+
+/**
+ * Checks if a Submission's thread is receiving a wave of Comments from users with no history in your subreddit who were all recently active in the same subreddit (the suspected source of the brigade)
+ *
+ * The Rule is evaluated on the Submission the Activity belongs to so it can be run on Submissions or Comments
+ *
+ * Available data for [Action templating](https://github.com/FoxxMD/context-mod#action-templating):
+ *
+ * ```
+ * window              => Human readable duration of window
+ * commenterCount      => Number of recent commenters whose history was checked
+ * newCommenterCount   => Number of recent commenters with no prior history in your subreddit
+ * newCommenterPercent => Percentage of recent commenters with no prior history in your subreddit
+ * newCommenters       => Comma-separated list of new commenters
+ * source              => The suspected source subreddit
+ * sourceCount         => Number of new commenters recently active in the source subreddit
+ * sourcePercent       => Percentage of new commenters recently active in the source subreddit
+ * sourcesMarkdown     => Markdown list of the most common recent subreddits of new commenters
+ * ```
+ * */
+export interface BrigadeRuleJSONConfig extends BrigadeConfig, RuleJSONConfig {
+    /**
+     * @examples ["brigade"]
+     * @default brigade
+     * */
+    kind: 'brigade'
+}
+
+export default BrigadeRule;
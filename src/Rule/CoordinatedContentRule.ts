@@ -0,0 +1,276 @@
+import {Rule, RuleJSONConfig, RuleOptions} from "./index";
+import {Comment} from "snoowrap";
+import Submission from "snoowrap/dist/objects/Submission";
+import dayjs from "dayjs";
+import {Duration} from "dayjs/plugin/duration";
+import objectHash from "object-hash";
+import {
+    asSubmission,
+    getActivityAuthorName,
+    parseDurationValToDuration,
+    searchAndReplace,
+    stringSameness,
+    stringSamenessUpperBound,
+    triggeredIndicator,
+    wordCount
+} from "../util";
+import {
+    CoordinatedContentIndexEntry,
+    RuleResult,
+    SearchAndReplaceRegExp,
+    TextMatchOptions,
+    TextTransformOptions
+} from "../Common/interfaces";
+import {comparisonTextOp, GenericComparison, parseGenericValueComparison} from "../Common/Infrastructure/Comparisons";
+import {DurationVal} from "../Common/Infrastructure/Atomic";
+import {SnoowrapActivity} from "../Common/Infrastructure/Reddit";
+import {runCheckOptions} from "../Subreddit/Manager";
+
+// only the start of long content is compared so comparisons stay fast
+const MAX_TEXT_LENGTH = 500;
+
+interface CoordinatedContentMatch {
+    author: string
+    permalink: string
+    sameness: number
+    createdAt: number
+}
+
+export class CoordinatedContentRule extends Rule {
+    threshold: GenericComparison;
+    window: Duration;
+    matchScore: number;
+    minWordCount: number;
+    caseSensitive: boolean;
+    transformations: SearchAndReplaceRegExp[];
+    transformationsActivity: SearchAndReplaceRegExp[];
+    lookAt: 'submissions' | 'comments' | 'all';
+    maxIndexSize: number;
+
+    ogConfig: CoordinatedContentConfig;
+
+    constructor(options: CoordinatedContentRuleOptions) {
+        super(options);
+        const {
+            threshold = '>= 3',
+            window = '1 hour',
+            matchScore = 85,
+            minWordCount = 3,
+            caseSensitive = false,
+            transformations = [],
+            transformationsActivity = transformations,
+            lookAt = 'all',
+            maxIndexSize = 200,
+        } = options;
+
+        this.ogConfig = {
+            threshold,
+            window,
+            matchScore,
+            minWordCount,
+            caseSensitive,
+            transformations,
+            transformationsActivity,
+            lookAt,
+            maxIndexSize,
+        };
+
+        this.threshold = parseGenericValueComparison(threshold);
+        this.window = parseDurationValToDuration(window);
+        this.matchScore = matchScore;
+        this.minWordCount = minWordCount;
+        this.caseSensitive = caseSensitive;
+        this.transformations = transformations;
+        this.transformationsActivity = transformationsActivity;
+        this.lookAt = lookAt;
+        this.maxIndexSize = maxIndexSize;
+    }
+
+    getKind(): string {
+        return 'coordinated';
+    }
+
+    getSpecificPremise(): object {
+        return this.ogConfig;
+    }
+
+    protected getActivityText(activity: SnoowrapActivity): string {
+        if (asSubmission(activity)) {
+            return activity.is_self && activity.selftext.trim() !== '' ? `${activity.title} ${activity.selftext}` : activity.title;
+        }
+        return activity.body;
+    }
+
+    protected prepareText(text: string, transformations: SearchAndReplaceRegExp[]): string {
+        const transformed = transformations.length > 0 ? searchAndReplace(text, transformations) : text;
+        // perform after transformations so as not to mess up regex's depending on case
+        return this.caseSensitive ? transformed : transformed.toLowerCase();
+    }
+
+    protected getIndexKey(): string {
+        // rules in the same subreddit with the same window share an index, regardless of matching options
+        return objectHash.sha1({window: this.window.asSeconds(), maxIndexSize: this.maxIndexSize});
+    }
+
+    protected async process(item: Submission | Comment, options: runCheckOptions): Promise<[boolean, RuleResult]> {
+        const text = this.getActivityText(item);
+        const words = wordCount(text);
+        if (words < this.minWordCount) {
+            const result = `${triggeredIndicator(false)} Activity has ${words} words which is less than minimum word count (${this.minWordCount})`;
+            this.logger.verbose(result);
+            return Promise.resolve([false, this.getResult(false, {result})]);
+        }
+
+        const authorName = getActivityAuthorName(item.author);
+        const isSub = asSubmission(item);
+        const cutoff = dayjs().subtract(this.window).unix();
+        const indexKey = this.getIndexKey();
+
+        const index = (await this.resources.getCoordinatedContentIndex(indexKey)).filter(x => x.createdAt >= cutoff && x.id !== item.name);
+
+        const sourceText = this.prepareText(text.slice(0, MAX_TEXT_LENGTH), this.transformationsActivity);
+
+        const matches: CoordinatedContentMatch[] = [];
+        for (const entry of index) {
+            if (entry.author === authorName) {
+                continue;
+            }
+            if ((this.lookAt === 'submissions' && entry.kind !== 'submission') || (this.lookAt === 'comments' && entry.kind !== 'comment')) {
+                continue;
+            }
+            const entryText = this.prepareText(entry.text, this.transformations);
+            // skip the full (expensive) comparison when the content cannot be similar enough
+            if (stringSamenessUpperBound(sourceText, entryText) < this.matchScore) {
+                continue;
+            }
+            const strMatchResults = stringSameness(sourceText, entryText);
+            if (strMatchResults.highScoreWeighted >= this.matchScore) {
+                matches.push({
+                    author: entry.author,
+                    permalink: entry.permalink,
+                    sameness: Math.min(strMatchResults.highScoreWeighted, 100),
+                    createdAt: entry.createdAt,
+                });
+            }
+        }
+
+        if (options.dryRun === true || options.preview === true) {
+            this.logger.debug('Activity not added to index because this is a dry run');
+        } else {
+            // add current activity to the index so future activities can be compared to it
+            const entry: CoordinatedContentIndexEntry = {
+                id: item.name,
+                author: authorName,
+                kind: isSub ? 'submission' : 'comment',
+                text: text.slice(0, MAX_TEXT_LENGTH),
+                permalink: item.permalink,
+                createdAt: item.created_utc,
+            };
+            await this.resources.updateCoordinatedContentIndex(indexKey, (current) => {
+                // re-read so entries added by other workers since matching are kept
+                const updated = current.filter(x => x.createdAt >= cutoff && x.id !== item.name);
+                updated.push(entry);
+                return updated.slice(Math.max(0, updated.length - this.maxIndexSize));
+            }, Math.ceil(this.window.asSeconds()));
+        }
+
+        // author of the current activity is always included in the count
+        const authors = [authorName, ...Array.from(new Set(matches.map(x => x.author)))];
+        const {operator, value} = this.threshold;
+        const triggered = comparisonTextOp(authors.length, operator, value);
+
+        const humanWindow = this.window.humanize();
+        const result = `${triggeredIndicator(triggered)} ${authors.length} Authors (including Activity Author) posted content ${this.matchScore}% similar within ${humanWindow} (${matches.length} matching Activities), threshold ${this.threshold.displayText}`;
+        this.logger.verbose(result);
+
+        return Promise.resolve([triggered, this.getResult(triggered, {
+            result,
+            data: {
+                threshold: this.threshold.displayText,
+                window: humanWindow,
+                authorCount: authors.length,
+                authors: authors.join(', '),
+                matchCount: matches.length,
+                matches,
+                matchesMarkdown: matches.map(x => `[${Math.round(x.sameness)}% similar](https://reddit.com${x.permalink}) by u/${x.author} on ${dayjs(x.createdAt * 1000).utc().format()}`).join('\n'),
+            }
+        })]);
+    }
+}
+
+interface CoordinatedContentConfig extends TextMatchOptions, TextTransformOptions {
+    /**
+     * A string containing a comparison operator and a value to compare against the number of **distinct Authors** who posted matching content within `window`
+     *
+     * The Author of the Activity being checked is included in the count
+     *
+     * The syntax is `(< OR > OR <= OR >=) <number>`
+     *
+     * * EX `>= 3` => the Activity Author and at least 2 other Authors posted similar content
+     *
+     * @pattern ^\s*(>|>=|<|<=)\s*(\d+)\s*$
+     * @default ">= 3"
+     * @examples [">= 3"]
+     * */
+    threshold?: string
+
+    /**
+     * How far back to look for similar content from other Authors
+     *
+     * @default "1 hour"
+     * @examples ["1 hour"]
+     * */
+    window?: DurationVal
+
+    /**
+     * Which types of indexed Activities to compare the Activity being checked against
+     *
+     * * `all` -- compare against Submissions and Comments
+     * * `submissions` -- only compare against Submissions
+     * * `comments` -- only compare against Comments
+     *
+     * @default "all"
+     * */
+    lookAt?: 'submissions' | 'comments' | 'all'
+
+    /**
+     * The maximum number of recent Activities to keep in the index used for comparison
+     *
+     * Larger values catch more coordination in busy subreddits at the cost of more comparisons per Activity
+     *
+     * @default 200
+     * @examples [200]
+     * */
+    maxIndexSize?: number
+}
+
+export interface CoordinatedContentRuleOptions extends CoordinatedContentConfig, RuleOptions {
+}
+
+/**
+ * Checks if other Authors have recently posted content similar to the Activity in the same subreddit, EX copypasta or spam rings using fresh accounts
+ *
+ * Activities checked by this Rule are kept in a rolling index, for `window` duration, that later Activities are compared against. Activities checked with dry run are not added to the index.
+ *
+ * Only Activities that reach this Rule are indexed -- Activities skipped by Check/Rule filters, or by an earlier Rule failing in an `AND` Check, are not. Place this Rule first in a Check that runs on all Activities that should be compared.
+ *
+ * Available data for [Action templating](https://github.com/FoxxMD/context-mod#action-templating):
+ *
+ * ```
+ * threshold       => The threshold you configured for this Rule to trigger
+ * window          => Human readable duration of window
+ * authorCount     => Number of distinct Authors (including Activity Author) who posted similar content
+ * authors         => Comma-separated list of Authors
+ * matchCount      => Number of similar Activities found
+ * matchesMarkdown => Markdown list of similar Activities
+ * ```
+ * */
+export interface CoordinatedContentRuleJSONConfig extends CoordinatedContentConfig, RuleJSONConfig {
+    /**
+     * @examples ["coordinated"]
+     * @default coordinated
+     * */
+    kind: 'coordinated'
+}
+
+export default CoordinatedContentRule;
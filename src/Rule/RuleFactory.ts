@@ -13,6 +13,10 @@ import {StructuredFilter} from "../Common/Infrastructure/Filters/FilterShapes";
 import {SentimentRule, SentimentRuleJSONConfig} from "./SentimentRule";
 import {StructuredRuleConfigObject} from "../Common/Infrastructure/RuleShapes";
 import {MHSRuleJSONConfig, MHSRule} from "./MHSRule";
+import {CoordinatedContentRule, CoordinatedContentRuleJSONConfig} from "./CoordinatedContentRule";
+import {BanEvasionRule, BanEvasionRuleJSONConfig} from "./BanEvasionRule";
+import {BrigadeRule, BrigadeRuleJSONConfig} from "./BrigadeRule";
+import {TextClassifierRule, TextClassifierRuleJSONConfig} from "./TextClassifierRule";
 
 export function ruleFactory
 (config: StructuredRuleConfigObject, logger: Logger, subredditName: string, resources: SubredditResources, client: Snoowrap): Rule {
@@ -46,6 +50,18 @@ export function ruleFactory
         case 'mhs':
             cfg = config as StructuredFilter<MHSRuleJSONConfig>;
             return new MHSRule({...cfg, logger, subredditName, resources, client});
+        case 'coordinated':
+            cfg = config as StructuredFilter<CoordinatedContentRuleJSONConfig>;
+            return new CoordinatedContentRule({...cfg, logger, subredditName, resources, client});
+        case 'banEvasion':
+            cfg = config as StructuredFilter<BanEvasionRuleJSONConfig>;
+            return new BanEvasionRule({...cfg, logger, subredditName, resources, client});
+        case 'brigade':
+            cfg = config as StructuredFilter<BrigadeRuleJSONConfig>;
+            return new BrigadeRule({...cfg, logger, subredditName, resources, client});
+        case 'textClassifier':
+            cfg = config as StructuredFilter<TextClassifierRuleJSONConfig>;
+            return new TextClassifierRule({...cfg, logger, subredditName, resources, client});
         default:
             throw new Error(`Rule with kind '${config.kind}' was not recognized.`);
     }
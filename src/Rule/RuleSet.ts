@@ -3,12 +3,18 @@ import Snoowrap, {Comment, Submission} from "snoowrap";
 import {ruleFactory} from "./RuleFactory";
 import {createAjvFactory, mergeArr} from "../util";
 import {Logger} from "winston";
-import {JoinCondition, RuleSetResult} from "../Common/interfaces";
+import {JoinCondition, RuleScoreContribution, RuleSetResult} from "../Common/interfaces";
 import * as RuleSchema from '../Schema/Rule.json';
 import {SubredditResources} from "../Subreddit/SubredditResources";
 import {runCheckOptions} from "../Subreddit/Manager";
 import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
-import {JoinOperands} from "../Common/Infrastructure/Atomic";
+import {RunnableCondition} from "../Common/Infrastructure/Atomic";
+import {
+    GenericComparison,
+    isScoreCondition,
+    parseScoreCondition,
+    testScoreCondition
+} from "../Common/Infrastructure/Comparisons";
 import {
     RuleConfigData,
     RuleConfigHydratedData,
@@ -18,13 +24,21 @@ import {
 
 export class RuleSet implements IRuleSet {
     rules: Rule[] = [];
-    condition: JoinOperands;
+    condition: RunnableCondition;
+    scoreCondition?: GenericComparison;
+    weight: number;
     logger: Logger;
 
     constructor(options: RuleSetOptions) {
-        const {logger, condition = 'AND', rules = []} = options;
+        const {logger, condition = 'AND', weight = 1, rules = []} = options;
         this.logger = logger.child({leaf: 'Rule Set'}, mergeArr);
-        this.condition = condition;
+        this.weight = weight;
+        if (isScoreCondition(condition)) {
+            this.scoreCondition = parseScoreCondition(condition);
+            this.condition = `score ${this.scoreCondition.displayText}`;
+        } else {
+            this.condition = condition;
+        }
         const ajv = createAjvFactory(this.logger);
         for (const r of rules) {
             if (r instanceof Rule) {
@@ -41,6 +55,9 @@ export class RuleSet implements IRuleSet {
     }
 
     async run(item: Comment | Submission, existingResults: RuleResultEntity[] = [], options: runCheckOptions): Promise<[boolean, RuleSetResult]> {
+        if (this.scoreCondition !== undefined) {
+            return await this.runScored(item, existingResults, options);
+        }
         let results: RuleResultEntity[] = [];
         let runOne = false;
         const combinedResults = [...existingResults];
@@ -77,6 +94,32 @@ export class RuleSet implements IRuleSet {
         return [true, this.generateResultSet(true, results)];
     }
 
+    /**
+     * Run all Rules, regardless of outcome, and sum the weights of triggered Rules to test against the score condition
+     * */
+    protected async runScored(item: Comment | Submission, existingResults: RuleResultEntity[] = [], options: runCheckOptions): Promise<[boolean, RuleSetResult]> {
+        const results: RuleResultEntity[] = [];
+        const contributions: RuleScoreContribution[] = [];
+        const combinedResults = [...existingResults];
+        for (const r of this.rules) {
+            const [passed, result] = await r.run(item, combinedResults, options);
+            results.push(result);
+            combinedResults.push(result);
+            contributions.push({
+                name: r.getRuleUniqueName(),
+                weight: r.weight,
+                triggered: passed,
+                contribution: passed === true ? r.weight : 0,
+            });
+        }
+        const [triggered, score] = testScoreCondition(contributions, this.scoreCondition as GenericComparison);
+        return [triggered, {
+            ...this.generateResultSet(triggered, results),
+            score,
+            scoreContributions: contributions,
+        }];
+    }
+
     generateResultSet(triggered: boolean, results: RuleResultEntity[]): RuleSetResult {
         return {
             results,
@@ -99,6 +142,7 @@ export interface IRuleSet extends JoinCondition {
      * @minItems 1
      * */
     rules: IRule[];
+    weight?: number
 }
 
 export interface RuleSetOptions extends IRuleSet {
@@ -118,6 +162,16 @@ export interface RuleSetConfigData extends JoinCondition {
      * @minItems 1
      * */
     rules: RuleConfigData[]
+
+    /**
+     * The amount this RuleSet adds to the score of its parent Check when triggered
+     *
+     * Only used when the Check's `condition` is a score comparison, EX `score >= 3`
+     *
+     * @default 1
+     * @examples [1]
+     * */
+    weight?: number
 }
 
 export interface RuleSetConfigHydratedData extends RuleSetConfigData {
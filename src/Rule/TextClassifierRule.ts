@@ -0,0 +1,190 @@
+import {Rule, RuleJSONConfig, RuleOptions} from "./index";
+import {Comment} from "snoowrap";
+import Submission from "snoowrap/dist/objects/Submission";
+import dayjs from "dayjs";
+import {Duration} from "dayjs/plugin/duration";
+import objectHash from "object-hash";
+import {asSubmission, formatNumber, parseDurationValToDuration, triggeredIndicator} from "../util";
+import {RuleResult} from "../Common/interfaces";
+import {comparisonTextOp, GenericComparison, parseGenericValueComparison} from "../Common/Infrastructure/Comparisons";
+import {DurationVal} from "../Common/Infrastructure/Atomic";
+import NaiveBayesClassifier from "../Utils/NaiveBayesClassifier";
+
+export class TextClassifierRule extends Rule {
+    confidence: GenericComparison;
+    retrainInterval: Duration;
+    maxTrainingSize: number;
+    minExamples: number;
+    maxVocabulary: number;
+
+    ogConfig: TextClassifierConfig;
+
+    constructor(options: TextClassifierRuleOptions) {
+        super(options);
+        const {
+            confidence = '>= 90',
+            retrainInterval = '1 day',
+            maxTrainingSize = 1000,
+            minExamples = 25,
+            maxVocabulary = 5000,
+        } = options;
+
+        this.ogConfig = {
+            confidence,
+            retrainInterval,
+            maxTrainingSize,
+            minExamples,
+            maxVocabulary,
+        };
+
+        this.confidence = parseGenericValueComparison(confidence);
+        this.retrainInterval = parseDurationValToDuration(retrainInterval);
+        this.maxTrainingSize = maxTrainingSize;
+        this.minExamples = minExamples;
+        this.maxVocabulary = maxVocabulary;
+    }
+
+    getKind(): string {
+        return 'textClassifier';
+    }
+
+    getSpecificPremise(): object {
+        return this.ogConfig;
+    }
+
+    protected getModelKey(): string {
+        // rules in the same subreddit with the same training options share a model
+        return objectHash.sha1({maxTrainingSize: this.maxTrainingSize, maxVocabulary: this.maxVocabulary, retrainInterval: this.retrainInterval.asSeconds()});
+    }
+
+    /**
+     * Get the cached model or, if it has expired, retrain from the subreddit's moderation history
+     * */
+    protected async getClassifier(): Promise<NaiveBayesClassifier> {
+        const key = this.getModelKey();
+        const cached = await this.resources.getTextClassifierModel(key);
+        if (cached !== undefined) {
+            return new NaiveBayesClassifier(cached);
+        }
+
+        // decisions made because a classifier triggered are not used so the model does not learn from its own predictions
+        const history = await this.resources.getModerationDecisionHistory(this.maxTrainingSize, [this.getKind()]);
+        const classifier = NaiveBayesClassifier.train(history.map(x => ({text: x.content, label: x.decision})), this.maxVocabulary);
+        this.logger.verbose(`Trained classifier from ${classifier.model.docCounts.removed ?? 0} removed and ${classifier.model.docCounts.approved ?? 0} approved Activities (vocabulary of ${classifier.model.vocabularySize} tokens)`);
+
+        // models with too few examples are still cached so history is not queried for every Activity
+        await this.resources.setTextClassifierModel(key, classifier.model, Math.ceil(this.retrainInterval.asSeconds()));
+        return classifier;
+    }
+
+    protected async process(item: Submission | Comment): Promise<[boolean, RuleResult]> {
+        const classifier = await this.getClassifier();
+        const {docCounts, trainedAt} = classifier.model;
+        const removedCount = docCounts.removed ?? 0;
+        const approvedCount = docCounts.approved ?? 0;
+
+        if (removedCount < this.minExamples || approvedCount < this.minExamples) {
+            const result = `${triggeredIndicator(false)} Not enough moderation history to classify (${removedCount} removed, ${approvedCount} approved) -- need at least ${this.minExamples} of each`;
+            this.logger.verbose(result);
+            return Promise.resolve([false, this.getResult(false, {result})]);
+        }
+
+        // stored Activity content for Submissions is only the title so the same must be used here
+        const text = asSubmission(item) ? item.title : item.body;
+        const {label, probabilities} = classifier.predict(text);
+        const removalConfidence = probabilities.removed * 100;
+
+        const {operator, value} = this.confidence;
+        const triggered = comparisonTextOp(removalConfidence, operator, value);
+
+        const result = `${triggeredIndicator(triggered)} Removal confidence ${formatNumber(removalConfidence)}% (${this.confidence.displayText}) -- trained on ${removedCount} removed and ${approvedCount} approved Activities`;
+        this.logger.verbose(result);
+
+        return Promise.resolve([triggered, this.getResult(triggered, {
+            result,
+            data: {
+                confidence: formatNumber(removalConfidence),
+                confidenceThreshold: this.confidence.displayText,
+                prediction: label,
+                removedCount,
+                approvedCount,
+                trainedAt: dayjs.unix(trainedAt).utc().format(),
+            }
+        })]);
+    }
+}
+
+interface TextClassifierConfig {
+    /**
+     * A string containing a comparison operator and a value to compare against the confidence (0 to 100) that the Activity would be removed
+     *
+     * The syntax is `(< OR > OR <= OR >=) <number>`
+     *
+     * * EX `>= 90` => the classifier is at least 90% confident the Activity would be removed
+     * * EX `< 10` => the classifier is less than 10% confident the Activity would be removed, IE it would be approved
+     *
+     * @pattern ^\s*(>|>=|<|<=)\s*(\d+(\.\d+)?)\s*$
+     * @default ">= 90"
+     * @examples [">= 90"]
+     * */
+    confidence?: string
+
+    /**
+     * How long a trained model is used before it is retrained with the latest moderation history
+     *
+     * @default "1 day"
+     * @examples ["1 day"]
+     * */
+    retrainInterval?: DurationVal
+
+    /**
+     * The maximum number of the most recent Remove and Approve Action results to train from
+     *
+     * @default 1000
+     * @examples [1000]
+     * */
+    maxTrainingSize?: number
+
+    /**
+     * The minimum number of removed **and** approved Activities needed to classify. If there are fewer of either the Rule does not trigger.
+     *
+     * @default 25
+     * @examples [25]
+     * */
+    minExamples?: number
+
+    /**
+     * The maximum number of distinct words, most frequent first, the model learns
+     *
+     * @default 5000
+     * @examples [5000]
+     * */
+    maxVocabulary?: number
+}
+
+export interface TextClassifierRuleOptions extends TextClassifierConfig, RuleOptions {
+}
+
+/**
+ * Predict if an Activity would be removed using a Naive Bayes classifier trained locally from Activities removed and approved by this subreddit's Remove and Approve Actions
+ *
+ * Available data for [Action templating](https://github.com/FoxxMD/context-mod#action-templating):
+ *
+ * ```
+ * confidence          => Confidence (0 to 100) that the Activity would be removed
+ * confidenceThreshold => The confidence threshold you configured for this Rule to trigger
+ * prediction          => Most likely decision, 'removed' or 'approved'
+ * removedCount        => Number of removed Activities the model was trained on
+ * approvedCount       => Number of approved Activities the model was trained on
+ * trainedAt           => When the model was trained
+ * ```
+ * */
+export interface TextClassifierRuleJSONConfig extends TextClassifierConfig, RuleJSONConfig {
+    /**
+     * @examples ["textClassifier"]
+     * @default textClassifier
+     * */
+    kind: 'textClassifier'
+}
+
+export default TextClassifierRule;
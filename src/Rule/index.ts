@@ -18,6 +18,7 @@ import {RunnableBaseJson, RunnableBaseOptions, StructuredRunnableBase} from "../
 
 export interface RuleOptions extends RunnableBaseOptions {
     name?: string;
+    weight?: number;
     subredditName: string;
     client: Snoowrap
 }
@@ -28,6 +29,7 @@ export interface Triggerable {
 
 export abstract class Rule extends RunnableBase implements Omit<IRule, 'authorIs' | 'itemIs'>, Triggerable {
     name?: string;
+    weight: number;
     logger: Logger
     client: Snoowrap;
     rulePremiseEntity: RulePremise | null = null;
@@ -36,17 +38,24 @@ export abstract class Rule extends RunnableBase implements Omit<IRule, 'authorIs
         super(options);
         const {
             name,
+            weight = 1,
             logger,
             subredditName,
             client,
         } = options;
         this.name = name;
+        this.weight = weight;
         this.client = client;
 
         this.logger = logger.child({labels: [`Rule ${this.getRuleUniqueName()}`]}, mergeArr);
     }
 
-    async initialize() {
+    /**
+     * Find or create the premise entity for this Rule
+     *
+     * @param persist If false a new premise is not saved, IE when previewing a config that has not been saved
+     * */
+    async initialize(persist: boolean = true) {
         if (this.rulePremiseEntity === null) {
             const prem = this.getPremise();
             const kind = await this.resources.database.getRepository(RuleType).findOne({where: {name: this.getKind()}});
@@ -81,7 +90,7 @@ export abstract class Rule extends RunnableBase implements Omit<IRule, 'authorIs
                     where: searchCriteria
                 });
                 if (this.rulePremiseEntity === null) {
-                    this.rulePremiseEntity = await rulePremiseRepo.save(candidatePremise);
+                    this.rulePremiseEntity = persist ? await rulePremiseRepo.save(candidatePremise) : candidatePremise;
                 }
             } catch (err) {
                 const f = err;
@@ -124,7 +133,7 @@ export abstract class Rule extends RunnableBase implements Omit<IRule, 'authorIs
             throw err;
         }
         try {
-            const [triggered, plainRuleResult] = await this.process(item);
+            const [triggered, plainRuleResult] = await this.process(item, options);
             res.triggered = triggered;
             res.result = plainRuleResult.result;
             res.fromCache = false;
@@ -136,7 +145,7 @@ export abstract class Rule extends RunnableBase implements Omit<IRule, 'authorIs
         }
     }
 
-    protected abstract process(item: Comment | Submission): Promise<[boolean, IRuleResult]>;
+    protected abstract process(item: Comment | Submission, options: runCheckOptions): Promise<[boolean, IRuleResult]>;
 
     abstract getKind(): string;
 
@@ -178,6 +187,16 @@ export interface IRule extends RunnableBaseJson {
      * @examples ["myNewRule"]
      * */
     name?: string
+
+    /**
+     * The amount this Rule adds to the score of its parent RuleSet/Check when triggered
+     *
+     * Only used when the parent's `condition` is a score comparison, EX `score >= 3`
+     *
+     * @default 1
+     * @examples [1]
+     * */
+    weight?: number
 }
 
 export interface RuleJSONConfig extends IRule {
@@ -185,5 +204,5 @@ export interface RuleJSONConfig extends IRule {
      * The kind of rule to run
      * @examples ["recentActivity", "repeatActivity", "author", "attribution", "history"]
      */
-    kind: 'recentActivity' | 'repeatActivity' | 'author' | 'attribution' | 'history' | 'regex' | 'repost' | 'sentiment' | 'mhs'
+    kind: 'recentActivity' | 'repeatActivity' | 'author' | 'attribution' | 'history' | 'regex' | 'repost' | 'sentiment' | 'mhs' | 'coordinated' | 'banEvasion' | 'brigade' | 'textClassifier'
 }
@@ -1,6 +1,7 @@
 import {
     ActivityCheckConfigHydratedData,
     ActivityCheckConfigValue, ActivityCheckObject,
+    asModmailCheckJson,
     asStructuredCommentCheckJson,
     asStructuredSubmissionCheckJson,
     Check,
@@ -11,11 +12,13 @@ import {
 } from "../Common/interfaces";
 import {SubmissionCheck} from "../Check/SubmissionCheck";
 import {CommentCheck} from "../Check/CommentCheck";
+import {ModmailCheck, ModmailCheckResult} from "../Check/ModmailCheck";
 import {Logger} from "winston";
 import {determineNewResults, isSubmission, mergeArr, normalizeName} from "../util";
 import {ExtendedSnoowrap} from "../Utils/SnoowrapClients";
 import Submission from "snoowrap/dist/objects/Submission";
 import {Comment} from "snoowrap";
+import {ModmailConversation} from "snoowrap/dist/objects";
 import {runCheckOptions} from "../Subreddit/Manager";
 import EventEmitter from "events";
 import {CheckProcessingError, RunProcessingError} from "../Utils/Errors";
@@ -31,6 +34,7 @@ export class Run extends RunnableBase {
     name: string;
     submissionChecks: SubmissionCheck[] = [];
     commentChecks: CommentCheck[] = [];
+    modmailChecks: ModmailCheck[] = [];
     postFail?: PostBehaviorOption;
     postTrigger?: PostBehaviorOption;
     filterCriteriaDefaults?: FilterCriteriaDefaults
@@ -80,7 +84,9 @@ export class Run extends RunnableBase {
                 resources: this.resources,
                 client: this.client,
             };
-            if (asStructuredCommentCheckJson(checkConfig)) {
+            if (asModmailCheckJson(checkConfig)) {
+                this.modmailChecks.push(new ModmailCheck(checkConfig));
+            } else if (asStructuredCommentCheckJson(checkConfig)) {
                 this.commentChecks.push(new CommentCheck(checkConfig));
             } else if (asStructuredSubmissionCheckJson(checkConfig)) {
                 this.submissionChecks.push(new SubmissionCheck(checkConfig));
@@ -88,7 +94,12 @@ export class Run extends RunnableBase {
         }
     }
 
-    async initialize() {
+    /**
+     * Find or create the entity for this Run
+     *
+     * @param persist If false a new entity is not saved, IE when previewing a config that has not been saved
+     * */
+    async initialize(persist: boolean = true) {
         if (this.runEntity === undefined) {
             const runRepo = this.resources.database.getRepository(RunEntity);
             const re = await runRepo.findOne({
@@ -104,7 +115,8 @@ export class Run extends RunnableBase {
             if(re !== null) {
                 this.runEntity = re;
             } else {
-                this.runEntity = await runRepo.save(new RunEntity({name: this.name, manager: this.resources.managerEntity}));
+                const candidateRun = new RunEntity({name: this.name, manager: this.resources.managerEntity});
+                this.runEntity = persist ? await runRepo.save(candidateRun) : candidateRun;
             }
         }
         for(const c of this.commentChecks) {
@@ -113,6 +125,9 @@ export class Run extends RunnableBase {
         for(const c of this.submissionChecks) {
             c.runEntity = this.runEntity;
         }
+        for(const c of this.modmailChecks) {
+            c.runEntity = this.runEntity;
+        }
     }
 
     async handle(activity: (Submission | Comment), initAllRuleResults: RuleResultEntity[], existingRunResults: RunResultEntity[] = [], options: runCheckOptions): Promise<[RunResultEntity, string]> {
@@ -131,6 +146,7 @@ export class Run extends RunnableBase {
         const {
             maxGotoDepth = 1,
             gotoContext: optGotoContext = '',
+            checkNames = [],
             source,
         } = options;
 
@@ -203,6 +219,12 @@ export class Run extends RunnableBase {
                     }
                 } else {
                     check = checks[checkIndex];
+                    // only explicitly named checks are run in order, a GOTO can still run any check
+                    if (checkNames.length > 0 && !checkNames.some(x => normalizeName(x) === normalizeName(check.name))) {
+                        this.logger.debug(`Skipping Check ${check.name} because it was not in the given Check names`);
+                        checkIndex++;
+                        continue;
+                    }
                 }
 
                 if(existingRunResults.some(x => x.checkResults?.map(y => y.check.name).includes(check.name))) {
@@ -267,6 +289,24 @@ export class Run extends RunnableBase {
             throw new RunProcessingError(`[RUN ${this.name}] An uncaught exception occurred while processing Run`, {cause: err}, runResultEnt);
         }
     }
+
+    /**
+     * Run modmail Checks against a Conversation in order until one is triggered
+     * */
+    async handleModmail(conversation: ModmailConversation, options: { dryRun?: boolean } = {}): Promise<ModmailCheckResult[]> {
+        const results: ModmailCheckResult[] = [];
+        if (!this.enabled || this.modmailChecks.length === 0) {
+            return results;
+        }
+        for (const check of this.modmailChecks) {
+            const result = await check.handle(conversation, {dryRun: options.dryRun || this.dryRun});
+            results.push(result);
+            if (result.triggered) {
+                break;
+            }
+        }
+        return results;
+    }
 }
 
 export interface IRun extends PostBehavior, RunnableBaseJson {
@@ -1,7 +1,8 @@
-import Snoowrap, {WikiPage} from "snoowrap";
+import Snoowrap, {ModAction, WikiPage} from "snoowrap";
 import {Logger} from "winston";
 import {SubmissionCheck} from "../Check/SubmissionCheck";
 import {CommentCheck} from "../Check/CommentCheck";
+import {getLatestModmailMessage} from "../Check/ModmailCheck";
 import {
     asComment,
     asSubmission,
@@ -12,20 +13,26 @@ import {
     formatNumber,
     frequencyEqualOrLargerThanMin,
     generateFullWikiUrl,
+    generateSnoowrapEntityFromRedditThing,
     getActivityAuthorName,
     isComment,
     isSubmission,
+    isDayOfWeekRelativeDateTime,
     likelyJson5,
+    matchesRelativeDateTime,
     mergeArr,
     normalizeName,
     parseRedditEntity,
+    parseRedditFullname,
     pollingInfo,
     resultsSummary,
+    scheduleInfo,
     sleep,
     totalFromMapStats,
     triggeredIndicator,
+    truncateStringToLength,
 } from "../util";
-import {ConfigBuilder, buildPollingOptions} from "../ConfigBuilder";
+import {ConfigBuilder, buildPollingOptions, buildScheduleOptions} from "../ConfigBuilder";
 import {
     ActionedEvent,
     ActionResult,
@@ -43,19 +50,20 @@ import {
     PollingOptionsStrong,
     PostBehavior,
     ActivitySourceData,
+    ScheduleOptions,
     RUNNING,
     RunResult,
     STOPPED,
     SYSTEM,
-    USER, RuleResult, DatabaseStatisticsOperatorConfig
+    USER, RuleResult, DatabaseStatisticsOperatorConfig, CheckScoreData
 } from "../Common/interfaces";
-import {Submission, Comment, Subreddit} from 'snoowrap/dist/objects';
+import {Submission, Comment, Subreddit, ModmailConversation} from 'snoowrap/dist/objects';
 import {activityIsRemoved, ItemContent, itemContentPeek} from "../Utils/SnoowrapUtils";
 import LoggedError from "../Utils/LoggedError";
 import {
     SubredditResources
 } from "./SubredditResources";
-import {SPoll, UnmoderatedStream, ModQueueStream, SubmissionStream, CommentStream} from "./Streams";
+import {SPoll, UnmoderatedStream, ModQueueStream, SubmissionStream, CommentStream, ModmailStream, ModLogStream, EditedStream} from "./Streams";
 import EventEmitter from "events";
 import ConfigParseError from "../Utils/ConfigParseError";
 import dayjs, {Dayjs as DayjsObj} from "dayjs";
@@ -69,12 +77,14 @@ import {
     CMError,
     definesSeriousError,
     isRateLimitError,
+    isScopeError,
     isSeriousError,
     isStatusError,
     RunProcessingError, SimpleError
 } from "../Utils/Errors";
 import {ErrorWithCause, stackWithCauses} from "pony-cause";
-import {Run} from "../Run";
+import {Run, RunConfigObject} from "../Run";
+import {ActionPremise} from "../Common/Entities/ActionPremise";
 import got from "got";
 import {Bot as BotEntity} from "../Common/Entities/Bot";
 import {ManagerEntity as ManagerEntity, RunningStateEntities} from "../Common/Entities/ManagerEntity";
@@ -93,7 +103,7 @@ import {EntityRunState} from "../Common/Entities/EntityRunState/EntityRunState";
 import {
     ActivitySourceValue,
     EventRetentionPolicyRange,
-    Invokee, POLLING_COMMENTS, POLLING_MODQUEUE, POLLING_SUBMISSIONS, POLLING_UNMODERATED,
+    Invokee, POLLING_COMMENTS, POLLING_EDITED, POLLING_MODLOG, POLLING_MODMAIL, POLLING_MODQUEUE, POLLING_SUBMISSIONS, POLLING_UNMODERATED,
     PollOn, pollOnTypes,
     recordOutputTypes,
     RunState
@@ -131,6 +141,65 @@ export interface runCheckOptions {
     initialGoto?: string
     activitySource: ActivitySourceData
     disableDispatchDelays?: boolean
+    modAction?: ModAction
+    /**
+     * Activity is being run to preview the outcome of a config change
+     *
+     * Side effects that are not controlled by dryRun (dispatching activities, sending notifications) are skipped
+     * */
+    preview?: boolean
+    /**
+     * The computed score of the Check being run, if the Check uses a score condition
+     *
+     * Made available to Action templates as `score`
+     * */
+    checkScore?: CheckScoreData
+}
+
+export interface ConfigPreviewOptions {
+    /**
+     * Number of most recent actioned Events (a Check was triggered) to replay
+     *
+     * @default 25
+     * */
+    limit?: number
+}
+
+export interface ConfigPreviewOutcome {
+    triggered: boolean
+    /**
+     * Friendly identifiers of Actions that would be run
+     * */
+    actions: string[]
+    error?: string
+}
+
+export interface ConfigPreviewActivity {
+    id: string
+    type: 'submission' | 'comment'
+    author: string
+    permalink: string
+    current: ConfigPreviewOutcome
+    proposed: ConfigPreviewOutcome
+}
+
+export interface ConfigPreviewResult {
+    /**
+     * Number of Activities run through both the current and proposed config
+     * */
+    processed: number
+    /**
+     * Number of Activities that are triggered by the proposed config but not by the current config
+     * */
+    newlyTriggered: number
+    /**
+     * Number of Activities that are triggered by the current config but not by the proposed config
+     * */
+    noLongerTriggered: number
+    /**
+     * Activities that trigger differently or run different Actions with the proposed config
+     * */
+    changed: ConfigPreviewActivity[]
 }
 
 export interface CheckTask {
@@ -166,12 +235,16 @@ export class Manager extends EventEmitter implements RunningStates {
     logs: LogInfo[] = [];
     botName: string;
     pollOptions: PollingOptionsStrong[] = [];
+    schedules: ScheduleOptions[] = [];
     get submissionChecks() {
         return this.runs.map(x => x.submissionChecks).flat();
     }
     get commentChecks() {
         return this.runs.map(x => x.commentChecks).flat();
     }
+    get modmailChecks() {
+        return this.runs.map(x => x.modmailChecks).flat();
+    }
     runs: Run[] = []
     resources!: SubredditResources;
     wikiLocation: string;
@@ -184,7 +257,7 @@ export class Manager extends EventEmitter implements RunningStates {
     retentionOverride?: EventRetentionPolicyRange
     //wikiUpdateRunning: boolean = false;
 
-    streams: Map<string, SPoll<Snoowrap.Submission | Snoowrap.Comment>> = new Map();
+    streams: Map<string, SPoll<Snoowrap.Submission | Snoowrap.Comment> | SPoll<ModmailConversation> | SPoll<ModAction>> = new Map();
     sharedStreamCallbacks: Map<string, any> = new Map();
     pollingRetryHandler: Function;
     dryRun?: boolean;
@@ -243,6 +316,9 @@ export class Manager extends EventEmitter implements RunningStates {
 
     delayedQueueInterval: any;
 
+    scheduleInterval: any;
+    checkingSchedules: boolean = false;
+
     processEmitter: EventEmitter = new EventEmitter();
 
     activityRepo!: Repository<Activity>;
@@ -461,8 +537,18 @@ export class Manager extends EventEmitter implements RunningStates {
             }
         })(this), 5000); // every 5 seconds
 
+        this.scheduleInterval = setInterval((function(self) {
+            return function() {
+                if(self.eventsState.state === RUNNING && self.resources !== undefined && self.schedules.length > 0) {
+                    self.checkSchedules().catch((err: any) => {
+                        self.logger.error(new CMError('Unexpected error while checking schedules', {cause: err}));
+                    });
+                }
+            }
+        })(this), 30000); // every 30 seconds
+
         this.processEmitter.on('notify', (payload: NotificationEventPayload) => {
-           this.notificationManager.handle(payload.type, payload.title, payload.body, payload.causedBy, payload.logLevel);
+           this.notificationManager.handle(payload.type, payload.title, payload.body, payload.causedBy, payload.logLevel, payload.context);
         });
 
         // relay check/run errors to bot for retry metrics
@@ -614,6 +700,7 @@ export class Manager extends EventEmitter implements RunningStates {
             managerEntity = this.managerEntity,
             statFrequency = this.statDefaults.minFrequency,
             retention = this.retentionOverride,
+            emitter = this.processEmitter,
         } = config;
 
         this.resources = await this.cacheManager.set(this.subreddit.display_name, {
@@ -627,7 +714,99 @@ export class Manager extends EventEmitter implements RunningStates {
             managerEntity,
             statFrequency,
             retention,
+            emitter,
         });
+        // repositories are needed by anything that handles activities (replay, config preview) even if the queue is never started
+        this.initRepositories();
+    }
+
+    protected initRepositories() {
+        if(this.activityRepo === undefined) {
+            this.activityRepo = this.resources.database.getRepository(Activity);
+        }
+        if(this.authorRepo === undefined) {
+            this.authorRepo = this.resources.database.getRepository(AuthorEntity);
+        }
+        if(this.eventRepo === undefined) {
+            this.eventRepo = this.resources.database.getRepository(CMEvent);
+        }
+    }
+
+    protected buildRuns(structuredRuns: RunConfigObject[]): Run[] {
+        const runs: Run[] = [];
+
+        // TODO check that bot has permissions for subreddit for all specified actions
+        // can find permissions in this.subreddit.mod_permissions
+
+        let index = 1;
+        for (const r of structuredRuns) {
+            const {name = `Run${index}`, ...rest} = r;
+            const run = new Run({
+                name,
+                ...rest,
+                logger: this.logger,
+                resources: this.resources,
+                subredditName: this.subreddit.display_name,
+                client: this.client,
+                emitter: this.processEmitter,
+            });
+            runs.push(run);
+            index++;
+        }
+
+        // make sure run names are unique
+        const rNames: string[] = [];
+        for(const r of runs) {
+            if(rNames.includes(normalizeName(r.name))) {
+                throw new Error(`Rule names must be unique. Duplicate name detected: ${r.name}`);
+            }
+            rNames.push(normalizeName(r.name));
+        }
+        return runs;
+    }
+
+    /**
+     * Find or create entities for all Runs, Checks, Rules, and Actions
+     *
+     * @param persist If false new entities are not saved, IE when previewing a config that has not been saved
+     * */
+    protected async initializeRuns(runs: Run[], persist: boolean = true) {
+        for (const r of runs) {
+            await r.initialize(persist);
+            for (const c of r.submissionChecks) {
+                await c.initialize(persist);
+                for (const ru of c.rules) {
+                    if (isRuleSet(ru)) {
+                        for (const rule of ru.rules) {
+                            await rule.initialize(persist);
+                        }
+                    } else {
+                        await ru.initialize(persist);
+                    }
+                }
+                for (const a of c.actions) {
+                    await a.initialize(persist);
+                }
+            }
+            for (const c of r.commentChecks) {
+                await c.initialize(persist);
+                for (const ru of c.rules) {
+                    if (isRuleSet(ru)) {
+                        for (const rule of ru.rules) {
+                            await rule.initialize(persist);
+                        }
+                    } else {
+                        await ru.initialize(persist);
+                    }
+                }
+                for (const a of c.actions) {
+                    await a.initialize(persist);
+                }
+            }
+            for (const c of r.modmailChecks) {
+                await c.initialize(persist);
+            }
+        }
     }
 
     protected async parseConfigurationFromObject(configObj: object, suppressChangeEvent: boolean = false) {
@@ -636,6 +815,7 @@ export class Manager extends EventEmitter implements RunningStates {
             const validJson = configBuilder.validateJson(configObj);
             const {
                 polling = [{pollOn: POLLING_SUBMISSIONS, limit: DEFAULT_POLLING_LIMIT, interval: DEFAULT_POLLING_INTERVAL}],
+                schedules = [],
                 caching,
                 credentials,
                 dryRun,
@@ -651,6 +831,7 @@ export class Manager extends EventEmitter implements RunningStates {
                 } = {},
             } = validJson || {};
             this.pollOptions = buildPollingOptions(polling);
+            this.schedules = buildScheduleOptions(schedules);
             this.dryRun = this.globalDryRun || dryRun;
 
             this.displayLabel = nickname || `${this.subreddit.display_name_prefixed}`;
@@ -666,7 +847,12 @@ export class Manager extends EventEmitter implements RunningStates {
             for (const p of this.pollOptions) {
                 this.logger.info(`Polling Info => ${pollingInfo(p)}`)
             }
+            for (const sch of this.schedules) {
+                this.logger.info(`Schedule Info => ${scheduleInfo(sch)}`)
+            }
 
+            // send any pending digests from previous config before replacing providers
+            await this.notificationManager.destroy();
             this.notificationManager = new NotificationManager(this.logger, this.subreddit, this.displayLabel, this.botName, notifications);
             const {events, notifiers} = this.notificationManager.getStats();
             const notifierContent = notifiers.length === 0 ? 'None' : notifiers.join(', ');
@@ -694,6 +880,10 @@ export class Manager extends EventEmitter implements RunningStates {
             await this.setResourceManager(resourceConfig);
             this.resources.setLogger(this.logger);
 
+            if (this.resources.ttl.selfTTL === false && this.pollOptions.some(x => x.pollOn === POLLING_EDITED)) {
+                this.logger.warn(`Polling source 'edited' is configured but caching.selfTTL is false. Edited Activities are only re-processed when their previous content is cached so NO edited Activities will be processed. Set selfTTL to a number of seconds to process edits.`);
+            }
+
             if (footer !== undefined && this.resources !== undefined) {
                 this.resources.footer = footer;
             }
@@ -705,38 +895,10 @@ export class Manager extends EventEmitter implements RunningStates {
             this.lastParseConfigHash = objectHash.sha1(hydratedConfig);
             const structuredRuns = await configBuilder.parseToStructured(hydratedConfig, this.filterCriteriaDefaults, this.postCheckBehaviorDefaults);
 
-            let runs: Run[] = [];
-
-            // TODO check that bot has permissions for subreddit for all specified actions
-            // can find permissions in this.subreddit.mod_permissions
-
-            let index = 1;
-            for (const r of structuredRuns) {
-                const {name = `Run${index}`, ...rest} = r;
-                const run = new Run({
-                    name,
-                    ...rest,
-                    logger: this.logger,
-                    resources: this.resources,
-                    subredditName: this.subreddit.display_name,
-                    client: this.client,
-                    emitter: this.processEmitter,
-                });
-                runs.push(run);
-                index++;
-            }
-
-            // make sure run names are unique
-            const rNames: string[] = [];
-            for(const r of runs) {
-                if(rNames.includes(normalizeName(r.name))) {
-                    throw new Error(`Rule names must be unique. Duplicate name detected: ${r.name}`);
-                }
-                rNames.push(normalizeName(r.name));
-            }
+            const runs = this.buildRuns(structuredRuns);
 
             this.runs = runs;
-            const runSummary = `Found ${runs.length} Runs with ${this.submissionChecks.length + this.commentChecks.length} Checks`;
+            const runSummary = `Found ${runs.length} Runs with ${this.submissionChecks.length + this.commentChecks.length + this.modmailChecks.length} Checks`;
 
             if(this.runs.length === 0) {
                 this.logger.warn(runSummary);
@@ -744,8 +906,8 @@ export class Manager extends EventEmitter implements RunningStates {
                 this.logger.info(runSummary);
             }
 
-            const checkSummary = `Found Checks -- Submission: ${this.submissionChecks.length} | Comment: ${this.commentChecks.length}`;
-            if (this.submissionChecks.length === 0 && this.commentChecks.length === 0) {
+            const checkSummary = `Found Checks -- Submission: ${this.submissionChecks.length} | Comment: ${this.commentChecks.length} | Modmail: ${this.modmailChecks.length}`;
+            if (this.submissionChecks.length === 0 && this.commentChecks.length === 0 && this.modmailChecks.length === 0) {
                 this.logger.warn(checkSummary);
             } else {
                 this.logger.info(checkSummary);
@@ -753,39 +915,7 @@ export class Manager extends EventEmitter implements RunningStates {
             this.validConfigLoaded = true;
 
             // make sure all db related stuff gets initialized
-            for (const r of this.runs) {
-                await r.initialize();
-                for (const c of r.submissionChecks) {
-                    await c.initialize();
-                    for (const ru of c.rules) {
-                        if (isRuleSet(ru)) {
-                            for (const rule of ru.rules) {
-                                await rule.initialize();
-                            }
-                        } else {
-                            await ru.initialize();
-                        }
-                    }
-                    for (const a of c.actions) {
-                        await a.initialize();
-                    }
-                }
-                for (const c of r.commentChecks) {
-                    await c.initialize();
-                    for (const ru of c.rules) {
-                        if (isRuleSet(ru)) {
-                            for (const rule of ru.rules) {
-                                await rule.initialize();
-                            }
-                        } else {
-                            await ru.initialize();
-                        }
-                    }
-                    for (const a of c.actions) {
-                        await a.initialize();
-                    }
-                }
-            }
+            await this.initializeRuns(this.runs);
 
             if(this.eventsState.state === RUNNING) {
                 // need to update polling, potentially
@@ -814,6 +944,9 @@ export class Manager extends EventEmitter implements RunningStates {
         //this.wikiUpdateRunning = true;
         this.lastWikiCheck = dayjs();
         let wikiPageChanged = false;
+        let wikiPermissionLost = false;
+        // only notify on transition from valid -> invalid (or when a new revision is invalid) so heartbeat checks don't spam notifications
+        const wasValid = this.validConfigLoaded;
 
         try {
             let sourceData: string;
@@ -832,6 +965,9 @@ export class Manager extends EventEmitter implements RunningStates {
                             throw new CMError(`Parsing config from wiki page failed because ${err.message} AND creating empty page failed`, {cause: e});
                         }
                     } else {
+                        if(err.cause !== undefined && (isScopeError(err.cause) || (isStatusError(err.cause) && err.cause.statusCode === 403))) {
+                            wikiPermissionLost = true;
+                        }
                         throw new CMError('Reading config from wiki failed', {cause: err});
                     }
                 }
@@ -908,6 +1044,13 @@ export class Manager extends EventEmitter implements RunningStates {
                 await this.setResourceManager()
             }
             this.validConfigLoaded = false;
+            if(!suppressNotification && (wasValid || wikiPageChanged)) {
+                if(wikiPermissionLost) {
+                    this.notificationManager.handle('wikiPermissionLost', 'Wiki Permission Lost', `Bot can no longer read the configuration wiki page (${this.wikiLocation}). Check that the bot is still a moderator with wiki permissions. Error: ${err.message}`, causedBy, 'error');
+                } else {
+                    this.notificationManager.handle('configParseError', 'Configuration Invalid', `Configuration could not be parsed and the bot will not process activities until it is fixed. Error: ${err.message}`, causedBy, 'error');
+                }
+            }
             throw new ErrorWithCause('Failed to parse subreddit configuration', {cause: err});
         }
     }
@@ -918,7 +1061,204 @@ export class Manager extends EventEmitter implements RunningStates {
         return await configBuilder.hydrateConfig(validJson, this.resources);
     }
 
-    async handleActivity(activity: (Submission | Comment), options: runCheckOptions): Promise<void> {
+    /**
+     * Run an Activity through the given Runs, following post-check behavior (next, stop, goto) between them
+     *
+     * Results are added to runResults and allRuleResults as they are produced so they are still available if processing throws
+     * */
+    protected async processRuns(runs: Run[], item: (Submission | Comment), options: runCheckOptions, runResults: RunResultEntity[] = [], allRuleResults: RuleResultEntity[] = []): Promise<RunResultEntity[]> {
+        // for now disallow the same goto from being run twice
+        // maybe in the future this can be user-configurable
+        const hitGotos: string[] = [];
+
+        let continueRunIteration = true;
+        let runIndex = 0;
+        let gotoContext: string = options.initialGoto ?? '';
+        while(continueRunIteration && (runIndex < runs.length || gotoContext !== '')) {
+            let currRun: Run;
+            if(gotoContext !== '') {
+                hitGotos.push(gotoContext);
+                if(hitGotos.filter(x => x === gotoContext).length > this.maxGotoDepth) {
+                    throw new Error(`The goto "${gotoContext}" has been triggered ${hitGotos.filter(x => x === gotoContext).length} times which is more than the max allowed for any single goto (${this.maxGotoDepth}).
+                     This indicates a possible endless loop may occur so CM will terminate processing this activity to save you from yourself! The max triggered depth can be configured by the operator.`);
+                }
+                const [runName] = gotoContext.split('.');
+                const gotoIndex = runs.findIndex(x => normalizeName(x.name) === normalizeName(runName));
+                if(gotoIndex !== -1) {
+                    if(gotoIndex > runIndex) {
+                        this.logger.debug(`Fast forwarding Run iteration to ${runs[gotoIndex].name}`, {leaf: 'GOTO'});
+                    } else if(gotoIndex < runIndex) {
+                        this.logger.debug(`Rewinding Run iteration to ${runs[gotoIndex].name}`, {leaf: 'GOTO'});
+                    } else {
+                        this.logger.debug(`Did not iterate to next Run due to GOTO specifying same run`, {leaf: 'GOTO'});
+                    }
+                    currRun = runs[gotoIndex];
+                    runIndex = gotoIndex;
+                    if(!gotoContext.includes('.')) {
+                        // goto completed, no check
+                        gotoContext = '';
+                    }
+                } else {
+                    throw new Error(`GOTO specified a Run that could not be found: ${runName}`);
+                }
+            } else {
+                currRun = runs[runIndex];
+            }
+
+            const [runResult, postBehavior] = await currRun.handle(item,allRuleResults, runResults.filter(x => x.run.name === currRun.name), {...options, gotoContext, maxGotoDepth: this.maxGotoDepth});
+            runResults.push(runResult);
+
+            allRuleResults.push(...determineNewResults(allRuleResults, (runResult.checkResults ?? []).map(x => x.allRuleResults ?? []).flat()));
+
+            switch (postBehavior.toLowerCase()) {
+                case 'next':
+                case 'nextrun':
+                    continueRunIteration = true;
+                    gotoContext = '';
+                    break;
+                case 'stop':
+                    continueRunIteration = false;
+                    gotoContext = '';
+                    break;
+                default:
+                    if (postBehavior.includes('goto:')) {
+                        gotoContext = postBehavior.split(':')[1];
+                    }
+            }
+            runIndex++;
+        }
+        return runResults;
+    }
+
+    /**
+     * Compare how the current config and a proposed config would handle recently processed Activities
+     *
+     * Activities from the most recent actioned Events (where Actions were triggered) stored for this subreddit are re-fetched and run through both the current Runs and Runs built from the proposed config with dry run. Both configs see the same, current state of each Activity -- so an Activity that was already removed is seen as removed by both.
+     * */
+    async previewConfigChange(data: string, options: ConfigPreviewOptions = {}): Promise<ConfigPreviewResult> {
+        const {limit = 25} = options;
+
+        // manager may have never started its queue (where repositories are usually initialized)
+        this.initRepositories();
+
+        const [format, configObj, jsonErr, yamlErr] = parseFromJsonOrYamlToObject(data);
+        if (configObj === undefined) {
+            throw new CMError('Could not parse proposed config as JSON or YAML', {cause: format === 'json' ? jsonErr : yamlErr});
+        }
+
+        const configBuilder = new ConfigBuilder({logger: this.logger});
+        const validJson = configBuilder.validateJson(configObj.toJS());
+        const hydratedConfig = await configBuilder.hydrateConfig(validJson, this.resources);
+        const proposedRuns = this.buildRuns(await configBuilder.parseToStructured(hydratedConfig, this.filterCriteriaDefaults, this.postCheckBehaviorDefaults));
+        await this.initializeRuns(proposedRuns, false);
+
+        const events = await this.eventRepo.find({
+            where: {
+                manager: {
+                    id: this.managerEntity.id
+                },
+                triggered: true
+            },
+            relations: {
+                activity: true
+            },
+            order: {
+                _processedAt: 'DESC'
+            },
+            take: limit
+        });
+        const activityIds = [...new Set(events.map(x => x.activity.id))];
+
+        const result: ConfigPreviewResult = {
+            processed: 0,
+            newlyTriggered: 0,
+            noLongerTriggered: 0,
+            changed: []
+        };
+
+        this.logger.verbose(`Previewing config change against ${activityIds.length} Activities from last ${events.length} actioned Events`);
+
+        for (const id of activityIds) {
+            let activity: Submission | Comment;
+            try {
+                const thing = parseRedditFullname(id);
+                // @ts-ignore
+                const proxy: Submission | Comment = thing?.type === 'comment' ? this.client.getComment(id) : this.client.getSubmission(id);
+                activity = await this.resources.getActivity(proxy);
+            } catch (err: any) {
+                this.logger.warn(new CMError(`Could not get Activity ${id} for config preview, it will be skipped`, {cause: err}));
+                continue;
+            }
+
+            if (asSubmission(activity) ? activity.removed_by_category === 'deleted' : activity.author.name === '[deleted]') {
+                continue;
+            }
+
+            const previewOptions: runCheckOptions = {
+                dryRun: true,
+                preview: true,
+                force: true,
+                disableDispatchDelays: true,
+                source: 'user:preview',
+                activitySource: {
+                    id: nanoid(16),
+                    type: 'user',
+                    identifier: 'preview',
+                    queuedAt: dayjs(),
+                }
+            };
+
+            const current = await this.previewRuns(this.runs, activity, previewOptions);
+            const proposed = await this.previewRuns(proposedRuns, activity, previewOptions);
+            result.processed++;
+
+            const actionsChanged = current.actions.length !== proposed.actions.length || current.actions.some((x, index) => proposed.actions[index] !== x);
+            if (current.triggered !== proposed.triggered || actionsChanged) {
+                if (proposed.triggered && !current.triggered) {
+                    result.newlyTriggered++;
+                } else if (current.triggered && !proposed.triggered) {
+                    result.noLongerTriggered++;
+                }
+                result.changed.push({
+                    id: activity.name,
+                    type: isSubmission(activity) ? 'submission' : 'comment',
+                    author: getActivityAuthorName(activity.author),
+                    permalink: activity.permalink,
+                    current,
+                    proposed
+                });
+            }
+        }
+
+        this.logger.verbose(`Config preview finished => Processed: ${result.processed} | Changed: ${result.changed.length} | Newly Triggered: ${result.newlyTriggered} | No Longer Triggered: ${result.noLongerTriggered}`);
+
+        return result;
+    }
+
+    protected async previewRuns(runs: Run[], activity: Submission | Comment, options: runCheckOptions): Promise<ConfigPreviewOutcome> {
+        const runResults: RunResultEntity[] = [];
+        let error: string | undefined;
+        try {
+            await this.processRuns(runs, activity, options, runResults);
+        } catch (err: any) {
+            if (err instanceof RunProcessingError && err.result !== undefined) {
+                runResults.push(err.result);
+            }
+            error = err.message;
+        }
+        return {
+            triggered: runResults.some(x => x.triggered),
+            actions: runResults.map(x => x.checkResults.map(y => (y.actionResults ?? []).filter(z => z.run).map(z => ActionPremise.getFriendlyIdentifier(z.premise)))).flat(2).sort(),
+            error
+        };
+    }
+
+    /**
+     * Run an Activity through all Runs
+     *
+     * Returns the results of all Runs processed or undefined if the Activity was skipped before processing
+     * */
+    async handleActivity(activity: (Submission | Comment), options: runCheckOptions): Promise<RunResultEntity[] | undefined> {
         const checkType = isSubmission(activity) ? 'Submission' : 'Comment';
         let item = activity,
             runtimeShouldRefresh = false;
@@ -926,7 +1266,6 @@ export class Manager extends EventEmitter implements RunningStates {
         const {
             delayUntil,
             refresh = false,
-            initialGoto = '',
             activitySource,
             force = false,
         } = options;
@@ -955,6 +1294,7 @@ export class Manager extends EventEmitter implements RunningStates {
             lastKnownStateTimestamp = undefined;
         }
         await this.resources.setActivityLastSeenDate(item.name);
+        await this.snapshotActivityContent(item);
 
         // if modqueue is running then we know we are checking for new reports every X seconds
         if(options.activitySource.identifier === POLLING_MODQUEUE) {
@@ -1012,7 +1352,7 @@ export class Manager extends EventEmitter implements RunningStates {
         event.source = new ActivitySourceEntity({...options.activitySource, manager: this.managerEntity});
 
 
-        let allRuleResults: RuleResultEntity[] = [];
+        const allRuleResults: RuleResultEntity[] = [];
         const runResults: RunResultEntity[] = [];
         const itemIdentifiers = [];
         itemIdentifiers.push(`${checkType === 'Submission' ? 'SUB' : 'COM'} ${itemId}`);
@@ -1091,66 +1431,7 @@ export class Manager extends EventEmitter implements RunningStates {
                 return;
             }
 
-            // for now disallow the same goto from being run twice
-            // maybe in the future this can be user-configurable
-            const hitGotos: string[] = [];
-
-            let continueRunIteration = true;
-            let runIndex = 0;
-            let gotoContext: string = initialGoto;
-            while(continueRunIteration && (runIndex < this.runs.length || gotoContext !== '')) {
-                let currRun: Run;
-                if(gotoContext !== '') {
-                    hitGotos.push(gotoContext);
-                    if(hitGotos.filter(x => x === gotoContext).length > this.maxGotoDepth) {
-                        throw new Error(`The goto "${gotoContext}" has been triggered ${hitGotos.filter(x => x === gotoContext).length} times which is more than the max allowed for any single goto (${this.maxGotoDepth}).
-                         This indicates a possible endless loop may occur so CM will terminate processing this activity to save you from yourself! The max triggered depth can be configured by the operator.`);
-                    }
-                    const [runName] = gotoContext.split('.');
-                    const gotoIndex = this.runs.findIndex(x => normalizeName(x.name) === normalizeName(runName));
-                    if(gotoIndex !== -1) {
-                        if(gotoIndex > runIndex) {
-                            this.logger.debug(`Fast forwarding Run iteration to ${this.runs[gotoIndex].name}`, {leaf: 'GOTO'});
-                        } else if(gotoIndex < runIndex) {
-                            this.logger.debug(`Rewinding Run iteration to ${this.runs[gotoIndex].name}`, {leaf: 'GOTO'});
-                        } else {
-                            this.logger.debug(`Did not iterate to next Run due to GOTO specifying same run`, {leaf: 'GOTO'});
-                        }
-                        currRun = this.runs[gotoIndex];
-                        runIndex = gotoIndex;
-                        if(!gotoContext.includes('.')) {
-                            // goto completed, no check
-                            gotoContext = '';
-                        }
-                    } else {
-                        throw new Error(`GOTO specified a Run that could not be found: ${runName}`);
-                    }
-                } else {
-                    currRun = this.runs[runIndex];
-                }
-
-                const [runResult, postBehavior] = await currRun.handle(item,allRuleResults, runResults.filter(x => x.run.name === currRun.name), {...options, gotoContext, maxGotoDepth: this.maxGotoDepth});
-                runResults.push(runResult);
-
-                allRuleResults = allRuleResults.concat(determineNewResults(allRuleResults, (runResult.checkResults ?? []).map(x => x.allRuleResults ?? []).flat()));
-
-                switch (postBehavior.toLowerCase()) {
-                    case 'next':
-                    case 'nextrun':
-                        continueRunIteration = true;
-                        gotoContext = '';
-                        break;
-                    case 'stop':
-                        continueRunIteration = false;
-                        gotoContext = '';
-                        break;
-                    default:
-                        if (postBehavior.includes('goto:')) {
-                            gotoContext = postBehavior.split(':')[1];
-                        }
-                }
-                runIndex++;
-            }
+            await this.processRuns(this.runs, item, options, runResults, allRuleResults);
         } catch (err: any) {
             if(err instanceof RunProcessingError && err.result !== undefined) {
                 runResults.push(err.result);
@@ -1323,6 +1604,7 @@ export class Manager extends EventEmitter implements RunningStates {
                 });
             }
         }
+        return runResults;
     }
 
     isPollingShared(streamName: PollOn): boolean {
@@ -1350,6 +1632,10 @@ export class Manager extends EventEmitter implements RunningStates {
                     existingStream.end();
                     this.streams.delete(source);
                 }
+            } else if (source === POLLING_MODMAIL) {
+                this.buildModmailPolling(pollOpt);
+            } else if (source === POLLING_MODLOG) {
+                this.buildModLogPolling(pollOpt);
             } else {
 
                 const {
@@ -1417,6 +1703,14 @@ export class Manager extends EventEmitter implements RunningStates {
                             });
                         }
                         break;
+                    case POLLING_EDITED:
+                        stream = new EditedStream(this.client, {
+                            subreddit: this.subreddit.display_name,
+                            limit: limit,
+                            pollTime: interval * 1000,
+                            logger: this.logger,
+                        });
+                        break;
                     default:
                         throw new CMError(`This shouldn't happen! All polling sources are enumerated in switch. Source value: ${source}`)
                 }
@@ -1438,6 +1732,9 @@ export class Manager extends EventEmitter implements RunningStates {
                     } else if (this.commentChecks.length > 0) {
                         checkType = 'Comment';
                     }
+                    if (checkType !== undefined && source === POLLING_EDITED && !(await this.shouldProcessEdit(item))) {
+                        return;
+                    }
                     if (checkType !== undefined) {
                         this.firehose.push({
                             activity: item, options: {
@@ -1491,30 +1788,307 @@ export class Manager extends EventEmitter implements RunningStates {
 
                     stream.on('item', onItem(source));
                     // @ts-ignore
-                    stream.on('error', async (err: any) => {
+                    stream.on('error', this.createPollingErrorListener(stream));
 
-                        this.emit('error', err);
+                    this.streams.set(source, stream);
+                }
+            }
+        }
+    }
 
-                        const shouldRetry = await this.pollingRetryHandler(err);
-                        if (shouldRetry) {
-                            stream.startInterval(false, 'Within retry limits');
-                        } else {
-                            this.logger.warn('Stopping subreddit processing/polling due to too many errors');
-                            await this.stop();
-                        }
-                    });
+    buildModmailPolling(pollOpt: PollingOptionsStrong) {
+        const {
+            limit,
+            interval,
+        } = pollOpt;
 
-                    this.streams.set(source, stream);
+        // modmail is always polled with a dedicated stream since conversations are fetched per subreddit
+        const existingStream = this.streams.get(POLLING_MODMAIL);
+        const stream = new ModmailStream(this.client, {
+            subreddit: this.subreddit.display_name,
+            limit: limit,
+            pollTime: interval * 1000,
+            logger: this.logger,
+        });
+        if (existingStream !== undefined) {
+            existingStream.end();
+            this.logger.debug(`Polling ${POLLING_MODMAIL.toUpperCase()} => replaced existing dedicated stream`);
+        } else {
+            stream.once('listing', this.noChecksWarning(POLLING_MODMAIL));
+            this.logger.debug(`Polling ${POLLING_MODMAIL.toUpperCase()} => create new dedicated stream`);
+        }
+
+        stream.on('item', async (conversation: ModmailConversation) => {
+            if (this.eventsState.state !== RUNNING) {
+                return;
+            }
+            await this.handleModmail(conversation);
+        });
+        // @ts-ignore
+        stream.on('error', this.createPollingErrorListener(stream));
+
+        this.streams.set(POLLING_MODMAIL, stream);
+    }
+
+    buildModLogPolling(pollOpt: PollingOptionsStrong) {
+        const {
+            limit,
+            interval,
+            delayUntil,
+        } = pollOpt;
+
+        // modlog is always polled with a dedicated stream since entries are only relevant to this subreddit's checks
+        const existingStream = this.streams.get(POLLING_MODLOG);
+        const stream = new ModLogStream(this.client, {
+            subreddit: this.subreddit.display_name,
+            limit: limit,
+            pollTime: interval * 1000,
+            logger: this.logger,
+        });
+        if (existingStream !== undefined) {
+            existingStream.end();
+            this.logger.debug(`Polling ${POLLING_MODLOG.toUpperCase()} => replaced existing dedicated stream`);
+        } else {
+            stream.once('listing', this.noChecksWarning(POLLING_MODLOG));
+            this.logger.debug(`Polling ${POLLING_MODLOG.toUpperCase()} => create new dedicated stream`);
+        }
+
+        stream.on('item', async (entry: ModAction) => {
+            if (this.eventsState.state !== RUNNING) {
+                return;
+            }
+            await this.handleModLogEntry(entry, delayUntil);
+        });
+        // @ts-ignore
+        stream.on('error', this.createPollingErrorListener(stream));
+
+        this.streams.set(POLLING_MODLOG, stream);
+    }
+
+    createPollingErrorListener = (stream: SPoll<any>) => async (err: any) => {
+
+        this.emit('error', err);
+
+        const shouldRetry = await this.pollingRetryHandler(err);
+        if (shouldRetry) {
+            stream.startInterval(false, 'Within retry limits');
+        } else {
+            this.logger.warn('Stopping subreddit processing/polling due to too many errors');
+            await this.stop();
+        }
+    }
+
+    /**
+     * Queue the Submission or Comment targeted by a mod log entry so it is processed with the entry available to itemIs `modLog` criteria
+     * */
+    async handleModLogEntry(entry: ModAction, delayUntil?: number) {
+        const botUser = parseRedditEntity(this.botName, 'user').name;
+        if (entry.mod.toLowerCase() === botUser.toLowerCase()) {
+            this.logger.debug(`Skipping modlog entry ${entry.id} (${entry.action}) because it was performed by the bot`);
+            return;
+        }
+        const thing = entry.target_fullname !== null && entry.target_fullname !== undefined ? parseRedditFullname(entry.target_fullname) : undefined;
+        if (thing === undefined || (thing.type !== 'submission' && thing.type !== 'comment')) {
+            this.logger.debug(`Skipping modlog entry ${entry.id} (${entry.action}) because it does not target a Submission or Comment`);
+            return;
+        }
+        if ((thing.type === 'submission' && this.submissionChecks.length === 0) || (thing.type === 'comment' && this.commentChecks.length === 0)) {
+            return;
+        }
+        try {
+            const proxy = generateSnoowrapEntityFromRedditThing(thing, this.client) as Submission | Comment;
+            // @ts-ignore
+            const activity = await proxy.fetch() as Submission | Comment;
+            this.firehose.push({
+                activity,
+                options: {
+                    delayUntil,
+                    source: `poll:${POLLING_MODLOG}`,
+                    modAction: entry,
+                    activitySource: {
+                        queuedAt: dayjs(),
+                        type: 'poll',
+                        identifier: POLLING_MODLOG,
+                        id: nanoid(16)
+                    }
+                }
+            });
+        } catch (err: any) {
+            this.logger.warn(new CMError(`Could not retrieve ${thing.type} ${thing.val} targeted by modlog entry ${entry.id} (${entry.action})`, {cause: err}));
+        }
+    }
+
+    /**
+     * Run any Schedules whose `on` expressions match the current time and that have not already run for this minute (cron) or day (day of week)
+     * */
+    async checkSchedules() {
+        // a slow Schedule run can take longer than the interval between checks
+        if (this.checkingSchedules) {
+            this.logger.debug('Schedules are still being checked from the previous interval, skipping', {leaf: 'Schedule'});
+            return;
+        }
+        this.checkingSchedules = true;
+        try {
+            const now = dayjs.utc();
+            for (const schedule of this.schedules) {
+                const expressions = Array.isArray(schedule.on) ? schedule.on : [schedule.on];
+                const matched = expressions.find(x => matchesRelativeDateTime(x, now));
+                if (matched === undefined) {
+                    continue;
+                }
+                const lastRun = await this.resources.getScheduleLastRun(schedule.name);
+                if (lastRun !== undefined && lastRun.utc().isSame(now, isDayOfWeekRelativeDateTime(matched) ? 'day' : 'minute')) {
+                    continue;
+                }
+                // recorded before running so the Schedule is not run again, for the same time, if the run fails or is still in progress
+                await this.resources.setScheduleLastRun(schedule.name, now.unix());
+                try {
+                    await this.runSchedule(schedule);
+                } catch (err: any) {
+                    this.logger.error(new CMError(`Failed to run Schedule '${schedule.name}'`, {cause: err}));
                 }
             }
+        } finally {
+            this.checkingSchedules = false;
+        }
+    }
+
+    /**
+     * Get Activities from the Schedule's listing and queue them for processing
+     * */
+    async runSchedule(schedule: ScheduleOptions) {
+        const {
+            name,
+            listing,
+            time = 'day',
+            limit = 25,
+            checks,
+            goto,
+        } = schedule;
+        const subreddit = this.client.getSubreddit(this.subreddit.display_name);
+        let items: (Submission | Comment)[];
+        switch (listing) {
+            case 'hot':
+                items = await subreddit.getHot({limit});
+                break;
+            case 'new':
+                items = await subreddit.getNew({limit});
+                break;
+            case 'top':
+                items = await subreddit.getTop({time, limit});
+                break;
+            case 'rising':
+                items = await subreddit.getRising({limit});
+                break;
+            case 'stickied':
+                // subreddits can have at most 2 stickied submissions (plus community highlights) which are always at the top of hot
+                items = (await subreddit.getHot({limit: 10})).filter(x => x.stickied);
+                break;
+            case 'modqueue':
+                items = await subreddit.getModqueue({limit});
+                break;
+            case 'unmoderated':
+                items = await subreddit.getUnmoderated({limit});
+                break;
+            default:
+                throw new CMError(`'${listing}' is not a valid Schedule listing`);
+        }
+
+        this.logger.info(`Schedule '${name}' queued ${items.length} Activities from ${listing}${listing === 'top' ? ` (${time})` : ''}`, {leaf: 'Schedule'});
+        for (const activity of items) {
+            this.firehose.push({
+                activity,
+                options: {
+                    source: `schedule:${name}`,
+                    checkNames: checks,
+                    initialGoto: goto,
+                    activitySource: {
+                        id: nanoid(16),
+                        queuedAt: dayjs(),
+                        type: 'schedule',
+                        identifier: name,
+                        goto,
+                    }
+                }
+            });
+        }
+    }
+
+    /**
+     * Store the current content of an Activity so edits to it can be detected by the 'edited' polling source
+     *
+     * Content is only stored when the 'edited' polling source is configured since nothing else uses it
+     * */
+    async snapshotActivityContent(item: Submission | Comment): Promise<void> {
+        if (this.pollOptions.some(x => x.pollOn === POLLING_EDITED)) {
+            await this.resources.setActivityContentSnapshot(item);
+        }
+    }
+
+    /**
+     * Determine if an Activity returned by the 'edited' polling source should be processed
+     *
+     * Only Activities the bot has previously processed (has a content snapshot or stored Activity) and whose body has actually changed are processed
+     * */
+    async shouldProcessEdit(item: Submission | Comment): Promise<boolean> {
+        const currentBody = asSubmission(item) ? item.selftext : item.body;
+        let snapshot = await this.resources.getActivityContentSnapshot(item);
+        if (snapshot === undefined) {
+            // stored Activity content is only the body for comments
+            const entity = isSubmission(item) ? null : await this.activityRepo.findOneBy({_id: item.name});
+            if (entity === null) {
+                this.logger.debug(`Skipping edited ${item.name} because it has not been recently processed`);
+                return false;
+            }
+            snapshot = await this.resources.setActivityContentSnapshot(item.name, entity.content);
+            if (snapshot === undefined) {
+                return false;
+            }
+        }
+        if (snapshot.body === currentBody) {
+            this.logger.debug(`Skipping edited ${item.name} because its content has not changed since last processed`);
+            return false;
+        }
+        return true;
+    }
+
+    async handleModmail(conversation: ModmailConversation) {
+        const latest = getLatestModmailMessage(conversation);
+        const botUser = parseRedditEntity(this.botName, 'user').name;
+        if (latest !== undefined && latest.author.name.toLowerCase() === botUser.toLowerCase()) {
+            this.logger.debug(`Skipping modmail Conversation ${conversation.id} because the most recent message was sent by the bot`);
+            return;
+        }
+        if (this.modmailChecks.length === 0) {
+            return;
+        }
+
+        this.logger.info(`<MODMAIL ${conversation.id}> => "${truncateStringToLength(50)(conversation.subject)}"`);
+        const triggeredChecks: string[] = [];
+        try {
+            for (const run of this.runs) {
+                const results = await run.handleModmail(conversation, {dryRun: this.dryRun});
+                triggeredChecks.push(...results.filter(x => x.triggered).map(x => x.name));
+            }
+            this.logger.verbose(`<MODMAIL ${conversation.id}> => ${triggeredChecks.length === 0 ? 'No Checks triggered' : `Triggered Checks: ${triggeredChecks.join(', ')}`}`);
+        } catch (err: any) {
+            this.logger.error(new CMError(`Uncaught error while processing modmail Conversation ${conversation.id}`, {cause: err}));
+        } finally {
+            this.resources.updateHistoricalStats({
+                eventsCheckedTotal: 1,
+                eventsActionedTotal: triggeredChecks.length > 0 ? 1 : 0,
+            });
         }
     }
 
     noChecksWarning = (source: PollOn) => (listing: any) => {
-        if (this.commentChecks.length === 0 && [POLLING_MODQUEUE, POLLING_COMMENTS].some(x => x === source)) {
+        if (this.modmailChecks.length === 0 && source === POLLING_MODMAIL) {
+            this.logger.warn(`Polling '${source.toUpperCase()}' but no modmail checks were configured.`);
+        }
+        if (this.commentChecks.length === 0 && [POLLING_MODQUEUE, POLLING_COMMENTS, POLLING_MODLOG, POLLING_EDITED].some(x => x === source)) {
             this.logger.warn(`Polling '${source.toUpperCase()}' may return Comments but no comments checks were configured.`);
         }
-        if (this.submissionChecks.length === 0 && [POLLING_UNMODERATED, POLLING_MODQUEUE, POLLING_SUBMISSIONS].some(x => x === source)) {
+        if (this.submissionChecks.length === 0 && [POLLING_UNMODERATED, POLLING_MODQUEUE, POLLING_SUBMISSIONS, POLLING_MODLOG, POLLING_EDITED].some(x => x === source)) {
             this.logger.warn(`Polling '${source.toUpperCase()}' may return Submissions but no submission checks were configured.`);
         }
     }
@@ -1526,15 +2100,7 @@ export class Manager extends EventEmitter implements RunningStates {
             return;
         }
 
-        if(this.activityRepo === undefined) {
-            this.activityRepo = this.resources.database.getRepository(Activity);
-        }
-        if(this.authorRepo === undefined) {
-            this.authorRepo = this.resources.database.getRepository(AuthorEntity);
-        }
-        if(this.eventRepo === undefined) {
-            this.eventRepo = this.resources.database.getRepository(CMEvent);
-        }
+        this.initRepositories();
 
         const {reason, suppressNotification = false} = options || {};
         if(this.queueState.state === RUNNING) {
@@ -1655,8 +2221,8 @@ export class Manager extends EventEmitter implements RunningStates {
                 await this.buildPolling();
             }
 
-            if (this.submissionChecks.length === 0 && this.commentChecks.length === 0) {
-                this.logger.warn('No submission or comment checks found!');
+            if (this.submissionChecks.length === 0 && this.commentChecks.length === 0 && this.modmailChecks.length === 0) {
+                this.logger.warn('No submission, comment, or modmail checks found!');
             }
 
             if (this.streams.size > 0) {
@@ -1773,6 +2339,7 @@ export class Manager extends EventEmitter implements RunningStates {
         clearInterval(this.eventsSampleInterval);
         clearInterval(this.delayedQueueInterval);
         clearInterval(this.rulesUniqueSampleInterval)
+        clearInterval(this.scheduleInterval);
         await this.cacheManager.destroy(this.subreddit.display_name);
     }
 
@@ -1,8 +1,9 @@
 import {Poll, SnooStormOptions} from "snoostorm"
-import Snoowrap, {Listing, RedditContent} from "snoowrap";
+import Snoowrap, {Listing, ModAction, RedditContent} from "snoowrap";
+import {ModmailConversation} from "snoowrap/dist/objects";
 import {EventEmitter} from "events";
 import {PollConfiguration} from "snoostorm/out/util/Poll";
-import {DEFAULT_POLLING_INTERVAL} from "../Common/interfaces";
+import {DEFAULT_POLLING_INTERVAL, DEFAULT_POLLING_LIMIT} from "../Common/interfaces";
 import {mergeArr, parseDuration, random} from "../util";
 import { Logger } from "winston";
 import {ErrorWithCause} from "pony-cause";
@@ -16,6 +17,8 @@ interface RCBPollingOptions<T> extends SnooStormOptions {
     logger: Logger
     name?: string,
     processed?: Set<T[keyof T]>
+    // if specified the least recently seen identifiers are forgotten once there are more than this many
+    processedLimit?: number
     label?: string
     dateCutoff?: boolean
 }
@@ -23,10 +26,39 @@ interface RCBPollingOptions<T> extends SnooStormOptions {
 interface RCBPollConfiguration<T> extends PollConfiguration<T>,RCBPollingOptions<T> {
     get: () => Promise<Listing<T>>
     dateCutoff: boolean
+    // used instead of identifier when an item should be considered "unseen" again after it changes
+    getIdentifier?: (item: T) => T[keyof T]
+}
+
+/**
+ * A Set that removes its least recently added value once it has more than `max` values
+ *
+ * Adding a value that already exists moves it to the most recent position
+ * */
+export class BoundedSet<T> extends Set<T> {
+    max: number;
+
+    constructor(max: number) {
+        super();
+        this.max = max;
+    }
+
+    add(value: T): this {
+        if (this.has(value)) {
+            this.delete(value);
+        }
+        super.add(value);
+        if (this.size > this.max) {
+            const [oldest] = this.values();
+            this.delete(oldest);
+        }
+        return this;
+    }
 }
 
 export class SPoll<T extends RedditContent<object>> extends Poll<T> {
     identifier: keyof T;
+    getIdentifier?: (item: T) => T[keyof T];
     getter: () => Promise<Listing<T>>;
     frequency;
     running: boolean = false;
@@ -53,12 +85,15 @@ export class SPoll<T extends RedditContent<object>> extends Poll<T> {
             subreddit,
             label = 'Polling',
             processed,
+            processedLimit,
             dateCutoff,
+            getIdentifier,
         } = options;
         this.subreddit = subreddit;
         this.name = name !== undefined ? name : this.name;
         this.logger = logger.child({labels: [label, this.name]}, mergeArr)
         this.identifier = identifier;
+        this.getIdentifier = getIdentifier;
         this.getter = get;
         this.frequency = frequency;
         this.enforceContinuity = enforceContinuity;
@@ -69,6 +104,8 @@ export class SPoll<T extends RedditContent<object>> extends Poll<T> {
         if (processed !== undefined) {
             this.processed = processed;
             this.newStart = false;
+        } else if (processedLimit !== undefined) {
+            this.processed = new BoundedSet(processedLimit);
         }
 
         clearInterval(this.interval);
@@ -96,9 +133,11 @@ export class SPoll<T extends RedditContent<object>> extends Poll<T> {
                             anyAlreadySeen = true;
                         }
                         for (const item of batch) {
-                            const id = item[self.identifier];
+                            const id = self.getIdentifier !== undefined ? self.getIdentifier(item) : item[self.identifier];
                             if (self.processed.has(id)) {
                                 anyAlreadySeen = true;
+                                // keeps identifiers still being returned from being forgotten when processed is bounded
+                                self.processed.add(id);
                                 continue;
                             }
 
@@ -262,3 +301,57 @@ export class CommentStream extends SPoll<Snoowrap.Submission | Snoowrap.Comment>
         });
     }
 }
+
+
+export class ModmailStream extends SPoll<ModmailConversation> {
+    constructor(
+        client: Snoowrap,
+        options: RCBPollingOptions<ModmailConversation>) {
+        super({
+            frequency: options.pollTime || DEFAULT_POLLING_INTERVAL * 1000,
+            get: async () => client.getNewModmailConversations({limit: options.limit, entity: options.subreddit, sort: 'recent'} as any),
+            identifier: "id",
+            // a conversation is "new" again every time a message is added to it
+            getIdentifier: (item: ModmailConversation) => `${item.id}-${item.lastUpdated}` as any,
+            // every update adds a new identifier so only remember enough to cover many polls worth of conversations
+            processedLimit: (options.limit ?? DEFAULT_POLLING_LIMIT) * 10,
+            name: 'Modmail',
+            // conversations do not have a created_utc and can be updated long after they were created
+            dateCutoff: false,
+            ...options,
+        });
+    }
+}
+
+export class EditedStream extends SPoll<Snoowrap.Submission | Snoowrap.Comment> {
+    constructor(
+        client: Snoowrap,
+        options: RCBPollingOptions<Snoowrap.Submission | Snoowrap.Comment>) {
+        super({
+            frequency: options.pollTime || DEFAULT_POLLING_INTERVAL * 1000,
+            get: async () => client.getSubreddit(options.subreddit).getEdited({limit: options.limit}),
+            identifier: "id",
+            // an activity is "new" again every time it is edited
+            getIdentifier: (item: Snoowrap.Submission | Snoowrap.Comment) => `${item.id}-${item.edited}` as any,
+            name: 'Edited',
+            // edited activities can be much older than the cutoff date
+            dateCutoff: false,
+            ...options,
+        });
+    }
+}
+
+export class ModLogStream extends SPoll<ModAction> {
+    constructor(
+        client: Snoowrap,
+        options: RCBPollingOptions<ModAction>) {
+        super({
+            frequency: options.pollTime || DEFAULT_POLLING_INTERVAL * 1000,
+            get: async () => client.getSubreddit(options.subreddit).getModerationLog({limit: options.limit}),
+            identifier: "id",
+            name: 'Modlog',
+            dateCutoff: true,
+            ...options,
+        });
+    }
+}
@@ -42,7 +42,9 @@ import {
     parseDurationValToDuration,
     parseExternalUrl,
     parseRedditEntity,
+    parseRedditFullname,
     parseStringToRegex,
+    parseStringToRegexOrLiteralSearch,
     parseWikiContext,
     PASS,
     redisScanIterator,
@@ -56,20 +58,27 @@ import {
 } from "../util";
 import {
     ActivityDispatch,
+    BannedUserRecord,
+    ModerationDecisionRecord,
     CacheConfig,
+    CoordinatedContentIndexEntry,
+    BrigadeThreadResult,
     Footer,
     HistoricalStatsDisplay,
-    ResourceStats, StrongTTLConfig,
+    HttpActionOperatorConfig,
+    NotificationEventPayload,
+    ResourceStats, RuleScoreContribution, StrongTTLConfig,
     ThirdPartyCredentialsJsonConfig
 } from "../Common/interfaces";
 import UserNotes from "./UserNotes";
 import {Cache} from 'cache-manager';
 import {Comment, RedditUser, Submission, Subreddit, WikiPage} from "snoowrap/dist/objects";
+import {ModAction as SnoowrapModAction} from "snoowrap";
 import {cacheTTLDefaults, createHistoricalDisplayDefaults,} from "../Common/defaults";
 import {ExtendedSnoowrap} from "../Utils/SnoowrapClients";
 import dayjs, {Dayjs} from "dayjs";
 import ImageData from "../Common/ImageData";
-import {Between, DataSource, DeleteQueryBuilder, LessThan, Repository, SelectQueryBuilder} from "typeorm";
+import {Between, DataSource, DeleteQueryBuilder, In, LessThan, Repository, SelectQueryBuilder} from "typeorm";
 import {CMEvent as ActionedEventEntity, CMEvent} from "../Common/Entities/CMEvent";
 import {RuleResultEntity} from "../Common/Entities/RuleResultEntity";
 import globrex from 'globrex';
@@ -92,6 +101,7 @@ import {
     cmToSnoowrapActivityMap, cmToSnoowrapAuthorMap,
     CommentState,
     ModLogCriteria,
+    ModLogEntryCriteria,
     ModNoteCriteria,
     orderedAuthorCriteriaProps,
     RequiredAuthorCrit,
@@ -104,6 +114,7 @@ import {
     UserNoteCriteria
 } from "../Common/Infrastructure/Filters/FilterCriteria";
 import {
+    ActionTypes,
     ActivitySourceValue,
     ConfigFragmentParseFunc,
     DurationVal,
@@ -158,13 +169,25 @@ import {parseFromJsonOrYamlToObject} from "../Common/Config/ConfigUtil";
 import ConfigParseError from "../Utils/ConfigParseError";
 import {ActivityReport} from "../Common/Entities/ActivityReport";
 import {ActionResultEntity} from "../Common/Entities/ActionResultEntity";
+import {NaiveBayesModelData} from "../Utils/NaiveBayesClassifier";
 import {ActivitySource} from "../Common/ActivitySource";
 import {SubredditResourceOptions} from "../Common/Subreddit/SubredditResourceInterfaces";
 import {SubredditStats} from "./Stats";
 import {CMCache} from "../Common/Cache";
+import EventEmitter from "events";
+
+/**
+ * Matches any mustache tag using item.previousBody, with or without whitespace or a section/unescaped sigil IE {{ item.previousBody }} {{#item.previousBody}} {{{item.previousBody}}}
+ * */
+const PREVIOUS_BODY_TEMPLATE_REGEX = /{{\s*[#^&{]?\s*item\.previousBody\b/;
 
 export const DEFAULT_FOOTER = '\r\n*****\r\nThis action was performed by [a bot.]({{botLink}}) Mention a moderator or [send a modmail]({{modmailLink}}) if you have any ideas, questions, or concerns about this action.';
 
+export interface ActivityContentSnapshot {
+    body: string
+    previousBody?: string
+}
+
 export interface ExternalResourceOptions {
     subreddit?: Subreddit
     defaultTo?: 'url' | 'wiki',
@@ -189,6 +212,7 @@ export class SubredditResources {
     cache: CMCache
     cacheSettingsHash?: string;
     thirdPartyCredentials: ThirdPartyCredentialsJsonConfig;
+    httpAction: HttpActionOperatorConfig;
     delayedItems: ActivityDispatch[] = [];
     botAccount?: string;
     dispatchedActivityRepo: Repository<DispatchedEntity>
@@ -196,6 +220,8 @@ export class SubredditResources {
     retention?: EventRetentionPolicyRange
     managerEntity: ManagerEntity
     botEntity: Bot
+    emitter?: EventEmitter
+    protected coordinatedContentIndexUpdates: Map<string, Promise<void>> = new Map();
     
     subredditStats: SubredditStats
 
@@ -212,6 +238,7 @@ export class SubredditResources {
             cacheSettingsHash,
             client,
             thirdPartyCredentials,
+            httpAction,
             delayedItems = [],
             botAccount,
             managerEntity,
@@ -219,9 +246,11 @@ export class SubredditResources {
             statFrequency,
             retention,
             footer = DEFAULT_FOOTER,
+            emitter,
         } = options || {};
 
         this.managerEntity = managerEntity;
+        this.emitter = emitter;
         this.botEntity = botEntity;
         this.botName = botName;
         this.delayedItems = delayedItems;
@@ -234,6 +263,7 @@ export class SubredditResources {
         this.client = client;
         this.subreddit = subreddit;
         this.thirdPartyCredentials = thirdPartyCredentials;
+        this.httpAction = httpAction;
         this.name = name;
         this.botAccount = botAccount;
         if (logger === undefined) {
@@ -264,12 +294,18 @@ export class SubredditResources {
             ttl,
             retention,
             thirdPartyCredentials,
+            httpAction,
             footer = DEFAULT_FOOTER,
             statFrequency,
+            emitter,
         } = options;
 
+        if(emitter !== undefined) {
+            this.emitter = emitter;
+        }
         this.ttl = ttl;
         this.thirdPartyCredentials = thirdPartyCredentials;
+        this.httpAction = httpAction;
         this.footer = footer;
         let forceStatInit = false;
         if(this.subredditStats.statFrequency !== statFrequency) {
@@ -418,6 +454,7 @@ export class SubredditResources {
                     } else if(dAct.tardyTolerant === false) {
                         tardyHint += ` and was not configured as 'tardy tolerant' so will be dropped`;
                         this.logger.warn(tardyHint);
+                        this.notifyStaleDispatch(tardyHint);
                         await this.removeDelayedActivity(dAct.id);
                         continue;
                     } else {
@@ -426,6 +463,7 @@ export class SubredditResources {
                         if(latest.isBefore(now)) {
                             tardyHint += ` and IS NOT within tardy tolerance of ${dAct.tardyTolerant.humanize()} of planned dispatch time so will be dropped`;
                             this.logger.warn(tardyHint);
+                            this.notifyStaleDispatch(tardyHint);
                             await this.removeDelayedActivity(dAct.id);
                             continue;
                         } else {
@@ -445,6 +483,19 @@ export class SubredditResources {
         }
     }
 
+    protected notifyStaleDispatch(reason: string) {
+        if(this.emitter !== undefined) {
+            const payload: NotificationEventPayload = {
+                type: 'dispatchedActivityStale',
+                title: 'Dispatched Activity Dropped',
+                body: reason,
+                causedBy: 'system',
+                logLevel: 'warn'
+            };
+            this.emitter.emit('notify', payload);
+        }
+    }
+
     async addDelayedActivity(data: ActivityDispatch) {
         const dEntity = await this.dispatchedActivityRepo.save(new DispatchedEntity({...data, manager: this.managerEntity}));
         data.id = dEntity.id;
@@ -608,6 +659,273 @@ export class SubredditResources {
         }
     }
 
+    async getScheduleLastRun(name: string): Promise<Dayjs | undefined> {
+        const lastRunUnix = await this.cache.get(`scheduleLastRun-${this.subreddit.display_name}-${name.toLowerCase()}`) as string | number | undefined | null;
+        if(lastRunUnix !== undefined && lastRunUnix !== null) {
+            return dayjs.unix(Number.parseInt(lastRunUnix.toString(), 10));
+        }
+        return undefined;
+    }
+
+    async setScheduleLastRun(name: string, timestamp?: number): Promise<void> {
+        await this.cache.set(`scheduleLastRun-${this.subreddit.display_name}-${name.toLowerCase()}`, timestamp ?? dayjs().unix(), {
+            ttl: 691200 // store for 8 days (seconds) so weekly schedules are not repeated after a restart
+        });
+    }
+
+    /**
+     * Get the state an Author was in before an Action last changed it, used by Actions that can be undone
+     *
+     * State is only kept in the cache so it is lost on restart when using the memory cache provider
+     * */
+    async getAuthorUndoState<T>(kind: ActionTypes, authorName: string): Promise<T | undefined> {
+        const state = await this.cache.get(`authorUndo-${this.subreddit.display_name}-${kind}-${authorName.toLowerCase()}`) as T | undefined | null;
+        return state === null ? undefined : state;
+    }
+
+    async setAuthorUndoState<T>(kind: ActionTypes, authorName: string, state: T): Promise<void> {
+        await this.cache.set(`authorUndo-${this.subreddit.display_name}-${kind}-${authorName.toLowerCase()}`, state, {
+            ttl: 7776000 // store for 90 days (seconds) so long temporary restrictions can still be undone
+        });
+    }
+
+    async clearAuthorUndoState(kind: ActionTypes, authorName: string): Promise<void> {
+        await this.cache.del(`authorUndo-${this.subreddit.display_name}-${kind}-${authorName.toLowerCase()}`);
+    }
+
+    /**
+     * Get unix timestamps of when a throttled Action was last run for a throttle key (Author, Activity, etc...)
+     * */
+    async getActionThrottleHistory(key: string): Promise<number[]> {
+        const history = await this.cache.get(`actionThrottle-${this.subreddit.display_name}-${key.toLowerCase()}`) as number[] | undefined | null;
+        return history === null || history === undefined ? [] : history;
+    }
+
+    async setActionThrottleHistory(key: string, history: number[], ttl: number): Promise<void> {
+        await this.cache.set(`actionThrottle-${this.subreddit.display_name}-${key.toLowerCase()}`, history, {ttl});
+    }
+
+    /**
+     * Get the most recently banned users from the subreddit's ban list
+     *
+     * @param limit Maximum number of banned users to return
+     * */
+    async getSubredditBannedUsers(limit: number): Promise<BannedUserRecord[]> {
+        const hash = `subBans-${this.subreddit.display_name}-${limit}`;
+        if (this.ttl.subredditTTL !== false) {
+            const cached = await this.cache.get(hash) as BannedUserRecord[] | undefined | null;
+            if (cached !== undefined && cached !== null) {
+                this.logger.debug(`Cache Hit: Subreddit Ban List (${limit})`);
+                return cached;
+            }
+        }
+        // @ts-ignore
+        const banned = await this.subreddit.getBannedUsers({limit});
+        const records: BannedUserRecord[] = banned.map((x: any) => ({
+            name: x.name,
+            bannedAt: x.date,
+            note: x.note === '' || x.note === null ? undefined : x.note,
+            source: 'banList'
+        }));
+        if (this.ttl.subredditTTL !== false) {
+            await this.cache.set(hash, records, {ttl: this.ttl.subredditTTL});
+        }
+        return records;
+    }
+
+    /**
+     * Get Authors most recently banned by (non-dry run) Ban Actions run by this Manager
+     *
+     * @param limit Maximum number of banned users to return
+     * */
+    async getBanActionHistory(limit: number): Promise<BannedUserRecord[]> {
+        const results = await this.database.getRepository(ActionResultEntity).createQueryBuilder('action')
+            .innerJoin('action.premise', 'premise')
+            .innerJoin('premise.kind', 'kind')
+            .innerJoinAndSelect('action.checkResult', 'checkResult')
+            .innerJoinAndSelect('checkResult.run', 'runResult')
+            .innerJoinAndSelect('runResult.event', 'event')
+            .innerJoinAndSelect('event.activity', 'activity')
+            .innerJoinAndSelect('activity.author', 'author')
+            .where('kind.name = :kind', {kind: 'ban'})
+            .andWhere('premise.managerId = :managerId', {managerId: this.managerEntity.id})
+            .andWhere('action.success = :success', {success: true})
+            .andWhere('action.dryRun = :dryRun', {dryRun: false})
+            .orderBy('action._createdAt', 'DESC')
+            .take(limit)
+            .getMany();
+
+        return results.map(x => ({
+            name: x.checkResult.run.event.activity.author.name,
+            bannedAt: x.createdAt.unix(),
+            note: x.result,
+            source: 'history'
+        }));
+    }
+
+    /**
+     * Get the most recent decision for Activities removed or approved by (non-dry run) Remove and Approve Actions run by this Manager
+     *
+     * @param limit Maximum number of Action results to use
+     * @param excludeTriggeredRuleKinds Ignore Actions from Checks where a Rule of one of these kinds triggered
+     * */
+    async getModerationDecisionHistory(limit: number, excludeTriggeredRuleKinds: string[] = []): Promise<ModerationDecisionRecord[]> {
+        const results = await this.database.getRepository(ActionResultEntity).createQueryBuilder('action')
+            .innerJoinAndSelect('action.premise', 'premise')
+            .innerJoinAndSelect('premise.kind', 'kind')
+            .innerJoinAndSelect('action.checkResult', 'checkResult')
+            .innerJoinAndSelect('checkResult.run', 'runResult')
+            .innerJoinAndSelect('runResult.event', 'event')
+            .innerJoinAndSelect('event.activity', 'activity')
+            .where('kind.name IN (:...kinds)', {kinds: ['remove', 'approve']})
+            .andWhere('premise.managerId = :managerId', {managerId: this.managerEntity.id})
+            .andWhere('action.success = :success', {success: true})
+            .andWhere('action.dryRun = :dryRun', {dryRun: false})
+            .orderBy('action._createdAt', 'DESC')
+            .take(limit)
+            .getMany();
+
+        const excludedCheckResults = new Set<string>();
+        if (excludeTriggeredRuleKinds.length > 0 && results.length > 0) {
+            // rule results are eager relations so they are only loaded by find, not by the query builder above
+            const checkResults = await this.database.getRepository(CheckResultEntity).find({
+                where: {id: In(Array.from(new Set(results.map(x => x.checkResult.id))))}
+            });
+            for (const checkResult of checkResults) {
+                if (checkResult.allRuleResults.some(x => x.triggered === true && excludeTriggeredRuleKinds.includes(x.premise.kind.name))) {
+                    excludedCheckResults.add(checkResult.id);
+                }
+            }
+        }
+
+        // results are newest first so the first decision seen for an Activity is its most recent
+        const records = new Map<string, ModerationDecisionRecord>();
+        for (const x of results) {
+            const activity = x.checkResult.run.event.activity;
+            if (records.has(activity.id) || excludedCheckResults.has(x.checkResult.id)) {
+                continue;
+            }
+            records.set(activity.id, {
+                id: activity.id,
+                type: activity.type,
+                content: activity.content,
+                decision: x.premise.kind.name === 'remove' ? 'removed' : 'approved',
+                decidedAt: x.createdAt.unix(),
+            });
+        }
+        return Array.from(records.values());
+    }
+
+    async getTextClassifierModel(key: string): Promise<NaiveBayesModelData | undefined> {
+        const model = await this.cache.get(`textClassifier-${this.subreddit.display_name}-${key}`) as NaiveBayesModelData | undefined | null;
+        return model === null ? undefined : model;
+    }
+
+    async setTextClassifierModel(key: string, model: NaiveBayesModelData, ttl: number): Promise<void> {
+        await this.cache.set(`textClassifier-${this.subreddit.display_name}-${key}`, model, {ttl});
+    }
+
+    async getCoordinatedContentIndex(key: string): Promise<CoordinatedContentIndexEntry[]> {
+        const index = await this.cache.get(`coordinatedContent-${this.subreddit.display_name}-${key}`) as CoordinatedContentIndexEntry[] | undefined | null;
+        return index === null || index === undefined ? [] : index;
+    }
+
+    async setCoordinatedContentIndex(key: string, index: CoordinatedContentIndexEntry[], ttl: number): Promise<void> {
+        await this.cache.set(`coordinatedContent-${this.subreddit.display_name}-${key}`, index, {ttl});
+    }
+
+    /**
+     * Get the last result of a Brigade Rule for a Submission's thread
+     *
+     * @param key Identifies the Rule (config) the result is from
+     * @param submissionId Fullname of the Submission
+     * */
+    async getBrigadeThreadResult(key: string, submissionId: string): Promise<BrigadeThreadResult | undefined> {
+        const result = await this.cache.get(`brigade-${this.subreddit.display_name}-${key}-${submissionId}`) as BrigadeThreadResult | undefined | null;
+        return result === null ? undefined : result;
+    }
+
+    async setBrigadeThreadResult(key: string, submissionId: string, result: BrigadeThreadResult, ttl: number): Promise<void> {
+        await this.cache.set(`brigade-${this.subreddit.display_name}-${key}-${submissionId}`, result, {ttl});
+    }
+
+    /**
+     * Read, update, and write a Coordinated Content index
+     *
+     * Updates to the same index are run one at a time so concurrent workers do not overwrite each other's entries
+     * */
+    async updateCoordinatedContentIndex(key: string, update: (index: CoordinatedContentIndexEntry[]) => CoordinatedContentIndexEntry[], ttl: number): Promise<void> {
+        const previous = this.coordinatedContentIndexUpdates.get(key) ?? Promise.resolve();
+        const next = previous.catch(() => undefined).then(async () => {
+            const index = await this.getCoordinatedContentIndex(key);
+            await this.setCoordinatedContentIndex(key, update(index), ttl);
+        });
+        this.coordinatedContentIndexUpdates.set(key, next);
+        try {
+            await next;
+        } finally {
+            if (this.coordinatedContentIndexUpdates.get(key) === next) {
+                this.coordinatedContentIndexUpdates.delete(key);
+            }
+        }
+    }
+
+    async getAuthorModmailThread(actionKey: string, authorName: string): Promise<string | undefined> {
+        const id = await this.cache.get(`authorModmail-${this.subreddit.display_name}-${actionKey}-${authorName.toLowerCase()}`) as string | undefined | null;
+        return id === null ? undefined : id;
+    }
+
+    /**
+     * Store the ID of the modmail conversation created for an Author so later runs of the same modmail Action can append to it
+     *
+     * @param actionKey Identifies the Action that created the conversation
+     * @param authorName Author the conversation is about
+     * @param id ID of the modmail conversation
+     * @param ttl Number of seconds the conversation can be appended to
+     * */
+    async setAuthorModmailThread(actionKey: string, authorName: string, id: string, ttl: number): Promise<void> {
+        await this.cache.set(`authorModmail-${this.subreddit.display_name}-${actionKey}-${authorName.toLowerCase()}`, id, {ttl});
+    }
+
+    async getActivityContentSnapshot(value: SnoowrapActivity | string): Promise<ActivityContentSnapshot | undefined> {
+        if(this.ttl.selfTTL !== false) {
+            const id = typeof(value) === 'string' ? value : value.name;
+            const snapshot = await this.cache.get(`activityContent-${id}`) as ActivityContentSnapshot | undefined | null;
+            if(snapshot !== undefined && snapshot !== null) {
+                return snapshot;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Store the current body of an Activity so that later edits can be detected
+     *
+     * If the body is different from the last stored body then the last stored body is kept as `previousBody`
+     * */
+    async setActivityContentSnapshot(value: SnoowrapActivity | string, body?: string): Promise<ActivityContentSnapshot | undefined> {
+        if(this.ttl.selfTTL === false) {
+            return undefined;
+        }
+        const id = typeof(value) === 'string' ? value : value.name;
+        let currentBody = body;
+        if(currentBody === undefined) {
+            if(typeof value === 'string') {
+                return undefined;
+            }
+            currentBody = asSubmission(value) ? value.selftext : value.body;
+        }
+        const existing = await this.getActivityContentSnapshot(id);
+        const snapshot: ActivityContentSnapshot = {
+            body: currentBody,
+            previousBody: existing !== undefined && existing.body !== currentBody ? existing.body : existing?.previousBody
+        };
+        await this.cache.set(`activityContent-${id}`, snapshot, {
+            ttl: 86400 // store for 24 hours (seconds)
+        });
+        return snapshot;
+    }
+
     async getActivity(item: Submission | Comment) {
         try {
             let hash = '';
@@ -951,6 +1269,14 @@ export class SubredditResources {
         return fetchedNotes;
     }
 
+    /**
+     * Remove cached Mod Notes for an Author so the next lookup includes notes reddit created for an action the bot just took (ban, etc...)
+     * */
+    async resetAuthorModNotesCache(val: RedditUser | string) {
+        const authorName = typeof val === 'string' ? val : val.name;
+        await this.cache.del(`authorModNotes-${this.subreddit.display_name}-${authorName}`);
+    }
+
     async addModNote(note: CreateModNoteData | ModNote): Promise<ModNote> {
         let data: CreateModNoteData;
         if (asCreateModNoteData(note)) {
@@ -1511,8 +1837,13 @@ export class SubredditResources {
         const content = await this.getContent(contentStr);
 
         const {usernotes = this.userNotes, ...restData} = templateData;
+        let previousBody: string | undefined;
+        if(PREVIOUS_BODY_TEMPLATE_REGEX.test(content)) {
+            previousBody = (await this.getActivityContentSnapshot(activity))?.previousBody;
+        }
         return await renderContent(content, {
             ...restData,
+            previousBody,
             activity,
             usernotes,
             ruleResults,
@@ -1786,7 +2117,7 @@ export class SubredditResources {
         return res;
     }
 
-    async testItemCriteria(i: (Comment | Submission), activityStateObj: NamedCriteria<TypedActivityState>, logger: Logger, include = true, source?: ActivitySourceValue): Promise<FilterCriteriaResult<TypedActivityState>> {
+    async testItemCriteria(i: (Comment | Submission), activityStateObj: NamedCriteria<TypedActivityState>, logger: Logger, include = true, source?: ActivitySourceValue, modAction?: SnoowrapModAction): Promise<FilterCriteriaResult<TypedActivityState>> {
         const {criteria: activityState} = activityStateObj;
         if(Object.keys(activityState).length === 0) {
             return {
@@ -1798,15 +2129,15 @@ export class SubredditResources {
         }
         if (this.ttl.filterCriteriaTTL !== false) {
             let item = i;
-            const {dispatched, source: stateSource, ...rest} = activityState;
+            const {dispatched, source: stateSource, modLog, ...rest} = activityState;
             let state = rest;
 
             // if using cache and dispatched is present we want to test for it separately from the rest of the state
             // because it can change independently from the rest of the activity criteria (its only related to CM!) so storing in cache would make everything potentially stale
             // -- additionally we keep that data in-memory (for now??) so its always accessible and doesn't need to be stored in cache
             let runtimeRes: FilterCriteriaResult<(SubmissionState & CommentState)> | undefined;
-            if(dispatched !== undefined || stateSource !== undefined) {
-                runtimeRes = await this.isItem(item, {dispatched, source: stateSource}, logger, include, source);
+            if(dispatched !== undefined || stateSource !== undefined || modLog !== undefined) {
+                runtimeRes = await this.isItem(item, {dispatched, source: stateSource, modLog}, logger, include, source, modAction);
                 if(!runtimeRes.passed) {
                     // if dispatched does not pass can return early and avoid testing the rest of the item
                     const [propResultsMap, definedStateCriteria] = generateItemFilterHelpers(rest, include);
@@ -1816,6 +2147,9 @@ export class SubredditResources {
                     if(stateSource !== undefined) {
                         propResultsMap.source = runtimeRes.propertyResults.find(x => x.property === 'source');
                     }
+                    if(modLog !== undefined) {
+                        propResultsMap.modLog = runtimeRes.propertyResults.find(x => x.property === 'modLog');
+                    }
 
                     return {
                         behavior: include ? 'include' : 'exclude',
@@ -1848,6 +2182,9 @@ export class SubredditResources {
                     if(stateSource !== undefined) {
                         itemResult.propertyResults.push(runtimeRes.propertyResults.find(x => x.property === 'source') as FilterCriteriaPropertyResult<TypedActivityState>);
                     }
+                    if(modLog !== undefined) {
+                        itemResult.propertyResults.push(runtimeRes.propertyResults.find(x => x.property === 'modLog') as FilterCriteriaPropertyResult<TypedActivityState>);
+                    }
                 }
                 itemResult.criteria = cloneDeep(activityStateObj);
                 return itemResult;
@@ -1859,7 +2196,7 @@ export class SubredditResources {
             }
         }
 
-        const res = await this.isItem(i, activityState, logger, include, source);
+        const res = await this.isItem(i, activityState, logger, include, source, modAction);
         res.criteria = cloneDeep(activityStateObj);
         return res;
     }
@@ -1948,7 +2285,58 @@ export class SubredditResources {
         })() as boolean;
     }
 
-    async isItem (item: Submission | Comment, stateCriteria: TypedActivityState, logger: Logger, include: boolean, source?: ActivitySourceValue): Promise<FilterCriteriaResult<(SubmissionState & CommentState)>> {
+    /**
+     * Returns the names of any properties in the criteria that the mod log entry did not match
+     * */
+    testModLogEntry(entry: SnoowrapModAction, criteria: ModLogEntryCriteria): string[] {
+        const failed: string[] = [];
+        const toArr = (val: string | string[]) => Array.isArray(val) ? val : [val];
+        const {
+            action,
+            moderator,
+            details,
+            description,
+            targetType,
+            targetAuthor,
+        } = criteria;
+
+        if(action !== undefined && !toArr(action).some(x => x.trim().toLowerCase() === entry.action.toLowerCase())) {
+            failed.push('action');
+        }
+        if(moderator !== undefined) {
+            const mods = toArr(moderator).map(x => {
+                const clean = x.trim().toLowerCase();
+                if(clean === 'self' && this.botAccount !== undefined) {
+                    return this.botAccount.toLowerCase();
+                }
+                if(clean === 'automod') {
+                    return 'automoderator';
+                }
+                return clean;
+            });
+            if(!mods.includes(entry.mod.toLowerCase())) {
+                failed.push('moderator');
+            }
+        }
+        if(details !== undefined && (entry.details === null || entry.details === undefined || !toArr(details).some(x => parseStringToRegexOrLiteralSearch(x).test(entry.details as string)))) {
+            failed.push('details');
+        }
+        if(description !== undefined && (entry.description === null || entry.description === undefined || !toArr(description).some(x => parseStringToRegexOrLiteralSearch(x).test(entry.description as string)))) {
+            failed.push('description');
+        }
+        if(targetType !== undefined) {
+            const thing = entry.target_fullname !== null && entry.target_fullname !== undefined ? parseRedditFullname(entry.target_fullname) : undefined;
+            if(thing === undefined || thing.type !== targetType) {
+                failed.push('targetType');
+            }
+        }
+        if(targetAuthor !== undefined && (entry.target_author === null || entry.target_author === undefined || !toArr(targetAuthor).some(x => x.trim().toLowerCase() === entry.target_author.toLowerCase()))) {
+            failed.push('targetAuthor');
+        }
+        return failed;
+    }
+
+    async isItem (item: Submission | Comment, stateCriteria: TypedActivityState, logger: Logger, include: boolean, source?: ActivitySourceValue, modAction?: SnoowrapModAction): Promise<FilterCriteriaResult<(SubmissionState & CommentState)>> {
 
         //const definedStateCriteria = (removeUndefinedKeys(stateCriteria) as RequiredItemCrit);
 
@@ -2047,6 +2435,20 @@ export class SubredditResources {
                             propResultsMap.source!.passed = criteriaPassWithIncludeBehavior(requestedSources.some(x => x.matches(itemSource)), include);
                             break;
                         }
+                    case 'modLog':
+                        if(modAction === undefined) {
+                            propResultsMap.modLog!.passed = !include;
+                            propResultsMap.modLog!.found = 'Not From Modlog';
+                            propResultsMap.modLog!.reason = 'Activity was not retrieved from the modlog polling source';
+                            break;
+                        }
+                        propResultsMap.modLog!.found = `${modAction.action} by u/${modAction.mod}${modAction.details !== null && modAction.details !== undefined ? ` (${modAction.details})` : ''}`;
+                        const failedModLogProps = this.testModLogEntry(modAction, itemOptVal as ModLogEntryCriteria);
+                        if(failedModLogProps.length > 0) {
+                            propResultsMap.modLog!.reason = `Did not match: ${failedModLogProps.join(', ')}`;
+                        }
+                        propResultsMap.modLog!.passed = criteriaPassWithIncludeBehavior(failedModLogProps.length === 0, include);
+                        break;
                     case 'score':
                         const scoreCompare = parseGenericValueComparison(itemOptVal as string);
                         propResultsMap.score!.passed = criteriaPassWithIncludeBehavior(comparisonTextOp(item.score, scoreCompare.operator, scoreCompare.value), include);
@@ -2162,6 +2564,12 @@ export class SubredditResources {
                         propResultsMap.deleted!.passed = criteriaPassWithIncludeBehavior(deleted === itemOptVal, include);
                         propResultsMap.deleted!.found = deleted;
                         break;
+                    case 'edited':
+                        // reddit returns false if never edited, otherwise the unix timestamp of the last edit
+                        const edited = item.edited !== false && item.edited !== undefined;
+                        propResultsMap.edited!.passed = criteriaPassWithIncludeBehavior(edited === itemOptVal, include);
+                        propResultsMap.edited!.found = edited;
+                        break;
                     case 'filtered':
                         if (!item.can_mod_post) {
                             const filteredWarn =`Cannot test for 'filtered' state on Activity in a subreddit bot account is not a moderator for. Skipping criteria...`;
@@ -2886,10 +3294,10 @@ export class SubredditResources {
         };
     }
 
-    async getCommentCheckCacheResult(item: Comment, checkConfig: object): Promise<CheckResultEntity | Pick<CheckResultEntity, 'triggered' | 'results'> | undefined> {
+    async getCommentCheckCacheResult(item: Comment, checkConfig: object): Promise<CheckResultEntity | Pick<CheckResultEntity, 'triggered' | 'results' | 'score' | 'scoreContributions'> | undefined> {
         const userName = getActivityAuthorName(item.author);
         const hash = `commentUserResult-${userName}-${item.link_id}-${objectHash.sha1(checkConfig)}`;
-        let result = await this.cache.get(hash) as { id: string, results: (RuleResultEntity | RuleSetResultEntity)[], triggered: boolean } | undefined | null;
+        let result = await this.cache.get(hash) as { id: string, results: (RuleResultEntity | RuleSetResultEntity)[], triggered: boolean, score?: number, scoreContributions?: RuleScoreContribution[] } | undefined | null;
         if (result === null) {
             result = undefined;
         }
@@ -2898,7 +3306,7 @@ export class SubredditResources {
             return result;
         }
         await this.subredditStats.incrementCacheTypeStat('commentCheck', hash, false);
-        const {id, results, triggered} = result;
+        const {id, results, triggered, score, scoreContributions} = result;
         this.logger.debug(`Cache Hit: Comment Check for ${userName} in Submission ${item.link_id} (Hash ${hash})`);
         // check if the Check was persisted since that would be easiest
         const persisted = await this.database.getRepository(CheckResultEntity).findOne({where: {id}}) as CheckResultEntity;
@@ -2912,6 +3320,8 @@ export class SubredditResources {
                 hydratedResults.push(new RuleSetResultEntity({
                     triggered: r.triggered,
                     condition: r.condition,
+                    score: r.score,
+                    scoreContributions: r.scoreContributions,
                     results: await mapAsync(r.results, async (ruleResult: RuleResultEntity) => {
                         const prem = await premiseRepo.findOneBy({
                             configHash: ruleResult.premise.configHash,
@@ -2938,13 +3348,13 @@ export class SubredditResources {
                 }));
             }
         }
-        return {results: hydratedResults, triggered};
+        return {results: hydratedResults, triggered, score, scoreContributions};
     }
 
     async setCommentCheckCacheResult(item: Comment, checkConfig: object, result: CheckResultEntity, ttl: number) {
         const userName = getActivityAuthorName(item.author);
         const hash = `commentUserResult-${userName}-${item.link_id}-${objectHash.sha1(checkConfig)}`
-        await this.cache.set(hash, {id: result.id, results: result.results, triggered: result.triggered}, { ttl });
+        await this.cache.set(hash, {id: result.id, results: result.results, triggered: result.triggered, score: result.score, scoreContributions: result.scoreContributions}, { ttl });
         this.logger.debug(`Cached check result '${result.check.name}' for User ${userName} on Submission ${item.link_id} for ${ttl} seconds (Hash ${hash})`);
     }
 
@@ -3006,6 +3416,19 @@ export class SubredditResources {
     async getSubredditRemovalReasonById(id: string): Promise<SubredditRemovalReason | undefined> {
         return (await this.getSubredditRemovalReasons()).find(x => x.id === id);
     }
+
+    /**
+     * Find a Removal Reason by ID or, if no ID matches, by title (case-insensitive)
+     * */
+    async getSubredditRemovalReasonByIdOrTitle(val: string): Promise<SubredditRemovalReason | undefined> {
+        const reasons = await this.getSubredditRemovalReasons();
+        const byId = reasons.find(x => x.id === val);
+        if(byId !== undefined) {
+            return byId;
+        }
+        const normalTitle = val.trim().toLowerCase();
+        return reasons.find(x => x.title.trim().toLowerCase() === normalTitle);
+    }
 }
 
 export const checkAuthorFilter = async (item: (Submission | Comment), filter: AuthorOptions, resources: SubredditResources, logger: Logger): Promise<[boolean, ('inclusive' | 'exclusive' | undefined), FilterResult<AuthorCriteria>]> => {
@@ -3082,11 +3505,12 @@ export const checkAuthorFilter = async (item: (Submission | Comment), filter: Au
     return [true, undefined, {criteriaResults: allCritResults, join: 'OR', passed: true}];
 }
 
-export const checkItemFilter = async (item: (Submission | Comment), filter: ItemOptions, resources: SubredditResources, options?: {logger?: Logger, source?: ActivitySourceValue, includeIdentifier?: boolean}): Promise<[boolean, ('inclusive' | 'exclusive' | undefined), FilterResult<TypedActivityState>]> => {
+export const checkItemFilter = async (item: (Submission | Comment), filter: ItemOptions, resources: SubredditResources, options?: {logger?: Logger, source?: ActivitySourceValue, modAction?: SnoowrapModAction, includeIdentifier?: boolean}): Promise<[boolean, ('inclusive' | 'exclusive' | undefined), FilterResult<TypedActivityState>]> => {
 
     const {
         logger: parentLogger = NoopLogger,
         source,
+        modAction,
         includeIdentifier = false,
     } = options || {};
 
@@ -3128,12 +3552,12 @@ export const checkItemFilter = async (item: (Submission | Comment), filter: Item
                         passed: false
                     }
                 } else {
-                    critResult = await resources.testItemCriteria(item, {criteria: restCommentState}, parentLogger, true, source);
+                    critResult = await resources.testItemCriteria(item, {criteria: restCommentState}, parentLogger, true, source, modAction);
                     critResult.criteria = cloneDeep(namedState);
                     critResult.propertyResults.unshift(subPropertyResult);
                 }
             } else {
-                critResult = await resources.testItemCriteria(item, namedState, parentLogger, true, source);
+                critResult = await resources.testItemCriteria(item, namedState, parentLogger, true, source, modAction);
             }
 
             if(critResult.propertyResults.some(x => x.property === 'source')
@@ -3183,12 +3607,12 @@ export const checkItemFilter = async (item: (Submission | Comment), filter: Item
                         passed: false
                     }
                 } else {
-                    critResult = await resources.testItemCriteria(item, {criteria: restCommentState}, parentLogger, false, source);
+                    critResult = await resources.testItemCriteria(item, {criteria: restCommentState}, parentLogger, false, source, modAction);
                     critResult.criteria = {...namedState};
                     critResult.propertyResults.unshift(subPropertyResult);
                 }
             } else {
-                critResult = await resources.testItemCriteria(item, namedState, parentLogger, false, source);
+                critResult = await resources.testItemCriteria(item, namedState, parentLogger, false, source, modAction);
             }
 
             if(critResult.propertyResults.some(x => x.property === 'source')) {
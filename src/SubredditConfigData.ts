@@ -3,6 +3,7 @@ import {
 } from "./Check";
 import {ManagerOptions} from "./Common/interfaces";
 import {RunConfigHydratedData, RunConfigValue, RunConfigObject} from "./Run";
+import {ConfigTestJson} from "./Common/Infrastructure/ConfigTests";
 
 export interface SubredditConfigData extends ManagerOptions {
     /**
@@ -22,6 +23,13 @@ export interface SubredditConfigData extends ManagerOptions {
      * @minItems 1
      * */
     runs?: RunConfigValue[]
+
+    /**
+     * Tests that run example Activities through this config and compare the outcome to what is expected
+     *
+     * Tests are not run during normal operation. Run them with the `test` command or from the web config editor.
+     * */
+    tests?: ConfigTestJson[]
 }
 
 export interface SubredditConfigHydratedData extends Omit<SubredditConfigData, 'checks'> {
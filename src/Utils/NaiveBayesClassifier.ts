@@ -0,0 +1,147 @@
+export interface NaiveBayesModelData {
+    labels: string[]
+    /**
+     * Number of training documents for each label
+     * */
+    docCounts: Record<string, number>
+    /**
+     * Number of documents, for each label, each token appeared in
+     * */
+    tokenCounts: Record<string, Record<string, number>>
+    /**
+     * Sum of token counts for each label
+     * */
+    tokenTotals: Record<string, number>
+    vocabularySize: number
+    trainedAt: number
+}
+
+export interface NaiveBayesExample {
+    text: string
+    label: string
+}
+
+export interface NaiveBayesPrediction {
+    label: string
+    /**
+     * Probability (0 to 1) of each label
+     * */
+    probabilities: Record<string, number>
+}
+
+const URL_REGEX = /https?:\/\/(?:www\.)?([^\s/]+)\S*/gi;
+
+/**
+ * Lower-case words with 2 or more characters. URLs are replaced with their domain so links to the same site are treated as the same feature.
+ * */
+export const tokenize = (text: string): string[] => {
+    const withDomains = text.replace(URL_REGEX, (_, domain: string) => ` url_${domain.replace(/\W+/g, '_')} `);
+    return withDomains.toLowerCase().split(/[^a-z0-9_']+/).map(x => x.replace(/^'+|'+$/g, '')).filter(x => x.length > 1);
+}
+
+/**
+ * Get a count only if the record has it as its own property
+ *
+ * Tokens and labels are arbitrary text so lookups like `constructor` or `__proto__` must not resolve to Object.prototype
+ * */
+const ownCount = (record: Record<string, number>, key: string): number | undefined => Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+
+/**
+ * A multinomial Naive Bayes text classifier using binarized (unique per document) token features and Laplace smoothing
+ *
+ * Model data is plain JSON so it can be stored in the cache
+ * */
+export class NaiveBayesClassifier {
+    model: NaiveBayesModelData;
+
+    constructor(model: NaiveBayesModelData) {
+        this.model = model;
+    }
+
+    /**
+     * Train a new classifier from labelled examples
+     *
+     * @param examples Labelled text to learn from
+     * @param maxVocabulary Only the most frequent tokens, across all examples, are kept to limit the size of the model
+     * */
+    static train(examples: NaiveBayesExample[], maxVocabulary = 5000): NaiveBayesClassifier {
+        const docTokens = examples.map(x => ({label: x.label, tokens: Array.from(new Set(tokenize(x.text)))}));
+
+        const frequency = new Map<string, number>();
+        for (const {tokens} of docTokens) {
+            for (const t of tokens) {
+                frequency.set(t, (frequency.get(t) ?? 0) + 1);
+            }
+        }
+        const vocabulary = new Set(Array.from(frequency.entries())
+            .sort((a, z) => z[1] - a[1])
+            .slice(0, maxVocabulary)
+            .map(x => x[0]));
+
+        const labels = Array.from(new Set(examples.map(x => x.label)));
+        const model: NaiveBayesModelData = {
+            labels,
+            // prototype-less so any token or label can be used as a key
+            docCounts: Object.create(null),
+            tokenCounts: Object.create(null),
+            tokenTotals: Object.create(null),
+            vocabularySize: vocabulary.size,
+            trainedAt: Math.floor(Date.now() / 1000),
+        };
+        for (const label of labels) {
+            model.docCounts[label] = 0;
+            model.tokenCounts[label] = Object.create(null);
+            model.tokenTotals[label] = 0;
+        }
+
+        for (const {label, tokens} of docTokens) {
+            model.docCounts[label]++;
+            for (const t of tokens) {
+                if (!vocabulary.has(t)) {
+                    continue;
+                }
+                model.tokenCounts[label][t] = (ownCount(model.tokenCounts[label], t) ?? 0) + 1;
+                model.tokenTotals[label]++;
+            }
+        }
+
+        return new NaiveBayesClassifier(model);
+    }
+
+    predict(text: string): NaiveBayesPrediction {
+        const {labels, docCounts, tokenCounts, tokenTotals, vocabularySize} = this.model;
+        const totalDocs = labels.reduce((acc, curr) => acc + (ownCount(docCounts, curr) ?? 0), 0);
+        const tokens = Array.from(new Set(tokenize(text)));
+
+        // models from the cache are plain objects so all lookups are guarded with ownCount
+        const logProbs: Record<string, number> = Object.create(null);
+        for (const label of labels) {
+            let logProb = Math.log((ownCount(docCounts, label) ?? 0) / totalDocs);
+            const denominator = (ownCount(tokenTotals, label) ?? 0) + vocabularySize + 1;
+            for (const t of tokens) {
+                // tokens not seen in training, for any label, carry no information
+                if (!labels.some(x => ownCount(tokenCounts[x], t) !== undefined)) {
+                    continue;
+                }
+                logProb += Math.log(((ownCount(tokenCounts[label], t) ?? 0) + 1) / denominator);
+            }
+            logProbs[label] = logProb;
+        }
+
+        // normalize with log-sum-exp to avoid underflow
+        const max = Math.max(...Object.values(logProbs));
+        const sum = Object.values(logProbs).reduce((acc, curr) => acc + Math.exp(curr - max), 0);
+        const probabilities: Record<string, number> = Object.create(null);
+        let best = labels[0];
+        for (const label of labels) {
+            probabilities[label] = Math.exp(logProbs[label] - max) / sum;
+            if (probabilities[label] > probabilities[best]) {
+                best = label;
+            }
+        }
+
+        return {label: best, probabilities};
+    }
+}
+
+export default NaiveBayesClassifier;
@@ -209,6 +209,32 @@ export class ExtendedSnoowrap extends Snoowrap {
         }) as RawSubredditRemovalReasonData;
     }
 
+    /**
+     * Get the newest Comments in a Submission's comment tree, flattened from all depths
+     *
+     * Only Comments included in the response are returned, "load more comments" are not expanded
+     * */
+    async getNewSubmissionComments(submissionId: string, limit = 500): Promise<Comment[]> {
+        const [, comments] = await this.oauthRequest({
+            uri: `comments/${submissionId.replace('t3_', '')}`,
+            method: 'get',
+            qs: {sort: 'new', limit}
+        }) as [Listing<Submission>, Listing<Comment>];
+
+        const flattened: Comment[] = [];
+        const flatten = (listing: Listing<Comment> | string | undefined) => {
+            if (listing === undefined || typeof listing === 'string') {
+                return;
+            }
+            for (const c of listing) {
+                flattened.push(c);
+                flatten(c.replies);
+            }
+        }
+        flatten(comments);
+        return flattened;
+    }
+
     // @ts-ignore
     async addRemovalMessage(item: SnoowrapActivity, message: string, type: RedditRemovalMessageType, options: RedditRemovalMessageOptions = {}) {
         const {
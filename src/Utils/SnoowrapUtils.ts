@@ -133,6 +133,10 @@ export interface TemplateContext {
     ruleResults?: RuleResultEntity[]
     actionResults?: ActionResultEntity[]
     activity?: SnoowrapActivity
+    /**
+     * The body of the activity before its most recent edit, if known
+     * */
+    previousBody?: string
     author?: (val: string | RedditUser) => Promise<RedditUser>
     [key: string]: any
 }
@@ -144,6 +148,7 @@ export const renderContent = async (template: string, data: TemplateContext = {}
         author,
         actionResults,
         activity,
+        previousBody,
         ...restContext
     } = data;
 
@@ -235,6 +240,9 @@ export const renderContent = async (template: string, data: TemplateContext = {}
             templateData.title = renderContentCommentTruncate(activity.body);
             templateData.shortTitle = shortTitleTruncate(activity.body);
         }
+        if (previousBody !== undefined) {
+            templateData.previousBody = previousBody;
+        }
 
         view.item = templateData;
     }
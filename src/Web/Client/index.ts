@@ -62,6 +62,7 @@ import commandExists from 'command-exists';
 import promiseSpawn from '@npmcli/promise-spawn';
 import path from "path";
 import {ExtendedSnoowrap} from "../../Utils/SnoowrapClients";
+import {runConfigTests} from "../../Replay/ConfigTests";
 import ClientUser from "../Common/User/ClientUser";
 import {SimpleError} from "../../Utils/Errors";
 import {ErrorWithCause} from "pony-cause";
@@ -75,6 +76,7 @@ import {MigrationService} from "../../Common/MigrationService";
 import {RuleResultEntity} from "../../Common/Entities/RuleResultEntity";
 import {RuleSetResultEntity} from "../../Common/Entities/RuleSetResultEntity";
 import { PaginationAwareObject } from "../Common/util";
+import {ConfigPreviewResult} from "../../Subreddit/Manager";
 import {
     BotInstance,
     BotStatusResponse,
@@ -1273,9 +1275,45 @@ const webClient = async (options: OperatorConfigWithFileContext) => {
         return res.status(req.user?.isSubredditGuest(req.bot, subreddit) ? 200 : 403).send();
     });
 
-    app.postAsync('/config', [ensureAuthenticatedApi, defaultSession, instanceWithPermissions, botWithPermissions(true)], async (req: express.Request, res: express.Response) => {
+    /**
+     * Replay recent actioned events for the subreddit against the current and proposed config on the bot's instance
+     * */
+    const requestConfigPreview = async (req: express.Request, data: string, limit?: number): Promise<ConfigPreviewResult> => {
         const {subreddit} = req.query as any;
-        const {location, data, reason = 'Updated through CM Web', create = false} = req.body as any;
+        // replaying events can take much longer than the api proxy timeout allows so request directly
+        return await got.post(`${(req.instance as CMInstanceInterface).normalUrl}/config/preview`, {
+            headers: {
+                'Authorization': `Bearer ${req.token}`,
+            },
+            searchParams: {
+                subreddit,
+                bot: req.bot?.botName,
+            },
+            json: {
+                data,
+                limit
+            },
+            timeout: {
+                request: 120000
+            }
+        }).json<ConfigPreviewResult>();
+    }
+
+    app.postAsync('/config', [ensureAuthenticatedApi, defaultSession, instanceWithPermissions, botWithPermissions(true), createUserToken], async (req: express.Request, res: express.Response) => {
+        const {subreddit} = req.query as any;
+        const {location, data, reason = 'Updated through CM Web', create = false, confirmed = false} = req.body as any;
+
+        if (confirmed !== true) {
+            // replay recent actioned events so changes to how activities would be handled are seen before they go live
+            try {
+                const preview = await requestConfigPreview(req, data);
+                if (preview.changed.length > 0) {
+                    return res.status(409).json(preview);
+                }
+            } catch (err: any) {
+                return res.status(500).send(`Could not preview config change before saving: ${err.response?.body ?? err.message}`);
+            }
+        }
 
         const client = new ExtendedSnoowrap({
             userAgent,
@@ -1314,6 +1352,33 @@ const webClient = async (options: OperatorConfigWithFileContext) => {
         return res.send();
     });
 
+    app.postAsync('/config/test', [ensureAuthenticatedApi, defaultSession], async (req: express.Request, res: express.Response) => {
+        const {subreddit} = req.query as any;
+        const {data} = req.body as any;
+
+        if (typeof data !== 'string' || data.trim() === '') {
+            return res.status(400).send('Must provide config as data');
+        }
+
+        try {
+            const results = await runConfigTests(data, {subreddit: subreddit ?? undefined});
+            return res.json(results);
+        } catch (err: any) {
+            logger.warn(new ErrorWithCause('Running config tests failed', {cause: err}));
+            return res.status(500).send(err.message);
+        }
+    });
+
+    app.postAsync('/config/preview', [ensureAuthenticatedApi, defaultSession, instanceWithPermissions, botWithPermissions(true), createUserToken], async (req: express.Request, res: express.Response) => {
+        const {data, limit} = req.body as any;
+
+        try {
+            return res.json(await requestConfigPreview(req, data, limit));
+        } catch (err: any) {
+            return res.status(500).send(err.response?.body ?? err.message);
+        }
+    });
+
     app.getAsync('/events', [ensureAuthenticatedApi, initHeartbeat, defaultSession, instanceWithPermissions, botWithPermissions(true), createUserToken], async (req: express.Request, res: express.Response) => {
         const {subreddit, page = 1, permalink, related, author} = req.query as any;
         const resp = await got.get(`${(req.instance as CMInstanceInterface).normalUrl}/events`, {
@@ -234,7 +234,21 @@ const addGuestMod = async (req: Request, res: Response) => {
 export const addGuestModRoute = [authUserCheck(), botRoute(), subredditRoute(true, true), addGuestMod];
 
 const saveGuestWikiEdit = async (req: Request, res: Response) => {
-    const {location, data, reason = 'Updated through CM Web', create = false} = req.body as any;
+    const {location, data, reason = 'Updated through CM Web', create = false, confirmed = false} = req.body as any;
+    const manager = req.manager as Manager;
+
+    if (confirmed !== true) {
+        // replay recent actioned events so changes to how activities would be handled are seen before they go live
+        try {
+            const preview = await manager.previewConfigChange(data);
+            if (preview.changed.length > 0) {
+                return res.status(409).json(preview);
+            }
+        } catch (err: any) {
+            res.status(500);
+            return res.send(`Could not preview config change before saving: ${err.message}`);
+        }
+    }
 
     try {
         await req.manager?.writeConfig(data, `${reason} by Guest Mod ${req.user?.name}`)
@@ -262,3 +276,27 @@ const saveGuestWikiEdit = async (req: Request, res: Response) => {
 }
 
 export const saveGuestWikiEditRoute = [authUserCheck(), botRoute(), subredditRoute(true, false, true), saveGuestWikiEdit];
+
+const previewConfig = async (req: Request, res: Response) => {
+    const {data, limit = 25} = req.body as any;
+    const manager = req.manager as Manager;
+
+    if (typeof data !== 'string' || data.trim() === '') {
+        return res.status(400).send('Must provide proposed config as data');
+    }
+    const realLimit = Number.parseInt(limit);
+    if (Number.isNaN(realLimit) || realLimit < 1 || realLimit > 100) {
+        return res.status(400).send('limit must be a number between 1 and 100');
+    }
+
+    manager.logger.info(`/u/${req.user?.name} is previewing a config change against the last ${realLimit} actioned Events`, {user: req.user?.name});
+    try {
+        const result = await manager.previewConfigChange(data, {limit: realLimit});
+        return res.json(result);
+    } catch (err: any) {
+        res.status(500);
+        return res.send(err.message);
+    }
+}
+
+export const previewConfigRoute = [authUserCheck(), botRoute(), subredditRoute(true), previewConfig];
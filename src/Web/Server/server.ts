@@ -20,7 +20,7 @@ import {
     cancelDelayedRoute,
     configLocationRoute,
     configRoute,
-    removeGuestModRoute, saveGuestWikiEditRoute, removalReasonsRoute
+    removeGuestModRoute, saveGuestWikiEditRoute, previewConfigRoute, removalReasonsRoute
 } from "./routes/authenticated/user";
 import action from "./routes/authenticated/user/action";
 import {authUserCheck, botRoute} from "./middleware";
@@ -180,6 +180,8 @@ const rcbServer = async function (options: OperatorConfigWithFileContext) {
 
     server.postAsync('/config', ...saveGuestWikiEditRoute);
 
+    server.postAsync('/config/preview', ...previewConfigRoute);
+
     server.getAsync('/reasons', ...removalReasonsRoute);
 
     server.getAsync('/events', ...actionedEventsRoute);
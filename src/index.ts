@@ -10,26 +10,31 @@ import sameafter from 'dayjs/plugin/isSameOrAfter.js';
 import samebefore from 'dayjs/plugin/isSameOrBefore.js';
 import weekOfYear from 'dayjs/plugin/weekOfYear.js';
 import {Manager} from "./Subreddit/Manager";
-import {Command, Argument} from 'commander';
+import {Command, Argument, Option} from 'commander';
 
 import {
     addOptions,
     checks,
     getUniversalCLIOptions,
     getUniversalWebOptions,
+    logDir,
+    logLevel,
     operatorConfig
 } from "./Utils/CommandConfig";
 import {App} from "./App";
 import apiServer from './Web/Server/server';
 import clientServer from './Web/Client';
 import Submission from "snoowrap/dist/objects/Submission";
-import {COMMENT_URL_ID, parseLinkIdentifier, SUBMISSION_URL_ID} from "./util";
+import {COMMENT_URL_ID, parseLinkIdentifier, readConfigFile, SUBMISSION_URL_ID} from "./util";
 import LoggedError from "./Utils/LoggedError";
 import {buildOperatorConfigWithDefaults, parseOperatorConfigFromSources} from "./ConfigBuilder";
 import {getLogger, initLogger} from "./Utils/loggerFactory";
 import Bot from "./Bot";
 import {isScopeError} from "./Utils/Errors";
 import {nanoid} from "nanoid";
+import {promises} from "fs";
+import {loadReplayFixtures, runReplay} from "./Replay";
+import {runConfigTests} from "./Replay/ConfigTests";
 
 dayjs.extend(utc);
 dayjs.extend(dduration);
@@ -49,6 +54,13 @@ preRunCmd.allowUnknownOption();
 
 const program = new Command();
 
+const logCommandError = (err: any) => {
+    if (!err.logged && !(err instanceof LoggedError)) {
+        const logger = winston.loggers.has('app') ? winston.loggers.get('app') : winston.loggers.get('init');
+        logger.error(err);
+    }
+}
+
 (async function () {
     let app: App;
     // let errorReason: string | undefined;
@@ -222,13 +234,75 @@ const program = new Command();
                 }
             });
 
+        let replayCommand = program.command('replay <fixtures> <config>')
+            .description('Run a subreddit config against recorded activities without contacting reddit. All actions are run with dry run.', {
+                fixtures: 'Path to a JSON/YAML file with the subreddit, activities, and authors to replay',
+                config: 'Path to a JSON/YAML subreddit config to run the activities against'
+            })
+            .allowUnknownOption();
+        replayCommand = addOptions(replayCommand, [logLevel, logDir]);
+        replayCommand
+            .addOption(checks)
+            .addOption(new Option('-o, --output <path>', 'Write results as JSON to this file instead of stdout'))
+            .action(async (fixturesPath, configPath, opts = {}) => {
+                const {checks = [], output, logLevel = 'warn'} = opts;
+                // managers created for replay have timers that would otherwise keep the process alive so always exit explicitly
+                try {
+                    await initLogger({...opts, logLevel});
+                    const fixtures = await loadReplayFixtures(fixturesPath);
+                    const [subredditConfig] = await readConfigFile(configPath);
+                    const results = await runReplay(fixtures, subredditConfig as string, {checkNames: checks, logLevel});
+                    const resultsJson = JSON.stringify(results, null, 2);
+                    if (output !== undefined) {
+                        await promises.writeFile(output, resultsJson);
+                    } else {
+                        console.log(resultsJson);
+                    }
+                } catch (err: any) {
+                    logCommandError(err);
+                    process.exit(1);
+                }
+                process.exit(0);
+            });
+
+        let testCommand = program.command('test <config>')
+            .description('Run the tests in a subreddit config against that config without contacting reddit. All actions are run with dry run.', {
+                config: 'Path to a JSON/YAML subreddit config that includes a `tests` section'
+            })
+            .allowUnknownOption();
+        testCommand = addOptions(testCommand, [logLevel, logDir]);
+        testCommand
+            .addOption(new Option('-s, --subreddit <name>', 'Name of the subreddit test activities are made in').default('ConfigTests'))
+            .addOption(new Option('-o, --output <path>', 'Write full results as JSON to this file'))
+            .action(async (configPath, opts = {}) => {
+                const {subreddit, output, logLevel = 'warn'} = opts;
+                let failed: number;
+                try {
+                    await initLogger({...opts, logLevel});
+                    const [subredditConfig] = await readConfigFile(configPath);
+                    const results = await runConfigTests(subredditConfig as string, {subreddit, logLevel});
+                    for (const r of results) {
+                        console.log(`${r.passed ? 'PASS' : 'FAIL'} ${r.name}`);
+                        for (const f of r.failures) {
+                            console.log(`    ${f}`);
+                        }
+                    }
+                    failed = results.filter(x => !x.passed).length;
+                    console.log(`${results.length - failed} passed, ${failed} failed`);
+                    if (output !== undefined) {
+                        await promises.writeFile(output, JSON.stringify(results, null, 2));
+                    }
+                } catch (err: any) {
+                    logCommandError(err);
+                    process.exit(1);
+                }
+                process.exit(failed > 0 ? 1 : 0);
+            });
+
         await program.parseAsync();
 
     } catch (err: any) {
-        if (!err.logged && !(err instanceof LoggedError)) {
-            const logger = winston.loggers.has('app') ? winston.loggers.get('app') : winston.loggers.get('init');
-            logger.error(err);
-        }
+        logCommandError(err);
         process.kill(process.pid, 'SIGTERM');
     }
 }());
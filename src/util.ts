@@ -7,6 +7,7 @@ import {InvalidOptionArgumentError} from "commander";
 import {deflateSync, inflateSync} from "zlib";
 import pixelmatch from 'pixelmatch';
 import os from 'os';
+import {isIP} from 'net';
 import pathUtil from 'path';
 import fetch, {Response} from 'node-fetch';
 import crypto, {createHash} from 'crypto';
@@ -20,6 +21,7 @@ import {
     LogInfo,
     NamedGroup,
     PollingOptionsStrong,
+    ScheduleOptions,
     PostBehaviorOptionConfig,
     RegExResult,
     RepostItem,
@@ -81,6 +83,7 @@ import {
     RedditEntity,
     RedditEntityType,
     RelativeDateTimeMatch,
+    RunnableCondition,
     statFrequencies,
     StatisticFrequency,
     StatisticFrequencyOption,
@@ -492,15 +495,19 @@ export const isRuleSetResult = (obj: any): obj is RuleSetResult => {
     return typeof obj === 'object' && Array.isArray(obj.results) && obj.condition !== undefined && obj.triggered !== undefined;
 }
 
-export const resultsSummary = (results: (RuleResultEntity|RuleSetResult)[], topLevelCondition: 'OR' | 'AND'): string => {
+export const resultsSummary = (results: (RuleResultEntity|RuleSetResult)[], topLevelCondition: RunnableCondition): string => {
     const parts: string[] = results.map((x) => {
         if(isRuleSetResult(x)) {
+            if(x.score !== undefined) {
+                return `${triggeredIndicator(x.triggered)} (${resultsSummary(x.results, x.condition)} = ${x.score} [${x.condition}])`;
+            }
             return `${triggeredIndicator(x.triggered)} (${resultsSummary(x.results, x.condition)}${x.results.length === 1 ? ` [${x.condition}]` : ''})`;
         }
         const res = x as RuleResultEntity;
         return `${triggeredIndicator(res.triggered ?? null)} ${RulePremise.getFriendlyIdentifier(res.premise)}`;
     });
-    return parts.join(` ${topLevelCondition} `)
+    // score conditions sum the weights of all results
+    return parts.join(topLevelCondition === 'OR' || topLevelCondition === 'AND' ? ` ${topLevelCondition} ` : ' + ')
     //return results.map(x => x.name || x.premise.kind).join(' | ')
 }
 
@@ -814,6 +821,17 @@ export const matchesRelativeDateTime = (expr: RelativeDateTimeMatch, dt: Dayjs)
     return cronjs.isTimeMatches(res.named.cron, dt.set('second', 0).toISOString());
 }
 
+/**
+ * Returns true if the expression is a day of the week (rather than a cron expression)
+ * */
+export const isDayOfWeekRelativeDateTime = (expr: RelativeDateTimeMatch) => {
+    const res = parseRegexSingleOrFail(RELATIVE_DATETIME_REGEX, expr);
+    if (res === undefined) {
+        throw new InvalidRegexError(RELATIVE_DATETIME_REGEX, expr, RELATIVE_DATETIME_REGEX_URL);
+    }
+    return res.named.dayofweek !== undefined;
+}
+
 const SUBREDDIT_NAME_REGEX: RegExp = /^\s*(?:\/r\/|r\/)*(\w+)*\s*$/;
 const SUBREDDIT_NAME_REGEX_URL = 'https://regexr.com/61a1d';
 export const parseSubredditName = (val:string): string => {
@@ -1444,6 +1462,11 @@ export const pollingInfo = (opt: PollingOptionsStrong) => {
     return `${opt.pollOn.toUpperCase()} every ${opt.interval} seconds${opt.delayUntil !== undefined ? ` | wait until Activity is ${opt.delayUntil} seconds old` : ''} | maximum of ${opt.limit} Activities`
 }
 
+export const scheduleInfo = (opt: ScheduleOptions) => {
+    const on = Array.isArray(opt.on) ? opt.on : [opt.on];
+    return `${opt.name} on ${on.join(' OR ')} (UTC) | ${opt.listing.toUpperCase()}${opt.listing === 'top' ? ` (${opt.time})` : ''} | maximum of ${opt.limit} Activities${opt.checks !== undefined ? ` | Checks: ${opt.checks.join(', ')}` : ''}${opt.goto !== undefined ? ` | goto ${opt.goto}` : ''}`
+}
+
 export const totalFromMapStats = (val: Map<any, number>): number => {
     return Array.from(val.entries()).reduce((acc: number, [k, v]) => {
         return acc + v;
@@ -2405,6 +2428,31 @@ export const stringSameness = (valA: string, valB: string, options?: StringCompa
     }
 }
 
+/**
+ * The highest `highScoreWeighted` that stringSameness could return for two strings, without calculating Levenshtein distance
+ *
+ * Levenshtein distance is expensive for long strings so this can be used to skip comparing strings that cannot be similar enough
+ * */
+export const stringSamenessUpperBound = (valA: string, valB: string, options?: StringComparisonOptions): number => {
+
+    const {
+        transforms = defaultStrCompareTransformFuncs,
+    } = options || {};
+
+    const cleanA = transforms.reduce((acc, curr) => curr(acc), valA);
+    const cleanB = transforms.reduce((acc, curr) => curr(acc), valB);
+
+    const shortest = cleanA.length > cleanB.length ? cleanB : cleanA;
+    const longest = cleanA.length > cleanB.length ? cleanA : cleanB;
+
+    const dice = stringSimilarity.compareTwoStrings(cleanA, cleanB) * 100;
+    const cosine = calculateCosineSimilarity(cleanA, cleanB) * 100;
+    // distance is at least the difference in length so similarity can be at most the ratio of the lengths
+    const levenMax = longest.length === 0 ? 100 : (shortest.length / longest.length) * 100;
+
+    return ((dice + cosine + levenMax) / 3) + Math.min(sentenceLengthWeight(shortest.length), 15);
+}
+
 // https://stackoverflow.com/a/18679657/1469797
 export const wordCount = (str: string): number => {
     return str.split(' ')
@@ -2766,13 +2814,14 @@ export const isCommentState = (state: TypedActivityState): state is CommentState
 const DISPATCH_REGEX: RegExp = /^dispatch:/i;
 const POLL_REGEX: RegExp = /^poll:/i;
 const USER_REGEX: RegExp = /^user:/i;
-const ACTIVITY_SOURCE_REGEX: RegExp = /^(?<type>dispatch|poll|user)(?:$|:(?<identifier>[^\s\r\n]+)$)/i
+const SCHEDULE_REGEX: RegExp = /^schedule:/i;
+const ACTIVITY_SOURCE_REGEX: RegExp = /^(?<type>dispatch|poll|user|schedule)(?:$|:(?<identifier>[^\s\r\n]+)$)/i
 const ACTIVITY_SOURCE_REGEX_URL = 'https://regexr.com/6uqn6';
 export const asActivitySourceValue = (val: string): val is ActivitySourceValue => {
-    if(['dispatch','poll','user'].some(x => x === val)) {
+    if(['dispatch','poll','user','schedule'].some(x => x === val)) {
         return true;
     }
-    return DISPATCH_REGEX.test(val) || POLL_REGEX.test(val) || USER_REGEX.test(val);
+    return DISPATCH_REGEX.test(val) || POLL_REGEX.test(val) || USER_REGEX.test(val) || SCHEDULE_REGEX.test(val);
 }
 
 export const asActivitySource = (val: any): val is ActivitySourceData => {
@@ -2791,7 +2840,7 @@ export const strToActivitySourceData = (val: string): ActivitySourceData => {
             identifier: res.named.identifier
         }
     }
-    throw new SimpleError(`'${cleanStr}' is not a valid ActivitySource. Must be one of: dispatch, dispatch:[identifier], poll, poll:[identifier], user, or user:[identifier]`);
+    throw new SimpleError(`'${cleanStr}' is not a valid ActivitySource. Must be one of: dispatch, dispatch:[identifier], poll, poll:[identifier], user, user:[identifier], schedule, or schedule:[identifier]`);
 }
 
 export const prefixToReddThingType = (prefix: string): FullNameTypes => {
@@ -3098,3 +3147,71 @@ export const toPollOn = (val: string | PollOn): PollOn => {
     }
     throw new SimpleError(`'${val}' is not a valid polling source. Valid sources: ${pollOnTypes.join(' | ')}`);
 }
+
+// ranges that are not publicly routable, as [base address, prefix length]
+const nonPublicIPv4Ranges: [string, number][] = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+];
+
+const ipv4ToNumber = (ip: string): number => ip.split('.').reduce((acc, x) => (acc * 256) + parseInt(x), 0);
+
+const isNonPublicIPv4 = (ip: string): boolean => {
+    const val = ipv4ToNumber(ip);
+    return nonPublicIPv4Ranges.some(([base, prefix]) => {
+        const size = 2 ** (32 - prefix);
+        return Math.floor(val / size) === Math.floor(ipv4ToNumber(base) / size);
+    });
+}
+
+/**
+ * Expand an IPv6 address into its 8 (numeric) groups
+ * */
+const ipv6ToGroups = (ip: string): number[] => {
+    let addr = ip.toLowerCase().split('%')[0];
+    const embeddedV4 = addr.match(/(\d+\.\d+\.\d+\.\d+)$/);
+    if (embeddedV4 !== null) {
+        const val = ipv4ToNumber(embeddedV4[1]);
+        addr = `${addr.slice(0, -embeddedV4[1].length)}${Math.floor(val / 65536).toString(16)}:${(val % 65536).toString(16)}`;
+    }
+    const [head, tail] = addr.split('::');
+    const headGroups = head === '' ? [] : head.split(':');
+    const tailGroups = tail === undefined || tail === '' ? [] : tail.split(':');
+    const fill = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill('0');
+    return [...headGroups, ...fill, ...tailGroups].map(x => parseInt(x, 16));
+}
+
+/**
+ * Returns true if the address is an IP that is private, loopback, link-local, or otherwise not publicly routable
+ *
+ * Hostnames (non-IP values) always return false. IPv6 addresses can be wrapped in brackets, as they are in URLs.
+ * */
+export const isNonPublicAddress = (address: string): boolean => {
+    const ip = address.replace(/^\[(.*)]$/, '$1');
+    switch (isIP(ip)) {
+        case 4:
+            return isNonPublicIPv4(ip);
+        case 6: {
+            const groups = ipv6ToGroups(ip);
+            // IPv4-mapped (::ffff:0:0/96) or NAT64 (64:ff9b::/96) addresses are checked as the IPv4 address they contain
+            if ((groups.slice(0, 5).every(x => x === 0) && groups[5] === 0xffff) || (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(x => x === 0))) {
+                return isNonPublicIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.'));
+            }
+            return groups.slice(0, 7).every(x => x === 0) // unspecified (::) and loopback (::1)
+                || (groups[0] & 0xfe00) === 0xfc00 // unique local
+                || (groups[0] & 0xffc0) === 0xfe80 // link-local
+                || (groups[0] & 0xff00) === 0xff00; // multicast
+        }
+        default:
+            return false;
+    }
+}
@@ -0,0 +1,739 @@
+import {after, before, describe, it} from 'mocha';
+import {assert} from 'chai';
+import EventEmitter from "events";
+import http from "http";
+import {AddressInfo} from "net";
+import dayjs from "dayjs";
+import dduration from 'dayjs/plugin/duration.js';
+import sameafter from 'dayjs/plugin/isSameOrAfter.js';
+import relTime from 'dayjs/plugin/relativeTime.js';
+import {RedditUser, Submission} from "snoowrap/dist/objects";
+import {SubredditResources} from "../src/Subreddit/SubredditResources";
+import {SubredditRemovalReason} from "../src/Common/Infrastructure/Reddit";
+import {NoopLogger} from "../src/Utils/loggerFactory";
+import {ExtendedSnoowrap} from "../src/Utils/SnoowrapClients";
+import Action, {ActionOptions, ActionRuntimeOptions} from "../src/Action";
+import BanAction from "../src/Action/BanAction";
+import WikiAction, {WikiEditMode} from "../src/Action/WikiAction";
+import ModmailDiscussionAction from "../src/Action/ModmailDiscussionAction";
+import ContributorAction from "../src/Action/ContributorAction";
+import ApproveAction, {ApproveRestoreStepResult} from "../src/Action/ApproveAction";
+import StateAction from "../src/Action/StateAction";
+import CrosspostAction from "../src/Action/CrosspostAction";
+import HttpAction from "../src/Action/HttpAction";
+import {UserFlairAction} from "../src/Action/UserFlairAction";
+import {ModNote} from "../src/Subreddit/ModNotes/ModNote";
+import {runCheckOptions} from "../src/Subreddit/Manager";
+import {sharedCache, stubResources} from "./testFactory";
+import {ActionProcessResult} from "../src/Common/interfaces";
+import {ActionTypes} from "../src/Common/Infrastructure/Atomic";
+import {RuleResultEntity} from "../src/Common/Entities/RuleResultEntity";
+import {ActionResultEntity} from "../src/Common/Entities/ActionResultEntity";
+
+dayjs.extend(dduration);
+dayjs.extend(sameafter);
+dayjs.extend(relTime);
+
+const client = new ExtendedSnoowrap({userAgent: 'test', accessToken: 'test'});
+
+const runOptions = (data: Partial<runCheckOptions> = {}) => ({dryRun: false, ...data} as runCheckOptions);
+
+const runtimeOptions = (resources: SubredditResources): ActionRuntimeOptions => ({
+    checkName: 'test',
+    subredditName: 'test',
+    client,
+    emitter: new EventEmitter(),
+    resources,
+    logger: NoopLogger,
+});
+
+/**
+ * Action that only counts how many times it has been processed
+ * */
+class CountingAction extends Action {
+    processed = 0;
+
+    getKind(): ActionTypes {
+        return 'approve';
+    }
+
+    async process(item: Submission, ruleResults: RuleResultEntity[], actionResults: ActionResultEntity[], options: runCheckOptions): Promise<ActionProcessResult> {
+        this.processed++;
+        return {dryRun: this.getRuntimeAwareDryrun(options), success: true};
+    }
+
+    protected getSpecificPremise(): object {
+        return {};
+    }
+}
+
+describe('Actions', function () {
+
+    describe('Remove', function () {
+        const reasons: SubredditRemovalReason[] = [
+            {id: '18vnxgqgwhfzh', title: 'Spam', message: 'Your post was removed for spam'},
+            {id: '18vnxvb9bmamz', title: 'Off Topic', message: 'Your post was off topic'},
+        ];
+        const resources = stubResources({getSubredditRemovalReasons: async () => reasons});
+
+        it('should find removal reason by ID', async function () {
+            assert.equal((await resources.getSubredditRemovalReasonByIdOrTitle('18vnxvb9bmamz'))?.title, 'Off Topic');
+        });
+        it('should find removal reason by title case-insensitive', async function () {
+            assert.equal((await resources.getSubredditRemovalReasonByIdOrTitle(' off topic '))?.id, '18vnxvb9bmamz');
+        });
+        it('should return undefined when no removal reason matches', async function () {
+            assert.isUndefined(await resources.getSubredditRemovalReasonByIdOrTitle('Rule 5'));
+        });
+    });
+
+    describe('Approve', function () {
+        const resources = stubResources({resetCacheForItem: async () => undefined});
+
+        /**
+         * Comment on a Submission that records which moderation methods were called on it
+         * */
+        const restorableComment = (data: object = {}) => {
+            const calls: string[] = [];
+            const comment: any = {
+                name: 't1_abc',
+                parent_id: 't3_xyz',
+                approved: false,
+                num_reports: 0,
+                ignore_reports: false,
+                locked: false,
+                approve: async () => calls.push('approve'),
+                ignoreReports: async () => calls.push('ignoreReports'),
+                unlock: async () => calls.push('unlock'),
+                ...data
+            };
+            return {comment, calls};
+        }
+        const stepResults = (result: ActionProcessResult) => (result.data.steps as ApproveRestoreStepResult[]).map(x => `${x.step}: ${x.result}`);
+
+        it('should only include restore in premise when used', function () {
+            assert.deepEqual(new ApproveAction({...runtimeOptions(resources)}).getPremise().config, {targets: ['self']});
+            assert.deepEqual(new ApproveAction({restore: {unlock: false}, ...runtimeOptions(resources)}).getPremise().config, {
+                targets: ['self'],
+                restore: {ignoreReports: true, restoreParents: true, unlock: false}
+            });
+        });
+        it('should approve, ignore reports and unlock when restoring', async function () {
+            const {comment, calls} = restorableComment({locked: true});
+            const result = await new ApproveAction({restore: true, ...runtimeOptions(resources)}).process(comment, [], [], runOptions());
+            assert.isTrue(result.success);
+            assert.deepEqual(calls, ['approve', 'ignoreReports', 'unlock']);
+            assert.deepEqual(stepResults(result), ['Approve: Approved', 'Ignore Reports: Ignoring reports', 'Unlock: Unlocked', 'Restore Parents: No removed parent Comments']);
+        });
+        it('should approve an already approved Activity again when it has reports', async function () {
+            const {comment, calls} = restorableComment({approved: true, num_reports: 2, ignore_reports: true});
+            const result = await new ApproveAction({restore: true, ...runtimeOptions(resources)}).process(comment, [], [], runOptions());
+            assert.deepEqual(calls, ['approve']);
+            assert.include(stepResults(result), 'Approve: Approved, clearing 2 report(s)');
+        });
+        it('should not approve an already approved Activity without reports', async function () {
+            const {comment, calls} = restorableComment({approved: true});
+            const result = await new ApproveAction({restore: {ignoreReports: false}, ...runtimeOptions(resources)}).process(comment, [], [], runOptions());
+            assert.lengthOf(calls, 0);
+            assert.include(stepResults(result), 'Approve: Already approved');
+        });
+        it('should record failed steps and continue restoring', async function () {
+            const {comment, calls} = restorableComment({
+                locked: true,
+                ignoreReports: async () => {
+                    throw new Error('Forbidden');
+                }
+            });
+            const result = await new ApproveAction({restore: true, ...runtimeOptions(resources)}).process(comment, [], [], runOptions());
+            assert.isFalse(result.success);
+            assert.deepEqual(calls, ['approve', 'unlock']);
+            assert.include(stepResults(result), 'Ignore Reports: Forbidden');
+        });
+        it('should not modify Activity on dry run', async function () {
+            const {comment, calls} = restorableComment({locked: true, num_reports: 1});
+            const result = await new ApproveAction({restore: true, ...runtimeOptions(resources)}).process(comment, [], [], runOptions({dryRun: true}));
+            assert.isTrue(result.dryRun);
+            assert.lengthOf(calls, 0);
+        });
+    });
+
+    describe('State', function () {
+        const resources = stubResources({resetCacheForItem: async () => undefined});
+
+        /**
+         * Activity that records which moderation methods were called on it, and with what arguments
+         * */
+        const recordingActivity = (name: string, data: object = {}) => {
+            const calls: string[] = [];
+            const record = (method: string) => async (...args: any[]) => calls.push(args.length === 0 ? method : `${method} ${JSON.stringify(args[0])}`);
+            const activity: any = {
+                name,
+                distinguished: null,
+                stickied: false,
+                over_18: false,
+                spoiler: false,
+                contest_mode: false,
+                suggested_sort: null,
+                ignore_reports: false,
+                ...['distinguish', 'undistinguish', 'sticky', 'unsticky', 'markNsfw', 'unmarkNsfw', 'markSpoiler', 'unmarkSpoiler', 'enableContestMode', 'disableContestMode', 'setSuggestedSort', 'ignoreReports', 'unignoreReports']
+                    .reduce((acc, method) => ({...acc, [method]: record(method)}), {}),
+                ...data
+            };
+            return {activity, calls};
+        }
+
+        it('should throw if no state is specified', function () {
+            assert.throws(() => new StateAction({...runtimeOptions(resources)}));
+        });
+        it('should throw if suggested sort is not valid', function () {
+            assert.throws(() => new StateAction({suggestedSort: 'best' as any, ...runtimeOptions(resources)}));
+        });
+        it('should only apply changes the Submission does not already have', async function () {
+            const {activity, calls} = recordingActivity('t3_abc', {over_18: true});
+            const result = await new StateAction({sticky: true, nsfw: true, suggestedSort: 'new', ...runtimeOptions(resources)}).process(activity, [], [], runOptions());
+            assert.deepEqual(calls, ['sticky', 'setSuggestedSort "new"']);
+            assert.equal(result.result, 'Item => Sticky, Suggested Sort new');
+            assert.isTrue(activity.stickied);
+        });
+        it('should distinguish a Comment to sticky it', async function () {
+            const {activity, calls} = recordingActivity('t1_abc');
+            await new StateAction({sticky: true, ...runtimeOptions(resources)}).process(activity, [], [], runOptions());
+            assert.deepEqual(calls, ['distinguish {"status":true,"sticky":true}']);
+        });
+        it('should ignore Submission only states on a Comment', async function () {
+            const {activity, calls} = recordingActivity('t1_abc');
+            await new StateAction({nsfw: true, ignoreReports: true, ...runtimeOptions(resources)}).process(activity, [], [], runOptions());
+            assert.deepEqual(calls, ['ignoreReports']);
+        });
+        it('should not change an Activity that already has the requested state', async function () {
+            const {activity, calls} = recordingActivity('t3_abc', {stickied: true, ignore_reports: true});
+            const result = await new StateAction({sticky: true, ignoreReports: true, ...runtimeOptions(resources)}).process(activity, [], [], runOptions());
+            assert.lengthOf(calls, 0);
+            assert.equal(result.result, 'Item already has requested state');
+        });
+        it('should not change an Activity on dry run', async function () {
+            const {activity, calls} = recordingActivity('t3_abc');
+            const result = await new StateAction({spoiler: true, ...runtimeOptions(resources)}).process(activity, [], [], runOptions({dryRun: true}));
+            assert.lengthOf(calls, 0);
+            assert.equal(result.result, 'Item => Mark Spoiler');
+        });
+    });
+
+    describe('Crosspost', function () {
+
+        /**
+         * Resources whose subreddits record what was submitted to them
+         * */
+        const submittingResources = () => {
+            const submitted: { type: string, subreddit: string, opts: any }[] = [];
+            const resources = stubResources({
+                renderContent: async (template: string) => template,
+                setRecentSelf: async () => undefined,
+                getSubreddit: async (name: string) => {
+                    const submit = (type: string) => async (opts: any) => {
+                        submitted.push({type, subreddit: name, opts});
+                        return {name: `t3_${type}`, can_mod_post: false};
+                    };
+                    return {display_name: name, submitCrosspost: submit('crosspost'), submitLink: submit('link')};
+                }
+            });
+            return {resources, submitted};
+        }
+        const submission = (data: object = {}): any => ({name: 't3_abc', permalink: '/r/test/comments/abc/title/', is_crosspostable: true, ...data});
+
+        it('should throw if no targets are specified', function () {
+            const {resources} = submittingResources();
+            assert.throws(() => new CrosspostAction({targets: [], ...runtimeOptions(resources)}));
+        });
+        it('should crosspost a Submission to each target', async function () {
+            const {resources, submitted} = submittingResources();
+            const result = await new CrosspostAction({targets: 'mealtimevideos', title: 'A title', ...runtimeOptions(resources)}).process(submission(), [], [], runOptions());
+            assert.isTrue(result.success);
+            assert.lengthOf(submitted, 1);
+            assert.equal(submitted[0].type, 'crosspost');
+            assert.equal(submitted[0].subreddit, 'mealtimevideos');
+            assert.equal(submitted[0].opts.originalPost, 't3_abc');
+            assert.equal(submitted[0].opts.title, 'A title');
+        });
+        it('should submit a link when Submission cannot be crossposted', async function () {
+            const {resources, submitted} = submittingResources();
+            await new CrosspostAction({targets: 'mealtimevideos', ...runtimeOptions(resources)}).process(submission({is_crosspostable: false}), [], [], runOptions());
+            assert.equal(submitted[0].type, 'link');
+            assert.equal(submitted[0].opts.url, 'https://reddit.com/r/test/comments/abc/title/');
+        });
+        it('should submit a link when asLink is true', async function () {
+            const {resources, submitted} = submittingResources();
+            await new CrosspostAction({targets: 'mealtimevideos', asLink: true, ...runtimeOptions(resources)}).process(submission(), [], [], runOptions());
+            assert.equal(submitted[0].type, 'link');
+        });
+        it('should submit a link to a Comment permalink', async function () {
+            const {resources, submitted} = submittingResources();
+            await new CrosspostAction({targets: 'mealtimevideos', ...runtimeOptions(resources)}).process({name: 't1_abc', permalink: '/r/test/comments/abc/title/def/'} as any, [], [], runOptions());
+            assert.equal(submitted[0].type, 'link');
+            assert.equal(submitted[0].opts.url, 'https://reddit.com/r/test/comments/abc/title/def/');
+            assert.isUndefined(submitted[0].opts.text);
+        });
+        it('should not submit on dry run', async function () {
+            const {resources, submitted} = submittingResources();
+            const result = await new CrosspostAction({targets: 'mealtimevideos', ...runtimeOptions(resources)}).process(submission(), [], [], runOptions({dryRun: true}));
+            assert.isTrue(result.success);
+            assert.lengthOf(submitted, 0);
+        });
+    });
+
+    describe('HTTP', function () {
+        const received: { method?: string, url?: string, headers: http.IncomingHttpHeaders, body: string }[] = [];
+        let server: http.Server;
+        let origin: string;
+
+        before(function (done) {
+            server = http.createServer((req, res) => {
+                let body = '';
+                req.on('data', (chunk) => body += chunk);
+                req.on('end', () => {
+                    received.push({method: req.method, url: req.url, headers: req.headers, body});
+                    if (req.url === '/api/redirect') {
+                        res.writeHead(302, {location: '/other/path'});
+                        return res.end();
+                    }
+                    res.writeHead(200, {'content-type': 'application/json'});
+                    res.end(JSON.stringify({data: {ticketId: 42}}));
+                });
+            });
+            server.listen(0, '127.0.0.1', () => {
+                origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+                done();
+            });
+        });
+        after(function (done) {
+            server.close(done);
+        });
+
+        const httpResources = (httpAction: object = {}) => stubResources({
+            renderContent: async (template: string) => template,
+            httpAction: {enable: true, allowedHosts: [], allowPrivateAddresses: true, ...httpAction},
+            getThirdPartyCredentials: () => ({
+                ticketing: {urlPrefix: `${origin}/api`, headers: {Authorization: 'Bearer secret'}},
+            }),
+        });
+        const processHttp = (resources: SubredditResources, options: object, data: Partial<runCheckOptions> = {}) =>
+            new HttpAction({url: `${origin}/api/reports`, ...options, ...runtimeOptions(resources)} as any).process({name: 't3_abc'} as any, [], [], runOptions(data));
+
+        const rejection = async (promise: Promise<any>): Promise<Error> => {
+            try {
+                await promise;
+            } catch (e: any) {
+                return e;
+            }
+            assert.fail('Expected HTTP Action to throw');
+        }
+
+        it('should throw if url is not specified', function () {
+            assert.throws(() => new HttpAction({url: ' ', ...runtimeOptions(httpResources())}));
+        });
+        it('should not send a request when HTTP Actions are not enabled', async function () {
+            received.length = 0;
+            assert.match((await rejection(processHttp(httpResources({enable: false}), {}))).message, /not been enabled/);
+            assert.lengthOf(received, 0);
+        });
+        it('should not send a request to a host that is not allowed', async function () {
+            assert.match((await rejection(processHttp(httpResources({allowedHosts: ['example.com']}), {}))).message, /not allowed/);
+        });
+        it('should not send a request to a private address unless allowed', async function () {
+            assert.match((await rejection(processHttp(httpResources({allowPrivateAddresses: false}), {}))).message, /private, loopback, or link-local/);
+        });
+        it('should not send a request on dry run', async function () {
+            received.length = 0;
+            const result = await processHttp(httpResources(), {}, {dryRun: true});
+            assert.isTrue(result.dryRun);
+            assert.equal(result.result, `POST ${origin}/api/reports`);
+            assert.lengthOf(received, 0);
+        });
+        it('should send rendered payload and get response field', async function () {
+            received.length = 0;
+            const result = await processHttp(httpResources(), {payload: {author: 'TestUser'}, headers: {'X-Source': 'ContextMod'}, responseField: 'data.ticketId'});
+            assert.isTrue(result.success);
+            assert.equal(result.data?.status, 200);
+            assert.equal(result.data?.response, 42);
+            assert.lengthOf(received, 1);
+            assert.equal(received[0].method, 'POST');
+            assert.equal(received[0].headers['x-source'], 'ContextMod');
+            assert.deepEqual(JSON.parse(received[0].body), {author: 'TestUser'});
+        });
+        it('should add credential headers for a url under the credentials prefix', async function () {
+            received.length = 0;
+            await processHttp(httpResources(), {credentials: 'ticketing'});
+            assert.equal(received[0].headers.authorization, 'Bearer secret');
+        });
+        it('should not use credentials for a url outside the credentials prefix', async function () {
+            received.length = 0;
+            assert.match((await rejection(processHttp(httpResources(), {url: `${origin}/apiv2/reports`, credentials: 'ticketing'}))).message, /can only be used with URLs under/);
+            assert.match((await rejection(processHttp(httpResources(), {url: `http://localhost:${new URL(origin).port}/api/reports`, credentials: 'ticketing'}))).message, /can only be used with URLs under/);
+            assert.lengthOf(received, 0);
+        });
+        it('should throw if credentials do not exist', async function () {
+            assert.match((await rejection(processHttp(httpResources(), {credentials: 'missing'}))).message, /No HTTP credentials named 'missing'/);
+        });
+        it('should not send credentials to a redirect outside the credentials prefix', async function () {
+            received.length = 0;
+            assert.match((await rejection(processHttp(httpResources(), {url: `${origin}/api/redirect`, credentials: 'ticketing'}))).message, /failed/);
+            assert.deepEqual(received.map(x => x.url), ['/api/redirect']);
+        });
+    });
+
+    describe('Ban Escalation', function () {
+        const item = new Submission({author: 'TestUser'}, client, false);
+
+        /**
+         * Resources where the Author has prior strikes made the given number of days ago
+         * */
+        const strikeResources = (daysAgo: number[], criteria: object[] = []) => {
+            const strikes = daysAgo.map(x => ({createdAt: dayjs().subtract(x, 'days')}));
+            return stubResources({
+                getAuthorModNotesByActivityAuthor: async () => strikes,
+                filterAuthorModActions: (notes: any[], crit: object) => {
+                    criteria.push(crit);
+                    return [notes, notes];
+                },
+            });
+        }
+        const escalationAction = (resources: SubredditResources, window?: string) => new BanAction({
+            escalation: {
+                steps: [1, 7, 'permanent'],
+                window,
+            },
+            ...runtimeOptions(resources),
+        });
+
+        it('should throw if escalation has no steps', function () {
+            assert.throws(() => new BanAction({escalation: {steps: []}, ...runtimeOptions(strikeResources([]))}));
+        });
+        it('should use first step when author has no prior strikes', async function () {
+            const result = await escalationAction(strikeResources([])).resolveEscalation(item);
+            assert.deepEqual(result, {step: 1, totalSteps: 3, priorStrikes: 0, duration: 1});
+        });
+        it('should use the step after the number of prior strikes', async function () {
+            const result = await escalationAction(strikeResources([2])).resolveEscalation(item);
+            assert.equal(result.step, 2);
+            assert.equal(result.duration, 7);
+        });
+        it('should use the last step when prior strikes exceed steps and ban permanently', async function () {
+            const result = await escalationAction(strikeResources([1, 2, 3, 4, 5])).resolveEscalation(item);
+            assert.equal(result.step, 3);
+            assert.equal(result.priorStrikes, 5);
+            assert.isUndefined(result.duration);
+        });
+        it('should only count strikes within window', async function () {
+            const result = await escalationAction(strikeResources([5, 60, 90]), '30 days').resolveEscalation(item);
+            assert.equal(result.priorStrikes, 1);
+            assert.equal(result.duration, 7);
+        });
+        it('should count bans as strikes by default', async function () {
+            const criteria: object[] = [];
+            await escalationAction(strikeResources([], criteria)).resolveEscalation(item);
+            assert.deepEqual(criteria, [{type: 'BAN', action: '/^banuser$/i', search: 'total'}]);
+        });
+        it('should not count unbans as strikes by default', async function () {
+            const banNote = (id: string, action: string) => new ModNote({
+                subreddit: 'test',
+                subreddit_id: 't5_test',
+                user: 'TestUser',
+                user_id: 't2_test',
+                operator: 'TestMod',
+                operator_id: 't2_mod',
+                id,
+                created_at: dayjs().subtract(1, 'day').unix(),
+                type: 'BAN',
+                mod_action_data: {action},
+                user_note_data: {},
+            }, client);
+            const resources = stubResources({
+                getAuthorModNotesByActivityAuthor: async () => [banNote('1', 'unbanuser'), banNote('2', 'banuser')],
+            });
+            const result = await escalationAction(resources).resolveEscalation(item);
+            assert.equal(result.priorStrikes, 1);
+        });
+        it('should reset cached mod notes for the Author after banning', async function () {
+            const reset: string[] = [];
+            const resources = stubResources({
+                renderFooter: async () => '',
+                resetAuthorModNotesCache: async (author: RedditUser) => {
+                    reset.push(author.name);
+                },
+                resetCacheForItem: async () => undefined,
+            });
+            const bannedItem = new Submission({
+                author: new RedditUser({name: 'TestUser'}, client, false),
+                subreddit: {
+                    fetch: async () => ({banUser: async () => ({})}),
+                },
+            }, client, false);
+            await new BanAction({...runtimeOptions(resources)}).process(bannedItem, [], [], runOptions());
+            assert.deepEqual(reset, ['TestUser']);
+        });
+    });
+
+    describe('Wiki Blocks', function () {
+        const wikiAction = (mode: WikiEditMode, marker?: string) => new WikiAction({
+            page: 'banlog',
+            content: 'new',
+            mode,
+            marker,
+            ...runtimeOptions(stubResources({})),
+        });
+
+        it('should append and prepend with separator', function () {
+            assert.equal(wikiAction('append').applyBlock('existing', 'new'), 'existing\n\nnew');
+            assert.equal(wikiAction('prepend').applyBlock('existing', 'new'), 'new\n\nexisting');
+        });
+        it('should not add separator to an empty page', function () {
+            assert.equal(wikiAction('append').applyBlock('  ', 'new'), 'new');
+            assert.equal(wikiAction('prepend').applyBlock('', 'new'), 'new');
+        });
+        it('should replace whole page when there is no marker', function () {
+            assert.equal(wikiAction('replace').applyBlock('existing', 'new'), 'new');
+        });
+        it('should add marked block to the end of the page when it does not exist', function () {
+            assert.equal(wikiAction('replace', 'stats').applyBlock('existing', 'new'), 'existing\n\n[](#stats-start)\nnew\n[](#stats-end)');
+            assert.equal(wikiAction('replace', 'stats').applyBlock('', 'new'), '[](#stats-start)\nnew\n[](#stats-end)');
+        });
+        it('should replace only the marked block', function () {
+            const existing = 'before\n[](#stats-start)\nold\n[](#stats-end)\nafter';
+            assert.equal(wikiAction('replace', 'stats').applyBlock(existing, 'new'), 'before\n[](#stats-start)\nnew\n[](#stats-end)\nafter');
+        });
+        it('should not replace blocks with a different marker', function () {
+            const existing = '[](#other-start)\nold\n[](#other-end)';
+            assert.equal(wikiAction('replace', 'stats').applyBlock(existing, 'new'), `${existing}\n\n[](#stats-start)\nnew\n[](#stats-end)`);
+        });
+    });
+
+    describe('Modmail', function () {
+        const item = new Submission({name: 't3_test', author: new RedditUser({name: 'TestUser'}, client, false)}, client, false);
+
+        /**
+         * A client that records modmail discussions created and replies made
+         * */
+        const modmailClient = () => {
+            const created: string[] = [];
+            const replies: string[] = [];
+            const conversation = (id: string) => ({
+                id,
+                reply: async () => {
+                    replies.push(id);
+                },
+            });
+            const stub = {
+                createModmailDiscussion: async () => {
+                    const id = `conv${created.length + 1}`;
+                    created.push(id);
+                    return conversation(id);
+                },
+                getNewModmailConversation: async (id: string) => conversation(id),
+            };
+            return {created, replies, client: stub as unknown as ExtendedSnoowrap};
+        }
+        const modmailResources = (cache = sharedCache(), subreddit = 'test') => stubResources({
+            cache,
+            subreddit: {display_name: subreddit},
+            renderContent: async (template: string) => template,
+        });
+        const modmailAction = (resources: SubredditResources, client: ExtendedSnoowrap, name?: string) => new ModmailDiscussionAction({
+            name,
+            append: true,
+            ...runtimeOptions(resources),
+            client,
+        });
+
+        it('should append to the discussion it created for the same Author', async function () {
+            const {created, replies, client: modClient} = modmailClient();
+            const action = modmailAction(modmailResources(), modClient);
+            await action.process(item, [], [], runOptions());
+            const result = await action.process(item, [], [], runOptions());
+            assert.deepEqual(created, ['conv1']);
+            assert.deepEqual(replies, ['conv1']);
+            assert.equal(result.data.conversationId, 'conv1');
+        });
+        it('should not append to a discussion created by a different modmail Action', async function () {
+            const {created, replies, client: modClient} = modmailClient();
+            const resources = modmailResources();
+            await modmailAction(resources, modClient, 'escalate').process(item, [], [], runOptions());
+            await modmailAction(resources, modClient, 'spam').process(item, [], [], runOptions());
+            assert.deepEqual(created, ['conv1', 'conv2']);
+            assert.isEmpty(replies);
+        });
+        it('should not append to a discussion created in a different subreddit using the same cache', async function () {
+            const {created, replies, client: modClient} = modmailClient();
+            const cache = sharedCache();
+            await modmailAction(modmailResources(cache, 'SubA'), modClient).process(item, [], [], runOptions());
+            await modmailAction(modmailResources(cache, 'SubB'), modClient).process(item, [], [], runOptions());
+            assert.deepEqual(created, ['conv1', 'conv2']);
+            assert.isEmpty(replies);
+        });
+    });
+
+    describe('Undo', function () {
+
+        describe('Contributor', function () {
+            /**
+             * Resources for a subreddit that records contributors added and removed
+             * */
+            const contributorResources = (cache = sharedCache(), subreddit = 'test', contributors: string[] = []) => {
+                const resources = stubResources({
+                    cache,
+                    subreddit: {
+                        display_name: subreddit,
+                        addContributor: async ({name}: { name: string }) => {
+                            contributors.push(name);
+                        },
+                        removeContributor: async ({name}: { name: string }) => {
+                            contributors.splice(contributors.indexOf(name), 1);
+                        },
+                    },
+                    getSubredditContributors: async () => contributors.map(name => ({name})),
+                    addUserToSubredditContributorsCache: async () => undefined,
+                    removeUserFromSubredditContributorsCache: async () => undefined,
+                });
+                return {resources, contributors};
+            }
+            const item = new Submission({author: new RedditUser({name: 'TestUser'}, client, false)}, client, false);
+
+            it('should fail when there is nothing to undo', async function () {
+                const {resources} = contributorResources();
+                const result = await new ContributorAction({action: 'undo', ...runtimeOptions(resources)}).process(item, [], [], runOptions());
+                assert.isFalse(result.success);
+            });
+            it('should reverse the last contributor Action', async function () {
+                const {resources, contributors} = contributorResources();
+                await new ContributorAction({action: 'add', ...runtimeOptions(resources)}).process(item, [], [], runOptions());
+                assert.deepEqual(contributors, ['TestUser']);
+                const result = await new ContributorAction({action: 'undo', ...runtimeOptions(resources)}).process(item, [], [], runOptions());
+                assert.isTrue(result.success);
+                assert.isEmpty(contributors);
+            });
+            it('should not undo an Action made in a different subreddit using the same cache', async function () {
+                const cache = sharedCache();
+                const subA = contributorResources(cache, 'SubA');
+                const subB = contributorResources(cache, 'SubB', ['TestUser']);
+                await new ContributorAction({action: 'add', ...runtimeOptions(subA.resources)}).process(item, [], [], runOptions());
+                const result = await new ContributorAction({action: 'undo', ...runtimeOptions(subB.resources)}).process(item, [], [], runOptions());
+                assert.isFalse(result.success);
+                assert.deepEqual(subB.contributors, ['TestUser']);
+            });
+        });
+
+        describe('User Flair', function () {
+            /**
+             * An Activity whose Author's flair assignments are recorded
+             * */
+            const flairItem = (flair: { text?: string, css?: string } = {}) => {
+                const assigned: object[] = [];
+                const author = new RedditUser({name: 'TestUser'}, client, false);
+                // @ts-ignore
+                author.assignFlair = async (data: object) => {
+                    assigned.push(data);
+                };
+                const item = new Submission({
+                    author,
+                    subreddit: {display_name: 'test'},
+                    author_flair_text: flair.text ?? null,
+                    author_flair_css_class: flair.css ?? null,
+                    author_flair_template_id: null,
+                }, client, false);
+                return {item, assigned};
+            }
+            const flairResources = () => stubResources({
+                cache: sharedCache(),
+                subreddit: {display_name: 'test'},
+                renderContent: async (template: string) => template,
+                resetCacheForItem: async () => undefined,
+            });
+
+            it('should restore the flair the Author had before it was changed', async function () {
+                const resources = flairResources();
+                const {item, assigned} = flairItem({text: 'Regular', css: 'regular'});
+                await new UserFlairAction({text: 'Warned', css: 'warned', ...runtimeOptions(resources)}).process(item, [], [], runOptions());
+                await new UserFlairAction({undo: true, ...runtimeOptions(resources)}).process(item, [], [], runOptions());
+                assert.deepEqual(assigned, [
+                    {subredditName: 'test', cssClass: 'warned', text: 'Warned'},
+                    {subredditName: 'test', cssClass: 'regular', text: 'Regular'},
+                ]);
+            });
+            it('should only undo once', async function () {
+                const resources = flairResources();
+                const {item} = flairItem({text: 'Regular'});
+                await new UserFlairAction({text: 'Warned', ...runtimeOptions(resources)}).process(item, [], [], runOptions());
+                await new UserFlairAction({undo: true, ...runtimeOptions(resources)}).process(item, [], [], runOptions());
+                const result = await new UserFlairAction({undo: true, ...runtimeOptions(resources)}).process(item, [], [], runOptions());
+                assert.isFalse(result.success);
+            });
+        });
+    });
+
+    describe('Throttle', function () {
+        const throttleResources = (cache = sharedCache(), subreddit = 'test') => stubResources({
+            cache,
+            subreddit: {display_name: subreddit},
+        });
+        const throttledAction = (resources: SubredditResources, options: Partial<ActionOptions> = {}) => new CountingAction({
+            throttle: {per: 'author', limit: 1, window: '1 hour'},
+            ...runtimeOptions(resources),
+            ...options,
+        });
+        const authorItem = (author: string, id = 't3_test') => new Submission({
+            name: id,
+            author: new RedditUser({name: author}, client, false)
+        }, client, false);
+
+        it('should not run again within the window once the limit is reached', async function () {
+            const action = throttledAction(throttleResources());
+            const first = await action.handle(authorItem('TestUser'), [], [], runOptions());
+            const second = await action.handle(authorItem('TestUser'), [], [], runOptions());
+            assert.isTrue(first.run);
+            assert.isFalse(second.run);
+            assert.include(second.runReason, 'Throttled');
+            assert.equal(action.processed, 1);
+        });
+        it('should run up to limit times within the window', async function () {
+            const action = throttledAction(throttleResources(), {throttle: {per: 'author', limit: 2, window: '1 hour'}});
+            for (let i = 0; i < 3; i++) {
+                await action.handle(authorItem('TestUser'), [], [], runOptions());
+            }
+            assert.equal(action.processed, 2);
+        });
+        it('should count runs separately for each throttle identifier', async function () {
+            const action = throttledAction(throttleResources());
+            await action.handle(authorItem('TestUser'), [], [], runOptions());
+            await action.handle(authorItem('OtherUser'), [], [], runOptions());
+            assert.equal(action.processed, 2);
+
+            const activityAction = throttledAction(throttleResources(), {throttle: {per: 'activity'}});
+            await activityAction.handle(authorItem('TestUser', 't3_first'), [], [], runOptions());
+            await activityAction.handle(authorItem('TestUser', 't3_second'), [], [], runOptions());
+            await activityAction.handle(authorItem('TestUser', 't3_second'), [], [], runOptions());
+            assert.equal(activityAction.processed, 2);
+        });
+        it('should not count runs that are outside the window', async function () {
+            const resources = throttleResources();
+            const action = throttledAction(resources);
+            const item = authorItem('TestUser');
+            // @ts-ignore
+            await resources.setActionThrottleHistory(action.getThrottleKey(item), [dayjs().subtract(2, 'hours').unix()], 3600);
+            await action.handle(item, [], [], runOptions());
+            assert.equal(action.processed, 1);
+        });
+        it('should not count dry runs', async function () {
+            const action = throttledAction(throttleResources());
+            await action.handle(authorItem('TestUser'), [], [], runOptions({dryRun: true}));
+            const result = await action.handle(authorItem('TestUser'), [], [], runOptions());
+            assert.isTrue(result.run);
+        });
+        it('should not share runs between subreddits using the same cache', async function () {
+            const cache = sharedCache();
+            const subA = throttledAction(throttleResources(cache, 'SubA'));
+            const subB = throttledAction(throttleResources(cache, 'SubB'));
+            await subA.handle(authorItem('TestUser'), [], [], runOptions());
+            await subB.handle(authorItem('TestUser'), [], [], runOptions());
+            assert.equal(subB.processed, 1);
+        });
+    });
+});
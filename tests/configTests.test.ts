@@ -0,0 +1,115 @@
+import {describe, it} from 'mocha';
+import {assert} from 'chai';
+import dayjs from "dayjs";
+import dduration from 'dayjs/plugin/duration.js';
+import {buildConfigTestFixtures, evaluateConfigTest} from "../src/Replay/ConfigTests";
+import {ReplayActivityResult} from "../src/Replay/index";
+
+dayjs.extend(dduration);
+
+const sampleResult = (data: Partial<ReplayActivityResult> = {}): ReplayActivityResult => ({
+    id: 't3_cmtest1',
+    kind: 'submission',
+    author: 'ConfigTest1Author',
+    processed: true,
+    triggered: true,
+    runs: [
+        {
+            name: 'FirstRun',
+            triggered: true,
+            checks: [
+                {
+                    name: 'spam check',
+                    triggered: true,
+                    rules: [],
+                    actions: [
+                        {name: 'Remove', kind: 'remove', run: true, dryRun: true, success: true},
+                        {name: 'Comment - explain removal', kind: 'comment', run: true, dryRun: true, success: true},
+                        {name: 'Report', kind: 'report', run: false, dryRun: true, success: false},
+                    ]
+                },
+                {
+                    name: 'other check',
+                    triggered: false,
+                    rules: [],
+                    actions: []
+                }
+            ]
+        },
+        {
+            name: 'SecondRun',
+            triggered: false,
+            checks: []
+        }
+    ],
+    ...data,
+});
+
+describe('Config Tests', function () {
+
+    describe('Fixtures', function () {
+        it('should include the bot as an author and moderator', function () {
+            const fixtures = buildConfigTestFixtures([{activity: {kind: 'submission'}, expect: {}}], 'ConfigTests');
+            const botName = fixtures.botName as string;
+            assert.isTrue((fixtures.authors as { [key: string]: any }[]).some(x => x.name === botName));
+            assert.include(fixtures.moderators as string[], botName);
+        });
+        it('should throw if a test has no valid activity kind', function () {
+            // @ts-ignore
+            assert.throws(() => buildConfigTestFixtures([{activity: {kind: 'message'}, expect: {}}], 'ConfigTests'));
+        });
+    });
+
+    describe('Evaluating results', function () {
+        it('should pass when there are no expectations', function () {
+            assert.isEmpty(evaluateConfigTest(undefined, sampleResult()));
+        });
+        it('should fail when activity was not processed', function () {
+            const failures = evaluateConfigTest({triggered: false}, sampleResult({processed: false, triggered: false}));
+            assert.deepEqual(failures, ['Activity was not processed']);
+        });
+        it('should fail when triggered does not match', function () {
+            assert.isEmpty(evaluateConfigTest({triggered: true}, sampleResult()));
+            assert.deepEqual(evaluateConfigTest({triggered: false}, sampleResult()), ['Expected Activity to NOT be triggered']);
+        });
+        it('should report errors from runs and checks', function () {
+            const result = sampleResult();
+            result.runs[1].error = 'Run broke';
+            result.runs[0].checks[1].error = 'Not enabled';
+            const failures = evaluateConfigTest({}, result);
+            assert.deepEqual(failures, ['Error while processing: Run broke']);
+        });
+
+        describe('Runs and Checks', function () {
+            it('should match triggered names ignoring case and non-word characters', function () {
+                assert.isEmpty(evaluateConfigTest({runs: ['firstrun'], checks: ['Spam Check']}, sampleResult()));
+            });
+            it('should fail when a triggered run is not expected', function () {
+                const failures = evaluateConfigTest({runs: []}, sampleResult());
+                assert.deepEqual(failures, ['Expected triggered Runs: None | Actual: FirstRun']);
+            });
+            it('should fail when an expected check did not trigger', function () {
+                const failures = evaluateConfigTest({checks: ['spam check', 'other check']}, sampleResult());
+                assert.deepEqual(failures, ['Expected triggered Checks: spam check, other check | Actual: spam check']);
+            });
+        });
+
+        describe('Actions', function () {
+            it('should match actions by kind', function () {
+                assert.isEmpty(evaluateConfigTest({actions: ['remove', 'comment']}, sampleResult()));
+            });
+            it('should match actions by full or custom name', function () {
+                assert.isEmpty(evaluateConfigTest({actions: ['Remove', 'Comment - explain removal']}, sampleResult()));
+                assert.isEmpty(evaluateConfigTest({actions: ['remove', 'explain removal']}, sampleResult()));
+            });
+            it('should not match actions that were not run', function () {
+                const failures = evaluateConfigTest({actions: ['remove', 'comment', 'report']}, sampleResult());
+                assert.deepEqual(failures, ['Expected Actions: remove, comment, report | Actual: Remove, Comment - explain removal']);
+            });
+            it('should fail when fewer actions are expected than were run', function () {
+                const failures = evaluateConfigTest({actions: ['remove']}, sampleResult());
+                assert.lengthOf(failures, 1);
+            });
+        });
+    });
+});
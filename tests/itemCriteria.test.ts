@@ -12,7 +12,7 @@ import weekOfYear from 'dayjs/plugin/weekOfYear.js';
 import {SubredditResources} from "../src/Subreddit/SubredditResources";
 import {NoopLogger} from '../src/Utils/loggerFactory';
 import {Subreddit, Comment, Submission} from 'snoowrap/dist/objects';
-import Snoowrap from "snoowrap";
+import Snoowrap, {ModAction} from "snoowrap";
 import {getResource, getSnoowrap, getSubreddit, sampleActivity} from "./testFactory";
 import {Subreddit as SubredditEntity} from "../src/Common/Entities/Subreddit";
 import {Activity} from '../src/Common/Entities/Activity';
@@ -348,5 +348,41 @@ describe('Item Criteria', function () {
 
         // TODO submissionState
     });
-});
 
+    describe('Mod Log criteria', function () {
+
+        const modLogEntry = (data: object = {}) => ({
+            action: 'removelink',
+            mod: 'AutoModerator',
+            details: 'Spam domain',
+            description: null,
+            target_fullname: 't3_abc123',
+            target_author: 'SpamUser',
+            ...data,
+        }) as ModAction;
+
+        it('Should pass when entry matches all criteria', function () {
+            assert.isEmpty(resource.testModLogEntry(modLogEntry(), {
+                action: ['removecomment', 'removelink'],
+                moderator: 'automod',
+                details: '/spam/i',
+                targetType: 'submission',
+                targetAuthor: 'spamuser',
+            }));
+        });
+        it('Should match action and moderator case-insensitive', function () {
+            assert.isEmpty(resource.testModLogEntry(modLogEntry({mod: 'SomeMod'}), {action: 'RemoveLink', moderator: ['somemod']}));
+            assert.deepEqual(resource.testModLogEntry(modLogEntry(), {action: 'approvelink', moderator: 'SomeMod'}), ['action', 'moderator']);
+        });
+        it('Should fail details and description when entry does not have them', function () {
+            assert.deepEqual(resource.testModLogEntry(modLogEntry({details: null}), {details: 'spam', description: 'anything'}), ['details', 'description']);
+        });
+        it('Should fail targetType when target is a different kind or missing', function () {
+            assert.deepEqual(resource.testModLogEntry(modLogEntry(), {targetType: 'comment'}), ['targetType']);
+            assert.deepEqual(resource.testModLogEntry(modLogEntry({target_fullname: null}), {targetType: 'submission'}), ['targetType']);
+        });
+        it('Should fail targetAuthor when entry has no target author', function () {
+            assert.deepEqual(resource.testModLogEntry(modLogEntry({target_author: null}), {targetAuthor: 'SpamUser'}), ['targetAuthor']);
+        });
+    });
+});
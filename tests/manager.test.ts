@@ -0,0 +1,262 @@
+import {describe, it} from 'mocha';
+import {assert} from 'chai';
+import dayjs from "dayjs";
+import dduration from 'dayjs/plugin/duration.js';
+import utc from 'dayjs/plugin/utc.js';
+import relTime from 'dayjs/plugin/relativeTime.js';
+import {Manager} from "../src/Subreddit/Manager";
+import {ScheduleOptions} from "../src/Common/interfaces";
+import {NoopLogger} from "../src/Utils/loggerFactory";
+import {sharedCache, stubResources} from "./testFactory";
+import {CMCache} from "../src/Common/Cache";
+import {Comment, Submission} from "snoowrap/dist/objects";
+import {ExtendedSnoowrap} from "../src/Utils/SnoowrapClients";
+import {SubredditResources} from "../src/Subreddit/SubredditResources";
+import EventEmitter from "events";
+import {RuleType} from "../src/Common/Entities/RuleType";
+import {ActionType} from "../src/Common/Entities/ActionType";
+
+dayjs.extend(dduration);
+dayjs.extend(utc);
+dayjs.extend(relTime);
+
+const client = new ExtendedSnoowrap({userAgent: 'test', accessToken: 'test'});
+
+/**
+ * A Manager with only the given properties replaced, so methods that depend on them can be tested without reddit
+ * */
+const stubManager = (props: object): Manager => Object.assign(Object.create(Manager.prototype), {logger: NoopLogger, ...props});
+
+describe('Manager', function () {
+
+    describe('Schedules', function () {
+        const everyMinute: ScheduleOptions = {name: 'cleanup', on: '* * * * *', listing: 'new'};
+
+        /**
+         * A Manager that records the names of Schedules run
+         * */
+        const scheduleManager = (schedules: ScheduleOptions[], cache = sharedCache(), subreddit = 'test', runDelay = 0) => {
+            const runs: string[] = [];
+            const manager = stubManager({
+                schedules,
+                checkingSchedules: false,
+                resources: stubResources({cache, subreddit: {display_name: subreddit}}),
+                runSchedule: async (schedule: ScheduleOptions) => {
+                    runs.push(schedule.name);
+                    await new Promise(resolve => setTimeout(resolve, runDelay));
+                },
+            });
+            return {manager, runs};
+        }
+
+        it('should run a matching Schedule', async function () {
+            const {manager, runs} = scheduleManager([everyMinute, {name: 'never', on: '0 0 31 2 *', listing: 'new'}]);
+            await manager.checkSchedules();
+            assert.deepEqual(runs, ['cleanup']);
+        });
+        it('should not run a Schedule again for the same minute', async function () {
+            const {manager, runs} = scheduleManager([everyMinute]);
+            await manager.checkSchedules();
+            await manager.checkSchedules();
+            assert.deepEqual(runs, ['cleanup']);
+        });
+        it('should not run a Schedule again for the same time when the run fails', async function () {
+            const {manager} = scheduleManager([everyMinute]);
+            let runCount = 0;
+            manager.runSchedule = async () => {
+                runCount++;
+                throw new Error('listing failed');
+            };
+            await manager.checkSchedules();
+            await manager.checkSchedules();
+            assert.equal(runCount, 1);
+        });
+        it('should not run a Schedule again while a slow run is in progress', async function () {
+            const {manager, runs} = scheduleManager([everyMinute], sharedCache(), 'test', 50);
+            await Promise.all([manager.checkSchedules(), manager.checkSchedules()]);
+            assert.deepEqual(runs, ['cleanup']);
+        });
+        it('should run Schedules with the same name in different subreddits using the same cache', async function () {
+            const cache: CMCache = sharedCache();
+            const subA = scheduleManager([everyMinute], cache, 'SubA');
+            const subB = scheduleManager([everyMinute], cache, 'SubB');
+            await subA.manager.checkSchedules();
+            await subB.manager.checkSchedules();
+            assert.deepEqual(subA.runs, ['cleanup']);
+            assert.deepEqual(subB.runs, ['cleanup']);
+        });
+    });
+
+    describe('Edited Activities', function () {
+        const editResources = () => stubResources({
+            cache: sharedCache(),
+            ttl: {selfTTL: 60},
+            subreddit: {display_name: 'test'},
+            getContent: async (val: string) => val,
+        });
+        const editManager = (resources: SubredditResources, pollOn = ['comments', 'edited'], storedContent?: string) => stubManager({
+            resources,
+            pollOptions: pollOn.map(x => ({pollOn: x})),
+            activityRepo: {
+                findOneBy: async () => storedContent === undefined ? null : {content: storedContent},
+            },
+        });
+        const comment = (body: string) => new Comment({
+            name: 't1_test',
+            body,
+            subreddit: {display_name: 'test'},
+            permalink: '/r/test/comments/abc/test/t1_test',
+            created: dayjs().unix(),
+        }, client, false);
+        const submission = (selftext: string) => new Submission({
+            name: 't3_test',
+            selftext,
+            title: 'Test',
+            subreddit: {display_name: 'test'},
+            permalink: '/r/test/comments/abc/test',
+            created: dayjs().unix(),
+        }, client, false);
+
+        it('should only snapshot content when edited polling is configured', async function () {
+            const resources = editResources();
+            await editManager(resources, ['comments']).snapshotActivityContent(comment('original'));
+            assert.isUndefined(await resources.getActivityContentSnapshot('t1_test'));
+            await editManager(resources).snapshotActivityContent(comment('original'));
+            assert.equal((await resources.getActivityContentSnapshot('t1_test'))?.body, 'original');
+        });
+        it('should not process an edit for an Activity that has not been processed before', async function () {
+            assert.isFalse(await editManager(editResources()).shouldProcessEdit(comment('edited')));
+        });
+        it('should not process an edit when content has not changed', async function () {
+            const resources = editResources();
+            const manager = editManager(resources);
+            await manager.snapshotActivityContent(comment('original'));
+            assert.isFalse(await manager.shouldProcessEdit(comment('original')));
+        });
+        it('should process an edit when content has changed', async function () {
+            const resources = editResources();
+            const manager = editManager(resources);
+            await manager.snapshotActivityContent(submission('original'));
+            assert.isTrue(await manager.shouldProcessEdit(submission('edited')));
+        });
+        it('should use stored Comment content when there is no snapshot', async function () {
+            assert.isTrue(await editManager(editResources(), ['edited'], 'original').shouldProcessEdit(comment('edited')));
+            assert.isFalse(await editManager(editResources(), ['edited'], 'edited').shouldProcessEdit(comment('edited')));
+        });
+        it('should keep the body from before the most recent edit as previousBody', async function () {
+            const resources = editResources();
+            const manager = editManager(resources);
+            await manager.snapshotActivityContent(comment('first'));
+            await manager.snapshotActivityContent(comment('second'));
+            await manager.snapshotActivityContent(comment('second'));
+            const snapshot = await resources.getActivityContentSnapshot('t1_test');
+            assert.equal(snapshot?.body, 'second');
+            assert.equal(snapshot?.previousBody, 'first');
+        });
+        it('should render previousBody in templates regardless of whitespace or sigils', async function () {
+            const resources = editResources();
+            const manager = editManager(resources);
+            await manager.snapshotActivityContent(comment('first'));
+            const item = comment('second');
+            await manager.snapshotActivityContent(item);
+            assert.equal(await resources.renderContent('Was: {{item.previousBody}}', item), 'Was: first');
+            assert.equal(await resources.renderContent('Was: {{ item.previousBody }}', item), 'Was: first');
+            assert.equal(await resources.renderContent('{{#item.previousBody}}Was: {{.}}{{/item.previousBody}}', item), 'Was: first');
+            assert.equal(await resources.renderContent('Was: {{{ item.previousBody }}}', item), 'Was: first');
+        });
+    });
+
+    describe('Config Preview', function () {
+        const proposedConfig = `
+checks:
+  - name: NoSpam
+    kind: comment
+    cacheUserResult:
+      enable: true
+    rules:
+      - kind: regex
+        criteria:
+          - regex: '/spam/i'
+    actions:
+      - kind: remove
+`;
+        const spamComment = () => new Comment({
+            name: 't1_test',
+            body: 'this is spam',
+            author: {name: 'TestUser'},
+            subreddit: {display_name: 'test'},
+            permalink: '/r/test/comments/abc/test/t1_test',
+            created: dayjs().unix(),
+        }, client, false);
+
+        /**
+         * A Manager with no Runs whose only actioned Event is for a Comment containing "spam"
+         *
+         * Records any entities or stats saved and any use of the Check result cache
+         * */
+        const previewManager = () => {
+            const saved: object[] = [];
+            const cacheUsed: string[] = [];
+            const resources = stubResources({
+                cache: sharedCache(),
+                subreddit: {display_name: 'test'},
+                managerEntity: {id: 'test'},
+                database: {
+                    getRepository: (entity: any) => ({
+                        // Rule/Action kinds always exist, everything else is new
+                        findOne: async ({where}: any) => [RuleType, ActionType].includes(entity) ? {id: 1, name: where.name} : null,
+                        save: async (entity: object) => {
+                            saved.push(entity);
+                            return entity;
+                        },
+                    }),
+                },
+                getActivity: async () => spamComment() as any,
+                getContent: async (val: string) => val,
+                getCommentCheckCacheResult: async () => {
+                    cacheUsed.push('get');
+                    return undefined;
+                },
+                setCommentCheckCacheResult: async () => {
+                    cacheUsed.push('set');
+                },
+                updateHistoricalStats: (data: object) => {
+                    saved.push(data);
+                },
+            });
+            const manager = stubManager({
+                resources,
+                subreddit: {display_name: 'test'},
+                managerEntity: {id: 'test'},
+                runs: [],
+                client: {getComment: (id: string) => ({name: id})},
+                processEmitter: new EventEmitter(),
+                initRepositories: () => undefined,
+                eventRepo: {
+                    find: async () => [{activity: {id: 't1_test'}}],
+                },
+            });
+            return {manager, saved, cacheUsed};
+        }
+
+        it('should report Activities that the proposed config would trigger on', async function () {
+            const {manager} = previewManager();
+            const result = await manager.previewConfigChange(proposedConfig);
+            assert.equal(result.processed, 1);
+            assert.equal(result.newlyTriggered, 1);
+            assert.equal(result.changed[0].id, 't1_test');
+            assert.isTrue(result.changed[0].proposed.triggered);
+            assert.isFalse(result.changed[0].current.triggered);
+        });
+        it('should not save entities or stats for the proposed config', async function () {
+            const {manager, saved} = previewManager();
+            await manager.previewConfigChange(proposedConfig);
+            assert.isEmpty(saved);
+        });
+        it('should not use cached Check results', async function () {
+            const {manager, cacheUsed} = previewManager();
+            await manager.previewConfigChange(proposedConfig);
+            assert.isEmpty(cacheUsed);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import {describe, it} from 'mocha';
+import {assert} from 'chai';
+import EventEmitter from "events";
+import Snoowrap from "snoowrap";
+import {ModmailConversation} from "snoowrap/dist/objects";
+import {NoopLogger} from "../src/Utils/loggerFactory";
+import {BoundedSet, ModmailStream} from "../src/Subreddit/Streams";
+import {ModmailCheck, ModmailCheckOptions} from "../src/Check/ModmailCheck";
+import {DEFAULT_POLLING_LIMIT, HistoricalStatsDisplay} from "../src/Common/interfaces";
+import {stubResources} from "./testFactory";
+
+const client = new Snoowrap({userAgent: 'test', accessToken: 'test'});
+
+const conversation = (data: object = {}): ModmailConversation => ({
+    id: 'abc',
+    subject: 'Why was my post removed?',
+    state: 0,
+    isHighlighted: false,
+    isInternal: false,
+    isAuto: false,
+    numMessages: 1,
+    participant: {name: 'TestUser'},
+    messages: [{author: {name: 'TestUser'}, body: 'Please help', bodyMarkdown: 'Please help', date: '2022-01-01T00:00:00Z'}],
+    ...data
+} as unknown as ModmailConversation);
+
+const modmailCheck = (options: Partial<ModmailCheckOptions> = {}) => {
+    const stats: Partial<HistoricalStatsDisplay>[] = [];
+    const resources = stubResources({
+        subreddit: {display_name: 'test'},
+        logger: NoopLogger,
+        ttl: {filterCriteriaTTL: false},
+        updateHistoricalStats: (data: Partial<HistoricalStatsDisplay>) => stats.push(data),
+    });
+    const check = new ModmailCheck({
+        name: 'test',
+        dryRun: true,
+        actions: [{kind: 'archive'}],
+        logger: NoopLogger,
+        subredditName: 'test',
+        resources,
+        client: client as any,
+        emitter: new EventEmitter(),
+        ...options,
+    });
+    return {check, stats};
+}
+
+describe('Modmail', function () {
+
+    describe('Polling', function () {
+        it('should forget least recently added values over the limit', function () {
+            const set = new BoundedSet<string>(2);
+            set.add('a').add('b').add('c');
+            assert.sameMembers([...set], ['b', 'c']);
+        });
+        it('should keep re-added values over the limit', function () {
+            const set = new BoundedSet<string>(2);
+            set.add('a').add('b').add('a').add('c');
+            assert.sameMembers([...set], ['a', 'c']);
+        });
+        it('should bound processed conversations', function () {
+            const stream = new ModmailStream(client, {subreddit: 'test', logger: NoopLogger});
+            assert.instanceOf(stream.processed, BoundedSet);
+            assert.equal((stream.processed as BoundedSet<any>).max, DEFAULT_POLLING_LIMIT * 10);
+        });
+    });
+
+    describe('Checks', function () {
+        it('should trigger and run actions when modmail criteria pass', async function () {
+            const {check} = modmailCheck({modmailIs: [{archived: false, participantIsAuthor: true}]});
+            const result = await check.handle(conversation());
+            assert.isTrue(result.triggered);
+            assert.lengthOf(result.actionResults, 1);
+            assert.isTrue(result.actionResults[0].dryRun);
+            assert.isTrue(result.actionResults[0].success);
+        });
+        it('should not trigger when modmail criteria fail', async function () {
+            const {check} = modmailCheck({modmailIs: [{archived: true}]});
+            const result = await check.handle(conversation());
+            assert.isFalse(result.triggered);
+            assert.lengthOf(result.actionResults, 0);
+        });
+        it('should test author filter against the participant', async function () {
+            const {check} = modmailCheck({authorIs: {include: [{criteria: {name: ['TestUser']}}]}});
+            const result = await check.handle(conversation());
+            assert.isTrue(result.triggered);
+            assert.isTrue(result.authorIs?.passed);
+        });
+        it('should not trigger when participant fails author filter', async function () {
+            const {check} = modmailCheck({authorIs: {include: [{criteria: {name: ['SomeoneElse']}}]}});
+            const result = await check.handle(conversation());
+            assert.isFalse(result.triggered);
+            assert.isFalse(result.authorIs?.passed);
+            assert.lengthOf(result.actionResults, 0);
+        });
+        it('should not trigger author filtered check when conversation has no participant', async function () {
+            const {check} = modmailCheck({authorIs: {exclude: [{criteria: {name: ['SomeoneElse']}}]}});
+            const result = await check.handle(conversation({participant: undefined}));
+            assert.isFalse(result.triggered);
+        });
+        it('should record check and action stats', async function () {
+            const {check, stats} = modmailCheck({modmailIs: [{archived: false}]});
+            await check.handle(conversation());
+            await check.handle(conversation({state: 2}));
+            assert.deepEqual(stats, [
+                {checksTriggeredTotal: 1, checksRunTotal: 1, actionsRunTotal: 1},
+                {checksTriggeredTotal: 0, checksRunTotal: 1, actionsRunTotal: 0},
+            ]);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import {describe, it} from 'mocha';
+import {assert} from 'chai';
+import NaiveBayesClassifier, {NaiveBayesExample, tokenize} from "../src/Utils/NaiveBayesClassifier";
+
+const examples: NaiveBayesExample[] = [
+    {text: 'buy cheap followers now at https://spam.example.com/deal', label: 'removed'},
+    {text: 'cheap followers and likes, buy now', label: 'removed'},
+    {text: 'click here for free crypto giveaway', label: 'removed'},
+    {text: 'free giveaway, click here to buy', label: 'removed'},
+    {text: 'I think the author makes a good point about the plot', label: 'approved'},
+    {text: 'Great write up, the second chapter was my favorite', label: 'approved'},
+    {text: 'Does anyone know when the next chapter comes out?', label: 'approved'},
+    {text: 'The plot twist in this chapter was a good surprise', label: 'approved'},
+];
+
+describe('Naive Bayes Classifier', function () {
+
+    describe('Tokenizing', function () {
+        it('should lower-case words and drop single characters', function () {
+            assert.deepEqual(tokenize('Hello A World'), ['hello', 'world']);
+        });
+        it('should replace urls with their domain', function () {
+            assert.deepEqual(tokenize('see https://www.example.com/some/page'), ['see', 'url_example_com']);
+        });
+    });
+
+    describe('Training', function () {
+        it('should count documents and tokens for each label', function () {
+            const {model} = NaiveBayesClassifier.train(examples);
+            assert.sameMembers(model.labels, ['removed', 'approved']);
+            assert.equal(model.docCounts.removed, 4);
+            assert.equal(model.docCounts.approved, 4);
+            assert.equal(model.tokenCounts.removed.cheap, 2);
+            assert.isUndefined(model.tokenCounts.approved.cheap);
+        });
+        it('should count a token once per document', function () {
+            const {model} = NaiveBayesClassifier.train([{text: 'spam spam spam', label: 'removed'}]);
+            assert.equal(model.tokenCounts.removed.spam, 1);
+            assert.equal(model.tokenTotals.removed, 1);
+        });
+        it('should limit vocabulary to the most frequent tokens', function () {
+            const {model} = NaiveBayesClassifier.train(examples, 3);
+            assert.equal(model.vocabularySize, 3);
+            assert.hasAllKeys(model.tokenCounts.approved, ['chapter', 'the']);
+        });
+    });
+
+    describe('Predicting', function () {
+        it('should predict the most likely label', function () {
+            const classifier = NaiveBayesClassifier.train(examples);
+            assert.equal(classifier.predict('buy cheap followers').label, 'removed');
+            assert.equal(classifier.predict('what a good chapter').label, 'approved');
+        });
+        it('should return probabilities that sum to 1', function () {
+            const {probabilities} = NaiveBayesClassifier.train(examples).predict('free followers for the chapter');
+            assert.closeTo(probabilities.removed + probabilities.approved, 1, 0.0001);
+        });
+        it('should use only label priors when no tokens were seen in training', function () {
+            const {probabilities} = NaiveBayesClassifier.train(examples).predict('completely unrelated words');
+            assert.closeTo(probabilities.removed, 0.5, 0.0001);
+        });
+        it('should predict from a model restored from JSON', function () {
+            const trained = NaiveBayesClassifier.train(examples);
+            const restored = new NaiveBayesClassifier(JSON.parse(JSON.stringify(trained.model)));
+            assert.deepEqual({...restored.predict('buy cheap followers').probabilities}, {...trained.predict('buy cheap followers').probabilities});
+        });
+    });
+
+    describe('Object prototype keys', function () {
+        const protoExamples: NaiveBayesExample[] = [
+            ...examples,
+            {text: 'the constructor of this chapter __proto__', label: 'approved'},
+        ];
+
+        it('should train with tokens that are Object prototype properties', function () {
+            const {model} = NaiveBayesClassifier.train(protoExamples);
+            const approved: Record<string, number> = model.tokenCounts.approved;
+            assert.equal(approved['constructor'], 1);
+            assert.equal(approved['__proto__'], 1);
+            assert.isFalse(Object.prototype.hasOwnProperty.call(model.tokenCounts.removed, 'constructor'));
+            assert.isTrue(Object.prototype.hasOwnProperty.call(JSON.parse(JSON.stringify(model)).tokenCounts.approved, '__proto__'));
+        });
+        it('should not predict NaN for Object prototype properties', function () {
+            const trained = NaiveBayesClassifier.train(examples);
+            for (const classifier of [trained, new NaiveBayesClassifier(JSON.parse(JSON.stringify(trained.model)))]) {
+                const {probabilities} = classifier.predict('constructor __proto__ hasOwnProperty tostring valueof');
+                assert.isFalse(Number.isNaN(probabilities.removed));
+                assert.closeTo(probabilities.removed, 0.5, 0.0001);
+            }
+        });
+        it('should predict with a model restored from JSON that learned Object prototype properties', function () {
+            const classifier = new NaiveBayesClassifier(JSON.parse(JSON.stringify(NaiveBayesClassifier.train(protoExamples).model)));
+            const {label, probabilities} = classifier.predict('constructor __proto__');
+            assert.equal(label, 'approved');
+            assert.isFalse(Number.isNaN(probabilities.removed));
+        });
+        it('should support labels that are Object prototype properties', function () {
+            const classifier = NaiveBayesClassifier.train([
+                {text: 'buy cheap followers', label: 'constructor'},
+                {text: 'good chapter plot', label: 'toString'},
+            ]);
+            const {label, probabilities} = classifier.predict('cheap followers');
+            assert.equal(label, 'constructor');
+            const labelProbabilities: Record<string, number> = probabilities;
+            assert.closeTo(labelProbabilities['constructor'] + labelProbabilities['toString'], 1, 0.0001);
+        });
+    });
+});
@@ -0,0 +1,187 @@
+import {describe, it} from 'mocha';
+import {assert} from 'chai';
+import dayjs from "dayjs";
+import dduration from 'dayjs/plugin/duration.js';
+import relTime from 'dayjs/plugin/relativeTime.js';
+import NotificationManager, {eventPassesFilter} from "../src/Notification/NotificationManager";
+import {buildDigestContent, DigestEntry} from "../src/Notification/NotificationDigest";
+import {NotificationContent, Notifier} from "../src/Common/interfaces";
+import {NoopLogger} from "../src/Utils/loggerFactory";
+import AbstractNotifier from "../src/Notification/AbstractNotifier";
+
+dayjs.extend(dduration);
+dayjs.extend(relTime);
+
+const digestEntry = (content: NotificationContent, secondsAgo = 0): DigestEntry => ({
+    content,
+    receivedAt: dayjs().subtract(secondsAgo, 'seconds'),
+});
+
+const recordingNotifier = (name: string, sent: NotificationContent[]): Notifier => ({
+    name,
+    type: 'webhook',
+    handle: async (val: NotificationContent) => {
+        sent.push(val);
+    },
+    destroy: async () => {
+    },
+});
+
+class RecordingNotifier extends AbstractNotifier {
+    type = 'webhook';
+    sent: NotificationContent[] = [];
+
+    constructor(window?: string) {
+        super({name: 'recording', type: 'webhook', digest: window === undefined ? undefined : {window}} as any, 'bot', 'r/test', NoopLogger);
+    }
+
+    get pendingTimeout() {
+        return this.digestTimeout;
+    }
+
+    protected async send(val: NotificationContent): Promise<void> {
+        this.sent.push(val);
+    }
+}
+
+describe('Notifications', function () {
+
+    describe('Manager', function () {
+        it('should send to notifiers subscribed to any of the event types only once', async function () {
+            const manager = new NotificationManager(NoopLogger, {} as any, 'test', 'bot');
+            const sent: NotificationContent[] = [];
+            manager.notifiers = [recordingNotifier('hook', sent)];
+            manager.events = [['runStateChanged', 'rateLimitLow']];
+
+            await manager.handle(['rateLimitLow', 'runStateChanged'], 'Soft Limit Triggered', 'slowed');
+            assert.lengthOf(sent, 1);
+            assert.equal(sent[0].type, 'rateLimitLow');
+        });
+        it('should send to notifiers subscribed to only a secondary event type', async function () {
+            const manager = new NotificationManager(NoopLogger, {} as any, 'test', 'bot');
+            const sent: NotificationContent[] = [];
+            const other: NotificationContent[] = [];
+            manager.notifiers = [recordingNotifier('hook', sent), recordingNotifier('other', other)];
+            manager.events = [{types: ['runStateChanged'], providers: ['hook']}, {types: ['configUpdated'], providers: ['other']}];
+
+            await manager.handle(['rateLimitLow', 'runStateChanged'], 'Soft Limit Triggered', 'slowed');
+            assert.lengthOf(sent, 1);
+            assert.lengthOf(other, 0);
+        });
+    });
+
+    describe('Event Filters', function () {
+        it('should pass when filter is empty', function () {
+            assert.isTrue(eventPassesFilter({}, {check: 'spam', actions: ['remove']}));
+        });
+        it('should match check names case-insensitive', function () {
+            assert.isTrue(eventPassesFilter({checks: ['SpamCheck']}, {check: 'spamcheck'}));
+            assert.isFalse(eventPassesFilter({checks: ['SpamCheck']}, {check: 'repost'}));
+        });
+        it('should pass when any filtered action was run', function () {
+            assert.isTrue(eventPassesFilter({actions: ['ban', 'remove']}, {actions: ['report', 'remove']}));
+            assert.isFalse(eventPassesFilter({actions: ['ban']}, {actions: ['report', 'remove']}));
+        });
+        it('should require both checks and actions to match', function () {
+            assert.isFalse(eventPassesFilter({checks: ['spam'], actions: ['ban']}, {check: 'spam', actions: ['remove']}));
+            assert.isTrue(eventPassesFilter({checks: ['spam'], actions: ['remove']}, {check: 'spam', actions: ['remove']}));
+        });
+        it('should ignore filter properties the event has no context for', function () {
+            assert.isTrue(eventPassesFilter({checks: ['spam'], actions: ['ban']}));
+            assert.isTrue(eventPassesFilter({checks: ['spam']}, {actions: ['remove']}));
+        });
+    });
+
+    describe('Digests', function () {
+        const window = dayjs.duration(1, 'hour');
+
+        it('should group actioned events by check with action and author counts', function () {
+            const content = buildDigestContent([
+                digestEntry({title: 'Check Triggered', type: 'eventActioned', context: {check: 'spam', actions: ['remove', 'ban'], author: 'userA'}}, 30),
+                digestEntry({title: 'Check Triggered', type: 'eventActioned', context: {check: 'spam', actions: ['remove'], author: 'userB'}}, 20),
+                digestEntry({title: 'Check Triggered', type: 'eventActioned', context: {check: 'repost', actions: ['report'], author: 'userA'}}, 10),
+            ], 'r/test', window);
+
+            assert.equal(content.title, 'Notification Digest for r/test (3 Events)');
+            assert.equal(content.body, [
+                '**Checks Triggered**',
+                '* "spam" (2)',
+                '  * Actions: Remove (2), Ban (1)',
+                '  * Authors: u/userA (1), u/userB (1)',
+                '* "repost" (1)',
+                '  * Actions: Report (1)',
+                '  * Authors: u/userA (1)',
+            ].join('\n'));
+        });
+        it('should group other events by title', function () {
+            const content = buildDigestContent([
+                digestEntry({title: 'Config Updated', type: 'configUpdated'}),
+                digestEntry({title: 'Config Updated', type: 'configUpdated'}),
+                digestEntry({title: 'Run State Changed', type: 'runStateChanged'}),
+            ], 'r/test', window);
+
+            assert.equal(content.body, [
+                '**Other Events**',
+                '* Config Updated (2)',
+                '* Run State Changed',
+            ].join('\n'));
+        });
+        it('should list distinct bodies of other events under their title', function () {
+            const content = buildDigestContent([
+                digestEntry({title: 'Polling Error', type: 'pollingError', body: 'Reddit returned 503'}),
+                digestEntry({title: 'Polling Error', type: 'pollingError', body: 'Reddit returned 503'}),
+                digestEntry({title: 'Polling Error', type: 'pollingError', body: 'Timed out\nWill retry'}),
+            ], 'r/test', window);
+
+            assert.equal(content.body, [
+                '**Other Events**',
+                '* Polling Error (3)',
+                '  * Reddit returned 503 (2)',
+                '  * Timed out',
+                '    Will retry',
+            ].join('\n'));
+        });
+        it('should list checks before other events', function () {
+            const content = buildDigestContent([
+                digestEntry({title: 'Config Updated', type: 'configUpdated'}),
+                digestEntry({title: 'Check Triggered', type: 'eventActioned', context: {check: 'spam'}}),
+            ], 'r/test', window);
+
+            assert.equal(content.body, [
+                '**Checks Triggered**',
+                '* "spam" (1)',
+                '',
+                '**Other Events**',
+                '* Config Updated',
+            ].join('\n'));
+        });
+        it('should use the most severe log level', function () {
+            const content = buildDigestContent([
+                digestEntry({title: 'A', logLevel: 'info'}),
+                digestEntry({title: 'B', logLevel: 'error'}),
+                digestEntry({title: 'C', logLevel: 'warn'}),
+            ], 'r/test', window);
+            assert.equal(content.logLevel, 'error');
+        });
+        it('should include the digest window in the footer', function () {
+            const content = buildDigestContent([digestEntry({title: 'A'})], 'r/test', window);
+            assert.include(content.footer, 'Digest window of an hour');
+        });
+        it('should not keep the process alive while waiting to send a digest', async function () {
+            const notifier = new RecordingNotifier('1 hour');
+            await notifier.handle({title: 'Config Updated', type: 'configUpdated'});
+            assert.lengthOf(notifier.sent, 0);
+            assert.isDefined(notifier.pendingTimeout);
+            assert.isFalse((notifier.pendingTimeout as NodeJS.Timeout).hasRef());
+            await notifier.destroy();
+        });
+        it('should send pending digest when destroyed', async function () {
+            const notifier = new RecordingNotifier('1 hour');
+            await notifier.handle({title: 'Config Updated', type: 'configUpdated', body: 'Updated by u/mod'});
+            await notifier.destroy();
+            assert.lengthOf(notifier.sent, 1);
+            assert.include(notifier.sent[0].body, 'Updated by u/mod');
+            assert.isUndefined(notifier.pendingTimeout);
+        });
+    });
+});
@@ -0,0 +1,160 @@
+import {describe, it} from 'mocha';
+import {assert} from 'chai';
+import dayjs from "dayjs";
+import utc from 'dayjs/plugin/utc.js';
+import advancedFormat from 'dayjs/plugin/advancedFormat';
+import tz from 'dayjs/plugin/timezone';
+import dduration from 'dayjs/plugin/duration.js';
+import relTime from 'dayjs/plugin/relativeTime.js';
+import sameafter from 'dayjs/plugin/isSameOrAfter.js';
+import samebefore from 'dayjs/plugin/isSameOrBefore.js';
+import weekOfYear from 'dayjs/plugin/weekOfYear.js';
+import {parseReplayFixtures, ReplayFixtures, runReplay} from "../src/Replay";
+import {normalizeActivityFixture, ReplaySnoowrap} from "../src/Replay/ReplaySnoowrap";
+
+dayjs.extend(utc);
+dayjs.extend(dduration);
+dayjs.extend(relTime);
+dayjs.extend(sameafter);
+dayjs.extend(samebefore);
+dayjs.extend(tz);
+dayjs.extend(advancedFormat);
+dayjs.extend(weekOfYear);
+
+const config = `
+runs:
+  - name: spam
+    checks:
+      - name: freeKarma
+        kind: submission
+        rules:
+          - kind: regex
+            criteria:
+              - regex: '/free karma/i'
+                testOn: [title]
+        actions:
+          - kind: remove
+`;
+
+const fixtures = (data: Partial<ReplayFixtures> = {}): ReplayFixtures => ({
+    subreddit: 'mySubreddit',
+    activities: [
+        {name: 't3_abc123', title: 'Get FREE KARMA here', selftext: '', url: 'https://example.com', author: 'aUser', created_utc: 1666000000},
+        {name: 't3_def456', title: 'A normal post', selftext: '', url: 'https://example.com', author: 'aUser', created_utc: 1666000100},
+    ],
+    authors: [
+        {name: 'aUser', created_utc: 1600000000, link_karma: 10, comment_karma: 200},
+    ],
+    ...data,
+});
+
+describe('Replay', function () {
+
+    describe('Fixtures', function () {
+        it('should parse fixtures as JSON or YAML', function () {
+            assert.equal(parseReplayFixtures(JSON.stringify(fixtures())).subreddit, 'mySubreddit');
+            assert.lengthOf(parseReplayFixtures(`subreddit: mySubreddit\nactivities:\n  - name: t3_abc123\n`).activities, 1);
+        });
+        it('should throw if subreddit is missing', function () {
+            assert.throws(() => parseReplayFixtures(JSON.stringify({activities: [{name: 't3_abc123'}]})));
+        });
+        it('should throw if there are no activities', function () {
+            assert.throws(() => parseReplayFixtures(JSON.stringify({subreddit: 'mySubreddit', activities: []})));
+        });
+        it('should normalize activity data into a Thing', function () {
+            const thing = normalizeActivityFixture({name: 't1_abc123', body: 'Great post!'}, 'mySubreddit');
+            assert.equal(thing.kind, 't1');
+            assert.equal(thing.data.id, 'abc123');
+            assert.equal(thing.data.subreddit, 'mySubreddit');
+            assert.equal(thing.data.replies, '');
+        });
+        it('should add a permalink if missing', function () {
+            assert.equal(normalizeActivityFixture({name: 't3_abc123'}, 'mySubreddit').data.permalink, '/r/mySubreddit/comments/abc123/');
+            assert.equal(normalizeActivityFixture({name: 't1_def456', link_id: 't3_abc123'}, 'mySubreddit').data.permalink, '/r/mySubreddit/comments/abc123/_/def456/');
+        });
+        it('should add fullname to a Thing with only an id', function () {
+            assert.equal(normalizeActivityFixture({kind: 't3', data: {id: 'abc123'}}, 'mySubreddit').data.name, 't3_abc123');
+        });
+        it('should throw if fixture is not a Submission or Comment', function () {
+            assert.throws(() => normalizeActivityFixture({name: 't2_abc123'}, 'mySubreddit'));
+            assert.throws(() => normalizeActivityFixture({kind: 't5', data: {id: 'abc123'}}, 'mySubreddit'));
+            assert.throws(() => normalizeActivityFixture({title: 'No name'}, 'mySubreddit'));
+        });
+    });
+
+    describe('Client', function () {
+        const client = new ReplaySnoowrap({
+            botName: 'ContextModReplay',
+            subreddit: {display_name: 'mySubreddit'},
+            activities: fixtures().activities.map(x => normalizeActivityFixture(x, 'mySubreddit')),
+            authors: [],
+            wiki: {},
+            moderators: ['ContextModReplay'],
+        });
+
+        it('should answer requests from fixtures', async function () {
+            const res = await client.rawRequest({method: 'get', uri: 'api/info', qs: {id: 't3_def456'}});
+            assert.equal(res.body.data.children[0].data.title, 'A normal post');
+        });
+        it('should respond not found for data not in fixtures', async function () {
+            try {
+                await client.rawRequest({method: 'get', uri: 'r/mySubreddit/wiki/usernotes'});
+            } catch (e: any) {
+                assert.equal(e.statusCode, 404);
+                return;
+            }
+            assert.fail('Expected request to fail');
+        });
+        it('should not send requests that modify reddit', async function () {
+            try {
+                await client.rawRequest({method: 'post', uri: 'api/remove', form: {id: 't3_abc123'}});
+            } catch (e: any) {
+                assert.include(e.message, 'Replay cannot send POST');
+                return;
+            }
+            assert.fail('Expected request to fail');
+        });
+    });
+
+    describe('Running', function () {
+        this.timeout(30000);
+
+        it('should run activities through config with dry run', async function () {
+            const results = await runReplay(fixtures(), config);
+            assert.lengthOf(results, 2);
+
+            const [spam, normal] = results;
+            assert.equal(spam.id, 't3_abc123');
+            assert.equal(spam.kind, 'submission');
+            assert.isTrue(spam.processed);
+            assert.isTrue(spam.triggered);
+            const check = spam.runs[0].checks[0];
+            assert.equal(check.name, 'freeKarma');
+            assert.isTrue(check.triggered);
+            assert.lengthOf(check.actions, 1);
+            assert.equal(check.actions[0].kind, 'remove');
+            assert.isTrue(check.actions[0].dryRun);
+            assert.isTrue(check.actions[0].success);
+
+            assert.isTrue(normal.processed);
+            assert.isFalse(normal.triggered);
+            assert.isFalse(normal.runs[0].checks[0].triggered);
+        });
+        it('should only run checks with given names', async function () {
+            const [named] = await runReplay(fixtures(), config, {checkNames: ['free karma']});
+            assert.isTrue(named.triggered);
+            const [other] = await runReplay(fixtures(), config, {checkNames: ['otherCheck']});
+            assert.isFalse(other.triggered);
+            assert.lengthOf(other.runs[0].checks, 0);
+        });
+        it('should throw if config is not valid', async function () {
+            try {
+                await runReplay(fixtures(), 'runs: 1');
+            } catch (e: any) {
+                assert.include(e.message, 'Could not load subreddit config');
+                return;
+            }
+            assert.fail('Expected replay to fail');
+        });
+    });
+});
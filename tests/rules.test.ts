@@ -0,0 +1,236 @@
+import {describe, it} from 'mocha';
+import {assert} from 'chai';
+import dayjs from "dayjs";
+import dduration from 'dayjs/plugin/duration.js';
+import utc from 'dayjs/plugin/utc.js';
+import relTime from 'dayjs/plugin/relativeTime.js';
+import {RedditUser, Submission} from "snoowrap/dist/objects";
+import BanEvasionRule, {usernameSimilarity} from "../src/Rule/BanEvasionRule";
+import {sharedCache, stubResources} from "./testFactory";
+import NaiveBayesClassifier from "../src/Utils/NaiveBayesClassifier";
+import {SubredditResources} from "../src/Subreddit/SubredditResources";
+import {NoopLogger} from "../src/Utils/loggerFactory";
+import {ExtendedSnoowrap} from "../src/Utils/SnoowrapClients";
+import {runCheckOptions} from "../src/Subreddit/Manager";
+import CoordinatedContentRule from "../src/Rule/CoordinatedContentRule";
+import {BrigadeRule} from "../src/Rule/BrigadeRule";
+
+dayjs.extend(dduration);
+dayjs.extend(utc);
+dayjs.extend(relTime);
+
+const client = new ExtendedSnoowrap({userAgent: 'test', accessToken: 'test'});
+
+const runOptions = (data: Partial<runCheckOptions> = {}) => ({dryRun: false, ...data} as runCheckOptions);
+
+const ruleOptions = (resources: SubredditResources) => ({
+    subredditName: 'test',
+    client,
+    resources,
+    logger: NoopLogger,
+});
+
+const submission = (id: string, author: string, title: string, data: object = {}) => new Submission({
+    name: `t3_${id}`,
+    author: new RedditUser({name: author}, client, false),
+    title,
+    is_self: true,
+    selftext: '',
+    permalink: `/r/test/comments/${id}/`,
+    created_utc: dayjs().unix(),
+    ...data,
+}, client, false);
+
+describe('Rules', function () {
+
+    describe('Ban Evasion', function () {
+        it('should not use the ban list of a different subreddit using the same cache', async function () {
+            const cache = sharedCache();
+            const banListResources = (subreddit: string, bannedName: string) => stubResources({
+                cache,
+                ttl: {subredditTTL: 60},
+                logger: NoopLogger,
+                subreddit: {
+                    display_name: subreddit,
+                    getBannedUsers: async () => [{name: bannedName, date: dayjs().unix(), note: ''}],
+                },
+            });
+            assert.equal((await banListResources('SubA', 'BannedInA').getSubredditBannedUsers(100))[0].name, 'BannedInA');
+            assert.equal((await banListResources('SubB', 'BannedInB').getSubredditBannedUsers(100))[0].name, 'BannedInB');
+        });
+
+        describe('Confidence', function () {
+            const banEvasionResources = (authorHistory: object[], bannedHistory: object[]) => stubResources({
+                subreddit: {display_name: 'test'},
+                getSubredditBannedUsers: async () => [{name: 'SpamUser', bannedAt: dayjs().subtract(1, 'day').unix(), source: 'banList'}],
+                getAuthor: async () => ({created_utc: dayjs().unix()}),
+                getAuthorActivities: async (user: RedditUser) => user.name === 'SpamUser' ? bannedHistory : authorHistory,
+            });
+            const subredditActivity = (subreddit: string) => ({subreddit: {display_name: subreddit}});
+
+            it('should leave out history scores that are not available', function () {
+                const rule = new BanEvasionRule({sources: ['banList'], ...ruleOptions(banEvasionResources([], []))});
+                assert.closeTo(rule.getConfidence({username: 80, accountAge: 100}), ((80 * 40) + (100 * 20)) / 60, 0.0001);
+                assert.closeTo(rule.getConfidence({username: 80, accountAge: 100, subreddits: 0}), ((80 * 40) + (100 * 20)) / 80, 0.0001);
+            });
+            it('should trigger for a fresh account with a similar name when there is no history to compare', async function () {
+                const resources = banEvasionResources([], [subredditActivity('AskReddit'), subredditActivity('pics')]);
+                const rule = new BanEvasionRule({sources: ['banList'], ...ruleOptions(resources)});
+                const [triggered, result] = await rule.run(submission('b1', 'SpamUser2', 'Hello again'), [], runOptions());
+                assert.isTrue(triggered);
+                assert.equal(result.data.matchedUsers, 'SpamUser');
+            });
+            it('should lower confidence when histories are available and do not overlap', async function () {
+                const resources = banEvasionResources([subredditActivity('gardening')], [subredditActivity('AskReddit')]);
+                const rule = new BanEvasionRule({sources: ['banList'], ...ruleOptions(resources)});
+                const [triggered] = await rule.run(submission('b1', 'SpamUser2', 'Hello again'), [], runOptions());
+                assert.isFalse(triggered);
+            });
+        });
+
+        describe('Username Similarity', function () {
+            it('should be 100 for identical names', function () {
+                assert.closeTo(usernameSimilarity('SpamUser', 'SpamUser'), 100, 0.0001);
+            });
+            it('should be 0 for names with nothing in common', function () {
+                assert.equal(usernameSimilarity('abc', 'xyz'), 0);
+            });
+            it('should be high when only separators differ', function () {
+                assert.isAbove(usernameSimilarity('SpamUser', 'Spam_User'), 90);
+            });
+            it('should match rearranged camelCase terms', function () {
+                assert.closeTo(usernameSimilarity('SpamUser', 'UserSpam'), 50, 0.0001);
+                assert.isBelow(usernameSimilarity('SpamUser', 'CatLover'), 20);
+            });
+            it('should be high for names with an incremented number', function () {
+                assert.isAbove(usernameSimilarity('Jon_Smith_1990', 'jon_smith_1991'), 75);
+                assert.isAbove(usernameSimilarity('SpamUser2', 'SpamUser3'), 75);
+            });
+            it('should be symmetric', function () {
+                assert.closeTo(usernameSimilarity('SpamUser2', 'Spam_User'), usernameSimilarity('Spam_User', 'SpamUser2'), 0.0001);
+            });
+        });
+    });
+
+    describe('Text Classifier', function () {
+        it('should not share a trained model between subreddits using the same cache', async function () {
+            const cache = sharedCache();
+            const subA = stubResources({cache, subreddit: {display_name: 'SubA'}});
+            const subB = stubResources({cache, subreddit: {display_name: 'SubB'}});
+            const {model} = NaiveBayesClassifier.train([{text: 'buy cheap followers', label: 'removed'}]);
+
+            await subA.setTextClassifierModel('key', model, 60);
+            assert.isDefined(await subA.getTextClassifierModel('key'));
+            assert.isUndefined(await subB.getTextClassifierModel('key'));
+        });
+    });
+
+    describe('Coordinated Content', function () {
+        const copypasta = 'Check out this amazing deal on discounted sneakers before it is gone';
+        const coordinatedResources = (cache = sharedCache(), subreddit = 'test') => stubResources({
+            cache,
+            subreddit: {display_name: subreddit},
+            coordinatedContentIndexUpdates: new Map(),
+        });
+        const coordinatedRule = (resources: SubredditResources) => new CoordinatedContentRule({threshold: '>= 3', ...ruleOptions(resources)});
+
+        it('should trigger when enough other Authors posted similar content', async function () {
+            const rule = coordinatedRule(coordinatedResources());
+            assert.isFalse((await rule.run(submission('a1', 'UserA', copypasta), [], runOptions()))[0]);
+            assert.isFalse((await rule.run(submission('a2', 'UserB', `${copypasta}!`), [], runOptions()))[0]);
+            const [triggered, result] = await rule.run(submission('a3', 'UserC', copypasta.toUpperCase()), [], runOptions());
+            assert.isTrue(triggered);
+            assert.equal(result.data.authorCount, 3);
+        });
+        it('should not count the same Author twice', async function () {
+            const rule = coordinatedRule(coordinatedResources());
+            await rule.run(submission('a1', 'UserA', copypasta), [], runOptions());
+            await rule.run(submission('a2', 'UserA', copypasta), [], runOptions());
+            const [triggered, result] = await rule.run(submission('a3', 'UserB', copypasta), [], runOptions());
+            assert.isFalse(triggered);
+            assert.equal(result.data.authorCount, 2);
+        });
+        it('should not match dissimilar content', async function () {
+            const rule = coordinatedRule(coordinatedResources());
+            await rule.run(submission('a1', 'UserA', copypasta), [], runOptions());
+            await rule.run(submission('a2', 'UserB', 'What is everyone reading this week? I just started a new fantasy series'), [], runOptions());
+            const [, result] = await rule.run(submission('a3', 'UserC', copypasta), [], runOptions());
+            assert.equal(result.data.matchCount, 1);
+        });
+        it('should not add Activities to the index on dry run', async function () {
+            const rule = coordinatedRule(coordinatedResources());
+            await rule.run(submission('a1', 'UserA', copypasta), [], runOptions({dryRun: true}));
+            const [, result] = await rule.run(submission('a2', 'UserB', copypasta), [], runOptions());
+            assert.equal(result.data.matchCount, 0);
+        });
+        it('should not match content from a different subreddit using the same cache', async function () {
+            const cache = sharedCache();
+            await coordinatedRule(coordinatedResources(cache, 'SubA')).run(submission('a1', 'UserA', copypasta), [], runOptions());
+            const [, result] = await coordinatedRule(coordinatedResources(cache, 'SubB')).run(submission('a2', 'UserB', copypasta), [], runOptions());
+            assert.equal(result.data.matchCount, 0);
+        });
+    });
+
+    describe('Brigade', function () {
+        /**
+         * Resources for a subreddit where a thread has comments from the given commenters
+         *
+         * Records the number of times the thread's comments are fetched
+         * */
+        const brigadeResources = (commenters: { name: string, history: string[] }[], cache = sharedCache(), subreddit = 'test') => {
+            const fetches: string[] = [];
+            const resources = stubResources({
+                cache,
+                subreddit: {display_name: subreddit},
+                client: {
+                    getNewSubmissionComments: async (id: string) => {
+                        fetches.push(id);
+                        return commenters.map(x => ({author: x.name, is_submitter: false, created_utc: dayjs().unix()}));
+                    },
+                },
+                getAuthorActivities: async (user: RedditUser) => (commenters.find(x => x.name === user.name)?.history ?? [])
+                    .map(x => ({subreddit: {display_name: x}, name: 't3_other', created_utc: dayjs().unix()})),
+            });
+            return {resources, fetches};
+        }
+        const brigaders = (count: number) => Array.from({length: count}, (_, i) => ({name: `Brigader${i}`, history: ['OtherSub']}));
+        const regulars = (count: number) => Array.from({length: count}, (_, i) => ({name: `Regular${i}`, history: ['test']}));
+        const brigadeRule = (resources: SubredditResources) => new BrigadeRule({...ruleOptions(resources)});
+        const thread = submission('thread', 'OP', 'A thread');
+
+        it('should trigger when most commenters are new and recently active in the same subreddit', async function () {
+            const {resources} = brigadeResources([...brigaders(4), ...regulars(2)]);
+            const [triggered, result] = await brigadeRule(resources).run(thread, [], runOptions());
+            assert.isTrue(triggered);
+            assert.equal(result.data.source, 'OtherSub');
+            assert.equal(result.data.newCommenterCount, 4);
+        });
+        it('should not trigger when most commenters have history in the subreddit', async function () {
+            const {resources} = brigadeResources([...brigaders(2), ...regulars(4)]);
+            const [triggered] = await brigadeRule(resources).run(thread, [], runOptions());
+            assert.isFalse(triggered);
+        });
+        it('should re-use the result for the same thread', async function () {
+            const {resources, fetches} = brigadeResources(brigaders(6));
+            await brigadeRule(resources).run(thread, [], runOptions());
+            const [triggered] = await brigadeRule(resources).run(thread, [], runOptions());
+            assert.isTrue(triggered);
+            assert.lengthOf(fetches, 1);
+        });
+        it('should not re-use a result when there were fewer than minimum commenters', async function () {
+            const {resources, fetches} = brigadeResources(brigaders(2));
+            await brigadeRule(resources).run(thread, [], runOptions());
+            await brigadeRule(resources).run(thread, [], runOptions());
+            assert.lengthOf(fetches, 2);
+        });
+        it('should not re-use a result from a different subreddit using the same cache', async function () {
+            const cache = sharedCache();
+            const subA = brigadeResources(brigaders(6), cache, 'SubA');
+            const subB = brigadeResources(regulars(6).map(x => ({...x, history: ['SubB']})), cache, 'SubB');
+            await brigadeRule(subA.resources).run(thread, [], runOptions());
+            const [triggered] = await brigadeRule(subB.resources).run(thread, [], runOptions());
+            assert.isFalse(triggered);
+            assert.lengthOf(subB.fetches, 1);
+        });
+    });
+});
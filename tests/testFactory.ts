@@ -1,4 +1,4 @@
-import {OperatorConfig, OperatorJsonConfig} from "../src/Common/interfaces";
+import {CacheOptions, OperatorConfig, OperatorJsonConfig} from "../src/Common/interfaces";
 import Snoowrap from "snoowrap";
 import Bot from "../src/Bot/index"
 import {buildOperatorConfigWithDefaults, insertNameFilters} from "../src/ConfigBuilder";
@@ -17,6 +17,7 @@ import {
 } from "../src/Common/Infrastructure/Filters/FilterShapes";
 import {AuthorCriteria} from "../src";
 import {TypedActivityState} from "../src/Common/Infrastructure/Filters/FilterCriteria";
+import {CMCache, createCacheManager} from "../src/Common/Cache";
 
 const mockSnoowrap = new Snoowrap({userAgent: 'test', accessToken: 'test'});
 
@@ -110,6 +111,19 @@ export const getResource = async () => {
     return resource;
 }
 
+/**
+ * A SubredditResources with only the given properties replaced, so methods that depend on them can be tested without reddit
+ * */
+export const stubResources = (props: object): SubredditResources => Object.assign(Object.create(SubredditResources.prototype), props);
+
+/**
+ * A memory cache, like the default cache used by all subreddits that do not have their own caching config
+ * */
+export const sharedCache = (): CMCache => {
+    const options: CacheOptions = {store: 'memory', max: 500, ttl: 60};
+    return new CMCache(createCacheManager(options), options, true, undefined, {}, NoopLogger);
+}
+
 // @ts-ignore
 export const getSubreddit = async () => {
     if (subreddit === undefined) {
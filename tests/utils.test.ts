@@ -5,12 +5,15 @@ import {
     GH_BLOB_REGEX,
     GIST_RAW_REGEX,
     GIST_REGEX,
+    isNonPublicAddress,
     parseDurationFromString,
     parseLinkIdentifier,
     parseRedditEntity,
     parseRegexSingleOrFail,
     REGEXR_REGEX,
     removeUndefinedKeys,
+    stringSameness,
+    stringSamenessUpperBound,
     strToActivitySourceData,
     SUBMISSION_URL_ID
 } from "../src/util";
@@ -19,9 +22,11 @@ import dduration, {Duration, DurationUnitType} from 'dayjs/plugin/duration.js';
 import {
     parseDurationComparison,
     parseGenericValueComparison,
-    parseGenericValueOrPercentComparison, parseReportComparison
+    parseGenericValueOrPercentComparison, parseReportComparison,
+    parseScoreCondition,
+    testScoreCondition
 } from "../src/Common/Infrastructure/Comparisons";
-import {RegExResult} from "../src/Common/interfaces";
+import {RegExResult, RuleScoreContribution} from "../src/Common/interfaces";
 import {SOURCE_DISPATCH, SOURCE_POLL, SOURCE_USER} from "../src/Common/Infrastructure/Atomic";
 
 dayjs.extend(dduration);
@@ -239,6 +244,68 @@ describe('Report Comparison Operations', function () {
     });
 });
 
+describe('Score Conditions', function () {
+
+    const contribution = (weight: number, triggered: boolean | null): RuleScoreContribution => ({
+        name: 'test',
+        weight,
+        triggered,
+        contribution: triggered === true ? weight : 0,
+    });
+
+    describe('Parsing', function () {
+        it('should parse operator and value', function () {
+            const result = parseScoreCondition('score >= 3');
+            assert.equal(result.operator, '>=');
+            assert.equal(result.value, 3);
+        });
+        it('should accept negative and decimal values', function () {
+            assert.equal(parseScoreCondition('score > -1.5').value, -1.5);
+        });
+        it('should ignore case and whitespace', function () {
+            const result = parseScoreCondition('  Score<2  ');
+            assert.equal(result.operator, '<');
+            assert.equal(result.value, 2);
+        });
+        it('should not parse conditions without score prefix or with extra text', function () {
+            for (const val of ['>= 3', 'score >= 3 points', 'score = 3', 'score >= 3%']) {
+                assert.throws(() => parseScoreCondition(val));
+            }
+        });
+    });
+
+    describe('Testing', function () {
+        it('should sum contributions of triggered results', function () {
+            const [passed, score] = testScoreCondition([contribution(2, true), contribution(1.5, true), contribution(4, false)], parseScoreCondition('score >= 3'));
+            assert.isTrue(passed);
+            assert.equal(score, 3.5);
+        });
+        it('should fail when score does not meet condition', function () {
+            const [passed, score] = testScoreCondition([contribution(2, true), contribution(4, false)], parseScoreCondition('score >= 3'));
+            assert.isFalse(passed);
+            assert.equal(score, 2);
+        });
+        it('should include negative weights', function () {
+            const [passed, score] = testScoreCondition([contribution(3, true), contribution(-2, true)], parseScoreCondition('score < 2'));
+            assert.isTrue(passed);
+            assert.equal(score, 1);
+        });
+        it('should round away floating point noise', function () {
+            const [passed, score] = testScoreCondition([contribution(0.1, true), contribution(0.2, true)], parseScoreCondition('score <= 0.3'));
+            assert.isTrue(passed);
+            assert.equal(score, 0.3);
+        });
+        it('should not pass when all results were skipped', function () {
+            const [passed, score] = testScoreCondition([contribution(1, null), contribution(2, null)], parseScoreCondition('score < 1'));
+            assert.isFalse(passed);
+            assert.equal(score, 0);
+        });
+        it('should not pass when there are no results', function () {
+            assert.isFalse(testScoreCondition([], parseScoreCondition('score <= 0'))[0]);
+        });
+    });
+});
+
 describe('Parsing Reddit Entity strings', function () {
     it('should recognize entity name regardless of prefix', function () {
         for(const text of ['/r/anEntity', 'r/anEntity', '/u/anEntity', 'u/anEntity']) {
@@ -381,3 +448,50 @@ describe('Activity Source Parsing', function () {
         assert.equal(source.identifier, 'test');
     });
 })
+
+describe('Non-public Address Recognition', function () {
+    it('should recognize private, loopback, and link-local IPv4 addresses', function () {
+        for (const ip of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '0.0.0.0', '100.64.0.1']) {
+            assert.isTrue(isNonPublicAddress(ip), ip);
+        }
+    });
+    it('should not flag public IPv4 addresses', function () {
+        for (const ip of ['8.8.8.8', '172.32.0.1', '151.101.1.140', '100.128.0.1']) {
+            assert.isFalse(isNonPublicAddress(ip), ip);
+        }
+    });
+    it('should recognize non-public IPv6 addresses', function () {
+        for (const ip of ['::1', '::', '[::1]', 'fe80::1', 'fd12:3456::1', 'ff02::1']) {
+            assert.isTrue(isNonPublicAddress(ip), ip);
+        }
+        assert.isFalse(isNonPublicAddress('2606:4700:4700::1111'));
+    });
+    it('should check IPv4-mapped IPv6 addresses as IPv4', function () {
+        assert.isTrue(isNonPublicAddress('::ffff:127.0.0.1'));
+        // as normalized by URL
+        assert.isTrue(isNonPublicAddress(new URL('http://[::ffff:169.254.169.254]/').hostname));
+        assert.isFalse(isNonPublicAddress('::ffff:8.8.8.8'));
+    });
+    it('should not flag hostnames', function () {
+        assert.isFalse(isNonPublicAddress('example.com'));
+    });
+})
+
+describe('String Sameness', function () {
+    const pairs = [
+        ['Check out this amazing deal on discounted sneakers', 'Check out this amazing deal on discounted sneakers!'],
+        ['Check out this amazing deal on discounted sneakers', 'check out this AMAZING deal on cheap sneakers today'],
+        ['Check out this amazing deal on discounted sneakers', 'What is everyone reading this week? I just started a new fantasy series'],
+        ['short', 'a much longer piece of text that has nothing to do with it'],
+    ];
+
+    it('should never estimate an upper bound lower than the actual weighted score', function () {
+        for (const [a, b] of pairs) {
+            assert.isAtLeast(stringSamenessUpperBound(a, b), stringSameness(a, b).highScoreWeighted - 0.0001, `${a} | ${b}`);
+        }
+    });
+    it('should estimate an upper bound below a high match score for dissimilar content', function () {
+        assert.isBelow(stringSamenessUpperBound(pairs[2][0], pairs[2][1]), 85);
+        assert.isBelow(stringSamenessUpperBound(pairs[3][0], pairs[3][1]), 85);
+    });
+});